@@ -0,0 +1,375 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { useRouter } from "@/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { OrderStatusBadge } from "@/components/ui/status-badge";
+import { RouteMap, type RoutePoint } from "@/components/ui/route-map";
+import { PrintManifestDialog } from "@/components/print";
+import { Loader2, MapPinOff, Printer, RefreshCw, Route, Truck, Wallet } from "lucide-react";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSIONS } from "@/hooks/use-permissions";
+import { useDispatchOrders } from "@/hooks/queries/use-orders";
+import { useAllInventories, useCurrentInventory } from "@/hooks/queries/use-inventory";
+import { buildDeliveryRuns, type DeliveryRun } from "@/lib/dispatch/delivery-runs";
+import { toLatLng } from "@/lib/geo";
+import type { Inventory } from "@/lib/services/inventories";
+import { cn } from "@/lib/utils";
+import "@/components/print/print-styles.css";
+
+const UNASSIGNED = "unassigned";
+
+function getRunKey(run: DeliveryRun): string {
+  return run.agentId?.toString() ?? UNASSIGNED;
+}
+
+function getName(
+  value: { name?: string; name_en?: string; name_ar?: string } | null | undefined,
+  locale: string
+): string {
+  return (locale === "ar" ? value?.name_ar : value?.name_en) || value?.name || "";
+}
+
+function formatAmount(amount: number, locale: string): string {
+  return new Intl.NumberFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatKm(km: number, locale: string): string {
+  return new Intl.NumberFormat(locale === "ar" ? "ar-EG" : "en-EG", { maximumFractionDigits: 1 }).format(km);
+}
+
+export default function DispatchPage() {
+  const t = useTranslations("dispatch");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+  const router = useRouter();
+
+  const hasPermission = usePagePermission({
+    requiredPermissions: [PERMISSIONS.ASSIGN_DELIVERY_AGENT],
+  });
+
+  const { data: inventories = [], isLoading: isLoadingInventories } = useAllInventories({
+    enabled: hasPermission === true,
+  });
+  const { data: currentInventory } = useCurrentInventory();
+
+  const [inventoryId, setInventoryId] = useState<number | null>(null);
+  const [selectedRunKey, setSelectedRunKey] = useState<string | null>(null);
+  const [manifestRuns, setManifestRuns] = useState<DeliveryRun[] | null>(null);
+
+  // Default to the user's own inventory, falling back to the first one listed
+  useEffect(() => {
+    if (inventoryId) return;
+    const defaultId = currentInventory?.id || inventories[0]?.id;
+    if (defaultId) setInventoryId(defaultId);
+  }, [currentInventory, inventories, inventoryId]);
+
+  const inventory: Inventory | undefined =
+    inventories.find((inv) => inv.id === inventoryId) ||
+    (currentInventory?.id === inventoryId ? currentInventory : undefined);
+
+  const { data: orders, isLoading, isFetching, refetch } = useDispatchOrders(inventoryId);
+
+  const origin = useMemo(
+    () => (inventory ? toLatLng(inventory.latitude, inventory.longitude) : null),
+    [inventory]
+  );
+
+  const runs = useMemo(() => buildDeliveryRuns(orders || [], origin), [orders, origin]);
+
+  const selectedRun = runs.find((run) => getRunKey(run) === selectedRunKey) || runs[0];
+
+  const totals = useMemo(
+    () => ({
+      stops: runs.reduce((sum, run) => sum + run.stops.length, 0),
+      cod: runs.reduce((sum, run) => sum + run.codTotal, 0),
+      agents: runs.filter((run) => run.agentId !== null).length,
+    }),
+    [runs]
+  );
+
+  const mapPoints = useMemo<RoutePoint[]>(() => {
+    if (!selectedRun) return [];
+    const points: RoutePoint[] = [];
+    if (origin) {
+      points.push({
+        id: "inventory",
+        lat: origin.lat,
+        lng: origin.lng,
+        badge: "⌂",
+        tone: "origin",
+        popup: <p className="font-medium">{getName(inventory, locale)}</p>,
+      });
+    }
+    selectedRun.stops.forEach((stop, index) => {
+      if (!stop.position) return;
+      points.push({
+        id: stop.order.id,
+        lat: stop.position.lat,
+        lng: stop.position.lng,
+        badge: String(index + 1),
+        tone: stop.order.status === "out_for_delivery" ? "stop" : "muted",
+        popup: (
+          <div className="space-y-0.5">
+            <p className="font-mono font-medium">{stop.order.order_number}</p>
+            <p>{stop.order.customer?.name}</p>
+            {stop.codAmount > 0 && (
+              <p>
+                {t("codToCollect")}: {formatAmount(stop.codAmount, locale)} {tCommon("egp")}
+              </p>
+            )}
+          </div>
+        ),
+      });
+    });
+    return points;
+  }, [selectedRun, origin, inventory, locale, t, tCommon]);
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">{t("subtitle")}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={inventoryId?.toString() || ""}
+            onValueChange={(value) => {
+              setInventoryId(parseInt(value));
+              setSelectedRunKey(null);
+            }}
+            disabled={isLoadingInventories}
+          >
+            <SelectTrigger className="w-full sm:w-[240px] bg-background">
+              <SelectValue placeholder={t("selectInventory")} />
+            </SelectTrigger>
+            <SelectContent>
+              {inventories.map((inv) => (
+                <SelectItem key={inv.id} value={inv.id.toString()}>
+                  {getName(inv, locale)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching || !inventoryId}
+            className="gap-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            <span className="hidden sm:inline">{t("refresh")}</span>
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setManifestRuns(runs)}
+            disabled={runs.length === 0}
+            className="gap-2"
+          >
+            <Printer className="h-4 w-4" />
+            {t("printAllManifests")}
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6 flex items-center gap-3">
+            <Truck className="h-8 w-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold">{totals.agents}</p>
+              <p className="text-sm text-muted-foreground">{t("agentsOnRun")}</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 flex items-center gap-3">
+            <Route className="h-8 w-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold">{totals.stops}</p>
+              <p className="text-sm text-muted-foreground">{t("stops")}</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 flex items-center gap-3">
+            <Wallet className="h-8 w-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold">
+                {formatAmount(totals.cod, locale)} <span className="text-sm font-normal">{tCommon("egp")}</span>
+              </p>
+              <p className="text-sm text-muted-foreground">{t("codToCollect")}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 lg:grid-cols-3">
+          <Skeleton className="h-[400px] w-full" />
+          <Skeleton className="h-[400px] w-full lg:col-span-2" />
+        </div>
+      ) : runs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <div className="h-16 w-16 rounded-full bg-muted mx-auto flex items-center justify-center mb-4">
+              <Route className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="font-medium">{t("emptyTitle")}</h3>
+            <p className="text-sm text-muted-foreground mt-1">{t("emptyDesc")}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-3">
+          {/* Agent runs */}
+          <div className="space-y-3">
+            {runs.map((run) => {
+              const key = getRunKey(run);
+              const isSelected = selectedRun && getRunKey(selectedRun) === key;
+              return (
+                <Card
+                  key={key}
+                  className={cn(
+                    "cursor-pointer transition-colors hover:bg-muted/50",
+                    isSelected && "border-primary bg-primary/5"
+                  )}
+                  onClick={() => setSelectedRunKey(key)}
+                >
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-semibold truncate">
+                          {run.agent ? getName(run.agent, locale) : t("unassigned")}
+                        </p>
+                        {run.agent?.mobile && (
+                          <p className="text-xs text-muted-foreground font-mono">{run.agent.mobile}</p>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 shrink-0"
+                        aria-label={t("printManifest")}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setManifestRuns([run]);
+                        }}
+                      >
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      <Badge variant="secondary">
+                        {run.stops.length} {t("stops")}
+                      </Badge>
+                      {run.outForDeliveryCount > 0 && (
+                        <Badge variant="outline">
+                          {run.outForDeliveryCount} {t("outForDelivery")}
+                        </Badge>
+                      )}
+                      {origin && run.distanceKm > 0 && (
+                        <Badge variant="outline">~{formatKm(run.distanceKm, locale)} {t("km")}</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">{t("codToCollect")}: </span>
+                      <span className="font-semibold">
+                        {formatAmount(run.codTotal, locale)} {tCommon("egp")}
+                      </span>
+                    </p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {/* Selected run */}
+          {selectedRun && (
+            <div className="space-y-4 lg:col-span-2">
+              {!origin && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">{t("inventoryNoCoordinates")}</p>
+              )}
+              <RouteMap points={mapPoints} height="420px" />
+
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">{t("stopOrder")}</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <div className="divide-y">
+                    {selectedRun.stops.map((stop, index) => (
+                      <div
+                        key={stop.order.id}
+                        className="flex items-start gap-3 px-4 py-3 cursor-pointer hover:bg-muted/50"
+                        onClick={() => router.push(`/dashboard/orders/${stop.order.id}`)}
+                      >
+                        <div className="h-7 w-7 shrink-0 rounded-full bg-primary text-primary-foreground text-xs font-bold flex items-center justify-center">
+                          {index + 1}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-mono font-medium">{stop.order.order_number}</span>
+                            <OrderStatusBadge status={stop.order.status} statusLabel={stop.order.status_label} />
+                          </div>
+                          <p className="text-sm">{stop.order.customer?.name}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {stop.order.customer?.full_address || stop.order.customer?.address}
+                          </p>
+                          {!stop.position && (
+                            <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1 mt-0.5">
+                              <MapPinOff className="h-3 w-3" />
+                              {t("noCoordinates")}
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-end shrink-0">
+                          <p className="text-sm font-semibold">
+                            {stop.codAmount > 0
+                              ? `${formatAmount(stop.codAmount, locale)} ${tCommon("egp")}`
+                              : t("prepaid")}
+                          </p>
+                          {stop.legKm !== null && (
+                            <p className="text-xs text-muted-foreground">+{formatKm(stop.legKm, locale)} {t("km")}</p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      )}
+
+      <PrintManifestDialog
+        open={!!manifestRuns}
+        onOpenChange={(open) => !open && setManifestRuns(null)}
+        runs={manifestRuns || []}
+        inventoryName={getName(inventory, locale)}
+        t={t}
+        tCommon={tCommon}
+      />
+    </div>
+  );
+}
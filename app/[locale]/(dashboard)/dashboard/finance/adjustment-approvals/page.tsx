@@ -0,0 +1,478 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  CheckCircle2,
+  Loader2,
+  Minus,
+  Paperclip,
+  Pencil,
+  Plus,
+  ShieldCheck,
+  XCircle,
+} from "lucide-react";
+import { Link } from "@/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSIONS, PERMISSION_MODULES, useHasPermission } from "@/hooks/use-permissions";
+import {
+  approveAdjustmentRequest,
+  fetchAdjustmentApprovalPolicy,
+  fetchAdjustmentRequests,
+  getWalletOwnerName,
+  rejectAdjustmentRequest,
+  updateAdjustmentApprovalPolicy,
+  type AdjustmentRequest,
+  type SettlementUser,
+} from "@/lib/services/wallet";
+import { PAGINATION } from "@/lib/constants/pagination";
+import { formatValidationErrors, getErrorMessage } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+type RequestStatus = AdjustmentRequest["status"];
+type ReviewAction = "approve" | "reject";
+
+export default function AdjustmentApprovalsPage() {
+  const t = useTranslations("adjustmentApprovals");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+
+  const hasPermission = usePagePermission({
+    requiredPermissions: [...PERMISSION_MODULES.ADJUSTMENT_APPROVALS],
+  });
+  const { hasPermission: canApprove } = useHasPermission(PERMISSIONS.APPROVE_ADJUSTMENT);
+  const { hasPermission: canManagePolicy } = useHasPermission(PERMISSIONS.MANAGE_ADJUSTMENT_POLICY);
+
+  const [status, setStatus] = useState<RequestStatus>("pending");
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const [isEditingThreshold, setIsEditingThreshold] = useState(false);
+  const [thresholdInput, setThresholdInput] = useState("");
+  const [isSavingThreshold, setIsSavingThreshold] = useState(false);
+
+  const [reviewing, setReviewing] = useState<{ request: AdjustmentRequest; action: ReviewAction } | null>(null);
+  const [reviewNotes, setReviewNotes] = useState("");
+  const [isSubmittingReview, setIsSubmittingReview] = useState(false);
+
+  const { data: policy, isLoading: isLoadingPolicy } = useQuery({
+    queryKey: ["adjustment-approval-policy"],
+    queryFn: fetchAdjustmentApprovalPolicy,
+    enabled: hasPermission === true,
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["adjustment-requests", status, currentPage],
+    queryFn: () =>
+      fetchAdjustmentRequests({ status, page: currentPage, per_page: PAGINATION.ADJUSTMENT_REQUESTS }),
+    enabled: hasPermission === true && canApprove,
+  });
+
+  const requests = data?.data || [];
+  const totalPages = data?.meta.last_page || 1;
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(Math.abs(amount));
+
+  const formatDateTime = (value: string) =>
+    new Intl.DateTimeFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(value));
+
+  const getUserName = (user: SettlementUser | null) =>
+    user ? (locale === "ar" ? user.name_ar || user.name_en : user.name_en || user.name_ar) : "-";
+
+  const startEditingThreshold = () => {
+    setThresholdInput(policy?.threshold != null ? String(policy.threshold) : "");
+    setIsEditingThreshold(true);
+  };
+
+  const handleSaveThreshold = async () => {
+    const value = thresholdInput.trim() === "" ? null : parseFloat(thresholdInput);
+    if (value !== null && (isNaN(value) || value < 0)) {
+      toast.error(t("invalidThreshold"));
+      return;
+    }
+
+    setIsSavingThreshold(true);
+    try {
+      const updated = await updateAdjustmentApprovalPolicy(value);
+      queryClient.setQueryData(["adjustment-approval-policy"], updated);
+      toast.success(t("thresholdSaved"));
+      setIsEditingThreshold(false);
+    } catch (error) {
+      toast.error(t("thresholdSaveFailed"), {
+        description: formatValidationErrors(error) || getErrorMessage(error, tCommon("tryAgain")),
+      });
+    } finally {
+      setIsSavingThreshold(false);
+    }
+  };
+
+  const openReview = (request: AdjustmentRequest, action: ReviewAction) => {
+    setReviewNotes("");
+    setReviewing({ request, action });
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) return;
+    if (reviewing.action === "reject" && !reviewNotes.trim()) {
+      toast.error(t("rejectNotesRequired"));
+      return;
+    }
+
+    setIsSubmittingReview(true);
+    try {
+      if (reviewing.action === "approve") {
+        await approveAdjustmentRequest(reviewing.request.id, reviewNotes.trim() || undefined);
+        toast.success(t("approveSuccess"));
+      } else {
+        await rejectAdjustmentRequest(reviewing.request.id, reviewNotes.trim());
+        toast.success(t("rejectSuccess"));
+      }
+      setReviewing(null);
+      queryClient.invalidateQueries({ queryKey: ["adjustment-requests"] });
+    } catch (error) {
+      toast.error(t(reviewing.action === "approve" ? "approveFailed" : "rejectFailed"), {
+        description: formatValidationErrors(error) || getErrorMessage(error, tCommon("tryAgain")),
+      });
+    } finally {
+      setIsSubmittingReview(false);
+    }
+  };
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const statusBadge = (request: AdjustmentRequest) => (
+    <Badge
+      variant={request.status === "approved" ? "default" : request.status === "rejected" ? "destructive" : "secondary"}
+    >
+      {request.status_label || t(`status_${request.status}`)}
+    </Badge>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="h-10 w-10 rounded-xl bg-linear-to-br from-primary/20 to-primary/5 flex items-center justify-center">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">{t("subtitle")}</p>
+        </div>
+      </div>
+
+      {/* Threshold */}
+      <Card className="border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-base">{t("thresholdTitle")}</CardTitle>
+          <CardDescription>{t("thresholdDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingPolicy ? (
+            <Skeleton className="h-10 w-48" />
+          ) : isEditingThreshold ? (
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="adjustment_threshold" className="text-xs text-muted-foreground">
+                  {t("thresholdLabel")}
+                </Label>
+                <div className="relative">
+                  <Input
+                    id="adjustment_threshold"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={t("thresholdPlaceholder")}
+                    value={thresholdInput}
+                    onChange={(e) => setThresholdInput(e.target.value)}
+                    className="h-10 w-48 pe-14"
+                  />
+                  <span className="absolute end-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                    {tCommon("egp")}
+                  </span>
+                </div>
+              </div>
+              <Button onClick={handleSaveThreshold} disabled={isSavingThreshold} className="gap-2">
+                {isSavingThreshold && <Loader2 className="h-4 w-4 animate-spin" />}
+                {tCommon("save")}
+              </Button>
+              <Button variant="outline" onClick={() => setIsEditingThreshold(false)} disabled={isSavingThreshold}>
+                {tCommon("cancel")}
+              </Button>
+              <p className="basis-full text-xs text-muted-foreground">{t("thresholdHelp")}</p>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <p className="text-2xl font-bold" dir="ltr">
+                  {policy?.threshold != null
+                    ? `${formatCurrency(policy.threshold)} ${tCommon("egp")}`
+                    : t("thresholdDisabled")}
+                </p>
+                {policy?.updated_at && (
+                  <p className="text-xs text-muted-foreground">
+                    {t("thresholdUpdated", {
+                      name: getUserName(policy.updated_by),
+                      date: formatDateTime(policy.updated_at),
+                    })}
+                  </p>
+                )}
+              </div>
+              {canManagePolicy && (
+                <Button variant="outline" className="gap-2" onClick={startEditingThreshold}>
+                  <Pencil className="h-4 w-4" />
+                  {t("editThreshold")}
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Queue */}
+      {canApprove && (
+        <div className="space-y-4">
+          <Tabs
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as RequestStatus);
+              setCurrentPage(1);
+            }}
+          >
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="pending">{t("status_pending")}</TabsTrigger>
+              <TabsTrigger value="approved">{t("status_approved")}</TabsTrigger>
+              <TabsTrigger value="rejected">{t("status_rejected")}</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-32 w-full rounded-xl" />
+              ))}
+            </div>
+          ) : requests.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                {t(`empty_${status}`)}
+              </CardContent>
+            </Card>
+          ) : (
+            requests.map((request) => (
+              <Card key={request.id}>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm font-semibold">{request.request_number}</span>
+                        {statusBadge(request)}
+                      </div>
+                      <Link
+                        href={`/dashboard/wallets/${request.wallet_id}`}
+                        className="text-sm text-muted-foreground hover:underline"
+                      >
+                        {request.wallet ? getWalletOwnerName(request.wallet, locale) : `#${request.wallet_id}`}
+                      </Link>
+                    </div>
+                    <p
+                      className={cn(
+                        "flex items-center gap-1 text-xl font-bold",
+                        request.type === "credit"
+                          ? "text-emerald-600 dark:text-emerald-400"
+                          : "text-red-600 dark:text-red-400"
+                      )}
+                      dir="ltr"
+                    >
+                      {request.type === "credit" ? <Plus className="h-4 w-4" /> : <Minus className="h-4 w-4" />}
+                      {formatCurrency(Number(request.amount))} {tCommon("egp")}
+                    </p>
+                  </div>
+
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">{t("reason")}</p>
+                    <p className="text-sm whitespace-pre-line">{request.description}</p>
+                    {request.attachment_url && (
+                      <a
+                        href={request.attachment_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                      >
+                        <Paperclip className="h-3 w-3" />
+                        {request.attachment_name || t("attachment")}
+                      </a>
+                    )}
+                  </div>
+
+                  {/* Audit trail */}
+                  <div className="grid gap-2 rounded-lg bg-muted/50 p-3 text-xs sm:grid-cols-2">
+                    <p>
+                      <span className="text-muted-foreground">{t("requestedBy")}: </span>
+                      {getUserName(request.requested_by)} · {formatDateTime(request.created_at)}
+                    </p>
+                    {request.status !== "pending" && (
+                      <p>
+                        <span className="text-muted-foreground">
+                          {request.status === "approved" ? t("approvedBy") : t("rejectedBy")}:{" "}
+                        </span>
+                        {getUserName(request.reviewed_by)}
+                        {request.reviewed_at && ` · ${formatDateTime(request.reviewed_at)}`}
+                      </p>
+                    )}
+                    {request.review_notes && (
+                      <p className="sm:col-span-2">
+                        <span className="text-muted-foreground">{t("reviewNotes")}: </span>
+                        {request.review_notes}
+                      </p>
+                    )}
+                    {request.transaction_id && (
+                      <p className="sm:col-span-2">
+                        <Link
+                          href={`/dashboard/finance/transactions/${request.transaction_id}`}
+                          className="text-primary hover:underline"
+                        >
+                          {t("viewTransaction")}
+                        </Link>
+                      </p>
+                    )}
+                  </div>
+
+                  {request.status === "pending" && (
+                    <div className="flex flex-wrap items-center justify-end gap-2">
+                      {!request.can_review && (
+                        <p className="me-auto text-xs text-muted-foreground">{t("cannotReviewOwn")}</p>
+                      )}
+                      <Button
+                        variant="outline"
+                        className="gap-2 text-destructive hover:text-destructive"
+                        onClick={() => openReview(request, "reject")}
+                        disabled={!request.can_review}
+                      >
+                        <XCircle className="h-4 w-4" />
+                        {t("reject")}
+                      </Button>
+                      <Button
+                        className="gap-2"
+                        onClick={() => openReview(request, "approve")}
+                        disabled={!request.can_review}
+                      >
+                        <CheckCircle2 className="h-4 w-4" />
+                        {t("approve")}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(currentPage - 1)}
+                disabled={currentPage === 1 || isLoading}
+              >
+                {t("previous")}
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {t("pageOf", { page: currentPage, total: totalPages })}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(currentPage + 1)}
+                disabled={currentPage === totalPages || isLoading}
+              >
+                {t("next")}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Review Dialog */}
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && !isSubmittingReview && setReviewing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.action === "approve" ? t("approveTitle") : t("rejectTitle")}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing &&
+                t(reviewing.action === "approve" ? "approveDescription" : "rejectDescription", {
+                  number: reviewing.request.request_number,
+                  amount: `${formatCurrency(Number(reviewing.request.amount))} ${tCommon("egp")}`,
+                })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="review_notes" className="text-sm font-medium">
+              {t("reviewNotes")}{" "}
+              {reviewing?.action === "reject" && <span className="text-destructive">*</span>}
+            </Label>
+            <Textarea
+              id="review_notes"
+              rows={3}
+              placeholder={reviewing?.action === "reject" ? t("rejectNotesPlaceholder") : t("approveNotesPlaceholder")}
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              disabled={isSubmittingReview}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={isSubmittingReview}>
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              variant={reviewing?.action === "reject" ? "destructive" : "default"}
+              onClick={handleReview}
+              disabled={isSubmittingReview}
+              className="gap-2"
+            >
+              {isSubmittingReview && <Loader2 className="h-4 w-4 animate-spin" />}
+              {reviewing?.action === "approve" ? t("approve") : t("reject")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
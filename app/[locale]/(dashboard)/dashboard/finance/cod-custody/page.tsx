@@ -0,0 +1,365 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Clock, HandCoins, Loader2, RefreshCw, Users, Wallet } from "lucide-react";
+import { Link } from "@/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CodHandoverDialog } from "@/components/finance";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSIONS, PERMISSION_MODULES, useHasPermission } from "@/hooks/use-permissions";
+import {
+  DEFAULT_CUSTODY_AGEING_HOURS,
+  HANDOVER_LOOKBACK_DAYS,
+  fetchCodCustody,
+  getAgedCustody,
+  hasHandoverDiscrepancy,
+  type AgentCustody,
+} from "@/lib/finance/cod-custody";
+import { getWalletOwnerName, type SettlementUser } from "@/lib/services/wallet";
+import { cn } from "@/lib/utils";
+
+export default function CodCustodyPage() {
+  const t = useTranslations("codCustody");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+
+  const hasPermission = usePagePermission({
+    requiredPermissions: [...PERMISSION_MODULES.COD_CUSTODY],
+  });
+  const { hasPermission: canRecordHandover } = useHasPermission(PERMISSIONS.RECORD_COD_HANDOVER);
+
+  const [ageingHours, setAgeingHours] = useState(String(DEFAULT_CUSTODY_AGEING_HOURS));
+  const [handoverAgent, setHandoverAgent] = useState<AgentCustody | null>(null);
+
+  const { data, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ["cod-custody"],
+    queryFn: fetchCodCustody,
+    enabled: hasPermission === true,
+  });
+
+  const threshold = Math.max(0, parseFloat(ageingHours) || 0);
+  const agents = useMemo(() => data?.agents ?? [], [data]);
+  const handovers = data?.handovers ?? [];
+  const aged = useMemo(() => getAgedCustody(agents, threshold), [agents, threshold]);
+  const discrepancies = handovers.filter(hasHandoverDiscrepancy);
+  const totalOutstanding = agents.reduce((sum, agent) => sum + agent.outstanding, 0);
+  const totalAged = aged.reduce((sum, item) => sum + item.amount, 0);
+
+  const formatAmount = (amount: number) =>
+    `${new Intl.NumberFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount)} ${tCommon("egp")}`;
+
+  const formatDateTime = (value: string) =>
+    new Intl.DateTimeFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(value));
+
+  const formatHeld = (hours: number) =>
+    hours >= 48 ? t("days", { count: Math.floor(hours / 24) }) : t("hours", { count: Math.floor(hours) });
+
+  const getUserName = (user: SettlementUser | null) =>
+    user ? (locale === "ar" ? user.name_ar || user.name_en : user.name_en || user.name_ar) : "-";
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const summary = [
+    { icon: Wallet, label: t("totalOutstanding"), value: formatAmount(totalOutstanding), className: "text-primary" },
+    { icon: Users, label: t("agentsHolding"), value: String(agents.length), className: "text-blue-600" },
+    {
+      icon: Clock,
+      label: t("agedCash", { hours: threshold }),
+      value: formatAmount(totalAged),
+      className: aged.length > 0 ? "text-amber-600" : "text-muted-foreground",
+    },
+    {
+      icon: AlertTriangle,
+      label: t("discrepancies"),
+      value: String(discrepancies.length),
+      className: discrepancies.length > 0 ? "text-destructive" : "text-muted-foreground",
+    },
+  ];
+
+  const renderEmpty = (message: string) => (
+    <p className="py-8 text-center text-sm text-muted-foreground">{message}</p>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-linear-to-br from-primary/20 to-primary/5 flex items-center justify-center">
+            <HandCoins className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+            <p className="text-sm md:text-base text-muted-foreground mt-1">
+              {t("subtitle")}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="custody_ageing_hours" className="text-xs text-muted-foreground">
+              {t("ageingThreshold")}
+            </Label>
+            <Input
+              id="custody_ageing_hours"
+              type="number"
+              min="1"
+              step="1"
+              value={ageingHours}
+              onChange={(e) => setAgeingHours(e.target.value)}
+              className="h-10 w-28"
+            />
+          </div>
+          <Button variant="outline" className="gap-2" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            {t("refresh")}
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {summary.map(({ icon: Icon, label, value, className }) => (
+          <Card key={label}>
+            <CardContent className="pt-6 flex items-center gap-3">
+              <Icon className={cn("h-8 w-8", className)} />
+              <div className="min-w-0">
+                {isLoading ? (
+                  <Skeleton className="h-7 w-24 mb-1" />
+                ) : (
+                  <p className="text-2xl font-bold truncate" dir="ltr">{value}</p>
+                )}
+                <p className="text-sm text-muted-foreground">{label}</p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Tabs defaultValue="agents">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="agents">{t("byAgent")}</TabsTrigger>
+          <TabsTrigger value="ageing">
+            {t("ageingReport")}
+            {aged.length > 0 && <Badge variant="secondary" className="ms-2">{aged.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="handovers">
+            {t("handovers")}
+            {discrepancies.length > 0 && <Badge variant="destructive" className="ms-2">{discrepancies.length}</Badge>}
+          </TabsTrigger>
+        </TabsList>
+
+        {/* Outstanding per agent */}
+        <TabsContent value="agents" className="mt-4">
+          <Card>
+            <CardContent className="pt-6">
+              {isLoading ? (
+                <div className="space-y-3">
+                  {[...Array(4)].map((_, i) => (
+                    <Skeleton key={i} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : agents.length === 0 ? (
+                renderEmpty(t("noOutstanding"))
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("agent")}</TableHead>
+                      <TableHead>{t("orders")}</TableHead>
+                      <TableHead>{t("oldest")}</TableHead>
+                      <TableHead className="text-end">{t("outstanding")}</TableHead>
+                      {canRecordHandover && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {agents.map((agent) => (
+                      <TableRow key={agent.wallet.id}>
+                        <TableCell>
+                          <Link href={`/dashboard/wallets/${agent.wallet.id}`} className="font-medium hover:underline">
+                            {getWalletOwnerName(agent.wallet, locale)}
+                          </Link>
+                          {agent.wallet.walletable?.mobile && (
+                            <p className="text-xs text-muted-foreground" dir="ltr">{agent.wallet.walletable.mobile}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{agent.items.length}</TableCell>
+                        <TableCell>
+                          <span className={cn(agent.oldestHeldHours > threshold && "font-medium text-amber-600")}>
+                            {formatHeld(agent.oldestHeldHours)}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-end font-semibold whitespace-nowrap" dir="ltr">
+                          {formatAmount(agent.outstanding)}
+                        </TableCell>
+                        {canRecordHandover && (
+                          <TableCell className="text-end">
+                            <Button size="sm" variant="outline" className="gap-2" onClick={() => setHandoverAgent(agent)}>
+                              <HandCoins className="h-4 w-4" />
+                              {t("recordHandover")}
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Ageing report */}
+        <TabsContent value="ageing" className="mt-4">
+          <Card>
+            <CardContent className="pt-6">
+              {isLoading ? (
+                <Skeleton className="h-24 w-full" />
+              ) : aged.length === 0 ? (
+                renderEmpty(t("noAged", { hours: threshold }))
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("order")}</TableHead>
+                      <TableHead>{t("agent")}</TableHead>
+                      <TableHead>{t("collectedAt")}</TableHead>
+                      <TableHead>{t("held")}</TableHead>
+                      <TableHead className="text-end">{t("amount")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {aged.map(({ transaction, wallet, amount, heldHours }) => (
+                      <TableRow key={transaction.id}>
+                        <TableCell className="font-mono text-sm">
+                          {transaction.order ? (
+                            <Link href={`/dashboard/orders/${transaction.order.id}`} className="hover:underline">
+                              {transaction.order.order_number}
+                            </Link>
+                          ) : (
+                            transaction.reference_number
+                          )}
+                        </TableCell>
+                        <TableCell>{getWalletOwnerName(wallet, locale)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {formatDateTime(transaction.created_at)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={heldHours > threshold * 2 ? "destructive" : "secondary"}>
+                            {formatHeld(heldHours)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-end font-semibold whitespace-nowrap" dir="ltr">
+                          {formatAmount(amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Handovers */}
+        <TabsContent value="handovers" className="mt-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="mb-4 text-sm text-muted-foreground">
+                {t("handoversWindow", { days: HANDOVER_LOOKBACK_DAYS })}
+              </p>
+              {isLoading ? (
+                <Skeleton className="h-24 w-full" />
+              ) : handovers.length === 0 ? (
+                renderEmpty(t("noHandovers"))
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("handover")}</TableHead>
+                      <TableHead>{t("agent")}</TableHead>
+                      <TableHead>{t("receivedBy")}</TableHead>
+                      <TableHead className="text-end">{t("expectedAmount")}</TableHead>
+                      <TableHead className="text-end">{t("receivedAmount")}</TableHead>
+                      <TableHead className="text-end">{t("difference")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {handovers.map((handover) => {
+                      const isDiscrepancy = hasHandoverDiscrepancy(handover);
+                      return (
+                        <TableRow key={handover.id} className={cn(isDiscrepancy && "bg-destructive/5")}>
+                          <TableCell>
+                            <p className="font-mono text-sm">{handover.handover_number}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDateTime(handover.created_at)} · {t("ordersCount", { count: handover.orders.length })}
+                            </p>
+                            {handover.notes && (
+                              <p className="text-xs text-muted-foreground line-clamp-2">{handover.notes}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>{getUserName(handover.agent)}</TableCell>
+                          <TableCell>{getUserName(handover.received_by)}</TableCell>
+                          <TableCell className="text-end whitespace-nowrap" dir="ltr">
+                            {formatAmount(Number(handover.expected_amount))}
+                          </TableCell>
+                          <TableCell className="text-end whitespace-nowrap" dir="ltr">
+                            {formatAmount(Number(handover.received_amount))}
+                          </TableCell>
+                          <TableCell className="text-end">
+                            {isDiscrepancy ? (
+                              <Badge variant="destructive" className="gap-1">
+                                <AlertTriangle className="h-3 w-3" />
+                                <span dir="ltr">
+                                  {Number(handover.difference) > 0 ? "+" : "-"}
+                                  {formatAmount(Math.abs(Number(handover.difference)))}
+                                </span>
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline">{t("balanced")}</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <CodHandoverDialog
+        open={!!handoverAgent}
+        onOpenChange={(open) => !open && setHandoverAgent(null)}
+        agent={handoverAgent}
+        onRecorded={() => queryClient.invalidateQueries({ queryKey: ["cod-custody"] })}
+      />
+    </div>
+  );
+}
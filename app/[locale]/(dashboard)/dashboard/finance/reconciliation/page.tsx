@@ -0,0 +1,405 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ExternalLink,
+  FileSpreadsheet,
+  GitCompareArrows,
+  Landmark,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { Link } from "@/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSIONS } from "@/hooks/use-permissions";
+import {
+  BANK_STATEMENT_FIELDS,
+  guessBankColumnMapping,
+  isBankColumnMappingComplete,
+  parseBankStatement,
+  toBankStatementLines,
+  type BankColumnMapping,
+  type BankStatementField,
+  type BankStatementLine,
+  type ParsedBankStatement,
+} from "@/lib/parsers/bank-statement-parser";
+import {
+  fetchReconciliationRecords,
+  getStatementRange,
+  reconcileBankStatement,
+  RECONCILIATION_DATE_TOLERANCE_DAYS,
+  type ReconciliationRecord,
+  type ReconciliationResult,
+} from "@/lib/finance/bank-reconciliation";
+import { getErrorMessage } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+/** Select value for an unmapped field */
+const NO_COLUMN = "__none__";
+
+export default function ReconciliationPage() {
+  const t = useTranslations("reconciliation");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+
+  const hasPermission = usePagePermission({
+    requiredPermissions: [PERMISSIONS.LIST_SETTLEMENTS, PERMISSIONS.LIST_TRANSACTIONS],
+    requireAll: true,
+  });
+
+  const [fileName, setFileName] = useState("");
+  const [statement, setStatement] = useState<ParsedBankStatement | null>(null);
+  const [mapping, setMapping] = useState<BankColumnMapping>({});
+  const [isParsing, setIsParsing] = useState(false);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+
+  const formatDate = (day: string | null) =>
+    day
+      ? new Intl.DateTimeFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+          year: "numeric",
+          month: "short",
+          day: "numeric",
+        }).format(new Date(day))
+      : "-";
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsParsing(true);
+    setResult(null);
+    try {
+      const parsed = await parseBankStatement(file);
+      if (parsed.rows.length === 0) {
+        toast.error(t("emptyFile"));
+        return;
+      }
+      setFileName(file.name);
+      setStatement(parsed);
+      setMapping(guessBankColumnMapping(parsed.headers));
+    } catch (error) {
+      toast.error(t("parseFailed"), { description: getErrorMessage(error, tCommon("tryAgain")) });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const setField = (field: BankStatementField, header: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (header === NO_COLUMN) delete next[field];
+      else next[field] = header;
+      return next;
+    });
+  };
+
+  const handleReconcile = async () => {
+    if (!statement) return;
+    const lines = toBankStatementLines(statement.rows, mapping);
+    const range = getStatementRange(lines);
+    if (lines.length === 0 || !range) {
+      toast.error(t("noLines"));
+      return;
+    }
+
+    setIsReconciling(true);
+    try {
+      const records = await fetchReconciliationRecords(range, locale);
+      setResult(reconcileBankStatement(lines, records));
+    } catch (error) {
+      toast.error(t("reconcileFailed"), { description: getErrorMessage(error, tCommon("tryAgain")) });
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const renderAmount = (amount: number) => (
+    <span
+      className={cn(
+        "font-semibold whitespace-nowrap",
+        amount >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"
+      )}
+      dir="ltr"
+    >
+      {amount >= 0 ? "+" : ""}
+      {formatAmount(amount)} {tCommon("egp")}
+    </span>
+  );
+
+  const renderBankLine = (line: BankStatementLine) => (
+    <div className="min-w-0">
+      <p className="text-sm">
+        {formatDate(line.date)} <span className="text-xs text-muted-foreground">· {t("row", { row: line.row })}</span>
+      </p>
+      {line.reference && <p className="font-mono text-xs">{line.reference}</p>}
+      {line.description && <p className="text-xs text-muted-foreground line-clamp-2">{line.description}</p>}
+    </div>
+  );
+
+  const renderRecord = (record: ReconciliationRecord) => (
+    <div className="min-w-0">
+      <Link
+        href={
+          record.kind === "settlement"
+            ? `/dashboard/finance/settlements/${record.id}`
+            : `/dashboard/finance/transactions/${record.id}`
+        }
+        className="inline-flex items-center gap-1 font-mono text-sm hover:underline"
+      >
+        {record.reference}
+        <ExternalLink className="h-3 w-3" />
+      </Link>
+      <p className="text-xs text-muted-foreground">
+        <Badge variant="outline" className="text-[10px] me-1">
+          {t(record.kind === "settlement" ? "kindSettlement" : "kindAdjustment")}
+        </Badge>
+        {formatDate(record.date)} · {record.label}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="h-10 w-10 rounded-xl bg-linear-to-br from-primary/20 to-primary/5 flex items-center justify-center">
+          <Landmark className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">{t("subtitle")}</p>
+        </div>
+      </div>
+
+      {/* Statement */}
+      <Card className="border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-base">{t("statementTitle")}</CardTitle>
+          <CardDescription>
+            {t("statementDesc", { days: RECONCILIATION_DATE_TOLERANCE_DAYS })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="outline" className="gap-2" asChild>
+              <label htmlFor="bank_statement_file" className="cursor-pointer">
+                {isParsing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                {t("upload")}
+              </label>
+            </Button>
+            <input
+              id="bank_statement_file"
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              disabled={isParsing || isReconciling}
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            {statement && (
+              <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                <FileSpreadsheet className="h-4 w-4" />
+                {fileName} · {t("rowsCount", { count: statement.rows.length })}
+              </span>
+            )}
+          </div>
+
+          {statement && (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {BANK_STATEMENT_FIELDS.map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`bank_field_${field}`}>{t(`field_${field}`)}</Label>
+                    <Select value={mapping[field] ?? NO_COLUMN} onValueChange={(value) => setField(field, value)}>
+                      <SelectTrigger id={`bank_field_${field}`} className="h-10">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>{t("noColumn")}</SelectItem>
+                        {statement.headers
+                          .filter((header) => header.trim())
+                          .map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">{t("mappingHint")}</p>
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleReconcile}
+                  disabled={isReconciling || !isBankColumnMappingComplete(mapping)}
+                  className="gap-2"
+                >
+                  {isReconciling ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitCompareArrows className="h-4 w-4" />}
+                  {t("reconcile")}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Card>
+              <CardContent className="pt-6 flex items-center gap-3">
+                <CheckCircle2 className="h-8 w-8 text-emerald-600" />
+                <div>
+                  <p className="text-2xl font-bold">{result.matches.length}</p>
+                  <p className="text-sm text-muted-foreground">{t("matched")}</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 flex items-center gap-3">
+                <AlertTriangle className="h-8 w-8 text-amber-600" />
+                <div>
+                  <p className="text-2xl font-bold">{result.unmatchedLines.length}</p>
+                  <p className="text-sm text-muted-foreground">{t("unmatchedLines")}</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 flex items-center gap-3">
+                <AlertTriangle className="h-8 w-8 text-destructive" />
+                <div>
+                  <p className="text-2xl font-bold">{result.unmatchedRecords.length}</p>
+                  <p className="text-sm text-muted-foreground">{t("unmatchedRecords")}</p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="unmatched_lines">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="unmatched_lines">{t("unmatchedLines")}</TabsTrigger>
+              <TabsTrigger value="unmatched_records">{t("unmatchedRecords")}</TabsTrigger>
+              <TabsTrigger value="matched">{t("matched")}</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="unmatched_lines" className="mt-4">
+              <Card>
+                <CardContent className="pt-6">
+                  {result.unmatchedLines.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-muted-foreground">{t("allLinesMatched")}</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t("bankLine")}</TableHead>
+                          <TableHead className="text-end">{t("amount")}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.unmatchedLines.map((line) => (
+                          <TableRow key={line.row}>
+                            <TableCell>{renderBankLine(line)}</TableCell>
+                            <TableCell className="text-end">{renderAmount(line.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="unmatched_records" className="mt-4">
+              <Card>
+                <CardContent className="pt-6">
+                  {result.unmatchedRecords.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-muted-foreground">{t("allRecordsMatched")}</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t("record")}</TableHead>
+                          <TableHead className="text-end">{t("amount")}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.unmatchedRecords.map((record) => (
+                          <TableRow key={`${record.kind}-${record.id}`}>
+                            <TableCell>{renderRecord(record)}</TableCell>
+                            <TableCell className="text-end">{renderAmount(record.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="matched" className="mt-4">
+              <Card>
+                <CardContent className="pt-6">
+                  {result.matches.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-muted-foreground">{t("noMatches")}</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t("bankLine")}</TableHead>
+                          <TableHead>{t("record")}</TableHead>
+                          <TableHead>{t("matchedBy")}</TableHead>
+                          <TableHead className="text-end">{t("amount")}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.matches.map(({ line, record, matchedBy }) => (
+                          <TableRow key={line.row}>
+                            <TableCell>{renderBankLine(line)}</TableCell>
+                            <TableCell>{renderRecord(record)}</TableCell>
+                            <TableCell>
+                              <Badge variant={matchedBy === "reference" ? "default" : "secondary"}>
+                                {t(`matchedBy_${matchedBy}`)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-end">{renderAmount(line.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
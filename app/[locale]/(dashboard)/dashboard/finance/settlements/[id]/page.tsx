@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import { useParams } from "next/navigation";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useParams, useSearchParams } from "next/navigation";
 import { useTranslations, useLocale } from "next-intl";
 import { Link } from "@/i18n/routing";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -31,6 +31,9 @@ import {
   Receipt,
   Sparkles,
   Package,
+  Printer,
+  ShieldCheck,
+  ShieldAlert,
 } from "lucide-react";
 import {
   fetchSettlement,
@@ -39,16 +42,23 @@ import {
   getSettlementSettlebleName,
   getSettlementSettlebleType,
   getSettlementSettlebleRole,
+  getPrintedSettlementMismatches,
+  parsePrintedSettlementDetails,
   type Settlement,
 } from "@/lib/services/wallet";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { usePagePermission } from "@/hooks/use-page-permission";
 import { useHasPermission, PERMISSIONS } from "@/hooks/use-permissions";
+import { PrintSettlementDialog } from "@/components/print";
+import "@/components/print/print-styles.css";
 
 export default function SettlementDetailPage() {
   const params = useParams();
   const settlementId = Number(params.id);
+  // Set when the page is opened from the QR code on a printed statement
+  const searchParams = useSearchParams();
+  const printed = useMemo(() => parsePrintedSettlementDetails(searchParams), [searchParams]);
 
   const t = useTranslations('adminSettlements');
   const tCommon = useTranslations('common');
@@ -70,6 +80,7 @@ export default function SettlementDetailPage() {
   const [isCancelling, setIsCancelling] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const [showPrintDialog, setShowPrintDialog] = useState(false);
 
   const hasLoadedRef = useRef(false);
 
@@ -302,6 +313,8 @@ export default function SettlementDetailPage() {
   const typeColors = getTypeColor(settlement.type);
   const SettlebleIcon = getSettlebleIcon(settlement.settleble_type);
 
+  const printedMismatches = printed ? getPrintedSettlementMismatches(settlement, printed) : [];
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -323,31 +336,73 @@ export default function SettlementDetailPage() {
         </div>
 
         {/* Action Buttons */}
-        {settlement.status === 'pending' && (
-          <div className="flex gap-2">
-            {canConfirmSettlement && settlement.can_confirm && (
-              <Button
-                onClick={() => setShowConfirmDialog(true)}
-                className="gap-2 bg-emerald-600 hover:bg-emerald-700 rounded-xl"
-              >
-                <CheckCircle2 className="h-4 w-4" />
-                {t('confirm')}
-              </Button>
-            )}
-            {canCancelSettlement && settlement.can_cancel && (
-              <Button
-                variant="outline"
-                onClick={() => setShowCancelDialog(true)}
-                className="gap-2 text-red-600 border-red-200 hover:bg-red-50 dark:border-red-800 dark:hover:bg-red-950/50 rounded-xl"
-              >
-                <XCircle className="h-4 w-4" />
-                {t('cancel')}
-              </Button>
-            )}
-          </div>
-        )}
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowPrintDialog(true)}
+            className="gap-2 rounded-xl"
+          >
+            <Printer className="h-4 w-4" />
+            {t('printStatement')}
+          </Button>
+          {settlement.status === 'pending' && (
+            <>
+              {canConfirmSettlement && settlement.can_confirm && (
+                <Button
+                  onClick={() => setShowConfirmDialog(true)}
+                  className="gap-2 bg-emerald-600 hover:bg-emerald-700 rounded-xl"
+                >
+                  <CheckCircle2 className="h-4 w-4" />
+                  {t('confirm')}
+                </Button>
+              )}
+              {canCancelSettlement && settlement.can_cancel && (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowCancelDialog(true)}
+                  className="gap-2 text-red-600 border-red-200 hover:bg-red-50 dark:border-red-800 dark:hover:bg-red-950/50 rounded-xl"
+                >
+                  <XCircle className="h-4 w-4" />
+                  {t('cancel')}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
       </div>
 
+      {/* Printed statement check */}
+      {printed && (
+        printedMismatches.length === 0 ? (
+          <div className="flex items-start gap-3 rounded-xl border border-emerald-200 dark:border-emerald-800 bg-emerald-50/50 dark:bg-emerald-950/20 p-4">
+            <ShieldCheck className="h-5 w-5 shrink-0 text-emerald-600 dark:text-emerald-400" />
+            <div>
+              <p className="font-semibold text-emerald-800 dark:text-emerald-200">{t('statementMatches')}</p>
+              <p className="text-sm text-emerald-700 dark:text-emerald-300">{t('statementMatchesDesc')}</p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-start gap-3 rounded-xl border border-red-200 dark:border-red-800 bg-red-50/50 dark:bg-red-950/20 p-4">
+            <ShieldAlert className="h-5 w-5 shrink-0 text-red-600 dark:text-red-400" />
+            <div>
+              <p className="font-semibold text-red-800 dark:text-red-200">{t('statementMismatch')}</p>
+              <p className="text-sm text-red-700 dark:text-red-300">{t('statementMismatchDesc')}</p>
+              <ul className="mt-1 list-disc ps-5 text-sm text-red-700 dark:text-red-300">
+                {printedMismatches.map((field) => (
+                  <li key={field}>
+                    {field === 'number'
+                      ? t('printedNumber', { value: printed.settlement_number })
+                      : field === 'amount'
+                      ? t('printedAmount', { value: searchParams.get('amount') ?? '-' })
+                      : t('printedPeriod', { from: printed.period_from || '-', to: printed.period_to || '-' })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )
+      )}
+
       <div className="grid gap-6 md:grid-cols-3">
         {/* Main Settlement Card */}
         <Card className="md:col-span-2 overflow-hidden relative border-0 shadow-lg">
@@ -615,6 +670,14 @@ export default function SettlementDetailPage() {
         </Card>
       )}
 
+      <PrintSettlementDialog
+        open={showPrintDialog}
+        onOpenChange={setShowPrintDialog}
+        settlement={settlement}
+        t={t}
+        tCommon={tCommon}
+      />
+
       {/* Confirm Dialog */}
       <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
         <DialogContent className="sm:max-w-md">
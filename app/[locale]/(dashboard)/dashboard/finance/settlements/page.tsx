@@ -39,6 +39,7 @@ import {
   AlertTriangle,
   Sparkles,
   Hash,
+  Layers,
 } from "lucide-react";
 import { toast } from "sonner";
 import { usePagePermission } from "@/hooks/use-page-permission";
@@ -68,6 +69,7 @@ export default function SettlementsPage() {
   const { hasPermission: canShowSettlement } = useHasPermission(PERMISSIONS.SHOW_SETTLEMENT);
   const { hasPermission: canConfirmSettlement } = useHasPermission(PERMISSIONS.CONFIRM_SETTLEMENT);
   const { hasPermission: canCancelSettlement } = useHasPermission(PERMISSIONS.CANCEL_SETTLEMENT);
+  const { hasPermission: canCreateSettlement } = useHasPermission(PERMISSIONS.CREATE_SETTLEMENT);
 
   const queryClient = useQueryClient();
 
@@ -317,6 +319,14 @@ export default function SettlementsPage() {
             </div>
           </div>
         </div>
+        {canCreateSettlement && (
+          <Button asChild className="gap-2 rounded-xl">
+            <Link href="/dashboard/finance/settlements/run">
+              <Layers className="h-4 w-4" />
+              {t('settlementRun')}
+            </Link>
+          </Button>
+        )}
       </div>
 
       {/* Summary Stats - Modern Glass Cards */}
@@ -0,0 +1,546 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle2,
+  Clock,
+  ExternalLink,
+  Layers,
+  Loader2,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { Link } from "@/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { useHasPermission, PERMISSIONS } from "@/hooks/use-permissions";
+import {
+  confirmRunSettlements,
+  createRunSettlements,
+  fetchWalletsToSettle,
+  previewSettlementRun,
+  type SettlementRunPeriod,
+  type SettlementRunPreview,
+  type SettlementRunResult,
+} from "@/lib/finance/settlement-run";
+import { getErrorMessage } from "@/lib/errors";
+import { getWalletOwnerName, getWalletOwnerType, type Settlement } from "@/lib/services/wallet";
+import { cn } from "@/lib/utils";
+
+type RunStep = "period" | "review" | "results";
+
+export default function SettlementRunPage() {
+  const t = useTranslations("settlementRun");
+  const tSettlements = useTranslations("adminSettlements");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+
+  const hasPermission = usePagePermission({
+    requiredPermissions: [PERMISSIONS.CREATE_SETTLEMENT, PERMISSIONS.LIST_WALLETS],
+    requireAll: true,
+  });
+  const { hasPermission: canConfirmSettlement } = useHasPermission(PERMISSIONS.CONFIRM_SETTLEMENT);
+
+  const [step, setStep] = useState<RunStep>("period");
+  const [periodFrom, setPeriodFrom] = useState("");
+  const [periodTo, setPeriodTo] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const [previews, setPreviews] = useState<SettlementRunPreview[]>([]);
+  const [previewDone, setPreviewDone] = useState(0);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const [results, setResults] = useState<Record<number, SettlementRunResult>>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const {
+    data: wallets = [],
+    isLoading: isLoadingWallets,
+    refetch: refetchWallets,
+    isFetching: isFetchingWallets,
+  } = useQuery({
+    queryKey: ["settlement-run-wallets"],
+    queryFn: fetchWalletsToSettle,
+    enabled: hasPermission === true,
+  });
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(Math.abs(amount));
+
+  const selectedPreviews = useMemo(
+    () => previews.filter((preview) => selected.has(preview.wallet.id)),
+    [previews, selected]
+  );
+  const totals = useMemo(
+    () =>
+      selectedPreviews.reduce(
+        (sum, preview) => {
+          if (preview.type === "payout") sum.payouts += preview.net;
+          else sum.collections += Math.abs(preview.net);
+          return sum;
+        },
+        { payouts: 0, collections: 0 }
+      ),
+    [selectedPreviews]
+  );
+
+  const resultList = Object.values(results);
+  const processedCount = resultList.length;
+  const createdSettlements = previews.flatMap((preview) => {
+    const result = results[preview.wallet.id];
+    return result?.status === "created" ? [{ walletId: preview.wallet.id, settlement: result.settlement }] : [];
+  });
+  const countByStatus = (status: SettlementRunResult["status"]) =>
+    resultList.filter((result) => result.status === status).length;
+
+  const getPeriod = (): SettlementRunPeriod | null => {
+    if (!periodFrom || !periodTo) {
+      toast.error(t("periodRequired"));
+      return null;
+    }
+    if (new Date(periodFrom) > new Date(periodTo)) {
+      toast.error(t("periodFromBeforeTo"));
+      return null;
+    }
+    const today = new Date();
+    today.setHours(23, 59, 59, 999);
+    if (new Date(periodTo) > today) {
+      toast.error(t("periodToNotFuture"));
+      return null;
+    }
+    return { period_from: periodFrom, period_to: periodTo };
+  };
+
+  const handlePreview = async () => {
+    const period = getPeriod();
+    if (!period) return;
+
+    setIsPreviewing(true);
+    setPreviewDone(0);
+    try {
+      const loaded = await previewSettlementRun(wallets, period, setPreviewDone);
+      setPreviews(loaded);
+      // Wallets with nothing in the period are left out unless finance opts in
+      setSelected(new Set(loaded.filter((p) => p.transactionCount > 0).map((p) => p.wallet.id)));
+      setResults({});
+      setStep("review");
+    } catch (error) {
+      toast.error(t("previewFailed"), { description: getErrorMessage(error, tCommon("tryAgain")) });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const toggleSelected = (walletId: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(walletId);
+      else next.delete(walletId);
+      return next;
+    });
+  };
+
+  const recordResult = (walletId: number, result: SettlementRunResult) => {
+    setResults((prev) => ({ ...prev, [walletId]: result }));
+  };
+
+  const handleCreate = async () => {
+    const period = getPeriod();
+    if (!period || selectedPreviews.length === 0) return;
+
+    setStep("results");
+    setIsCreating(true);
+    setResults({});
+    await createRunSettlements(
+      selectedPreviews.map((preview) => preview.wallet.id),
+      { ...period, notes: notes.trim() || undefined },
+      recordResult
+    );
+    setIsCreating(false);
+    queryClient.invalidateQueries({ queryKey: ["admin-settlements"] });
+    queryClient.invalidateQueries({ queryKey: ["settlement-run-wallets"] });
+    toast.success(t("runFinished"));
+  };
+
+  const handleConfirmAll = async (settlements: Array<{ walletId: number; settlement: Settlement }>) => {
+    setIsConfirming(true);
+    await confirmRunSettlements(settlements, recordResult);
+    setIsConfirming(false);
+    queryClient.invalidateQueries({ queryKey: ["admin-settlements"] });
+    toast.success(t("confirmFinished"));
+  };
+
+  const handleStartOver = () => {
+    setStep("period");
+    setPreviews([]);
+    setSelected(new Set());
+    setResults({});
+    refetchWallets();
+  };
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const renderOwner = (preview: SettlementRunPreview) => {
+    const ownerType = getWalletOwnerType(preview.wallet.walletable_type);
+    return (
+      <div className="min-w-0">
+        <p className="font-medium truncate">{getWalletOwnerName(preview.wallet, locale)}</p>
+        <p className="text-xs text-muted-foreground">
+          {ownerType === "vendor" ? tSettlements("vendor") : tSettlements("user")} · #{preview.wallet.id}
+        </p>
+      </div>
+    );
+  };
+
+  const renderAmount = (preview: SettlementRunPreview) => (
+    <div className="text-end">
+      <p
+        className={cn(
+          "font-semibold whitespace-nowrap",
+          preview.type === "payout" ? "text-purple-600 dark:text-purple-400" : "text-cyan-600 dark:text-cyan-400"
+        )}
+      >
+        {formatCurrency(preview.net)} {tCommon("egp")}
+      </p>
+      <Badge variant="outline" className="text-[10px]">
+        {tSettlements(preview.type)}
+      </Badge>
+    </div>
+  );
+
+  const renderResult = (result: SettlementRunResult | undefined) => {
+    if (!result) {
+      return (
+        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Clock className="h-4 w-4" />
+          {t("statusWaiting")}
+        </span>
+      );
+    }
+    if (result.status === "failed") {
+      return (
+        <span className="flex items-start gap-1 text-sm text-destructive">
+          <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          {result.error}
+        </span>
+      );
+    }
+    return (
+      <div className="space-y-1">
+        <Link
+          href={`/dashboard/finance/settlements/${result.settlement.id}`}
+          className="inline-flex items-center gap-1 font-mono text-sm hover:underline"
+        >
+          {result.settlement.settlement_number}
+          <ExternalLink className="h-3 w-3" />
+        </Link>
+        <p
+          className={cn(
+            "flex items-start gap-1 text-xs",
+            result.status === "confirmed" && "text-emerald-600 dark:text-emerald-400",
+            result.status === "created" && "text-amber-600 dark:text-amber-400",
+            result.status === "confirm_failed" && "text-destructive"
+          )}
+        >
+          {result.status === "confirmed" && <CheckCircle2 className="h-3.5 w-3.5 shrink-0" />}
+          {result.status === "confirm_failed" && <AlertTriangle className="h-3.5 w-3.5 shrink-0" />}
+          {result.status === "confirm_failed" ? result.error : t(`status_${result.status}`)}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild className="rounded-xl">
+          <Link href="/dashboard/finance/settlements">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">{t("subtitle")}</p>
+        </div>
+      </div>
+
+      {/* Steps */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(["period", "review", "results"] as RunStep[]).map((key, index) => (
+          <Badge key={key} variant={step === key ? "default" : "outline"}>
+            {index + 1}. {t(`step_${key}`)}
+          </Badge>
+        ))}
+      </div>
+
+      {step === "period" && (
+        <Card className="border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-base">{t("periodTitle")}</CardTitle>
+            <CardDescription>{t("periodDesc")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="run_period_from">{t("periodFrom")} *</Label>
+                <Input
+                  id="run_period_from"
+                  type="date"
+                  value={periodFrom}
+                  onChange={(e) => setPeriodFrom(e.target.value)}
+                  className="h-11"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="run_period_to">{t("periodTo")} *</Label>
+                <Input
+                  id="run_period_to"
+                  type="date"
+                  value={periodTo}
+                  onChange={(e) => setPeriodTo(e.target.value)}
+                  className="h-11"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="run_notes">{t("notes")}</Label>
+              <Textarea
+                id="run_notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={t("notesPlaceholder")}
+                maxLength={1000}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex items-center gap-3 rounded-lg bg-muted p-4">
+              <Layers className="h-6 w-6 text-primary shrink-0" />
+              <div className="flex-1 text-sm">
+                {isLoadingWallets ? (
+                  <Skeleton className="h-4 w-48" />
+                ) : (
+                  t("walletsFound", { count: wallets.length })
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => refetchWallets()}
+                disabled={isFetchingWallets || isPreviewing}
+                title={t("refresh")}
+              >
+                <RefreshCw className={cn("h-4 w-4", isFetchingWallets && "animate-spin")} />
+              </Button>
+            </div>
+
+            {isPreviewing && (
+              <div className="space-y-2">
+                <Progress value={wallets.length ? (previewDone / wallets.length) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  {t("previewProgress", { done: previewDone, total: wallets.length })}
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handlePreview}
+                disabled={isPreviewing || isLoadingWallets || wallets.length === 0}
+                className="gap-2"
+              >
+                {isPreviewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArrowRight className="h-4 w-4 rtl:rotate-180" />}
+                {t("preview")}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "review" && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">{t("selectedWallets")}</p>
+                <p className="text-2xl font-bold">
+                  {selectedPreviews.length} / {previews.length}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">{t("totalPayouts")}</p>
+                <p className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+                  {formatCurrency(totals.payouts)} <span className="text-sm font-normal">{tCommon("egp")}</span>
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">{t("totalCollections")}</p>
+                <p className="text-2xl font-bold text-cyan-600 dark:text-cyan-400">
+                  {formatCurrency(totals.collections)} <span className="text-sm font-normal">{tCommon("egp")}</span>
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-base">{t("reviewTitle")}</CardTitle>
+              <CardDescription>{t("reviewDesc")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={previews.length > 0 && selectedPreviews.length === previews.length}
+                        onCheckedChange={(checked) =>
+                          setSelected(checked === true ? new Set(previews.map((p) => p.wallet.id)) : new Set())
+                        }
+                        aria-label={t("selectAll")}
+                      />
+                    </TableHead>
+                    <TableHead>{t("owner")}</TableHead>
+                    <TableHead>{t("transactions")}</TableHead>
+                    <TableHead className="text-end">{t("estimatedAmount")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previews.map((preview) => (
+                    <TableRow key={preview.wallet.id} className={cn(!selected.has(preview.wallet.id) && "opacity-60")}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(preview.wallet.id)}
+                          onCheckedChange={(checked) => toggleSelected(preview.wallet.id, checked === true)}
+                          aria-label={t("selectWallet")}
+                        />
+                      </TableCell>
+                      <TableCell>{renderOwner(preview)}</TableCell>
+                      <TableCell>
+                        {preview.transactionCount > 0 ? (
+                          preview.transactionCount
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{t("nothingInPeriod")}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{renderAmount(preview)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="mt-4 text-xs text-muted-foreground">{t("estimateNote")}</p>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-between gap-2">
+            <Button variant="outline" onClick={() => setStep("period")} className="gap-2">
+              <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+              {t("back")}
+            </Button>
+            <Button onClick={handleCreate} disabled={selectedPreviews.length === 0} className="gap-2">
+              <Layers className="h-4 w-4" />
+              {t("createSettlements", { count: selectedPreviews.length })}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {step === "results" && (
+        <>
+          <Card className="border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-base">{isCreating ? t("creating") : t("resultsTitle")}</CardTitle>
+              <CardDescription>
+                {t("resultsSummary", {
+                  created: countByStatus("created") + countByStatus("confirmed") + countByStatus("confirm_failed"),
+                  failed: countByStatus("failed"),
+                  confirmed: countByStatus("confirmed"),
+                })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isCreating && (
+                <div className="space-y-2">
+                  <Progress value={selectedPreviews.length ? (processedCount / selectedPreviews.length) * 100 : 0} />
+                  <p className="text-xs text-muted-foreground">
+                    {t("createProgress", { done: processedCount, total: selectedPreviews.length })}
+                  </p>
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("owner")}</TableHead>
+                    <TableHead className="text-end">{t("estimatedAmount")}</TableHead>
+                    <TableHead>{t("result")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedPreviews.map((preview) => (
+                    <TableRow key={preview.wallet.id}>
+                      <TableCell>{renderOwner(preview)}</TableCell>
+                      <TableCell>{renderAmount(preview)}</TableCell>
+                      <TableCell className="max-w-xs">{renderResult(results[preview.wallet.id])}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {!isCreating && (
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button variant="outline" onClick={handleStartOver} disabled={isConfirming} className="gap-2">
+                <RefreshCw className="h-4 w-4" />
+                {t("startOver")}
+              </Button>
+              {canConfirmSettlement && createdSettlements.length > 0 && (
+                <Button
+                  onClick={() => handleConfirmAll(createdSettlements)}
+                  disabled={isConfirming}
+                  className="gap-2 bg-emerald-600 hover:bg-emerald-700"
+                >
+                  {isConfirming ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
+                  {t("confirmAll", { count: createdSettlements.length })}
+                </Button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -29,7 +29,9 @@ import {
   Wallet,
   Tag,
   ExternalLink,
+  Download,
 } from "lucide-react";
+import { ExportTransactionsDialog } from "@/components/finance";
 import { usePagePermission } from "@/hooks/use-page-permission";
 import { useHasPermission, PERMISSIONS } from "@/hooks/use-permissions";
 import {
@@ -37,6 +39,7 @@ import {
   TRANSACTION_CATEGORIES,
   type TransactionFilters,
 } from "@/lib/services/wallet";
+import type { LedgerExportFilters } from "@/lib/exporters/transactions-export";
 import { PAGINATION } from "@/lib/constants/pagination";
 import { cn } from "@/lib/utils";
 
@@ -67,6 +70,7 @@ export default function AdminTransactionsPage() {
     return initial;
   });
   const [isFiltersExpanded, setIsFiltersExpanded] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     type: true,
     category: false,
@@ -74,19 +78,20 @@ export default function AdminTransactionsPage() {
     wallet: !!initialWalletId,
   });
 
-  // Build API filters
-  const apiFilters: TransactionFilters = useMemo(() => {
-    const f: TransactionFilters = {
-      page: currentPage,
-      per_page: PAGINATION.TRANSACTIONS,
-    };
+  // Build API filters (the export uses the same filters without pagination)
+  const ledgerFilters: LedgerExportFilters = useMemo(() => {
+    const f: LedgerExportFilters = {};
     if (filters.type) f.type = filters.type as 'credit' | 'debit';
     if (filters.category) f.category = filters.category;
     if (filters.from_date) f.from_date = filters.from_date;
     if (filters.to_date) f.to_date = filters.to_date;
     if (filters.wallet_id) f.wallet_id = parseInt(filters.wallet_id);
     return f;
-  }, [currentPage, filters]);
+  }, [filters]);
+  const apiFilters: TransactionFilters = useMemo(
+    () => ({ ...ledgerFilters, page: currentPage, per_page: PAGINATION.TRANSACTIONS }),
+    [ledgerFilters, currentPage]
+  );
 
   // Fetch transactions with React Query
   const { data, isLoading } = useQuery({
@@ -186,6 +191,10 @@ export default function AdminTransactionsPage() {
             {t('subtitle')}
           </p>
         </div>
+        <Button variant="outline" onClick={() => setIsExportOpen(true)} className="gap-2">
+          <Download className="h-4 w-4" />
+          {t('export')}
+        </Button>
       </div>
 
       {/* Summary Stats */}
@@ -405,6 +414,9 @@ export default function AdminTransactionsPage() {
                           <SelectItem value={TRANSACTION_CATEGORIES.ADJUSTMENT}>{t('categoryAdjustment')}</SelectItem>
                           <SelectItem value={TRANSACTION_CATEGORIES.SETTLEMENT}>{t('categorySettlement')}</SelectItem>
                           <SelectItem value={TRANSACTION_CATEGORIES.PREPAID_REVENUE}>{t('categoryPrepaidRevenue')}</SelectItem>
+                          <SelectItem value={TRANSACTION_CATEGORIES.REATTEMPT_FEE}>{t('categoryReattemptFee')}</SelectItem>
+                          <SelectItem value={TRANSACTION_CATEGORIES.RETURN_FEE}>{t('categoryReturnFee')}</SelectItem>
+                          <SelectItem value={TRANSACTION_CATEGORIES.PREPAID_REVERSAL}>{t('categoryPrepaidReversal')}</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -690,6 +702,13 @@ export default function AdminTransactionsPage() {
           )}
         </div>
       )}
+
+      <ExportTransactionsDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        filters={ledgerFilters}
+        filenamePrefix="transactions"
+      />
     </div>
   );
 }
@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Banknote, Loader2, Package, RefreshCw, Truck, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RunActionDialog, RunStopCard, type RunStopAction } from "@/components/runs";
+import { queryKeys } from "@/components/providers/query-provider";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSION_MODULES } from "@/hooks/use-permissions";
+import { useAgentDeliveredToday, useMyAssignedOrders } from "@/hooks/queries/use-orders";
+import { buildMyRuns, getCashCollectedToday, type MyRunStop, type RunLeg } from "@/lib/dispatch/my-runs";
+import type { OrderActionResult } from "@/lib/offline/outbox";
+import type { Order } from "@/lib/services/orders";
+import { fetchMyWallet } from "@/lib/services/wallet";
+import { getCurrentUser } from "@/lib/auth";
+import { cn } from "@/lib/utils";
+
+function formatAmount(amount: number, locale: string): string {
+  return new Intl.NumberFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+export default function MyRunsPage() {
+  const t = useTranslations("myRuns");
+  const tCommon = useTranslations("common");
+  const tOffline = useTranslations("offline");
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+
+  const hasPermission = usePagePermission({
+    requiredPermissions: [...PERMISSION_MODULES.FIELD_WORK],
+  });
+
+  const [agentId, setAgentId] = useState<number | null>(null);
+  const [tab, setTab] = useState<RunLeg>("delivery");
+  const [activeStop, setActiveStop] = useState<{ stop: MyRunStop; action: RunStopAction } | null>(null);
+
+  // Hydrate user data from localStorage
+  useEffect(() => {
+    setAgentId(getCurrentUser()?.id ?? null);
+  }, []);
+
+  const {
+    data: orders = [],
+    isLoading,
+    isFetching,
+    refetch,
+  } = useMyAssignedOrders({ enabled: hasPermission === true });
+  const { data: deliveredOrders = [] } = useAgentDeliveredToday(hasPermission ? agentId : null);
+  const { data: wallet, isLoading: isLoadingWallet } = useQuery({
+    queryKey: ["my-wallet"],
+    queryFn: fetchMyWallet,
+    enabled: hasPermission === true,
+  });
+
+  const runs = useMemo(
+    () => (agentId ? buildMyRuns(orders, agentId) : { pickups: [], deliveries: [], codToCollect: 0 }),
+    [orders, agentId]
+  );
+  const collected = useMemo(
+    () => (agentId ? getCashCollectedToday(deliveredOrders, agentId) : { amount: 0, count: 0 }),
+    [deliveredOrders, agentId]
+  );
+
+  const handleActionDone = (order: Order, result: OrderActionResult) => {
+    setActiveStop(null);
+    if (result.queued) {
+      toast.info(tOffline("actionQueued"));
+      return;
+    }
+    toast.success(t("actionDone"), { description: order.order_number });
+    queryClient.setQueryData(queryKeys.orders.detail(order.id), result.order);
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    queryClient.invalidateQueries({ queryKey: ["my-wallet"] });
+  };
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const renderStops = (stops: MyRunStop[], emptyText: string) => {
+    if (isLoading) {
+      return (
+        <div className="grid gap-4 md:grid-cols-2">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-64 w-full" />
+          ))}
+        </div>
+      );
+    }
+
+    if (stops.length === 0) {
+      return (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <div className="h-16 w-16 rounded-full bg-muted mx-auto flex items-center justify-center mb-4">
+              <Package className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <p className="text-sm text-muted-foreground">{emptyText}</p>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="grid gap-4 md:grid-cols-2">
+        {stops.map((stop) => (
+          <RunStopCard
+            key={stop.assignment.id}
+            stop={stop}
+            onAction={(s, action) => setActiveStop({ stop: s, action })}
+            formatAmount={(amount) => formatAmount(amount, locale)}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">{t("subtitle")}</p>
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-10 w-10 shrink-0"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          title={t("refresh")}
+        >
+          <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+        </Button>
+      </div>
+
+      {/* Cash */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6 flex items-center gap-3">
+            <Banknote className="h-8 w-8 text-emerald-600" />
+            <div>
+              <p className="text-2xl font-bold">
+                {formatAmount(collected.amount, locale)}{" "}
+                <span className="text-sm font-normal">{tCommon("egp")}</span>
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {t("collectedToday", { count: collected.count })}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 flex items-center gap-3">
+            <Truck className="h-8 w-8 text-amber-600" />
+            <div>
+              <p className="text-2xl font-bold">
+                {formatAmount(runs.codToCollect, locale)}{" "}
+                <span className="text-sm font-normal">{tCommon("egp")}</span>
+              </p>
+              <p className="text-sm text-muted-foreground">{t("stillToCollect")}</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 flex items-center gap-3">
+            <Wallet className="h-8 w-8 text-primary" />
+            <div>
+              {isLoadingWallet ? (
+                <Skeleton className="h-8 w-24" />
+              ) : (
+                <p
+                  className={cn(
+                    "text-2xl font-bold",
+                    wallet?.balance_status === "negative" && "text-destructive"
+                  )}
+                >
+                  {wallet ? formatAmount(wallet.balance, locale) : "-"}{" "}
+                  <span className="text-sm font-normal">{tCommon("egp")}</span>
+                </p>
+              )}
+              <p className="text-sm text-muted-foreground">{t("walletBalance")}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as RunLeg)}>
+        <TabsList className="grid w-full grid-cols-2 h-11">
+          <TabsTrigger value="delivery" className="h-9">
+            {t("deliveries", { count: runs.deliveries.length })}
+          </TabsTrigger>
+          <TabsTrigger value="pickup" className="h-9">
+            {t("pickups", { count: runs.pickups.length })}
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="delivery" className="mt-4">
+          {renderStops(runs.deliveries, t("noDeliveries"))}
+        </TabsContent>
+        <TabsContent value="pickup" className="mt-4">
+          {renderStops(runs.pickups, t("noPickups"))}
+        </TabsContent>
+      </Tabs>
+
+      <RunActionDialog
+        order={activeStop?.stop.order ?? null}
+        action={activeStop?.action ?? null}
+        onOpenChange={(open) => !open && setActiveStop(null)}
+        onDone={handleActionDone}
+      />
+    </div>
+  );
+}
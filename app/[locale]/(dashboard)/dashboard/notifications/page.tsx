@@ -0,0 +1,434 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Link } from "@/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { BellOff, Check, Loader2, RefreshCw, Settings2, Trash2, X } from "lucide-react";
+import {
+  useDeleteNotifications,
+  useInfiniteNotifications,
+  useMarkNotificationsRead,
+} from "@/hooks/queries/use-notifications";
+import {
+  NOTIFICATION_CATEGORIES,
+  getNotificationCategory,
+  getNotificationLink,
+  type Notification,
+  type NotificationCategory,
+  type NotificationFilters,
+} from "@/lib/services/notifications";
+import { NotificationPreferencesPanel } from "@/components/notifications/notification-preferences-panel";
+import {
+  NOTIFICATION_COLORS,
+  NOTIFICATION_ICONS,
+} from "@/components/notifications/notification-styles";
+import { cn } from "@/lib/utils";
+
+const ALL = "all";
+
+type ReadFilter = typeof ALL | "unread" | "read";
+
+export default function NotificationsPage() {
+  const t = useTranslations("notifications");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+
+  const [category, setCategory] = useState<NotificationCategory | typeof ALL>(ALL);
+  const [readFilter, setReadFilter] = useState<ReadFilter>(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const filters: Omit<NotificationFilters, "page" | "per_page"> = {
+    ...(category !== ALL && { category }),
+    ...(readFilter === "unread" && { unread_only: true }),
+    ...(readFilter === "read" && { read_only: true }),
+    ...(fromDate && { from_date: fromDate }),
+    ...(toDate && { to_date: toDate }),
+  };
+
+  const {
+    data,
+    isLoading,
+    isFetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteNotifications(filters);
+  const markReadMutation = useMarkNotificationsRead();
+  const deleteMutation = useDeleteNotifications();
+
+  const notifications = useMemo(() => data?.pages.flatMap((page) => page.data) ?? [], [data]);
+  const total = data?.pages[0]?.meta.total ?? 0;
+  const hasActiveFilters = category !== ALL || readFilter !== ALL || !!fromDate || !!toDate;
+
+  // Selection only covers what is loaded; drop ids that were deleted or filtered out
+  const loadedIds = useMemo(() => new Set(notifications.map((n) => n.id)), [notifications]);
+  const selected = [...selectedIds].filter((id) => loadedIds.has(id));
+  const allSelected = notifications.length > 0 && selected.length === notifications.length;
+
+  // Load the next page when the sentinel below the list scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          void fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const clearFilters = () => {
+    setCategory(ALL);
+    setReadFilter(ALL);
+    setFromDate("");
+    setToDate("");
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(loadedIds) : new Set());
+  };
+
+  const handleMarkRead = (ids: string[]) => {
+    markReadMutation.mutate(ids, {
+      onSuccess: () => setSelectedIds(new Set()),
+      onError: () => toast.error(t("errorMarkingRead")),
+    });
+  };
+
+  const handleDelete = () => {
+    deleteMutation.mutate(selected, {
+      onSuccess: () => {
+        toast.success(t("deletedCount", { count: selected.length }));
+        setSelectedIds(new Set());
+      },
+      onError: () => toast.error(t("errorDeleting")),
+      onSettled: () => setConfirmDelete(false),
+    });
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.is_read) {
+      markReadMutation.mutate([notification.id]);
+    }
+  };
+
+  const renderNotification = (notification: Notification) => {
+    const iconType = getNotificationCategory(notification);
+    const Icon = NOTIFICATION_ICONS[iconType];
+    const link = getNotificationLink(notification);
+    const isSelected = selectedIds.has(notification.id);
+
+    const body = (
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className={cn("text-sm leading-snug", !notification.is_read ? "font-semibold" : "font-medium")}>
+          {notification.title}
+        </p>
+        <p className="text-sm text-muted-foreground">{notification.body}</p>
+        <p className="text-xs text-muted-foreground/70">
+          {new Date(notification.created_at).toLocaleString(locale)}
+        </p>
+      </div>
+    );
+
+    return (
+      <div
+        key={notification.id}
+        className={cn(
+          "flex items-start gap-3 p-4 transition-colors hover:bg-muted/50",
+          !notification.is_read && "bg-primary/[0.03]",
+          isSelected && "bg-primary/5"
+        )}
+      >
+        <Checkbox
+          className="mt-3"
+          checked={isSelected}
+          onCheckedChange={(checked) => toggleSelected(notification.id, checked === true)}
+          aria-label={t("selectNotification")}
+        />
+        <div
+          className={cn(
+            "h-10 w-10 rounded-xl flex items-center justify-center shrink-0 shadow-lg",
+            NOTIFICATION_COLORS[iconType]
+          )}
+        >
+          <Icon className="h-5 w-5" />
+        </div>
+        {link ? (
+          <Link href={link} className="flex-1 min-w-0" onClick={() => handleOpen(notification)}>
+            {body}
+          </Link>
+        ) : (
+          <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleOpen(notification)}>
+            {body}
+          </div>
+        )}
+        <div className="flex items-center gap-1 shrink-0">
+          {!notification.is_read && (
+            <>
+              <span className="h-2 w-2 rounded-full bg-primary" />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-primary"
+                onClick={() => handleMarkRead([notification.id])}
+                title={t("markAsRead")}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">{t("pageSubtitle")}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="gap-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            <span className="hidden sm:inline">{t("refresh")}</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowPreferences(true)} className="gap-2">
+            <Settings2 className="h-4 w-4" />
+            <span className="hidden sm:inline">{t("preferences")}</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+            <Tabs value={readFilter} onValueChange={(value) => setReadFilter(value as ReadFilter)}>
+              <TabsList>
+                <TabsTrigger value={ALL}>{t("filterAll")}</TabsTrigger>
+                <TabsTrigger value="unread">{t("filterUnread")}</TabsTrigger>
+                <TabsTrigger value="read">{t("filterRead")}</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Select
+              value={category}
+              onValueChange={(value) => setCategory(value as NotificationCategory | typeof ALL)}
+            >
+              <SelectTrigger className="w-full lg:w-[200px] bg-background">
+                <SelectValue placeholder={t("category")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("allCategories")}</SelectItem>
+                {NOTIFICATION_CATEGORIES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {t(`category_${value}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-3 lg:ms-auto">
+              <div className="space-y-1">
+                <Label htmlFor="notifications-from" className="text-xs text-muted-foreground">
+                  {t("fromDate")}
+                </Label>
+                <Input
+                  id="notifications-from"
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="notifications-to" className="text-xs text-muted-foreground">
+                  {t("toDate")}
+                </Label>
+                <Input
+                  id="notifications-to"
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="h-9"
+                />
+              </div>
+            </div>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters} className="self-end">
+                <X className="h-4 w-4 me-2" />
+                {tCommon("clearAll")}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Bulk actions */}
+      {notifications.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              checked={allSelected ? true : selected.length > 0 ? "indeterminate" : false}
+              onCheckedChange={(checked) => toggleAll(checked === true)}
+              aria-label={t("selectAll")}
+            />
+            <span className="text-sm text-muted-foreground">
+              {selected.length > 0
+                ? t("selectedCount", { count: selected.length })
+                : t("loadedCount", { loaded: notifications.length, total })}
+            </span>
+          </div>
+          {selected.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => handleMarkRead(selected)}
+                disabled={markReadMutation.isPending}
+              >
+                <Check className="h-4 w-4" />
+                {t("markSelectedRead")}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 text-destructive hover:text-destructive"
+                onClick={() => setConfirmDelete(true)}
+              >
+                <Trash2 className="h-4 w-4" />
+                {t("deleteSelected")}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* List */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4, 5].map((i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      ) : notifications.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <div className="h-16 w-16 rounded-full bg-muted mx-auto flex items-center justify-center mb-4">
+              <BellOff className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="font-medium">{t("noNotifications")}</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              {hasActiveFilters ? t("noMatchingNotifications") : t("noNotificationsDesc")}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden py-0">
+          <div className="divide-y divide-border/50">{notifications.map(renderNotification)}</div>
+          <div ref={sentinelRef} className="flex justify-center py-4">
+            {isFetchingNextPage ? (
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            ) : !hasNextPage ? (
+              <span className="text-xs text-muted-foreground">{t("endOfList")}</span>
+            ) : null}
+          </div>
+        </Card>
+      )}
+
+      {/* Preferences */}
+      <Sheet open={showPreferences} onOpenChange={setShowPreferences}>
+        <SheetContent className="w-full sm:max-w-md">
+          <SheetHeader>
+            <SheetTitle>{t("preferences")}</SheetTitle>
+            <SheetDescription>{t("preferencesSubtitle")}</SheetDescription>
+          </SheetHeader>
+          <div className="px-4 pb-4 overflow-y-auto">
+            <NotificationPreferencesPanel />
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("deleteSelected")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("deleteSelectedConfirm", { count: selected.length })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : t("delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { useParams } from "next/navigation";
+import { useRouter } from "@/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Loader2, Lock, Save } from "lucide-react";
+import { toast } from "sonner";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSIONS } from "@/hooks/use-permissions";
+import { useOrder, useUpdateOrder } from "@/hooks/queries/use-orders";
+import {
+  getOrderChanges,
+  isOrderEditable,
+  type CreateOrderCustomer,
+  type CreateOrderRequest,
+  type UpdateOrderRequest,
+} from "@/lib/services/orders";
+import { OrderForm } from "@/components/orders";
+
+/**
+ * Form label keys (orderCreate namespace) used to describe an edit in the status log
+ */
+const CUSTOMER_FIELD_LABELS: Record<keyof CreateOrderCustomer, string> = {
+  name: 'customerName',
+  mobile: 'customerMobile',
+  email: 'customerEmail',
+  address: 'customerAddress',
+  address_notes: 'customerAddressNotes',
+  governorate_id: 'governorate',
+  city_id: 'city',
+  latitude: 'deliveryLocation',
+  longitude: 'deliveryLocation',
+};
+
+function getChangedFieldLabelKeys(changes: UpdateOrderRequest): string[] {
+  const keys = Object.keys(changes.customer || {}).map(
+    (field) => CUSTOMER_FIELD_LABELS[field as keyof CreateOrderCustomer]
+  );
+  if (changes.items) keys.push('orderItems');
+  if ('payment_method' in changes) keys.push('paymentMethod');
+  if ('vendor_notes' in changes) keys.push('vendorNotes');
+  return Array.from(new Set(keys));
+}
+
+export default function EditOrderPage() {
+  const t = useTranslations('orderCreate');
+  const tCommon = useTranslations('common');
+  const router = useRouter();
+  const params = useParams();
+  const orderId = parseInt(params.id as string);
+
+  const hasPermission = usePagePermission({ requiredPermissions: [PERMISSIONS.UPDATE_ORDER] });
+
+  const { data: order, isLoading, error } = useOrder(orderId);
+  const updateMutation = useUpdateOrder();
+
+  const backToOrder = () => router.push(`/dashboard/orders/${orderId}`);
+
+  const handleSubmit = async (orderData: CreateOrderRequest): Promise<boolean> => {
+    if (!order) return false;
+
+    const changes = getOrderChanges(order, orderData);
+    const changedLabelKeys = getChangedFieldLabelKeys(changes);
+
+    if (changedLabelKeys.length === 0) {
+      toast.info(t('noChangesToSave'));
+      return false;
+    }
+
+    try {
+      await updateMutation.mutateAsync({
+        id: order.id,
+        data: {
+          ...changes,
+          change_notes: `${t('changeNotesPrefix')}: ${changedLabelKeys.map((key) => t(key)).join(', ')}`,
+        },
+      });
+
+      toast.success(t('orderUpdatedSuccess'), {
+        description: `${t('orderNumber')}: ${order.order_number}`,
+      });
+      backToOrder();
+      return true;
+    } catch (error) {
+      console.error('Failed to update order:', error);
+      toast.error(t('orderUpdatedFailed'), {
+        description: error instanceof Error ? error.message : tCommon('tryAgain'),
+      });
+      return false;
+    }
+  };
+
+  if (hasPermission === null || hasPermission === false || isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto pb-8">
+      {/* Back Button */}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={backToOrder}
+        className="gap-2 text-muted-foreground hover:text-foreground -ms-2"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {t('backToOrder')}
+      </Button>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">
+          {t('editTitle')}
+          {order && <span className="font-mono text-muted-foreground ms-3">{order.order_number}</span>}
+        </h1>
+        <p className="text-muted-foreground mt-2">{t('editSubtitle')}</p>
+      </div>
+
+      {!order || error ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">
+            {error?.message || t('orderNotFound')}
+          </CardContent>
+        </Card>
+      ) : !isOrderEditable(order) ? (
+        <Card className="border-amber-500/50 bg-amber-50 dark:bg-amber-950/20">
+          <CardContent className="pt-6">
+            <div className="flex items-start gap-4">
+              <Lock className="h-5 w-5 shrink-0 text-amber-600 dark:text-amber-400 mt-0.5" />
+              <div>
+                <h3 className="font-semibold">{t('orderNotEditable')}</h3>
+                <p className="text-sm text-muted-foreground mt-1">{t('orderNotEditableDesc')}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <OrderForm
+          key={order.id}
+          initialOrder={order}
+          onSubmit={handleSubmit}
+          submitLabel={t('saveChanges')}
+          submittingLabel={t('saving')}
+          submitIcon={Save}
+          onCancel={backToOrder}
+        />
+      )}
+    </div>
+  );
+}
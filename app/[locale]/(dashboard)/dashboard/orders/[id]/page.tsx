@@ -44,14 +44,18 @@ import {
   ShieldAlert,
   Rocket,
   Wrench,
+  Pencil,
 } from "lucide-react";
 import { usePagePermission } from "@/hooks/use-page-permission";
 import { useHasPermission, PERMISSIONS } from "@/hooks/use-permissions";
-import { fetchOrder, acceptOrder, rejectOrder, cancelOrder, failDelivery, assignPickupAgent, assignDeliveryAgent, skipScan, skipVerifyOtp, type Order, type OrderItem, type Customer, type Assignment, type StatusLog, type Scan as ScanType, type Vendor, type OrderTransaction } from "@/lib/services/orders";
+import { fetchOrder, acceptOrder, rejectOrder, cancelOrder, assignPickupAgent, assignDeliveryAgent, skipScan, skipVerifyOtp, isOrderEditable, DELIVERY_FAILURE_REASONS, type DeliveryFailureReason, type Order, type OrderItem, type Customer, type Assignment, type StatusLog, type Scan as ScanType, type Vendor, type OrderTransaction } from "@/lib/services/orders";
 import { fetchMyInventories, fetchCurrentInventory, type Inventory } from "@/lib/services/inventories";
 import { fetchPickupAgents, fetchDeliveryAgents, type Agent } from "@/lib/services/agents";
 import { toast } from "sonner";
 import { getCurrentUser } from "@/lib/auth";
+import { isNetworkError } from "@/lib/errors";
+import { cacheOrder, getCachedOrder } from "@/lib/offline/offline-store";
+import { runOrQueueOrderAction } from "@/lib/offline/outbox";
 import {
   Dialog,
   DialogContent,
@@ -67,11 +71,13 @@ import { QRCodeSVG } from "qrcode.react";
 import { cn } from "@/lib/utils";
 import { BackendImage } from "@/components/ui/backend-image";
 import { ShippingLabel } from "@/components/print";
+import { ReturnActionDialog, OrderJourneyMap, getAvailableReturnActions, RETURN_ACTION_CONFIG, type ReturnAction } from "@/components/orders";
 import "@/components/print/print-styles.css";
 
 export default function OrderDetailPage() {
   const t = useTranslations('orders');
   const tCommon = useTranslations('common');
+  const tOffline = useTranslations('offline');
   const locale = useLocale();
   const router = useRouter();
   const params = useParams();
@@ -94,6 +100,7 @@ export default function OrderDetailPage() {
     ]
   });
   const { hasPermission: canViewPrintLabel } = useHasPermission(PERMISSIONS.VIEW_PRINT_LABEL);
+  const { hasPermission: canUpdateOrder } = useHasPermission(PERMISSIONS.UPDATE_ORDER);
 
   const [order, setOrder] = useState<Order | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -111,6 +118,8 @@ export default function OrderDetailPage() {
   const [isFailingDelivery, setIsFailingDelivery] = useState(false);
   const [showFailDeliveryDialog, setShowFailDeliveryDialog] = useState(false);
   const [failDeliveryReason, setFailDeliveryReason] = useState("");
+  const [failDeliveryReasonCode, setFailDeliveryReasonCode] = useState<DeliveryFailureReason | "">("");
+  const [returnAction, setReturnAction] = useState<ReturnAction | null>(null);
   const [isAssigning, setIsAssigning] = useState(false);
   const [showAssignDialog, setShowAssignDialog] = useState(false);
   const [agents, setAgents] = useState<Agent[]>([]);
@@ -162,7 +171,18 @@ export default function OrderDetailPage() {
         if (fetchedOrder.assignments) {
           setAssignments(fetchedOrder.assignments);
         }
+        cacheOrder(fetchedOrder).catch(() => {
+          // Offline copy is best effort
+        });
       } catch (error) {
+        // Without a connection, fall back to the copy saved on an earlier visit
+        const cachedOrder = isNetworkError(error) ? await getCachedOrder(orderId).catch(() => null) : null;
+        if (cachedOrder) {
+          setOrder(cachedOrder);
+          setAssignments(cachedOrder.assignments ?? []);
+          toast.info(tOffline('showingSavedOrder'));
+          return;
+        }
         const message = error instanceof Error ? error.message : tCommon('tryAgain');
         toast.error(t('errorLoadingOrder'), { description: message });
         router.push('/dashboard/orders');
@@ -175,6 +195,19 @@ export default function OrderDetailPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [orderId, hasPermission]);
 
+  const refreshOrder = useCallback(async () => {
+    try {
+      const fetchedOrder = await fetchOrder(orderId);
+      setOrder(fetchedOrder);
+      if (fetchedOrder.assignments) {
+        setAssignments(fetchedOrder.assignments);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : tCommon('tryAgain');
+      toast.error(t('errorLoadingOrder'), { description: message });
+    }
+  }, [orderId, t, tCommon]);
+
   const loadInventories = useCallback(async () => {
     setIsLoadingInventories(true);
     try {
@@ -250,6 +283,7 @@ export default function OrderDetailPage() {
   const handleFailDeliveryClick = useCallback(() => {
     setShowFailDeliveryDialog(true);
     setFailDeliveryReason("");
+    setFailDeliveryReasonCode("");
   }, []);
 
   const handleFailDelivery = useCallback(async () => {
@@ -259,10 +293,17 @@ export default function OrderDetailPage() {
     }
     setIsFailingDelivery(true);
     try {
-      const updatedOrder = await failDelivery(orderId, failDeliveryReason.trim());
-      setOrder(updatedOrder);
+      const result = await runOrQueueOrderAction(
+        { id: orderId, order_number: order?.order_number ?? String(orderId) },
+        { type: 'fail_delivery', reason: failDeliveryReason.trim(), reasonCode: failDeliveryReasonCode || undefined }
+      );
       setShowFailDeliveryDialog(false);
       setFailDeliveryReason("");
+      if (result.queued) {
+        toast.info(tOffline('actionQueued'));
+        return;
+      }
+      setOrder(result.order);
       toast.success(t('deliveryFailedSuccess'));
     } catch (error) {
       const message = error instanceof Error ? error.message : tCommon('tryAgain');
@@ -270,7 +311,7 @@ export default function OrderDetailPage() {
     } finally {
       setIsFailingDelivery(false);
     }
-  }, [orderId, failDeliveryReason, t, tCommon]);
+  }, [orderId, order?.order_number, failDeliveryReason, failDeliveryReasonCode, t, tCommon, tOffline]);
 
   const loadAgents = useCallback(async (inventoryId: number) => {
     setIsLoadingAgents(true);
@@ -573,9 +614,11 @@ export default function OrderDetailPage() {
   const canAccept = order.can_accept === true;
   const canReject = order.can_reject === true;
   const canCancel = order.can_cancel === true;
+  const canEdit = canUpdateOrder && isOrderEditable(order);
   const canFailDelivery = order.can_fail_delivery === true;
   const canAssignPickupAgent = order.can_assign_pickup_agent === true;
   const canAssignDeliveryAgent = order.can_assign_delivery_agent === true;
+  const returnActions = getAvailableReturnActions(order);
 
   // Admin skip action flags
   const canMarkPickedUp = order.can_mark_picked_up_from_vendor === true;
@@ -671,8 +714,18 @@ export default function OrderDetailPage() {
               </div>
 
               {/* Action Buttons */}
-              {(canAccept || canReject || canCancel || canFailDelivery || canAssignPickupAgent || canAssignDeliveryAgent) && (
+              {(canEdit || canAccept || canReject || canCancel || canFailDelivery || canAssignPickupAgent || canAssignDeliveryAgent || returnActions.length > 0) && (
                 <div className="flex flex-wrap gap-2 pt-4">
+                  {canEdit && (
+                    <Button
+                      variant="outline"
+                      onClick={() => router.push(`/dashboard/orders/${order.id}/edit`)}
+                      className="gap-2"
+                    >
+                      <Pencil className="h-4 w-4" />
+                      {t('editOrder')}
+                    </Button>
+                  )}
                   {canAccept && (
                     <Button onClick={handleAcceptClick} disabled={isAccepting} className="gap-2">
                       <CheckCircle className="h-4 w-4" />
@@ -719,6 +772,38 @@ export default function OrderDetailPage() {
                       {t('assignDeliveryAgent')}
                     </Button>
                   )}
+                  {returnActions.map((action) => {
+                    const { icon: ActionIcon, titleKey } = RETURN_ACTION_CONFIG[action];
+                    return (
+                      <Button key={action} variant="outline" onClick={() => setReturnAction(action)} className="gap-2">
+                        <ActionIcon className="h-4 w-4" />
+                        {t(titleKey)}
+                      </Button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Failed Delivery Details */}
+              {order.failure_reason && (
+                <div className="flex items-start gap-3 p-3 mt-4 rounded-xl border border-red-500/30 bg-red-500/5">
+                  <AlertTriangle className="h-4 w-4 text-red-600 shrink-0 mt-0.5" />
+                  <div className="text-sm space-y-0.5">
+                    <p className="font-medium">
+                      {order.failure_reason_code ? t(`failureReason_${order.failure_reason_code}`) : t('deliveryFailed')}
+                      {order.failed_delivery_at && (
+                        <span className="text-xs text-muted-foreground font-normal ms-2">
+                          {new Date(order.failed_delivery_at).toLocaleString(locale)}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-muted-foreground">{order.failure_reason}</p>
+                    {!!order.delivery_attempts && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('deliveryAttempts')}: {order.delivery_attempts}
+                      </p>
+                    )}
+                  </div>
                 </div>
               )}
 
@@ -1207,12 +1292,16 @@ export default function OrderDetailPage() {
                       </div>
                       <div className="flex-1 pb-4">
                         <div className="flex items-center justify-between gap-2">
-                          <p className="font-medium">{log.to_status_label || log.status_label || log.to_status || log.status || t('statusChanged')}</p>
+                          <p className="font-medium">
+                            {log.from_status && log.from_status === log.to_status
+                              ? t('orderEdited')
+                              : log.to_status_label || log.status_label || log.to_status || log.status || t('statusChanged')}
+                          </p>
                           <span className="text-xs text-muted-foreground">
                             {new Date(log.created_at).toLocaleString(locale)}
                           </span>
                         </div>
-                        {(log.from_status_label || log.from_status) && (
+                        {(log.from_status_label || log.from_status) && log.from_status !== log.to_status && (
                           <p className="text-sm text-muted-foreground mt-0.5">
                             {t('from')}: {log.from_status_label || log.from_status}
                           </p>
@@ -1236,6 +1325,9 @@ export default function OrderDetailPage() {
           </div>
         )}
 
+        {/* Journey Map */}
+        <OrderJourneyMap order={order} t={t} />
+
         {/* Scans */}
         {scans.length > 0 && (
           <div className="md:col-span-2 lg:col-span-3 group relative overflow-hidden rounded-2xl bg-card border p-5 hover:shadow-lg transition-all duration-300">
@@ -1535,6 +1627,24 @@ export default function OrderDetailPage() {
             <DialogDescription>{t('failDeliveryDesc')}</DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="fail_delivery_reason_code">{t('failureReasonCategory')}</Label>
+              <Select
+                value={failDeliveryReasonCode}
+                onValueChange={(value) => setFailDeliveryReasonCode(value as DeliveryFailureReason)}
+              >
+                <SelectTrigger id="fail_delivery_reason_code">
+                  <SelectValue placeholder={t('selectFailureReason')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIVERY_FAILURE_REASONS.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {t(`failureReason_${code}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="fail_delivery_reason">{t('failDeliveryReason')} *</Label>
               <Textarea
@@ -1559,6 +1669,19 @@ export default function OrderDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Return Action Dialog */}
+      {returnAction && (
+        <ReturnActionDialog
+          open={!!returnAction}
+          onOpenChange={(open) => !open && setReturnAction(null)}
+          action={returnAction}
+          order={order}
+          onSuccess={refreshOrder}
+          t={t}
+          tCommon={tCommon}
+        />
+      )}
+
       <Dialog open={showAcceptDialog} onOpenChange={setShowAcceptDialog}>
         <DialogContent>
           <DialogHeader>
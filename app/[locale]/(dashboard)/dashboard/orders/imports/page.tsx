@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/routing";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, FileSpreadsheet, Loader2, RefreshCw } from "lucide-react";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSIONS } from "@/hooks/use-permissions";
+import { useImportJobs } from "@/hooks/queries/use-orders";
+import { ImportHistoryCard } from "@/components/orders";
+import { getErrorMessage } from "@/lib/errors";
+
+export default function ImportHistoryPage() {
+  const t = useTranslations("importOrders");
+  const tOrders = useTranslations("orders");
+  const tCommon = useTranslations("common");
+  const router = useRouter();
+
+  const hasPermission = usePagePermission({ requiredPermissions: [PERMISSIONS.IMPORT_ORDERS] });
+
+  const [currentPage, setCurrentPage] = useState(1);
+  const { data, isLoading, isFetching, error, refetch } = useImportJobs(currentPage);
+  const jobs = data?.data ?? [];
+  const totalPages = data?.meta.last_page || 1;
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push("/dashboard/orders")}
+            aria-label={tCommon("back")}
+          >
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+          </Button>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("historyTitle")}</h1>
+            <p className="text-sm md:text-base text-muted-foreground mt-1">{t("historySubtitle")}</p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          className="gap-2"
+        >
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+          <span className="hidden sm:inline">{tOrders("refreshData")}</span>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-40 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <h3 className="font-medium">{t("historyLoadFailed")}</h3>
+            <p className="text-sm text-muted-foreground mt-1">{getErrorMessage(error, tCommon("tryAgain"))}</p>
+          </CardContent>
+        </Card>
+      ) : jobs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <div className="h-16 w-16 rounded-full bg-muted mx-auto flex items-center justify-center mb-4">
+              <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="font-medium">{t("historyEmptyTitle")}</h3>
+            <p className="text-sm text-muted-foreground mt-1">{t("historyEmptyDesc")}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {jobs.map((job) => (
+            <ImportHistoryCard key={job.localId ?? job.id} job={job} />
+          ))}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(currentPage - 1)}
+                disabled={currentPage === 1 || isFetching}
+              >
+                {tCommon("previous")}
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {t("pageOf", { page: currentPage, total: totalPages })}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(currentPage + 1)}
+                disabled={currentPage === totalPages || isFetching}
+              >
+                {tCommon("next")}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Loader2, Package, RefreshCw, X, MapPin, Building2, UserCheck, Hash, Phone, Calendar, Filter, ChevronDown, ChevronUp, Printer, Upload } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Plus, Loader2, Package, RefreshCw, X, MapPin, Building2, UserCheck, Hash, Phone, Calendar, Filter, ChevronDown, ChevronUp, Printer, Upload, History, Download, ListChecks, CheckCircle, XCircle, Truck } from "lucide-react";
 import { useRouter } from "@/i18n/routing";
 import { toast } from "sonner";
 
@@ -35,10 +41,16 @@ import {
   OrdersTable,
   OrdersCardGrid,
   OrderActionDialogs,
+  BulkOrderActionsDialog,
   ImportOrdersDialog,
+  ExportOrdersDialog,
+  canApplyBulkAction,
+  type BulkOrderAction,
   type ViewType,
 } from "@/components/orders";
 import { PrintLabelsDialog } from "@/components/print";
+import { OfflineAssignedOrders } from "@/components/offline/offline-assigned-orders";
+import { useOffline } from "@/components/providers/offline-provider";
 
 // Print styles
 import "@/components/print/print-styles.css";
@@ -61,6 +73,7 @@ export default function OrdersPage() {
   const locale = useLocale();
   const router = useRouter();
   const isMobile = useIsMobile();
+  const { isOnline } = useOffline();
 
   // User state for client-side data
   const [user, setUser] = useState<ReturnType<typeof getCurrentUser>>(null);
@@ -108,10 +121,12 @@ export default function OrdersPage() {
   const [showAssignDialog, setShowAssignDialog] = useState(false);
   const [assignmentType, setAssignmentType] = useState<'pickup' | 'delivery'>('pickup');
 
-  // Selection state for batch printing (vendor-only)
+  // Selection state for batch printing and bulk actions
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedOrderIds, setSelectedOrderIds] = useState<Set<number>>(new Set());
   const [showPrintDialog, setShowPrintDialog] = useState(false);
+  const [bulkAction, setBulkAction] = useState<BulkOrderAction | null>(null);
+  const [hasBulkRunCompleted, setHasBulkRunCompleted] = useState(false);
 
   // Permissions
   const hasPermission = usePagePermission({
@@ -131,10 +146,17 @@ export default function OrdersPage() {
   const { hasPermission: canCreateOrder } = useHasPermission(PERMISSIONS.CREATE_ORDER);
   const { hasPermission: canViewPrintLabel } = useHasPermission(PERMISSIONS.VIEW_PRINT_LABEL);
   const { hasPermission: canImportOrders } = useHasPermission(PERMISSIONS.IMPORT_ORDERS);
+  const { hasPermission: canAcceptOrders } = useHasPermission(PERMISSIONS.ACCEPT_ORDER);
+  const { hasPermission: canAssignPickupAgents } = useHasPermission(PERMISSIONS.ASSIGN_PICKUP_AGENT);
+  const { hasPermission: canAssignDeliveryAgents } = useHasPermission(PERMISSIONS.ASSIGN_DELIVERY_AGENT);
+  const canUseBulkActions = canAcceptOrders || canAssignPickupAgents || canAssignDeliveryAgents;
 
   // Import orders dialog
   const [showImportDialog, setShowImportDialog] = useState(false);
 
+  // Export orders dialog
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
   // Only vendor-role users with create-order permission can create orders
   const isVendorUser = user?.roles?.some(r => r.name === 'vendor');
   const canShowCreateOrder = canCreateOrder && isVendorUser;
@@ -530,6 +552,24 @@ export default function OrdersPage() {
     }
   }, []);
 
+  // Bulk action handlers
+  const handleBulkActionClick = useCallback((action: BulkOrderAction) => {
+    if (selectedOrderIds.size === 0) return;
+    setHasBulkRunCompleted(false);
+    setBulkAction(action);
+  }, [selectedOrderIds.size]);
+
+  const handleBulkDialogClose = useCallback((open: boolean) => {
+    if (open) return;
+    setBulkAction(null);
+    if (hasBulkRunCompleted) {
+      // Exit selection mode once a bulk run has finished
+      setIsSelectionMode(false);
+      setSelectedOrderIds(new Set());
+      setHasBulkRunCompleted(false);
+    }
+  }, [hasBulkRunCompleted]);
+
 
   // Computed values
   const orders = ordersResponse?.data || [];
@@ -541,6 +581,22 @@ export default function OrdersPage() {
     return orders.filter((order) => selectedOrderIds.has(order.id));
   }, [orders, selectedOrderIds]);
 
+  // Bulk actions available to the user, with how many selected orders allow each
+  const bulkActionOptions = useMemo(() => {
+    const options: { action: BulkOrderAction; labelKey: string; icon: typeof CheckCircle; allowed: boolean }[] = [
+      { action: "accept", labelKey: "bulkAccept", icon: CheckCircle, allowed: canAcceptOrders },
+      { action: "reject", labelKey: "bulkReject", icon: XCircle, allowed: canAcceptOrders },
+      { action: "assign_pickup", labelKey: "bulkAssignPickup", icon: Truck, allowed: canAssignPickupAgents },
+      { action: "assign_delivery", labelKey: "bulkAssignDelivery", icon: Truck, allowed: canAssignDeliveryAgents },
+    ];
+    return options
+      .filter((option) => option.allowed)
+      .map((option) => ({
+        ...option,
+        eligibleCount: selectedOrders.filter((order) => canApplyBulkAction(order, option.action)).length,
+      }));
+  }, [selectedOrders, canAcceptOrders, canAssignPickupAgents, canAssignDeliveryAgents]);
+
   const stats = useMemo(() => {
     return {
       total: totalOrders,
@@ -571,7 +627,7 @@ export default function OrdersPage() {
           <>
             <div className="flex items-center gap-4">
               <span className="text-lg font-medium">
-                {t("selectOrdersToPrint")}
+                {canUseBulkActions ? t("selectOrdersForAction") : t("selectOrdersToPrint")}
               </span>
             </div>
             <Button
@@ -604,6 +660,15 @@ export default function OrdersPage() {
                 <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
                 <span className="hidden sm:inline">{t("refreshData")}</span>
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowExportDialog(true)}
+                className="gap-2"
+              >
+                <Download className="h-4 w-4" />
+                <span className="hidden sm:inline">{t("exportOrders")}</span>
+              </Button>
               {canShowImportOrders && (
                 <Button
                   variant="outline"
@@ -615,6 +680,28 @@ export default function OrdersPage() {
                   <span className="hidden sm:inline">{t("importOrders")}</span>
                 </Button>
               )}
+              {canShowImportOrders && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => router.push("/dashboard/orders/imports")}
+                  className="gap-2"
+                >
+                  <History className="h-4 w-4" />
+                  <span className="hidden sm:inline">{t("importHistory")}</span>
+                </Button>
+              )}
+              {canUseBulkActions && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleEnterSelectionMode}
+                  className="gap-2"
+                >
+                  <ListChecks className="h-4 w-4" />
+                  <span className="hidden sm:inline">{t("bulkActions")}</span>
+                </Button>
+              )}
               {canViewPrintLabel && (
                 <Button
                   variant="outline"
@@ -1218,6 +1305,9 @@ export default function OrdersPage() {
         </div>
       )}
 
+      {/* Saved assigned orders while the list can't load */}
+      {!isOnline && <OfflineAssignedOrders />}
+
       {/* View Toggle & Results Count */}
       <div className="flex items-center justify-between">
         <span className="text-sm text-muted-foreground">
@@ -1399,7 +1489,7 @@ export default function OrdersPage() {
         tCommon={tCommon}
       />
 
-      {/* Floating Selection Bar for Batch Print (Selection Mode) */}
+      {/* Floating Selection Bar for Batch Print and Bulk Actions (Selection Mode) */}
       {isSelectionMode && (
         <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-50">
           <Card className="shadow-lg border-2">
@@ -1425,14 +1515,45 @@ export default function OrdersPage() {
                     {t("selectAll")}
                   </Button>
                 )}
-                <Button
-                  size="sm"
-                  onClick={handlePrintLabels}
-                  disabled={selectedOrderIds.size === 0}
-                >
-                  <Printer className="h-4 w-4 me-1.5" />
-                  {t("printLabels")}
-                </Button>
+                {bulkActionOptions.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant={canViewPrintLabel ? "outline" : "default"}
+                        disabled={selectedOrderIds.size === 0}
+                      >
+                        <ListChecks className="h-4 w-4 me-1.5" />
+                        {t("bulkActions")}
+                        <ChevronDown className="h-4 w-4 ms-1" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" side="top">
+                      {bulkActionOptions.map(({ action, labelKey, icon: Icon, eligibleCount }) => (
+                        <DropdownMenuItem
+                          key={action}
+                          onClick={() => handleBulkActionClick(action)}
+                          disabled={eligibleCount === 0}
+                          className="gap-2"
+                        >
+                          <Icon className="h-4 w-4" />
+                          <span className="flex-1">{t(labelKey)}</span>
+                          <Badge variant="secondary" className="ms-2">{eligibleCount}</Badge>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {canViewPrintLabel && (
+                  <Button
+                    size="sm"
+                    onClick={handlePrintLabels}
+                    disabled={selectedOrderIds.size === 0}
+                  >
+                    <Printer className="h-4 w-4 me-1.5" />
+                    {t("printLabels")}
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -1448,11 +1569,33 @@ export default function OrdersPage() {
         tCommon={tCommon}
       />
 
+      {/* Bulk Order Actions Dialog */}
+      {bulkAction && (
+        <BulkOrderActionsDialog
+          open={!!bulkAction}
+          onOpenChange={handleBulkDialogClose}
+          action={bulkAction}
+          orders={selectedOrders}
+          onComplete={() => setHasBulkRunCompleted(true)}
+          t={t}
+          tCommon={tCommon}
+        />
+      )}
+
       {/* Import Orders Dialog */}
       <ImportOrdersDialog
         open={showImportDialog}
         onOpenChange={setShowImportDialog}
       />
+
+      {/* Export Orders Dialog */}
+      <ExportOrdersDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        filters={appliedFilters}
+        t={t}
+        tCommon={tCommon}
+      />
     </div>
   );
 }
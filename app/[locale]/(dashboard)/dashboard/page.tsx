@@ -60,6 +60,14 @@ export default function DashboardPage() {
   // Check user roles (must be after hydration)
   const isVendor = isHydrated && user?.roles?.some(r => r.name === 'vendor');
   const isSuperAdmin = isHydrated && user?.roles?.some(r => r.name === 'super-admin');
+  const isShippingAgent = isHydrated && user?.roles?.some(r => r.name === 'shipping-agent');
+
+  // Shipping agents work from their own mobile workspace
+  useEffect(() => {
+    if (isShippingAgent) {
+      router.replace('/dashboard/my-runs');
+    }
+  }, [isShippingAgent, router]);
 
   // Fetch recent orders (last 10, sorted by created_at desc) - all authenticated users can access this
   const { data: ordersResponse, isLoading: isLoadingOrders } = useOrders(1, PAGINATION.ORDERS, {});
@@ -184,7 +192,7 @@ export default function DashboardPage() {
   ];
 
   // Show loading while checking permissions
-  if (hasPermission === null || !isHydrated) {
+  if (hasPermission === null || !isHydrated || isShippingAgent) {
     return (
       <div className="flex items-center justify-center h-screen">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RefreshCw, Undo2 } from "lucide-react";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSIONS } from "@/hooks/use-permissions";
+import { useReturnOrders } from "@/hooks/queries/use-orders";
+import { ReturnsTable, ReturnActionDialog, type ReturnAction } from "@/components/orders";
+import {
+  DELIVERY_FAILURE_REASONS,
+  RETURN_STATUSES,
+  type Order,
+  type OrderFilters,
+  type ReturnStatus,
+} from "@/lib/services/orders";
+import { PAGINATION } from "@/lib/constants/pagination";
+
+const ALL = "all";
+
+/** Translation keys (orders namespace) for each return stage tab */
+const STAGE_LABELS: Record<ReturnStatus, string> = {
+  failed_delivery: "failedDelivery",
+  return_to_vendor: "returnPending",
+  returning: "returning",
+  returned: "returned",
+};
+
+export default function ReturnsPage() {
+  const t = useTranslations("returns");
+  const tOrders = useTranslations("orders");
+  const tCommon = useTranslations("common");
+
+  const hasPermission = usePagePermission({ requiredPermissions: [PERMISSIONS.MANAGE_RETURNS] });
+
+  const [stage, setStage] = useState<ReturnStatus | typeof ALL>("failed_delivery");
+  const [reasonCode, setReasonCode] = useState<string>(ALL);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [activeAction, setActiveAction] = useState<{ order: Order; action: ReturnAction } | null>(null);
+
+  const filters: OrderFilters = {
+    ...(stage !== ALL && { status: stage }),
+    ...(reasonCode !== ALL && { failure_reason_code: reasonCode }),
+  };
+
+  const { data, isLoading, isFetching, refetch } = useReturnOrders(
+    currentPage,
+    PAGINATION.ORDERS,
+    filters
+  );
+
+  const orders = data?.data || [];
+  const totalPages = data?.meta?.last_page || 1;
+
+  const handleStageChange = (value: string) => {
+    setStage(value as ReturnStatus | typeof ALL);
+    setCurrentPage(1);
+  };
+
+  const handleReasonChange = (value: string) => {
+    setReasonCode(value);
+    setCurrentPage(1);
+  };
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">{t("subtitle")}</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          className="gap-2"
+        >
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+          <span className="hidden sm:inline">{tOrders("refreshData")}</span>
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <Tabs value={stage} onValueChange={handleStageChange}>
+          <TabsList className="flex-wrap h-auto">
+            {RETURN_STATUSES.map((status) => (
+              <TabsTrigger key={status} value={status}>
+                {tOrders(STAGE_LABELS[status])}
+              </TabsTrigger>
+            ))}
+            <TabsTrigger value={ALL}>{t("allStages")}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <div className="flex items-center gap-2">
+          <Select value={reasonCode} onValueChange={handleReasonChange}>
+            <SelectTrigger className="w-full lg:w-[240px] bg-background">
+              <SelectValue placeholder={tOrders("selectFailureReason")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("allReasons")}</SelectItem>
+              {DELIVERY_FAILURE_REASONS.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {tOrders(`failureReason_${code}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {data?.meta && (
+            <Badge variant="secondary" className="shrink-0">
+              {data.meta.total} {t("parcels")}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {/* Queue */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : orders.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <div className="h-16 w-16 rounded-full bg-muted mx-auto flex items-center justify-center mb-4">
+              <Undo2 className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="font-medium">{t("emptyTitle")}</h3>
+            <p className="text-sm text-muted-foreground mt-1">{t("emptyDesc")}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <ReturnsTable
+          orders={orders}
+          onAction={(order, action) => setActiveAction({ order, action })}
+          t={tOrders}
+        />
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 pt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+            disabled={currentPage === 1 || isFetching}
+            className="rounded-lg"
+          >
+            {tCommon("previous")}
+          </Button>
+          <span className="text-sm text-muted-foreground px-2">
+            {currentPage} / {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+            disabled={currentPage === totalPages || isFetching}
+            className="rounded-lg"
+          >
+            {tCommon("next")}
+          </Button>
+        </div>
+      )}
+
+      {activeAction && (
+        <ReturnActionDialog
+          open={!!activeAction}
+          onOpenChange={(open) => !open && setActiveAction(null)}
+          action={activeAction.action}
+          order={activeAction.order}
+          t={tOrders}
+          tCommon={tCommon}
+        />
+      )}
+    </div>
+  );
+}
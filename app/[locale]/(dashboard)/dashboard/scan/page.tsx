@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { OrderStatusBadge } from "@/components/ui/status-badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ScanLine, Keyboard, MapPin, History, Package } from "lucide-react";
+import { toast } from "sonner";
+import { usePagePermission } from "@/hooks/use-page-permission";
+import { PERMISSIONS } from "@/hooks/use-permissions";
+import { useKeyboardWedge } from "@/hooks/use-keyboard-wedge";
+import { queryKeys } from "@/components/providers/query-provider";
+import {
+  CameraScanner,
+  ScanSessionLog,
+  SCAN_ACTIONS,
+  resolveScanAction,
+  getScanActionLabelKey,
+  type ScanLogEntry,
+  type ScanStationMode,
+} from "@/components/scan";
+import { findOrderByScanCode, type Order } from "@/lib/services/orders";
+import { getErrorMessage, isNetworkError } from "@/lib/errors";
+import { findCachedOrderByScanCode } from "@/lib/offline/offline-store";
+import { runOrQueueOrderAction } from "@/lib/offline/outbox";
+
+const SESSION_LOG_STORAGE_KEY = "scan-station-session-log";
+const MODE_STORAGE_KEY = "scan-station-mode";
+
+/** Keep the session log bounded so sessionStorage stays small */
+const MAX_LOG_ENTRIES = 500;
+
+export default function ScanStationPage() {
+  const t = useTranslations("scanStation");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+
+  const hasPermission = usePagePermission({
+    requiredPermissions: [
+      PERMISSIONS.SCAN_ORDER_INVENTORY,
+      PERMISSIONS.SCAN_ORDER_DELIVERY,
+      PERMISSIONS.PICKUP_ORDER_FROM_VENDOR,
+      PERMISSIONS.PICKUP_ORDER_FROM_INVENTORY,
+    ],
+  });
+
+  const [mode, setMode] = useState<ScanStationMode>("auto");
+  const [manualCode, setManualCode] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [lastOrder, setLastOrder] = useState<Order | null>(null);
+  const [entries, setEntries] = useState<ScanLogEntry[]>([]);
+  const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(null);
+  const processingRef = useRef(false);
+
+  // Restore session log and station mode
+  useEffect(() => {
+    try {
+      const savedLog = sessionStorage.getItem(SESSION_LOG_STORAGE_KEY);
+      if (savedLog) {
+        setEntries(JSON.parse(savedLog));
+      }
+    } catch {
+      sessionStorage.removeItem(SESSION_LOG_STORAGE_KEY);
+    }
+    const savedMode = localStorage.getItem(MODE_STORAGE_KEY);
+    if (savedMode && (savedMode === "auto" || SCAN_ACTIONS.some((a) => a.action === savedMode))) {
+      setMode(savedMode as ScanStationMode);
+    }
+  }, []);
+
+  // Persist session log
+  useEffect(() => {
+    sessionStorage.setItem(SESSION_LOG_STORAGE_KEY, JSON.stringify(entries));
+  }, [entries]);
+
+  // Capture the station location once so scans carry coordinates
+  useEffect(() => {
+    if (!hasPermission || !navigator.geolocation) return;
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setPosition({ latitude: pos.coords.latitude, longitude: pos.coords.longitude }),
+      () => setPosition(null),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  }, [hasPermission]);
+
+  const handleModeChange = useCallback((value: string) => {
+    setMode(value as ScanStationMode);
+    localStorage.setItem(MODE_STORAGE_KEY, value);
+  }, []);
+
+  const addEntry = useCallback((entry: Omit<ScanLogEntry, "id" | "scannedAt">) => {
+    setEntries((prev) => [
+      {
+        ...entry,
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        scannedAt: new Date().toISOString(),
+      },
+      ...prev,
+    ].slice(0, MAX_LOG_ENTRIES));
+  }, []);
+
+  const handleCode = useCallback(async (rawCode: string, source: "camera" | "keyboard") => {
+    const code = rawCode.trim();
+    if (!code || processingRef.current) return;
+
+    processingRef.current = true;
+    setIsProcessing(true);
+    try {
+      const order = await findOrderByScanCode(code).catch((error: unknown) => {
+        if (!isNetworkError(error)) throw error;
+        // Offline: look the label up among the orders saved on this device
+        return findCachedOrderByScanCode(code);
+      });
+      if (!order) {
+        addEntry({ code, status: "not_found" });
+        toast.error(t("orderNotFound"), { description: code });
+        return;
+      }
+
+      setLastOrder(order);
+      const action = resolveScanAction(order, mode);
+      if (!action) {
+        addEntry({
+          code,
+          status: "no_action",
+          orderId: order.id,
+          orderNumber: order.order_number,
+          statusLabel: order.status_label,
+        });
+        toast.warning(t("noActionAvailable"), {
+          description: `${order.order_number} - ${order.status_label}`,
+        });
+        return;
+      }
+
+      try {
+        const result = await runOrQueueOrderAction(order, {
+          type: "scan",
+          action,
+          payload: {
+            code,
+            latitude: position?.latitude,
+            longitude: position?.longitude,
+            device_info: source === "camera" ? t("deviceCamera") : t("deviceScanner"),
+          },
+        });
+        if (result.queued) {
+          addEntry({
+            code,
+            status: "queued",
+            orderId: order.id,
+            orderNumber: order.order_number,
+            action,
+            statusLabel: order.status_label,
+          });
+          toast.info(t("scanQueued"), {
+            description: `${order.order_number} - ${t(getScanActionLabelKey(action))}`,
+          });
+          return;
+        }
+
+        const updatedOrder = result.order;
+        setLastOrder(updatedOrder);
+        addEntry({
+          code,
+          status: "success",
+          orderId: order.id,
+          orderNumber: order.order_number,
+          action,
+          statusLabel: updatedOrder.status_label,
+        });
+        toast.success(t("scanRecorded"), {
+          description: `${order.order_number} - ${t(getScanActionLabelKey(action))}`,
+        });
+
+        queryClient.setQueryData(queryKeys.orders.detail(order.id), updatedOrder);
+        queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
+        queryClient.invalidateQueries({ queryKey: queryKeys.orders.stats() });
+      } catch (error) {
+        const message = getErrorMessage(error, tCommon("tryAgain"));
+        addEntry({
+          code,
+          status: "failed",
+          orderId: order.id,
+          orderNumber: order.order_number,
+          action,
+          message,
+        });
+        toast.error(t("scanFailed"), { description: message });
+      }
+    } catch (error) {
+      const message = getErrorMessage(error, tCommon("tryAgain"));
+      addEntry({ code, status: "failed", message });
+      toast.error(t("lookupFailed"), { description: message });
+    } finally {
+      processingRef.current = false;
+      setIsProcessing(false);
+    }
+  }, [mode, position, addEntry, queryClient, t, tCommon]);
+
+  const handleCameraDetected = useCallback((code: string) => {
+    handleCode(code, "camera");
+  }, [handleCode]);
+
+  const handleWedgeScan = useCallback((code: string) => {
+    handleCode(code, "keyboard");
+  }, [handleCode]);
+
+  useKeyboardWedge({ onScan: handleWedgeScan, enabled: hasPermission === true });
+
+  const handleManualSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+    handleCode(manualCode, "keyboard");
+    setManualCode("");
+  }, [manualCode, handleCode]);
+
+  const handleOpenOrder = useCallback((orderId: number) => {
+    window.open(`/${locale}/dashboard/orders/${orderId}`, "_blank");
+  }, [locale]);
+
+  const handleClearLog = useCallback(() => {
+    setEntries([]);
+    setLastOrder(null);
+  }, []);
+
+  if (hasPermission === null || hasPermission === false) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{t("title")}</h1>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">{t("subtitle")}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="scan_mode" className="text-sm text-muted-foreground whitespace-nowrap">
+            {t("stationMode")}
+          </Label>
+          <Select value={mode} onValueChange={handleModeChange}>
+            <SelectTrigger id="scan_mode" className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">{t("modeAuto")}</SelectItem>
+              {SCAN_ACTIONS.map(({ action, labelKey }) => (
+                <SelectItem key={action} value={action}>
+                  {t(labelKey)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Scanner */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScanLine className="h-5 w-5 text-primary" />
+                {t("cameraTitle")}
+              </CardTitle>
+              <CardDescription>{t("cameraDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CameraScanner onDetected={handleCameraDetected} paused={isProcessing} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Keyboard className="h-5 w-5 text-primary" />
+                {t("manualTitle")}
+              </CardTitle>
+              <CardDescription>{t("manualDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleManualSubmit} className="flex gap-2">
+                <Input
+                  value={manualCode}
+                  onChange={(e) => setManualCode(e.target.value)}
+                  placeholder={t("manualPlaceholder")}
+                  className="font-mono"
+                  dir="ltr"
+                  autoComplete="off"
+                />
+                <Button type="submit" disabled={isProcessing || !manualCode.trim()} className="gap-2">
+                  {isProcessing ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanLine className="h-4 w-4" />}
+                  {t("submitCode")}
+                </Button>
+              </form>
+              <p className="mt-3 flex items-center gap-1.5 text-xs text-muted-foreground">
+                <MapPin className="h-3.5 w-3.5" />
+                {position ? t("locationCaptured") : t("locationUnavailable")}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Last scanned + session log */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5 text-primary" />
+                {t("lastScanned")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isProcessing ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : lastOrder ? (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <button
+                      onClick={() => handleOpenOrder(lastOrder.id)}
+                      className="font-mono text-lg font-bold hover:underline"
+                    >
+                      {lastOrder.order_number}
+                    </button>
+                    <OrderStatusBadge status={lastOrder.status} statusLabel={lastOrder.status_label} />
+                  </div>
+                  <div className="grid gap-1 text-sm text-muted-foreground">
+                    {lastOrder.customer?.name && <span>{lastOrder.customer.name}</span>}
+                    {lastOrder.customer?.full_address && <span>{lastOrder.customer.full_address}</span>}
+                    <span className="font-mono text-xs">{lastOrder.track_number}</span>
+                  </div>
+                  {lastOrder.payment_method === "cod" && (
+                    <Badge variant="secondary">
+                      {t("codAmount")}: {tCommon("egpSymbol")} {lastOrder.total_amount.toFixed(2)}
+                    </Badge>
+                  )}
+                </div>
+              ) : (
+                <p className="py-6 text-center text-sm text-muted-foreground">{t("waitingForScan")}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5 text-primary" />
+                {t("sessionLog")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ScanSessionLog entries={entries} onClear={handleClearLog} onOpenOrder={handleOpenOrder} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
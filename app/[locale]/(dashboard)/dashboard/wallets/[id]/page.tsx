@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams } from "next/navigation";
 import { useTranslations, useLocale } from "next-intl";
 import { Link } from "@/i18n/routing";
@@ -43,20 +43,30 @@ import {
   Scale,
   Calendar,
   FileText,
+  Download,
+  ShieldCheck,
+  Paperclip,
 } from "lucide-react";
 import {
   fetchWallet,
   fetchWalletTransactions,
   createAdjustment,
   createSettlement,
+  fetchAdjustmentApprovalPolicy,
+  isAdjustmentApprovalRequiredError,
+  requiresAdjustmentApproval,
+  submitAdjustmentRequest,
+  type AdjustmentApprovalPolicy,
   getWalletOwnerType,
   getWalletOwnerName,
   type Wallet as WalletType,
   type Transaction,
   type Settlement,
 } from "@/lib/services/wallet";
+import { ExportTransactionsDialog } from "@/components/finance";
 import { getCurrentUser } from "@/lib/auth";
 import { PAGINATION } from "@/lib/constants/pagination";
+import { validateFileSize } from "@/lib/validations";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { usePagePermission } from "@/hooks/use-page-permission";
@@ -94,7 +104,14 @@ export default function WalletDetailPage() {
   const [adjustmentType, setAdjustmentType] = useState<'credit' | 'debit'>('credit');
   const [adjustmentAmount, setAdjustmentAmount] = useState('');
   const [adjustmentDescription, setAdjustmentDescription] = useState('');
+  const [adjustmentAttachment, setAdjustmentAttachment] = useState<File | null>(null);
   const [isSubmittingAdjustment, setIsSubmittingAdjustment] = useState(false);
+  const [approvalPolicy, setApprovalPolicy] = useState<AdjustmentApprovalPolicy | null>(null);
+  const [isLoadingPolicy, setIsLoadingPolicy] = useState(false);
+  // Set when the server asked for approval the loaded policy didn't predict
+  const [isApprovalRequired, setIsApprovalRequired] = useState(false);
+
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   // Settlement dialog state
   const [isSettlementDialogOpen, setIsSettlementDialogOpen] = useState(false);
@@ -116,6 +133,26 @@ export default function WalletDetailPage() {
   // Can show settlement button if has permission and wallet has unsettled transactions
   const showSettlementButton = canCreateSettlement && wallet?.has_unsettled_transactions;
 
+  const loadApprovalPolicy = useCallback(() => {
+    setIsLoadingPolicy(true);
+    return fetchAdjustmentApprovalPolicy()
+      .then(setApprovalPolicy)
+      .catch(() => setApprovalPolicy(null))
+      .finally(() => setIsLoadingPolicy(false));
+  }, []);
+
+  // Load the approval threshold when the adjustment dialog opens. If it can't be
+  // loaded the adjustment is sent directly, and the dialog switches to an
+  // approval request when the server refuses it.
+  useEffect(() => {
+    if (!isAdjustmentDialogOpen) return;
+    setIsApprovalRequired(false);
+    loadApprovalPolicy();
+  }, [isAdjustmentDialogOpen, loadApprovalPolicy]);
+
+  const needsApproval =
+    isApprovalRequired || requiresAdjustmentApproval(parseFloat(adjustmentAmount) || 0, approvalPolicy);
+
   useEffect(() => {
     if (hasLoadedRef.current || !walletId) return;
 
@@ -169,11 +206,41 @@ export default function WalletDetailPage() {
 
     setIsSubmittingAdjustment(true);
     try {
-      await createAdjustment(walletId, {
-        type: adjustmentType,
-        amount,
-        description: adjustmentDescription.trim(),
-      });
+      if (needsApproval) {
+        const request = await submitAdjustmentRequest(walletId, {
+          type: adjustmentType,
+          amount,
+          description: adjustmentDescription.trim(),
+          attachment: adjustmentAttachment,
+        });
+
+        toast.success(t('adjustmentSubmittedForApproval'), {
+          description: request.request_number,
+        });
+        setIsAdjustmentDialogOpen(false);
+        setAdjustmentType('credit');
+        setAdjustmentAmount('');
+        setAdjustmentDescription('');
+        setAdjustmentAttachment(null);
+        // Nothing changes on the wallet until the request is approved
+        return;
+      }
+
+      try {
+        await createAdjustment(walletId, {
+          type: adjustmentType,
+          amount,
+          description: adjustmentDescription.trim(),
+        });
+      } catch (err) {
+        // The threshold changed since the policy was loaded, or it couldn't be
+        // loaded. Stay in the dialog so the reason and attachment can be reviewed.
+        if (!isAdjustmentApprovalRequiredError(err)) throw err;
+        setIsApprovalRequired(true);
+        await loadApprovalPolicy();
+        toast.warning(t('adjustmentNowNeedsApproval'));
+        return;
+      }
 
       toast.success(t('adjustmentSuccess'));
       setIsAdjustmentDialogOpen(false);
@@ -182,6 +249,7 @@ export default function WalletDetailPage() {
       setAdjustmentType('credit');
       setAdjustmentAmount('');
       setAdjustmentDescription('');
+      setAdjustmentAttachment(null);
 
       // Reload wallet and transactions
       hasLoadedRef.current = false;
@@ -428,6 +496,14 @@ export default function WalletDetailPage() {
 
         {/* Action Buttons */}
         <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsExportOpen(true)}
+            className="gap-2"
+          >
+            <Download className="h-4 w-4" />
+            {t('exportLedger')}
+          </Button>
           {showSettlementButton && (
             <Button
               variant="outline"
@@ -968,6 +1044,50 @@ export default function WalletDetailPage() {
               </p>
             </div>
 
+            {/* Approval required above the threshold */}
+            {needsApproval && (
+              <>
+                <div className="flex items-start gap-2 p-3 rounded-xl border border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-800 dark:bg-amber-950/20 dark:text-amber-400">
+                  <ShieldCheck className="h-4 w-4 mt-0.5 shrink-0" />
+                  <p className="text-sm">
+                    {approvalPolicy?.threshold != null
+                      ? t('adjustmentNeedsApproval', {
+                          threshold: `${formatCurrency(approvalPolicy.threshold)} ${tCommon('egp')}`,
+                        })
+                      : t('adjustmentApprovalRequired')}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="adjustment_attachment" className="text-sm font-medium">
+                    {t('adjustmentAttachment')}
+                  </Label>
+                  <Input
+                    id="adjustment_attachment"
+                    type="file"
+                    accept="image/*,.pdf"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0] ?? null;
+                      if (file && !validateFileSize(file).isValid) {
+                        toast.error(t('attachmentTooLarge'));
+                        e.target.value = '';
+                        return;
+                      }
+                      setAdjustmentAttachment(file);
+                    }}
+                  />
+                  {adjustmentAttachment ? (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Paperclip className="h-3 w-3" />
+                      {adjustmentAttachment.name}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">{t('adjustmentAttachmentHelp')}</p>
+                  )}
+                </div>
+              </>
+            )}
+
             {/* Preview */}
             {adjustmentAmount && parseFloat(adjustmentAmount) > 0 && (
               <div className={cn(
@@ -997,7 +1117,7 @@ export default function WalletDetailPage() {
             </Button>
             <Button
               onClick={handleAdjustmentSubmit}
-              disabled={isSubmittingAdjustment || !adjustmentAmount || !adjustmentDescription.trim()}
+              disabled={isSubmittingAdjustment || isLoadingPolicy || !adjustmentAmount || !adjustmentDescription.trim()}
               className={cn(
                 adjustmentType === 'credit'
                   ? "bg-emerald-600 hover:bg-emerald-700"
@@ -1011,12 +1131,14 @@ export default function WalletDetailPage() {
                 </>
               ) : (
                 <>
-                  {adjustmentType === 'credit' ? (
+                  {needsApproval ? (
+                    <ShieldCheck className="h-4 w-4 me-2" />
+                  ) : adjustmentType === 'credit' ? (
                     <Plus className="h-4 w-4 me-2" />
                   ) : (
                     <Minus className="h-4 w-4 me-2" />
                   )}
-                  {t('confirmAdjustment')}
+                  {needsApproval ? t('submitForApproval') : t('confirmAdjustment')}
                 </>
               )}
             </Button>
@@ -1024,6 +1146,14 @@ export default function WalletDetailPage() {
         </DialogContent>
       </Dialog>
 
+      <ExportTransactionsDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        filters={{}}
+        walletId={walletId}
+        filenamePrefix={`wallet-${walletId}-ledger`}
+      />
+
       {/* Settlement Dialog */}
       <Dialog open={isSettlementDialogOpen} onOpenChange={(open) => {
         if (!open) resetSettlementDialog();
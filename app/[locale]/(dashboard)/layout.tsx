@@ -4,6 +4,10 @@ import { AppSidebar } from "@/components/layout/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { LanguageSwitcher } from "@/components/language-switcher";
 import { NotificationsDropdown } from "@/components/notifications/notifications-dropdown";
+import { NotificationAlerts } from "@/components/notifications/notification-alerts";
+import { RealtimeProvider } from "@/components/providers/realtime-provider";
+import { OfflineProvider } from "@/components/providers/offline-provider";
+import { OfflineStatusBanner } from "@/components/offline/offline-status-banner";
 import { SidebarProvider, SidebarInset, SidebarTrigger } from "@/components/ui/sidebar";
 import { Separator } from "@/components/ui/separator";
 import { Loader2 } from "lucide-react";
@@ -76,28 +80,34 @@ export default function DashboardLayout({
   }
 
   return (
-    <SidebarProvider>
-      <AppSidebar />
-      <SidebarInset>
-        <header className="sticky top-0 z-10 flex h-16 shrink-0 items-center gap-2 border-b bg-background px-4">
-          <SidebarTrigger className="-ms-1" />
-          <Separator orientation="vertical" className="me-2 h-6" />
-
-          {/* Breadcrumb or page title can go here */}
-          <div className="flex-1" />
-
-          <div className="flex items-center gap-2">
-            <LanguageSwitcher />
-            <NotificationsDropdown />
-            <ThemeToggle />
-          </div>
-        </header>
-
-        <main className="flex flex-1 flex-col gap-4 p-4 md:p-6 min-w-0">
-          {children}
-        </main>
-      </SidebarInset>
-    </SidebarProvider>
+    <RealtimeProvider>
+      <OfflineProvider>
+        <SidebarProvider>
+          <AppSidebar />
+          <SidebarInset>
+            <header className="sticky top-0 z-10 flex h-16 shrink-0 items-center gap-2 border-b bg-background px-4">
+              <SidebarTrigger className="-ms-1" />
+              <Separator orientation="vertical" className="me-2 h-6" />
+
+              {/* Breadcrumb or page title can go here */}
+              <div className="flex-1" />
+
+              <div className="flex items-center gap-2">
+                <LanguageSwitcher />
+                <NotificationsDropdown />
+                <NotificationAlerts />
+                <ThemeToggle />
+              </div>
+            </header>
+
+            <main className="flex flex-1 flex-col gap-4 p-4 md:p-6 min-w-0">
+              <OfflineStatusBanner />
+              {children}
+            </main>
+          </SidebarInset>
+        </SidebarProvider>
+      </OfflineProvider>
+    </RealtimeProvider>
   );
 }
 
@@ -0,0 +1,178 @@
+"use client";
+
+import { use, useCallback, useEffect, useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  CalendarClock,
+  CheckCircle2,
+  ExternalLink,
+  Loader2,
+  Search,
+  XCircle,
+} from "lucide-react";
+import {
+  fetchTracking,
+  estimateDeliveryWindow,
+  formatDeliveryWindow,
+  type TrackingData,
+} from "@/lib/services/tracking";
+import { EMBED_THEMES } from "@/lib/tracking-links";
+import { useForcedTheme } from "@/components/providers/theme-provider";
+
+interface Props {
+  searchParams: Promise<{ track?: string; theme?: string }>;
+}
+
+/**
+ * Minimal tracking widget meant to be embedded in vendor storefronts via an iframe.
+ * Supports ?track= to pre-fill a tracking number and ?theme=light|dark.
+ */
+export default function EmbedTrackPage({ searchParams }: Props) {
+  const { track, theme } = use(searchParams);
+  const t = useTranslations('tracking');
+  const locale = useLocale();
+
+  const [trackNumber, setTrackNumber] = useState(track || '');
+  const [tracking, setTracking] = useState<TrackingData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+
+  // The iframe is its own document, so forcing the theme here doesn't touch the host page
+  const embedTheme = EMBED_THEMES.find((value) => value === theme);
+  useForcedTheme(embedTheme === 'auto' ? undefined : embedTheme);
+
+  const lookup = useCallback(async (value: string) => {
+    const number = value.trim();
+    if (!number) return;
+    setIsLoading(true);
+    setNotFound(false);
+    try {
+      setTracking(await fetchTracking(number));
+    } catch {
+      setTracking(null);
+      setNotFound(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (track) lookup(track);
+  }, [track, lookup]);
+
+  const deliveryWindow = tracking ? estimateDeliveryWindow(tracking) : null;
+  const lastStep = tracking
+    ? [...tracking.tracking_steps].reverse().find((step) => step.completed)
+    : undefined;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="mx-auto max-w-md space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            lookup(trackNumber);
+          }}
+        >
+          <Input
+            value={trackNumber}
+            onChange={(e) => setTrackNumber(e.target.value)}
+            placeholder={t('enterOrderNumber')}
+            className="font-mono"
+            dir="ltr"
+          />
+          <Button type="submit" disabled={isLoading || !trackNumber.trim()} className="gap-2 shrink-0">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            {t('search')}
+          </Button>
+        </form>
+
+        {notFound && (
+          <div className="flex items-center gap-2 rounded-xl border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+            <XCircle className="h-4 w-4 shrink-0" />
+            {t('orderNotFound')}
+          </div>
+        )}
+
+        {tracking && (
+          <div className="rounded-2xl border bg-card p-4 space-y-4">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-mono font-semibold">{tracking.track_number}</p>
+                <p className="text-xs text-muted-foreground">
+                  {locale === 'ar' ? tracking.vendor.name_ar : tracking.vendor.name_en}
+                </p>
+              </div>
+              <span className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-semibold ${
+                tracking.is_completed
+                  ? 'bg-emerald-500/20 text-emerald-600 dark:text-emerald-400'
+                  : tracking.is_failed
+                  ? 'bg-red-500/20 text-red-600 dark:text-red-400'
+                  : 'bg-blue-500/20 text-blue-600 dark:text-blue-400'
+              }`}>
+                {tracking.is_completed && <CheckCircle2 className="h-3 w-3" />}
+                {tracking.status_label}
+              </span>
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">{tracking.current_phase.label}</span>
+                <span className="font-semibold">{tracking.current_phase.progress}%</span>
+              </div>
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-primary transition-all duration-700"
+                  style={{ width: `${tracking.current_phase.progress}%` }}
+                />
+              </div>
+            </div>
+
+            {deliveryWindow && (
+              <div className="flex items-center gap-2 text-sm">
+                <CalendarClock className="h-4 w-4 text-primary shrink-0" />
+                <span className="text-muted-foreground">{t('estimatedDelivery')}:</span>
+                <span className="font-medium">
+                  {deliveryWindow.isLate
+                    ? t('runningLate')
+                    : formatDeliveryWindow(deliveryWindow, locale, { today: t('today'), tomorrow: t('tomorrow') })}
+                </span>
+              </div>
+            )}
+
+            {lastStep && (
+              <div className="rounded-xl bg-muted/50 p-3 text-sm">
+                <p className="font-medium">{lastStep.label}</p>
+                {lastStep.timestamp && (
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {new Date(lastStep.timestamp).toLocaleString(locale, {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <a
+              href={`/${locale}/track/${encodeURIComponent(tracking.track_number)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              {t('viewFullTracking')}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </div>
+        )}
+
+        <p className="text-center text-[10px] text-muted-foreground">{t('poweredBy')}</p>
+      </div>
+    </div>
+  );
+}
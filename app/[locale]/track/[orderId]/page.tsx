@@ -1,6 +1,6 @@
 "use client";
 
-import { use, useEffect, useState } from "react";
+import { use, useCallback, useEffect, useMemo, useState } from "react";
 import { useTranslations, useLocale } from "next-intl";
 import { Button } from "@/components/ui/button";
 import {
@@ -17,13 +17,26 @@ import {
   XCircle,
   Warehouse,
   CircleDot,
+  CalendarClock,
+  RefreshCw,
 } from "lucide-react";
 import { TawsilaLogo } from "@/components/branding/tawsila-logo";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { LanguageSwitcher } from "@/components/language-switcher";
-import { fetchTracking, type TrackingData, type TrackingStep } from "@/lib/services/tracking";
+import { RouteMap, type RoutePoint } from "@/components/ui/route-map";
+import {
+  fetchTracking,
+  estimateDeliveryWindow,
+  formatDeliveryWindow,
+  type TrackingData,
+  type TrackingStep,
+} from "@/lib/services/tracking";
+import { toLatLng } from "@/lib/geo";
 import { toast } from "sonner";
 
+/** How often tracking is refreshed while the parcel is out for delivery */
+const LIVE_REFRESH_INTERVAL = 60 * 1000;
+
 interface Props {
   params: Promise<{ orderId: string }>;
 }
@@ -47,23 +60,90 @@ export default function TrackOrderPage({ params }: Props) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const loadTracking = async () => {
+  const loadTracking = useCallback(async (silent = false) => {
+    if (!silent) {
       setIsLoading(true);
       setError(null);
-      try {
-        const data = await fetchTracking(orderId);
-        setTracking(data);
-      } catch (err) {
-        console.error('Failed to load tracking:', err);
+    }
+    try {
+      const data = await fetchTracking(orderId);
+      setTracking(data);
+    } catch (err) {
+      console.error('Failed to load tracking:', err);
+      // Keep showing the last known state if a background refresh fails
+      if (!silent) {
         setError(err instanceof Error ? err.message : 'Failed to load tracking');
-      } finally {
+      }
+    } finally {
+      if (!silent) {
         setIsLoading(false);
       }
-    };
+    }
+  }, [orderId]);
 
+  useEffect(() => {
     loadTracking();
-  }, [orderId]);
+  }, [loadTracking]);
+
+  const isOutForDelivery = tracking?.status === 'out_for_delivery';
+
+  // Poll while the parcel is on its way so the map and ETA stay current
+  useEffect(() => {
+    if (!isOutForDelivery) return;
+    const interval = setInterval(() => loadTracking(true), LIVE_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isOutForDelivery, loadTracking]);
+
+  const deliveryWindow = useMemo(
+    () => (tracking ? estimateDeliveryWindow(tracking) : null),
+    [tracking]
+  );
+
+  const mapPoints = useMemo<RoutePoint[]>(() => {
+    if (!tracking) return [];
+    const points: RoutePoint[] = [];
+    const lastLocatedStep = [...tracking.tracking_steps]
+      .reverse()
+      .find((step) => step.completed && step.location);
+    const lastPosition = lastLocatedStep?.location
+      ? toLatLng(lastLocatedStep.location.latitude, lastLocatedStep.location.longitude)
+      : null;
+    if (lastLocatedStep && lastPosition && !tracking.is_completed) {
+      points.push({
+        id: 'last-location',
+        ...lastPosition,
+        badge: '•',
+        tone: 'stop',
+        popup: (
+          <div className="space-y-0.5">
+            <p className="font-medium">{lastLocatedStep.label}</p>
+            {lastLocatedStep.timestamp && (
+              <p className="text-xs">{new Date(lastLocatedStep.timestamp).toLocaleString(locale)}</p>
+            )}
+          </div>
+        ),
+      });
+    }
+    const destination = toLatLng(
+      tracking.delivery_address.latitude,
+      tracking.delivery_address.longitude
+    );
+    if (destination) {
+      points.push({
+        id: 'destination',
+        ...destination,
+        badge: '⌂',
+        tone: tracking.is_completed ? 'success' : 'destination',
+        popup: (
+          <div className="space-y-0.5">
+            <p className="font-medium">{t('deliveryAddress')}</p>
+            <p className="text-xs">{tracking.delivery_address.full_address}</p>
+          </div>
+        ),
+      });
+    }
+    return points;
+  }, [tracking, locale, t]);
 
   const copyTrackingNumber = () => {
     if (tracking) {
@@ -222,6 +302,41 @@ export default function TrackOrderPage({ params }: Props) {
             </div>
           </div>
 
+          {/* Estimated Delivery & Map */}
+          {(deliveryWindow || mapPoints.length > 0) && (
+            <div className="rounded-2xl border border-border/50 bg-card p-6 md:p-8 space-y-5">
+              {deliveryWindow && (
+                <div className="flex items-start justify-between gap-4 flex-wrap">
+                  <div className="flex items-center gap-3">
+                    <div className="h-10 w-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                      <CalendarClock className="h-5 w-5 text-primary" />
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">{t('estimatedDelivery')}</p>
+                      <p className={`font-semibold ${deliveryWindow.isLate ? 'text-amber-600 dark:text-amber-400' : ''}`}>
+                        {deliveryWindow.isLate
+                          ? t('runningLate')
+                          : formatDeliveryWindow(deliveryWindow, locale, { today: t('today'), tomorrow: t('tomorrow') })}
+                      </p>
+                    </div>
+                  </div>
+                  {isOutForDelivery && (
+                    <div className="inline-flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <RefreshCw className="h-3 w-3" />
+                      {t('liveUpdates')}
+                    </div>
+                  )}
+                </div>
+              )}
+              {mapPoints.length > 0 && (
+                <RouteMap points={mapPoints} height="280px" showRoute={false} />
+              )}
+              {deliveryWindow && (
+                <p className="text-xs text-muted-foreground">{t('estimateDisclaimer')}</p>
+              )}
+            </div>
+          )}
+
           {/* Tracking Timeline */}
           <div className="rounded-2xl border border-border/50 bg-card p-6 md:p-8">
             <h2 className="text-lg font-semibold mb-6">{t('trackingTimeline')}</h2>
@@ -0,0 +1,23 @@
+import type { MetadataRoute } from "next";
+
+/**
+ * Web app manifest, so agents can install the dashboard on their phones
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Rahwan - Smart Inventory & Delivery Management",
+    short_name: "Rahwan",
+    description: "Streamline your inventory and delivery operations with Rahwan's intelligent management system",
+    start_url: "/dashboard",
+    scope: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#ffffff",
+    theme_color: "#f97316",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      { src: "/icons/icon-maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
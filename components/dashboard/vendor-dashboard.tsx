@@ -26,11 +26,12 @@ import {
   CreditCard,
   Receipt,
   DollarSign,
+  Undo2,
 } from "lucide-react";
 import { Link } from "@/i18n/routing";
 import { fetchCurrentVendor, Vendor } from "@/lib/services/vendors";
 import { fetchMyProfitReport, ProfitReport } from "@/lib/services/wallet";
-import { useOrders, Order } from "@/hooks/queries/use-orders";
+import { useOrders, useReturnOrders, Order } from "@/hooks/queries/use-orders";
 import { PAGINATION } from "@/lib/constants/pagination";
 
 interface VendorDashboardProps {
@@ -73,6 +74,9 @@ export function VendorDashboard({ userName }: VendorDashboardProps) {
   // Using 4x the default pagination for stats calculation (24 * 4 = 96, rounded to 100 for better coverage)
   const { data: ordersData, isLoading: isLoadingOrders } = useOrders(1, PAGINATION.ORDERS * 4);
 
+  // Failed deliveries and parcels on their way back (or already returned) to the vendor
+  const { data: returnsData, isLoading: isLoadingReturns } = useReturnOrders(1, 5);
+
   // Calculate order stats from fetched orders
   const orderStats = useMemo(() => {
     if (!ordersData?.data) {
@@ -123,6 +127,10 @@ export function VendorDashboard({ userName }: VendorDashboardProps) {
       delivered: "outline",
       rejected: "destructive",
       cancelled: "destructive",
+      failed_delivery: "destructive",
+      return_to_vendor: "secondary",
+      returning: "secondary",
+      returned: "outline",
     };
     const colors: Record<string, string> = {
       in_transit: "bg-blue-500/10 text-blue-600 hover:bg-blue-500/20",
@@ -134,6 +142,10 @@ export function VendorDashboard({ userName }: VendorDashboardProps) {
       delivered: "bg-emerald-500/10 text-emerald-600 hover:bg-emerald-500/20",
       rejected: "bg-red-500/10 text-red-600 hover:bg-red-500/20",
       cancelled: "bg-gray-500/10 text-gray-600 hover:bg-gray-500/20",
+      failed_delivery: "bg-red-500/10 text-red-600 hover:bg-red-500/20",
+      return_to_vendor: "bg-orange-500/10 text-orange-600 hover:bg-orange-500/20",
+      returning: "bg-orange-500/10 text-orange-600 hover:bg-orange-500/20",
+      returned: "bg-gray-500/10 text-gray-600 hover:bg-gray-500/20",
     };
 
     return (
@@ -491,8 +503,56 @@ export function VendorDashboard({ userName }: VendorDashboardProps) {
           </CardContent>
         </Card>
 
-        {/* Quick Actions & Business Info */}
+        {/* Returns, Quick Actions & Business Info */}
         <div className="space-y-6">
+          {/* Returns */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <CardTitle>{t("returns")}</CardTitle>
+                  <CardDescription>{t("returnsDesc")}</CardDescription>
+                </div>
+                {!!returnsData?.meta?.total && (
+                  <Badge variant="secondary" className="bg-orange-500/10 text-orange-600">
+                    {returnsData.meta.total}
+                  </Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoadingReturns ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : returnsData?.data.length ? (
+                <div className="space-y-2">
+                  {returnsData.data.map((order: Order) => (
+                    <Link
+                      key={order.id}
+                      href={`/dashboard/orders/${order.id}`}
+                      className="flex items-center justify-between gap-2 p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm">{order.order_number}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {order.failure_reason || order.customer?.name || "-"}
+                        </p>
+                      </div>
+                      {getStatusBadge(order.status)}
+                    </Link>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-6">
+                  <Undo2 className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                  <p className="text-sm text-muted-foreground">{t("noReturns")}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
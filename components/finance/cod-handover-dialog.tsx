@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, HandCoins, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { createCodHandover, getWalletOwnerName, type CodHandover } from "@/lib/services/wallet";
+import { hasHandoverDiscrepancy, type AgentCustody } from "@/lib/finance/cod-custody";
+import { formatValidationErrors, getErrorMessage } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+interface CodHandoverDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Agent handing the cash in */
+  agent: AgentCustody | null;
+  onRecorded?: (handover: CodHandover) => void;
+}
+
+export function CodHandoverDialog({ open, onOpenChange, agent, onRecorded }: CodHandoverDialogProps) {
+  const t = useTranslations("codCustody");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [receivedAmount, setReceivedAmount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start with every outstanding order selected each time the dialog opens
+  useEffect(() => {
+    if (!open || !agent) return;
+    setSelectedIds(new Set(agent.items.map((item) => item.transaction.id)));
+    setReceivedAmount("");
+    setNotes("");
+  }, [open, agent]);
+
+  const expected = useMemo(
+    () =>
+      (agent?.items ?? [])
+        .filter((item) => selectedIds.has(item.transaction.id))
+        .reduce((sum, item) => sum + item.amount, 0),
+    [agent, selectedIds]
+  );
+
+  const received = parseFloat(receivedAmount);
+  const hasReceived = !isNaN(received) && received >= 0;
+  const difference = hasReceived ? received - expected : 0;
+  const isDiscrepancy = hasReceived && hasHandoverDiscrepancy({ difference });
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat(locale === "ar" ? "ar-EG" : "en-EG", {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!agent) return;
+    if (selectedIds.size === 0) {
+      toast.error(t("selectOrders"));
+      return;
+    }
+    if (!hasReceived) {
+      toast.error(t("invalidAmount"));
+      return;
+    }
+    if (isDiscrepancy && !notes.trim()) {
+      toast.error(t("notesRequired"));
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const handover = await createCodHandover(agent.wallet.id, {
+        transaction_ids: [...selectedIds],
+        received_amount: received,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(t("handoverRecorded"), {
+        description: handover.handover_number,
+      });
+      onOpenChange(false);
+      onRecorded?.(handover);
+    } catch (error) {
+      toast.error(t("handoverFailed"), {
+        description: formatValidationErrors(error) || getErrorMessage(error, tCommon("tryAgain")),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && isSubmitting) return;
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandCoins className="h-5 w-5 text-primary" />
+            {t("recordHandover")}
+          </DialogTitle>
+          <DialogDescription>
+            {agent ? t("handoverDescription", { agent: getWalletOwnerName(agent.wallet, locale) }) : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        {agent && (
+          <div className="space-y-4 py-2">
+            {/* Orders */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">{t("orders")}</Label>
+                <span className="text-xs text-muted-foreground">
+                  {t("selectedCount", { count: selectedIds.size, total: agent.items.length })}
+                </span>
+              </div>
+              <div className="max-h-56 overflow-y-auto rounded-lg border divide-y">
+                {agent.items.map((item) => {
+                  const id = item.transaction.id;
+                  return (
+                    <label
+                      key={id}
+                      htmlFor={`cod_item_${id}`}
+                      className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-muted/50"
+                    >
+                      <Checkbox
+                        id={`cod_item_${id}`}
+                        checked={selectedIds.has(id)}
+                        onCheckedChange={(checked) => toggle(id, checked === true)}
+                        disabled={isSubmitting}
+                      />
+                      <span className="flex-1 min-w-0">
+                        <span className="block font-mono text-sm">
+                          {item.transaction.order?.order_number ?? item.transaction.reference_number}
+                        </span>
+                        <span className="block text-xs text-muted-foreground">
+                          {t("heldFor", { hours: Math.floor(item.heldHours) })}
+                        </span>
+                      </span>
+                      <span className="text-sm font-semibold whitespace-nowrap" dir="ltr">
+                        {formatAmount(item.amount)} {tCommon("egp")}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Amounts */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">{t("expectedAmount")}</Label>
+                <p className="h-10 flex items-center text-lg font-semibold" dir="ltr">
+                  {formatAmount(expected)} {tCommon("egp")}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cod_received_amount" className="text-sm font-medium">
+                  {t("receivedAmount")} <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="cod_received_amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={receivedAmount}
+                  onChange={(e) => setReceivedAmount(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            {isDiscrepancy && (
+              <div
+                className={cn(
+                  "flex items-start gap-2 rounded-lg border p-3 text-sm",
+                  difference < 0
+                    ? "border-red-200 bg-red-50 text-red-700 dark:border-red-900 dark:bg-red-950/30 dark:text-red-400"
+                    : "border-amber-200 bg-amber-50 text-amber-700 dark:border-amber-900 dark:bg-amber-950/30 dark:text-amber-400"
+                )}
+              >
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  {t(difference < 0 ? "shortBy" : "overBy", {
+                    amount: `${formatAmount(Math.abs(difference))} ${tCommon("egp")}`,
+                  })}
+                </span>
+              </div>
+            )}
+
+            {/* Notes */}
+            <div className="space-y-2">
+              <Label htmlFor="cod_handover_notes" className="text-sm font-medium">
+                {t("notes")} {isDiscrepancy && <span className="text-destructive">*</span>}
+              </Label>
+              <Textarea
+                id="cod_handover_notes"
+                rows={3}
+                placeholder={isDiscrepancy ? t("notesDiscrepancyPlaceholder") : t("notesPlaceholder")}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            {tCommon("cancel")}
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !agent} className="gap-2">
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <HandCoins className="h-4 w-4" />}
+            {t("confirmHandover")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,2 @@
+export { ExportTransactionsDialog } from "./export-transactions-dialog";
+export { CodHandoverDialog } from "./cod-handover-dialog";
@@ -18,12 +18,19 @@ import {
   Shield,
   Wallet,
   Receipt,
+  Landmark,
+  HandCoins,
+  ShieldCheck,
   PieChart,
   FileText,
   TrendingUp,
   Trophy,
   Activity,
   Award,
+  ScanLine,
+  Undo2,
+  Route,
+  Bike,
   LucideIcon,
 } from "lucide-react";
 import { getCurrentUser, logout, User } from "@/lib/auth";
@@ -150,6 +157,12 @@ export function AppSidebar() {
           icon: LayoutDashboard,
           // Dashboard is accessible to all authenticated users
         },
+        {
+          title: t('myRuns'),
+          href: "/dashboard/my-runs",
+          icon: Bike,
+          requiredPermissions: [...PERMISSION_MODULES.FIELD_WORK],
+        },
       ],
     },
     // Vendor Profile - only for vendor users to access their own profile
@@ -181,6 +194,30 @@ export function AppSidebar() {
           // Show if user has ANY order permission
           requiredPermissions: [...PERMISSION_MODULES.ORDERS],
         },
+        {
+          title: t('scanStation'),
+          href: "/dashboard/scan",
+          icon: ScanLine,
+          // Show if user can perform any label scan
+          requiredPermissions: [
+            PERMISSIONS.SCAN_ORDER_INVENTORY,
+            PERMISSIONS.SCAN_ORDER_DELIVERY,
+            PERMISSIONS.PICKUP_ORDER_FROM_VENDOR,
+            PERMISSIONS.PICKUP_ORDER_FROM_INVENTORY,
+          ],
+        },
+        {
+          title: t('returns'),
+          href: "/dashboard/returns",
+          icon: Undo2,
+          requiredPermissions: [PERMISSIONS.MANAGE_RETURNS],
+        },
+        {
+          title: t('dispatch'),
+          href: "/dashboard/dispatch",
+          icon: Route,
+          requiredPermissions: [PERMISSIONS.ASSIGN_DELIVERY_AGENT],
+        },
         {
           title: t('vendors'),
           href: "/dashboard/vendors",
@@ -222,6 +259,26 @@ export function AppSidebar() {
           // Show if user has ANY settlement permission
           requiredPermissions: [...PERMISSION_MODULES.SETTLEMENTS],
         },
+        {
+          title: t('reconciliation'),
+          href: "/dashboard/finance/reconciliation",
+          icon: Landmark,
+          requiredPermissions: [PERMISSIONS.LIST_SETTLEMENTS],
+        },
+        {
+          title: t('codCustody'),
+          href: "/dashboard/finance/cod-custody",
+          icon: HandCoins,
+          // Show if user has ANY COD custody permission
+          requiredPermissions: [...PERMISSION_MODULES.COD_CUSTODY],
+        },
+        {
+          title: t('adjustmentApprovals'),
+          href: "/dashboard/finance/adjustment-approvals",
+          icon: ShieldCheck,
+          // Show if user has ANY adjustment approval permission
+          requiredPermissions: [...PERMISSION_MODULES.ADJUSTMENT_APPROVALS],
+        },
       ],
     },
     // Reports section - permission-based
@@ -291,7 +348,7 @@ export function AppSidebar() {
 
   // Determine home page - always go to dashboard (accessible to all)
   const getHomePage = () => {
-    return '/dashboard';
+    return isShippingAgent ? '/dashboard/my-runs' : '/dashboard';
   };
 
   return (
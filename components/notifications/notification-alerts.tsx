@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "@/i18n/routing";
+import {
+  useNotificationPreferences,
+  useUnreadNotificationCount,
+} from "@/hooks/queries/use-notifications";
+import {
+  fetchNotifications,
+  getNotificationCategory,
+  getNotificationLink,
+  type NotificationPreferences,
+} from "@/lib/services/notifications";
+import {
+  isWithinQuietHours,
+  playNotificationChime,
+  showDesktopNotification,
+} from "@/lib/notifications/notification-alerts";
+import { createTabLeaderElection } from "@/lib/notifications/tab-leader";
+
+/** Upper bound on notifications fetched (and alerted) for a single jump in the count */
+const MAX_ALERTS_PER_CHECK = 10;
+
+/**
+ * Plays a chime and shows browser notifications when the unread count goes up,
+ * following the user's per-category preferences and quiet hours. Only the
+ * elected leader tab alerts, so several open tabs don't all ring at once.
+ * Renders nothing.
+ */
+export function NotificationAlerts() {
+  const router = useRouter();
+  const { data: unreadCount } = useUnreadNotificationCount();
+  const { data: preferences } = useNotificationPreferences();
+  const [isLeader, setIsLeader] = useState(false);
+
+  const previousCount = useRef<number | null>(null);
+  const alertedIds = useRef(new Set<string>());
+  const preferencesRef = useRef<NotificationPreferences | undefined>(preferences);
+  preferencesRef.current = preferences;
+
+  useEffect(() => {
+    const election = createTabLeaderElection({
+      channel: "notification-alerts",
+      onLeaderChange: setIsLeader,
+    });
+    election.start();
+    return () => election.stop();
+  }, []);
+
+  useEffect(() => {
+    if (unreadCount === undefined) return;
+    const previous = previousCount.current;
+    previousCount.current = unreadCount;
+
+    // The first count after load is a baseline, not news
+    if (previous === null || unreadCount <= previous || !isLeader) return;
+
+    const prefs = preferencesRef.current;
+    if (!prefs || isWithinQuietHours(prefs.quiet_hours)) return;
+
+    const newCount = Math.min(unreadCount - previous, MAX_ALERTS_PER_CHECK);
+
+    fetchNotifications({ unread_only: true, per_page: newCount })
+      .then((response) => {
+        let shouldChime = false;
+
+        for (const notification of response.data) {
+          if (alertedIds.current.has(notification.id)) continue;
+          alertedIds.current.add(notification.id);
+
+          const category = getNotificationCategory(notification);
+          // Uncategorised notifications have no preference to opt in with
+          if (category === "info") continue;
+          const preference = prefs.categories[category];
+          if (!preference.enabled) continue;
+
+          if (preference.sound) shouldChime = true;
+          // The in-page badge and toast already cover a tab the user is looking at
+          if (preference.browser && (document.hidden || !document.hasFocus())) {
+            const link = getNotificationLink(notification);
+            showDesktopNotification({
+              title: notification.title,
+              body: notification.body,
+              tag: notification.id,
+              onClick: link ? () => router.push(link) : undefined,
+            });
+          }
+        }
+
+        if (shouldChime) playNotificationChime();
+      })
+      .catch(() => {
+        // Missing an alert is harmless; the badge still shows the new count
+      });
+  }, [unreadCount, isLeader, router]);
+
+  return null;
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { BellRing, Loader2, Moon, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "@/hooks/queries/use-notifications";
+import {
+  NOTIFICATION_CATEGORIES,
+  type NotificationChannelPreference,
+  type NotificationCategory,
+  type NotificationPreferences,
+  type NotificationQuietHours,
+} from "@/lib/services/notifications";
+import {
+  getDesktopPermission,
+  playNotificationChime,
+  requestDesktopPermission,
+  type DesktopPermission,
+} from "@/lib/notifications/notification-alerts";
+import { cn } from "@/lib/utils";
+import { NOTIFICATION_COLORS, NOTIFICATION_ICONS } from "./notification-styles";
+
+const CHANNELS: Array<keyof NotificationChannelPreference> = ["enabled", "sound", "browser"];
+
+/** Translation keys (notifications namespace) for each channel column */
+const CHANNEL_LABELS: Record<keyof NotificationChannelPreference, string> = {
+  enabled: "channelReceive",
+  sound: "channelSound",
+  browser: "channelBrowser",
+};
+
+export function NotificationPreferencesPanel() {
+  const t = useTranslations("notifications");
+  const { data: preferences, isLoading } = useNotificationPreferences();
+  const updateMutation = useUpdateNotificationPreferences();
+  const [permission, setPermission] = useState<DesktopPermission>("default");
+
+  // Read after mount; the Notification API does not exist during server rendering
+  useEffect(() => {
+    setPermission(getDesktopPermission());
+  }, []);
+
+  const save = (next: NotificationPreferences) => {
+    updateMutation.mutate(next, { onError: () => toast.error(t("errorSavingPreferences")) });
+  };
+
+  const askPermission = async (): Promise<boolean> => {
+    const result = await requestDesktopPermission();
+    setPermission(result);
+    if (result !== "granted") {
+      toast.error(result === "unsupported" ? t("browserUnsupported") : t("browserDenied"));
+    }
+    return result === "granted";
+  };
+
+  const handleToggle = async (
+    category: NotificationCategory,
+    channel: keyof NotificationChannelPreference,
+    checked: boolean
+  ) => {
+    if (!preferences) return;
+    if (channel === "browser" && checked && permission !== "granted" && !(await askPermission())) {
+      return;
+    }
+    const current = preferences.categories[category];
+    const next: NotificationChannelPreference = { ...current, [channel]: checked };
+    // Sound and browser alerts only make sense for categories that are received
+    if (channel === "enabled" && !checked) {
+      next.sound = false;
+      next.browser = false;
+    }
+
+    save({ ...preferences, categories: { ...preferences.categories, [category]: next } });
+  };
+
+  const handleQuietHoursChange = (changes: Partial<NotificationQuietHours>) => {
+    if (!preferences) return;
+    save({ ...preferences, quiet_hours: { ...preferences.quiet_hours, ...changes } });
+  };
+
+  if (isLoading || !preferences) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t("preferencesDescription")}</p>
+      <div className="rounded-lg border">
+        <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] items-center gap-2 border-b bg-muted/40 px-3 py-2 text-xs font-medium text-muted-foreground">
+          <span>{t("category")}</span>
+          {CHANNELS.map((channel) => (
+            <span key={channel} className="text-center">
+              {t(CHANNEL_LABELS[channel])}
+            </span>
+          ))}
+        </div>
+        {NOTIFICATION_CATEGORIES.map((category) => {
+          const Icon = NOTIFICATION_ICONS[category];
+          const preference = preferences.categories[category];
+          return (
+            <div
+              key={category}
+              className="grid grid-cols-[1fr_repeat(3,4.5rem)] items-center gap-2 border-b px-3 py-3 last:border-b-0"
+            >
+              <div className="flex items-center gap-2">
+                <div
+                  className={cn(
+                    "flex h-7 w-7 shrink-0 items-center justify-center rounded-lg",
+                    NOTIFICATION_COLORS[category]
+                  )}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </div>
+                <span className="text-sm font-medium">{t(`category_${category}`)}</span>
+              </div>
+              {CHANNELS.map((channel) => (
+                <div key={channel} className="flex justify-center">
+                  <Checkbox
+                    checked={preference[channel]}
+                    disabled={channel !== "enabled" && !preference.enabled}
+                    onCheckedChange={(checked) => void handleToggle(category, channel, checked === true)}
+                    aria-label={`${t(`category_${category}`)}: ${t(CHANNEL_LABELS[channel])}`}
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Browser permission */}
+      <div className="flex items-center gap-3 rounded-lg border p-3">
+        <BellRing className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <p className="flex-1 text-sm">
+          {permission === "granted"
+            ? t("browserAllowed")
+            : permission === "denied"
+            ? t("browserDenied")
+            : permission === "unsupported"
+            ? t("browserUnsupported")
+            : t("browserNotAllowed")}
+        </p>
+        {permission === "default" && (
+          <Button variant="outline" size="sm" onClick={() => void askPermission()}>
+            {t("allowBrowser")}
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={playNotificationChime}
+          title={t("testSound")}
+        >
+          <Volume2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Quiet hours */}
+      <div className="space-y-3 rounded-lg border p-3">
+        <div className="flex items-center gap-3">
+          <Moon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <Label htmlFor="quiet-hours" className="flex-1 cursor-pointer">
+            {t("quietHours")}
+          </Label>
+          <Checkbox
+            id="quiet-hours"
+            checked={preferences.quiet_hours.enabled}
+            onCheckedChange={(checked) => handleQuietHoursChange({ enabled: checked === true })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">{t("quietHoursDescription")}</p>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="quiet-start" className="text-xs text-muted-foreground">
+              {t("quietHoursStart")}
+            </Label>
+            <Input
+              id="quiet-start"
+              type="time"
+              value={preferences.quiet_hours.start}
+              disabled={!preferences.quiet_hours.enabled}
+              onChange={(e) => e.target.value && handleQuietHoursChange({ start: e.target.value })}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="quiet-end" className="text-xs text-muted-foreground">
+              {t("quietHoursEnd")}
+            </Label>
+            <Input
+              id="quiet-end"
+              type="time"
+              value={preferences.quiet_hours.end}
+              disabled={!preferences.quiet_hours.enabled}
+              onChange={(e) => e.target.value && handleQuietHoursChange({ end: e.target.value })}
+              className="h-9"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
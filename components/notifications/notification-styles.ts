@@ -0,0 +1,20 @@
+import { AlertTriangle, Info, Package, User, Wallet } from "lucide-react";
+import type { NotificationIconType } from "@/lib/services/notifications";
+
+// Icon mapping
+export const NOTIFICATION_ICONS: Record<NotificationIconType, typeof Package> = {
+  order: Package,
+  wallet: Wallet,
+  user: User,
+  alert: AlertTriangle,
+  info: Info,
+};
+
+// Modern gradient-based color scheme for 2026 design
+export const NOTIFICATION_COLORS: Record<NotificationIconType, string> = {
+  order: "bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-blue-500/25",
+  wallet: "bg-gradient-to-br from-emerald-500 to-emerald-600 text-white shadow-emerald-500/25",
+  user: "bg-gradient-to-br from-violet-500 to-violet-600 text-white shadow-violet-500/25",
+  alert: "bg-gradient-to-br from-amber-500 to-orange-500 text-white shadow-amber-500/25",
+  info: "bg-gradient-to-br from-slate-500 to-slate-600 text-white shadow-slate-500/25",
+};
@@ -20,11 +20,6 @@ import {
 import {
   Bell,
   CheckCheck,
-  Package,
-  Wallet,
-  User,
-  AlertTriangle,
-  Info,
   Trash2,
   Loader2,
   Check,
@@ -34,37 +29,21 @@ import {
 } from "lucide-react";
 import {
   fetchNotifications,
-  fetchUnreadCount,
   markNotificationsAsRead,
   markAllNotificationsAsRead,
   deleteNotification,
   deleteAllNotifications,
-  getNotificationIconType,
+  getNotificationCategory,
+  getNotificationLink,
   isRecentNotification,
   type Notification,
-  type NotificationIconType,
 } from "@/lib/services/notifications";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { Link } from "@/i18n/routing";
-
-// Icon mapping
-const NOTIFICATION_ICONS: Record<NotificationIconType, typeof Package> = {
-  order: Package,
-  wallet: Wallet,
-  user: User,
-  alert: AlertTriangle,
-  info: Info,
-};
-
-// Modern gradient-based color scheme for 2026 design
-const NOTIFICATION_COLORS: Record<NotificationIconType, string> = {
-  order: "bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-blue-500/25",
-  wallet: "bg-gradient-to-br from-emerald-500 to-emerald-600 text-white shadow-emerald-500/25",
-  user: "bg-gradient-to-br from-violet-500 to-violet-600 text-white shadow-violet-500/25",
-  alert: "bg-gradient-to-br from-amber-500 to-orange-500 text-white shadow-amber-500/25",
-  info: "bg-gradient-to-br from-slate-500 to-slate-600 text-white shadow-slate-500/25",
-};
+import { queryKeys } from "@/components/providers/query-provider";
+import { useUnreadNotificationCount } from "@/hooks/queries/use-notifications";
+import { NOTIFICATION_COLORS, NOTIFICATION_ICONS } from "./notification-styles";
 
 export function NotificationsDropdown() {
   const t = useTranslations("notifications");
@@ -73,16 +52,12 @@ export function NotificationsDropdown() {
   const [isOpen, setIsOpen] = useState(false);
   const isRtl = locale === "ar";
 
-  // Fetch unread count (always active for badge)
-  const { data: unreadCount = 0 } = useQuery({
-    queryKey: ["notifications-unread-count", locale],
-    queryFn: fetchUnreadCount,
-    refetchInterval: 30000,
-  });
+  // Fetch unread count (always active for badge); pushed over the realtime stream when connected
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
 
   // Fetch notifications only when panel is open
   const { data: notificationsData, isLoading } = useQuery({
-    queryKey: ["notifications", locale, { unread_only: false, per_page: 50 }],
+    queryKey: queryKeys.notifications.list(locale, { unread_only: false, per_page: 50 }),
     queryFn: () => fetchNotifications({ unread_only: false, per_page: 50 }),
     enabled: isOpen,
   });
@@ -101,8 +76,8 @@ export function NotificationsDropdown() {
   const markReadMutation = useMutation({
     mutationFn: markNotificationsAsRead,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["notifications"] });
-      queryClient.invalidateQueries({ queryKey: ["notifications-unread-count"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount() });
     },
     onError: () => toast.error(t("errorMarkingRead")),
   });
@@ -110,8 +85,8 @@ export function NotificationsDropdown() {
   const markAllReadMutation = useMutation({
     mutationFn: markAllNotificationsAsRead,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["notifications"] });
-      queryClient.invalidateQueries({ queryKey: ["notifications-unread-count"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount() });
       toast.success(t("markedAllRead"));
     },
     onError: () => toast.error(t("errorMarkingRead")),
@@ -120,8 +95,8 @@ export function NotificationsDropdown() {
   const deleteMutation = useMutation({
     mutationFn: deleteNotification,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["notifications"] });
-      queryClient.invalidateQueries({ queryKey: ["notifications-unread-count"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount() });
       toast.success(t("deleted"));
     },
     onError: () => toast.error(t("errorDeleting")),
@@ -130,8 +105,8 @@ export function NotificationsDropdown() {
   const deleteAllMutation = useMutation({
     mutationFn: deleteAllNotifications,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["notifications"] });
-      queryClient.invalidateQueries({ queryKey: ["notifications-unread-count"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount() });
       toast.success(t("allDeleted"));
     },
     onError: () => toast.error(t("errorDeleting")),
@@ -155,27 +130,19 @@ export function NotificationsDropdown() {
     [t]
   );
 
-  // Get notification link
-  const getNotificationLink = (notification: Notification): string | null => {
-    if (notification.data?.order_id) {
-      return `/dashboard/orders/${notification.data.order_id}`;
-    }
-    return null;
-  };
-
   // Handle notification click
   const handleNotificationClick = (notification: Notification) => {
     if (!notification.is_read) {
       markReadMutation.mutate([notification.id]);
     }
-    if (notification.data?.order_id) {
+    if (getNotificationLink(notification)) {
       setIsOpen(false);
     }
   };
 
   // Notification Item Component
   const NotificationItem = ({ notification }: { notification: Notification }) => {
-    const iconType = getNotificationIconType(notification.type);
+    const iconType = getNotificationCategory(notification);
     const Icon = NOTIFICATION_ICONS[iconType];
     const colorClass = NOTIFICATION_COLORS[iconType];
     const link = getNotificationLink(notification);
@@ -372,6 +339,11 @@ export function NotificationsDropdown() {
                 )}
               </div>
             </div>
+            <Button variant="ghost" size="sm" className="h-8 text-xs font-medium" asChild>
+              <Link href="/dashboard/notifications" onClick={() => setIsOpen(false)}>
+                {t("viewAll")}
+              </Link>
+            </Button>
           </div>
 
           {/* Actions Bar */}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { CloudOff } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { OrderCard } from "@/components/orders/order-card";
+import { useRouter } from "@/i18n/routing";
+import { useMyAssignedOrders } from "@/hooks/queries/use-orders";
+import { getAssignedOrdersSnapshot } from "@/lib/offline/offline-store";
+
+/**
+ * The agent's assigned orders as last saved, for use while offline.
+ * Opening one shows its cached details. Renders nothing without a saved copy.
+ */
+export function OfflineAssignedOrders() {
+  const t = useTranslations("orders");
+  const tCommon = useTranslations("common");
+  const tOffline = useTranslations("offline");
+  const locale = useLocale();
+  const router = useRouter();
+  const { data: orders } = useMyAssignedOrders();
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAssignedOrdersSnapshot()
+      .then((snapshot) => setSavedAt(snapshot?.savedAt ?? null))
+      .catch(() => setSavedAt(null));
+  }, [orders]);
+
+  if (!orders || orders.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CloudOff className="h-4 w-4 text-muted-foreground" />
+          {tOffline("assignedOrdersTitle")}
+        </CardTitle>
+        {savedAt && (
+          <p className="text-sm text-muted-foreground">
+            {tOffline("savedAt", { date: new Date(savedAt).toLocaleString(locale) })}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+        {orders.map((order) => (
+          <OrderCard
+            key={order.id}
+            order={order}
+            onClick={() => router.push(`/dashboard/orders/${order.id}`)}
+            t={t}
+            tCommon={tCommon}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
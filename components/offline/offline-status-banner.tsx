@@ -0,0 +1,85 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { AlertTriangle, CloudOff, Loader2, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/i18n/routing";
+import { useOffline } from "@/components/providers/offline-provider";
+import { getScanActionLabelKey } from "@/components/scan";
+
+/**
+ * Connectivity notice for the dashboard: shows when the app is offline,
+ * how many actions are waiting to be sent, and any that the server refused.
+ * Renders nothing while online with an empty outbox.
+ */
+export function OfflineStatusBanner() {
+  const t = useTranslations("offline");
+  const tScan = useTranslations("scanStation");
+  const { isOnline, pendingCount, conflicts, isReplaying, replayNow, dismissConflict } = useOffline();
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {(!isOnline || pendingCount > 0) && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border border-amber-500/30 bg-amber-500/5 p-3 text-sm text-amber-700 dark:text-amber-400">
+          <CloudOff className="h-4 w-4 shrink-0" />
+          <p className="flex-1">
+            {!isOnline ? t("offlineNotice") : t("onlineWithPending")}
+            {pendingCount > 0 && <> {t("pendingCount", { count: pendingCount })}</>}
+          </p>
+          {isOnline && pendingCount > 0 && (
+            <Button variant="outline" size="sm" onClick={replayNow} disabled={isReplaying}>
+              {isReplaying ? (
+                <Loader2 className="me-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="me-2 h-4 w-4" />
+              )}
+              {t("sendNow")}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="space-y-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm">
+          <div className="flex items-center gap-2 font-medium text-destructive">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {t("conflictsTitle", { count: conflicts.length })}
+          </div>
+          <ul className="space-y-1">
+            {conflicts.map((entry) => (
+              <li key={entry.id} className="flex items-center gap-2">
+                <p className="min-w-0 flex-1">
+                  <span className="font-medium">
+                    {entry.action.type === "scan"
+                      ? tScan(getScanActionLabelKey(entry.action.action))
+                      : t("actionFailDelivery")}{" "}
+                    · {entry.orderNumber}
+                  </span>
+                  {entry.error ? (
+                    <span className="text-muted-foreground"> — {entry.error}</span>
+                  ) : entry.blockedBy !== undefined ? (
+                    <span className="text-muted-foreground"> — {t("blockedByConflict")}</span>
+                  ) : null}
+                </p>
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href={`/dashboard/orders/${entry.orderId}`}>{t("viewOrder")}</Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => dismissConflict(entry)}
+                  title={t("dismiss")}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
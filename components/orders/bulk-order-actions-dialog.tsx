@@ -0,0 +1,514 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useLocale } from "next-intl";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, CheckCircle, XCircle, Truck, CheckCircle2, MinusCircle } from "lucide-react";
+import { toast } from "sonner";
+import { queryKeys } from "@/components/providers/query-provider";
+import {
+  fetchMyInventories,
+  fetchCurrentInventory,
+  type Inventory,
+} from "@/lib/services/inventories";
+import { fetchPickupAgents, fetchDeliveryAgents, type Agent } from "@/lib/services/agents";
+import {
+  acceptOrder,
+  rejectOrder,
+  assignPickupAgent,
+  assignDeliveryAgent,
+  type Order,
+} from "@/lib/services/orders";
+import { getErrorMessage } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+export type BulkOrderAction = "accept" | "reject" | "assign_pickup" | "assign_delivery";
+
+/**
+ * Whether an order's permission flags allow the bulk action
+ */
+export function canApplyBulkAction(order: Order, action: BulkOrderAction): boolean {
+  switch (action) {
+    case "accept":
+      return order.can_accept === true;
+    case "reject":
+      return order.can_reject === true;
+    case "assign_pickup":
+      return order.can_assign_pickup_agent === true && !!(order.inventory_id || order.inventory?.id);
+    case "assign_delivery":
+      return order.can_assign_delivery_agent === true && !!(order.inventory_id || order.inventory?.id);
+  }
+}
+
+type BulkResultStatus = "success" | "failed" | "skipped";
+
+interface BulkResult {
+  order: Order;
+  status: BulkResultStatus;
+  message?: string;
+}
+
+type BulkStep = "configure" | "running" | "summary";
+
+interface BulkOrderActionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: BulkOrderAction;
+  orders: Order[];
+  /** Called once the run has finished and the summary is shown */
+  onComplete?: () => void;
+  t: (key: string) => string;
+  tCommon: (key: string) => string;
+}
+
+const ACTION_TITLES: Record<BulkOrderAction, string> = {
+  accept: "bulkAcceptTitle",
+  reject: "bulkRejectTitle",
+  assign_pickup: "bulkAssignPickupTitle",
+  assign_delivery: "bulkAssignDeliveryTitle",
+};
+
+const ACTION_DESCRIPTIONS: Record<BulkOrderAction, string> = {
+  accept: "bulkAcceptDesc",
+  reject: "bulkRejectDesc",
+  assign_pickup: "bulkAssignPickupDesc",
+  assign_delivery: "bulkAssignDeliveryDesc",
+};
+
+export function BulkOrderActionsDialog({
+  open,
+  onOpenChange,
+  action,
+  orders,
+  onComplete,
+  t,
+  tCommon,
+}: BulkOrderActionsDialogProps) {
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+
+  const [step, setStep] = useState<BulkStep>("configure");
+  const [results, setResults] = useState<BulkResult[]>([]);
+  const [processedCount, setProcessedCount] = useState(0);
+  const cancelRequestedRef = useRef(false);
+
+  // Accept
+  const [inventories, setInventories] = useState<Inventory[]>([]);
+  const [selectedInventoryId, setSelectedInventoryId] = useState<number | null>(null);
+  const [isLoadingInventories, setIsLoadingInventories] = useState(false);
+
+  // Reject
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  // Assign
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [selectedAgentId, setSelectedAgentId] = useState<number | null>(null);
+  const [assignmentNotes, setAssignmentNotes] = useState("");
+  const [isLoadingAgents, setIsLoadingAgents] = useState(false);
+
+  const eligibleOrders = useMemo(
+    () => orders.filter((order) => canApplyBulkAction(order, action)),
+    [orders, action]
+  );
+  const skippedOrders = useMemo(
+    () => orders.filter((order) => !canApplyBulkAction(order, action)),
+    [orders, action]
+  );
+
+  const isAssign = action === "assign_pickup" || action === "assign_delivery";
+
+  // Distinct inventories of the orders being assigned
+  const inventoryIds = useMemo(() => {
+    const ids = new Set<number>();
+    eligibleOrders.forEach((order) => {
+      const id = order.inventory_id || order.inventory?.id;
+      if (id) ids.add(id);
+    });
+    return Array.from(ids);
+  }, [eligibleOrders]);
+
+  const loadInventories = useCallback(async () => {
+    setIsLoadingInventories(true);
+    try {
+      try {
+        const currentInventory = await fetchCurrentInventory();
+        setInventories([currentInventory]);
+        setSelectedInventoryId(currentInventory.id);
+      } catch {
+        const myInventories = await fetchMyInventories();
+        setInventories(myInventories);
+        if (myInventories.length > 0) {
+          setSelectedInventoryId(myInventories[0].id);
+        }
+      }
+    } catch {
+      toast.error(t("errorLoadingInventories"));
+    } finally {
+      setIsLoadingInventories(false);
+    }
+  }, [t]);
+
+  // Only agents that serve every involved inventory can take the whole batch
+  const loadAgents = useCallback(async () => {
+    if (inventoryIds.length === 0) {
+      setAgents([]);
+      return;
+    }
+    setIsLoadingAgents(true);
+    try {
+      const fetchAgents = action === "assign_pickup" ? fetchPickupAgents : fetchDeliveryAgents;
+      const agentLists = await Promise.all(inventoryIds.map((id) => fetchAgents(id)));
+      const [first, ...rest] = agentLists;
+      setAgents(
+        first.filter((agent) => rest.every((list) => list.some((a) => a.id === agent.id)))
+      );
+    } catch {
+      toast.error(t("errorLoadingAgents"));
+    } finally {
+      setIsLoadingAgents(false);
+    }
+  }, [action, inventoryIds, t]);
+
+  // Reset and load data whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setStep("configure");
+    setResults([]);
+    setProcessedCount(0);
+    setRejectionReason("");
+    setSelectedAgentId(null);
+    setAssignmentNotes("");
+    cancelRequestedRef.current = false;
+
+    if (action === "accept") {
+      loadInventories();
+    } else if (isAssign) {
+      loadAgents();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, action]);
+
+  const runForOrder = useCallback(async (order: Order) => {
+    switch (action) {
+      case "accept":
+        await acceptOrder(order.id, selectedInventoryId!);
+        break;
+      case "reject":
+        await rejectOrder(order.id, rejectionReason.trim() || undefined);
+        break;
+      case "assign_pickup":
+        await assignPickupAgent(order.id, selectedAgentId!, assignmentNotes.trim() || undefined);
+        break;
+      case "assign_delivery":
+        await assignDeliveryAgent(order.id, selectedAgentId!, assignmentNotes.trim() || undefined);
+        break;
+    }
+  }, [action, selectedInventoryId, rejectionReason, selectedAgentId, assignmentNotes]);
+
+  const handleRun = useCallback(async () => {
+    if (action === "accept" && !selectedInventoryId) {
+      toast.error(t("inventoryRequired"));
+      return;
+    }
+    if (isAssign && !selectedAgentId) {
+      toast.error(t("agentRequired"));
+      return;
+    }
+
+    setStep("running");
+    const runResults: BulkResult[] = skippedOrders.map((order) => ({
+      order,
+      status: "skipped",
+      message: t("bulkNotAllowed"),
+    }));
+
+    // Run sequentially so the backend sees one status change at a time
+    for (const order of eligibleOrders) {
+      if (cancelRequestedRef.current) {
+        runResults.push({ order, status: "skipped", message: t("bulkCancelledByUser") });
+        continue;
+      }
+      try {
+        await runForOrder(order);
+        runResults.push({ order, status: "success" });
+      } catch (error) {
+        runResults.push({ order, status: "failed", message: getErrorMessage(error, tCommon("tryAgain")) });
+      }
+      setProcessedCount((count) => count + 1);
+    }
+
+    setResults(runResults);
+    setStep("summary");
+
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+
+    const successCount = runResults.filter((r) => r.status === "success").length;
+    const failedCount = runResults.filter((r) => r.status === "failed").length;
+    if (failedCount === 0) {
+      toast.success(t("bulkCompleted"), { description: `${successCount} ${t("bulkSucceeded")}` });
+    } else {
+      toast.warning(t("bulkCompletedWithErrors"), {
+        description: `${successCount} ${t("bulkSucceeded")}, ${failedCount} ${t("bulkFailed")}`,
+      });
+    }
+    onComplete?.();
+  }, [action, selectedInventoryId, selectedAgentId, isAssign, skippedOrders, eligibleOrders, runForOrder, queryClient, onComplete, t, tCommon]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Keep the dialog open while requests are in flight
+    if (!nextOpen && step === "running") return;
+    onOpenChange(nextOpen);
+  };
+
+  const progressValue = eligibleOrders.length > 0
+    ? Math.round((processedCount / eligibleOrders.length) * 100)
+    : 0;
+
+  const summaryCounts = useMemo(() => ({
+    success: results.filter((r) => r.status === "success").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+  }), [results]);
+
+  const isConfigValid =
+    eligibleOrders.length > 0 &&
+    (action !== "accept" || !!selectedInventoryId) &&
+    (!isAssign || !!selectedAgentId);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t(ACTION_TITLES[action])}</DialogTitle>
+          <DialogDescription>{t(ACTION_DESCRIPTIONS[action])}</DialogDescription>
+        </DialogHeader>
+
+        {step === "configure" && (
+          <div className="space-y-4 py-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">
+                {eligibleOrders.length} {t("bulkEligible")}
+              </Badge>
+              {skippedOrders.length > 0 && (
+                <Badge variant="outline" className="text-amber-600 dark:text-amber-400">
+                  {skippedOrders.length} {t("bulkWillBeSkipped")}
+                </Badge>
+              )}
+            </div>
+
+            {action === "accept" && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk_inventory">{t("selectInventory")} *</Label>
+                {isLoadingInventories ? (
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                  </div>
+                ) : (
+                  <Select
+                    value={selectedInventoryId?.toString() || ""}
+                    onValueChange={(value) => setSelectedInventoryId(parseInt(value))}
+                  >
+                    <SelectTrigger id="bulk_inventory">
+                      <SelectValue placeholder={t("selectInventoryPlaceholder")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {inventories.map((inventory) => (
+                        <SelectItem key={inventory.id} value={inventory.id.toString()}>
+                          {locale === "ar" && inventory.name_ar
+                            ? inventory.name_ar
+                            : inventory.name_en || inventory.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {inventories.length === 0 && !isLoadingInventories && (
+                  <p className="text-xs text-destructive">{t("noInventoriesAvailable")}</p>
+                )}
+              </div>
+            )}
+
+            {action === "reject" && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk_rejection_reason">
+                  {t("rejectionReason")} ({t("optional")})
+                </Label>
+                <Textarea
+                  id="bulk_rejection_reason"
+                  placeholder={t("rejectionReasonPlaceholder")}
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  rows={4}
+                />
+                <p className="text-xs text-muted-foreground">{t("bulkRejectReasonHelp")}</p>
+              </div>
+            )}
+
+            {isAssign && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="bulk_agent_id">{t("selectAgent")} *</Label>
+                  {isLoadingAgents ? (
+                    <div className="flex items-center justify-center py-4">
+                      <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                    </div>
+                  ) : (
+                    <Select
+                      value={selectedAgentId?.toString() || ""}
+                      onValueChange={(value) => setSelectedAgentId(parseInt(value))}
+                    >
+                      <SelectTrigger id="bulk_agent_id">
+                        <SelectValue placeholder={t("selectAgentPlaceholder")} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {agents.map((agent) => (
+                          <SelectItem key={agent.id} value={agent.id.toString()}>
+                            {locale === "ar" && agent.name_ar
+                              ? agent.name_ar
+                              : agent.name_en || agent.name}
+                            {agent.mobile && ` - ${agent.mobile}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {agents.length === 0 && !isLoadingAgents && eligibleOrders.length > 0 && (
+                    <p className="text-xs text-destructive">
+                      {inventoryIds.length > 1 ? t("bulkNoSharedAgents") : t("noAgentsAvailable")}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bulk_assignment_notes">
+                    {t("assignmentNotes")} ({t("optional")})
+                  </Label>
+                  <Textarea
+                    id="bulk_assignment_notes"
+                    placeholder={t("assignmentNotesPlaceholder")}
+                    value={assignmentNotes}
+                    onChange={(e) => setAssignmentNotes(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {step === "running" && (
+          <div className="space-y-3 py-6">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                {t("bulkProcessing")}
+              </span>
+              <span className="text-muted-foreground">
+                {processedCount} / {eligibleOrders.length}
+              </span>
+            </div>
+            <Progress value={progressValue} />
+          </div>
+        )}
+
+        {step === "summary" && (
+          <div className="space-y-4 py-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="text-emerald-600 dark:text-emerald-400">
+                {summaryCounts.success} {t("bulkSucceeded")}
+              </Badge>
+              {summaryCounts.failed > 0 && (
+                <Badge variant="outline" className="text-destructive">
+                  {summaryCounts.failed} {t("bulkFailed")}
+                </Badge>
+              )}
+              {summaryCounts.skipped > 0 && (
+                <Badge variant="outline" className="text-muted-foreground">
+                  {summaryCounts.skipped} {t("bulkSkipped")}
+                </Badge>
+              )}
+            </div>
+            <div className="max-h-72 space-y-2 overflow-y-auto">
+              {results.map((result) => (
+                <div key={result.order.id} className="flex items-start gap-3 rounded-lg bg-muted/50 p-3">
+                  {result.status === "success" ? (
+                    <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-emerald-600 dark:text-emerald-400" />
+                  ) : result.status === "failed" ? (
+                    <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                  ) : (
+                    <MinusCircle className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="font-mono text-sm font-medium">{result.order.order_number}</p>
+                    {result.message && (
+                      <p className={cn(
+                        "text-xs",
+                        result.status === "failed" ? "text-destructive" : "text-muted-foreground"
+                      )}>
+                        {result.message}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "configure" && (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                {tCommon("cancel")}
+              </Button>
+              <Button
+                variant={action === "reject" ? "destructive" : "default"}
+                onClick={handleRun}
+                disabled={!isConfigValid || isLoadingInventories || isLoadingAgents}
+                className="gap-2"
+              >
+                {action === "accept" && <CheckCircle className="h-4 w-4" />}
+                {action === "reject" && <XCircle className="h-4 w-4" />}
+                {isAssign && <Truck className="h-4 w-4" />}
+                {t("bulkApplyTo")} {eligibleOrders.length}
+              </Button>
+            </>
+          )}
+          {step === "running" && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                cancelRequestedRef.current = true;
+              }}
+            >
+              {t("bulkStop")}
+            </Button>
+          )}
+          {step === "summary" && (
+            <Button onClick={() => onOpenChange(false)}>{tCommon("close")}</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
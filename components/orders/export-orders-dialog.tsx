@@ -0,0 +1,184 @@
+"use client";
+
+import { useState, useRef, useCallback } from "react";
+import { useLocale } from "next-intl";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Download, FileSpreadsheet, FileText, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  fetchOrdersForExport,
+  downloadOrdersExport,
+  type ExportFormat,
+  type ExportProgress,
+} from "@/lib/exporters/orders-export";
+import type { OrderFilters } from "@/lib/services/orders";
+import { getErrorMessage } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+interface ExportOrdersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Filters currently applied to the orders list */
+  filters: OrderFilters;
+  t: (key: string) => string;
+  tCommon: (key: string) => string;
+}
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; icon: typeof FileText; labelKey: string }> = [
+  { value: "xlsx", icon: FileSpreadsheet, labelKey: "exportFormatExcel" },
+  { value: "csv", icon: FileText, labelKey: "exportFormatCsv" },
+];
+
+export function ExportOrdersDialog({
+  open,
+  onOpenChange,
+  filters,
+  t,
+  tCommon,
+}: ExportOrdersDialogProps) {
+  const locale = useLocale();
+
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const hasFilters = Object.keys(filters).length > 0;
+  const progressValue =
+    progress && progress.total > 0 ? Math.round((progress.fetched / progress.total) * 100) : 0;
+
+  const handleExport = useCallback(async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsExporting(true);
+    setProgress(null);
+
+    try {
+      const orders = await fetchOrdersForExport(filters, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+
+      if (orders.length === 0) {
+        toast.info(t("exportNoOrders"));
+        return;
+      }
+
+      downloadOrdersExport(orders, format, t, locale);
+      toast.success(t("exportSuccess"), {
+        description: `${orders.length} ${t("exportOrdersCount")}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info(t("exportCancelled"));
+      } else {
+        toast.error(t("exportFailed"), {
+          description: getErrorMessage(error, tCommon("tryAgain")),
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsExporting(false);
+      setProgress(null);
+    }
+  }, [filters, format, t, tCommon, locale, onOpenChange]);
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Keep the dialog open while an export is running; use the cancel button instead
+    if (!nextOpen && isExporting) return;
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("exportTitle")}</DialogTitle>
+          <DialogDescription>{t("exportDesc")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <Badge variant={hasFilters ? "secondary" : "outline"}>
+            {hasFilters ? t("exportWithFilters") : t("exportAllOrders")}
+          </Badge>
+
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">{t("exportFormat")}</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="grid grid-cols-2 gap-4"
+              disabled={isExporting}
+            >
+              {FORMAT_OPTIONS.map(({ value, icon: Icon, labelKey }) => (
+                <div key={value}>
+                  <RadioGroupItem value={value} id={`export_${value}`} className="peer sr-only" />
+                  <Label
+                    htmlFor={`export_${value}`}
+                    className={cn(
+                      "flex flex-col items-center justify-center rounded-xl border-2 p-4 cursor-pointer transition-all hover:bg-muted/50",
+                      format === value ? "border-primary bg-primary/5" : "border-muted"
+                    )}
+                  >
+                    <Icon
+                      className={cn(
+                        "h-6 w-6 mb-2",
+                        format === value ? "text-primary" : "text-muted-foreground"
+                      )}
+                    />
+                    <span className="font-medium">{t(labelKey)}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {isExporting && (
+            <div className="space-y-2">
+              <Progress value={progressValue} />
+              <p className="text-xs text-muted-foreground text-center">
+                {progress
+                  ? `${t("exportFetching")} ${progress.fetched} / ${progress.total}`
+                  : t("exportFetching")}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={isExporting ? handleCancel : () => onOpenChange(false)}
+          >
+            {tCommon("cancel")}
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting} className="gap-2">
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+            {t("exportDownload")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
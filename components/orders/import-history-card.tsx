@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Link } from "@/i18n/routing";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  ChevronDown,
+  CloudOff,
+  ChevronUp,
+  Download,
+  FileSpreadsheet,
+  FileWarning,
+  Loader2,
+} from "lucide-react";
+import { getImportProgress } from "@/lib/import/chunked-import";
+import { useImportReport } from "@/hooks/queries/use-orders";
+import { downloadImportResults } from "@/lib/exporters/import-results-export";
+import { getErrorMessage } from "@/lib/errors";
+import type {
+  ImportDuplicateDecision,
+  ImportHistoryEntry,
+  ImportJobStatus,
+} from "@/lib/types/import-orders";
+
+/** Translation keys (importOrders namespace) for each job status */
+const STATUS_LABELS: Record<ImportJobStatus, string> = {
+  running: "statusRunning",
+  paused: "statusPaused",
+  completed: "statusCompleted",
+  cancelled: "statusCancelled",
+};
+
+const STATUS_VARIANTS: Record<ImportJobStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  running: "default",
+  paused: "outline",
+  completed: "secondary",
+  cancelled: "outline",
+};
+
+/** Translation keys (importOrders namespace) for each duplicate decision */
+const DECISION_LABELS: Record<ImportDuplicateDecision, string> = {
+  none: "decisionNone",
+  approved: "decisionApproved",
+  skipped: "decisionSkipped",
+};
+
+interface ImportHistoryCardProps {
+  job: ImportHistoryEntry;
+}
+
+export function ImportHistoryCard({ job }: ImportHistoryCardProps) {
+  const t = useTranslations("importOrders");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+  const [showOrders, setShowOrders] = useState(false);
+
+  const [downloading, setDownloading] = useState(false);
+  const report = useImportReport(job, showOrders);
+
+  const progress = getImportProgress(job.counts);
+  const createdOrders = (report.data?.orders ?? []).filter((order) => order.outcome === "created");
+  const hasIssues = progress.failed > 0 || progress.skipped > 0;
+  const unfinished = job.status === "running" || job.status === "paused";
+
+  const handleDownload = async (issuesOnly: boolean) => {
+    setDownloading(true);
+    try {
+      downloadImportResults(await report.load(), t, { issuesOnly });
+    } catch (error) {
+      toast.error(getErrorMessage(error, tCommon("tryAgain")));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div className="flex min-w-0 items-start gap-3">
+            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-primary/10">
+              <FileSpreadsheet className="h-5 w-5 text-primary" />
+            </div>
+            <div className="min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="truncate font-medium">{job.fileName}</p>
+                <Badge variant={STATUS_VARIANTS[job.status]}>{t(STATUS_LABELS[job.status])}</Badge>
+                {job.syncFailed && (
+                  <Badge variant="outline" className="gap-1 text-amber-600 dark:text-amber-400" title={t("notSyncedHint")}>
+                    <CloudOff className="h-3 w-3" />
+                    {t("notSynced")}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {new Date(job.createdAt).toLocaleString(locale)}
+                {job.createdBy && ` · ${t("importedBy", { name: job.createdBy.name })}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {hasIssues && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled={downloading}
+                onClick={() => handleDownload(true)}
+              >
+                <FileWarning className="h-4 w-4" />
+                {t("downloadIssues")}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={downloading}
+              onClick={() => handleDownload(false)}
+            >
+              {downloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              {t("downloadResults")}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-center sm:grid-cols-4">
+          <div className="rounded-lg border p-2">
+            <p className="text-lg font-semibold">{progress.total}</p>
+            <p className="text-xs text-muted-foreground">{t("totalOrders")}</p>
+          </div>
+          <div className="rounded-lg border p-2">
+            <p className="text-lg font-semibold text-emerald-600 dark:text-emerald-400">{progress.created}</p>
+            <p className="text-xs text-muted-foreground">{t("outcomeCreated")}</p>
+          </div>
+          <div className="rounded-lg border p-2">
+            <p className="text-lg font-semibold text-amber-600 dark:text-amber-400">{progress.skipped}</p>
+            <p className="text-xs text-muted-foreground">{t("outcomeSkippedDuplicate")}</p>
+          </div>
+          <div className="rounded-lg border p-2">
+            <p className="text-lg font-semibold text-destructive">{progress.failed}</p>
+            <p className="text-xs text-muted-foreground">{t("outcomeFailed")}</p>
+          </div>
+        </div>
+
+        <div className="space-y-1 text-sm text-muted-foreground">
+          <p>
+            {t(DECISION_LABELS[job.duplicateDecision], { count: job.duplicateWarningCount })}
+          </p>
+          {unfinished && (
+            <p>{t("unfinishedHint", { count: progress.total - progress.processed })}</p>
+          )}
+        </div>
+
+        {progress.created > 0 && (
+          <div className="space-y-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1 px-2"
+              onClick={() => setShowOrders((v) => !v)}
+            >
+              {showOrders ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              {t("createdOrdersToggle", { count: progress.created })}
+            </Button>
+            {showOrders && report.isLoading && (
+              <div className="flex justify-center rounded-lg border bg-muted/30 p-3">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {showOrders && report.error && (
+              <p className="px-2 text-sm text-destructive">{getErrorMessage(report.error, tCommon("tryAgain"))}</p>
+            )}
+            {showOrders && createdOrders.length > 0 && (
+              <div className="flex max-h-48 flex-wrap gap-2 overflow-y-auto rounded-lg border bg-muted/30 p-3">
+                {createdOrders.map((order, index) =>
+                  order.orderId ? (
+                    <Link
+                      key={order.orderId}
+                      href={`/dashboard/orders/${order.orderId}`}
+                      className="rounded-md border bg-background px-2 py-1 font-mono text-xs hover:border-primary hover:text-primary"
+                    >
+                      {order.orderNumber ?? `#${order.orderId}`}
+                    </Link>
+                  ) : (
+                    <span
+                      key={`row-${order.sourceRows[0] ?? index}`}
+                      className="rounded-md border bg-background px-2 py-1 font-mono text-xs text-muted-foreground"
+                    >
+                      {order.orderNumber ?? t("rowLabel", { row: order.sourceRows.join(", ") })}
+                    </span>
+                  )
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,9 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useTranslations } from "next-intl";
 import { useQuery } from "@tanstack/react-query";
-import { Loader2 } from "lucide-react";
+import { Download, History, Loader2, RotateCcw } from "lucide-react";
 import { toast } from "sonner";
 import {
   Dialog,
@@ -24,14 +24,47 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { ImportOrdersUploadStep } from "./import-orders-upload-step";
+import { ImportOrdersMappingStep } from "./import-orders-mapping-step";
 import { ImportOrdersPreviewStep } from "./import-orders-preview-step";
-import { validateAllRows, resolveLocationIds } from "@/lib/parsers/order-import-parser";
+import { ImportOrdersProgressStep } from "./import-orders-progress-step";
+import {
+  validateAllRows,
+  resolveLocationIds,
+  buildColumnMapping,
+  mapRowsToOrders,
+} from "@/lib/parsers/order-import-parser";
+import {
+  applyMappingProfile,
+  findMatchingProfile,
+  getMappingProfiles,
+  touchMappingProfile,
+} from "@/lib/parsers/import-mapping-profiles";
+import {
+  cancelImportJob,
+  getImportJobProgress,
+  precheckImportDuplicates,
+  runImportJob,
+} from "@/lib/import/chunked-import";
+import { createImportJob, findResumableImportJob } from "@/lib/import/import-job-store";
+import { downloadImportResults } from "@/lib/exporters/import-results-export";
+import { getErrorMessage } from "@/lib/errors";
 import { useImportOrders } from "@/hooks/queries/use-orders";
 import { useGovernorates } from "@/hooks/queries/use-vendors";
 import { fetchCities } from "@/lib/services/vendors";
 import { queryKeys, STALE_TIMES, CACHE_TIMES } from "@/components/providers/query-provider";
-import type { ImportedOrderRow, ImportStep } from "@/lib/types/import-orders";
-import type { CreateOrderRequest, ImportOrderWarning } from "@/lib/services/orders";
+import type {
+  ColumnMapping,
+  ImportDuplicateDecision,
+  ImportedOrderRow,
+  ImportJob,
+  ImportJobOrder,
+  ImportStep,
+  ParsedImportFile,
+} from "@/lib/types/import-orders";
+import type { ImportOrderWarning } from "@/lib/services/orders";
+
+/** One order to create and the file rows it was built from */
+type PayloadEntry = Pick<ImportJobOrder, "payload" | "sourceRows">;
 
 interface ImportOrdersDialogProps {
   open: boolean;
@@ -43,16 +76,29 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
   const tCommon = useTranslations("common");
 
   const [step, setStep] = useState<ImportStep>("upload");
+  const [parsedFile, setParsedFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
   const [rows, setRows] = useState<ImportedOrderRow[]>([]);
   const [confirmData, setConfirmData] = useState<{
     validRows: ImportedOrderRow[];
+    invalidRows: ImportedOrderRow[];
     skippedCount: number;
     reasons: string[];
   } | null>(null);
   const [duplicateConfirmData, setDuplicateConfirmData] = useState<{
-    payload: CreateOrderRequest[];
+    entries: PayloadEntry[];
+    rejected: ImportJobOrder[];
     warnings: ImportOrderWarning[];
   } | null>(null);
+  const [precheck, setPrecheck] = useState<{ checked: number; total: number } | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [resumableJob, setResumableJob] = useState<ImportJob | null>(null);
+  // The runner mutates the job in place, so cancel must act on the same object
+  const jobRef = useRef<ImportJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const importMutation = useImportOrders();
 
@@ -73,36 +119,87 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
 
   const reset = useCallback(() => {
     setStep("upload");
+    setParsedFile(null);
+    setMapping({});
+    setActiveProfileId(null);
     setRows([]);
     setConfirmData(null);
     setDuplicateConfirmData(null);
+    setPrecheck(null);
+    setJob(null);
+    setRunError(null);
+    setIsRunning(false);
+    setResumableJob(null);
+    jobRef.current = null;
   }, []);
 
   const handleOpenChange = useCallback(
     (v: boolean) => {
-      if (!v) reset();
+      if (!v) {
+        // Closing stops the run; the saved job is offered for resume next time
+        abortRef.current?.abort();
+        abortRef.current = null;
+        reset();
+      }
       onOpenChange(v);
     },
     [onOpenChange, reset]
   );
 
-  const handleFilesParsed = useCallback((parsed: ImportedOrderRow[]) => {
+  // Offer to resume an import that stopped before finishing
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    findResumableImportJob()
+      .then((found) => {
+        if (!cancelled) setResumableJob(found);
+      })
+      .catch(() => {
+        // IndexedDB unavailable (private mode); imports still work without resume
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const handleFileParsed = useCallback((file: ParsedImportFile) => {
+    // Re-apply a saved profile when this vendor has imported the same layout before
+    const profile = findMatchingProfile(getMappingProfiles(), file.headers);
+    if (profile) {
+      setMapping(applyMappingProfile(profile, file.headers));
+      toast.info(t("profileApplied", { name: profile.name }));
+    } else {
+      setMapping(buildColumnMapping(file.headers));
+    }
+    setActiveProfileId(profile?.id ?? null);
+    setParsedFile(file);
+    setStep("mapping");
+  }, [t]);
+
+  const handleMappingConfirm = useCallback(() => {
+    if (!parsedFile) return;
+    const parsed = mapRowsToOrders(parsedFile.rows, mapping, parsedFile.headers);
     // Resolve governorate/city strings to database IDs
     if (governorates.length > 0 && allCities.length > 0) {
       resolveLocationIds(parsed, governorates, allCities);
     }
+    validateAllRows(parsed);
+    if (activeProfileId) touchMappingProfile(activeProfileId);
     setRows(parsed);
     setStep("preview");
-  }, [governorates, allCities]);
+  }, [parsedFile, mapping, activeProfileId, governorates, allCities]);
 
   const handleBack = useCallback(() => {
     if (step === "preview") {
-      setStep("upload");
+      setStep("mapping");
       setRows([]);
+    } else if (step === "mapping") {
+      setStep("upload");
+      setParsedFile(null);
     }
   }, [step]);
 
-  const buildPayload = useCallback((validRows: ImportedOrderRow[]): CreateOrderRequest[] => {
+  const buildPayload = useCallback((validRows: ImportedOrderRow[]): PayloadEntry[] => {
     // Group rows by _orderRef so multi-item Shopify orders become a
     // single CreateOrderRequest with multiple items. When _orderRef is
     // missing, group by normalized customer/order identity so multiple
@@ -139,128 +236,224 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
     return Array.from(grouped.values()).map((group) => {
       const first = group[0];
       return {
-        customer: {
-          name: first.customerName,
-          mobile: first.customerMobile,
-          address: first.customerAddress,
-          governorate_id: first._governorateId ?? null,
-          city_id: first._cityId ?? null,
+        payload: {
+          customer: {
+            name: first.customerName,
+            mobile: first.customerMobile,
+            address: first.customerAddress,
+            governorate_id: first._governorateId ?? null,
+            city_id: first._cityId ?? null,
+          },
+          items: group.map((row) => ({
+            product_name: row.productName,
+            quantity: row.quantity,
+            unit_price: row.unitPrice,
+          })),
+          payment_method: first.paymentMethod || "cod",
+          vendor_notes: first.vendorNotes || null,
         },
-        items: group.map((row) => ({
-          product_name: row.productName,
-          quantity: row.quantity,
-          unit_price: row.unitPrice,
-        })),
-        payment_method: first.paymentMethod || "cod",
-        vendor_notes: first.vendorNotes || null,
+        sourceRows: group.map((row) => row._sourceRow),
       };
     });
   }, []);
 
-  const getWarningText = useCallback((warning: ImportOrderWarning) => {
+  const getWarningText = useCallback((warning: ImportOrderWarning, entries: PayloadEntry[]) => {
+    // Report the file row the order came from rather than its position in the payload
+    const rowOf = (index: number) => entries[index]?.sourceRows[0] ?? index + 1;
+
     if (warning.type === "payload_duplicate") {
       return t("warningPayloadDuplicate", {
-        row: warning.index + 1,
-        matchedRow: (warning.matched_index ?? 0) + 1,
+        row: rowOf(warning.index),
+        matchedRow: rowOf(warning.matched_index ?? 0),
       });
     }
 
     if (warning.type === "existing_order_duplicate") {
       if (warning.matched_order_number) {
         return t("warningExistingDuplicateWithOrder", {
-          row: warning.index + 1,
+          row: rowOf(warning.index),
           orderNumber: warning.matched_order_number,
         });
       }
 
       return t("warningExistingDuplicate", {
-        row: warning.index + 1,
+        row: rowOf(warning.index),
       });
     }
 
-    return `${t("warningRowPrefix", { row: warning.index + 1 })}: ${warning.message}`;
+    return `${t("warningRowPrefix", { row: rowOf(warning.index) })}: ${warning.message}`;
   }, [t]);
 
-  const submitOrders = useCallback(async (payload: CreateOrderRequest[], approveDuplicates = false) => {
-    setConfirmData(null);
-    setDuplicateConfirmData(null);
+  // Recorded on the result file for orders that were not created as duplicates
+  const getDuplicateMessage = useCallback((warning: ImportOrderWarning) => {
+    if (warning.type === "payload_duplicate") return t("duplicateInFile");
+    if (warning.matched_order_number) {
+      return t("duplicateOfOrder", { orderNumber: warning.matched_order_number });
+    }
+    return warning.type === "existing_order_duplicate" ? t("duplicateOfExisting") : warning.message;
+  }, [t]);
+
+  const runJob = useCallback(async (target: ImportJob) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    jobRef.current = target;
+    setJob({ ...target });
+    setRunError(null);
+    setIsRunning(true);
     setStep("submitting");
 
     try {
-      const result = await importMutation.mutateAsync({ orders: payload, approveDuplicates });
-      const warnings = result.warnings ?? [];
-
-      if (result.requires_confirmation) {
-        setDuplicateConfirmData({ payload, warnings });
-        setStep("preview");
-        return;
-      }
-      toast.success(
-        t("importSuccess", {
-          success: result.success_count,
-          total: payload.length,
-        })
-      );
-
-      if (warnings.length > 0) {
-        const warningSummary = warnings
-          .slice(0, 3)
-          .map(getWarningText)
-          .join("\n");
-
-        toast.warning(t("warningsDetected", { count: warnings.length }), {
-          description:
-            warnings.length > 3
-              ? `${warningSummary}\n${t("moreWarnings", { count: warnings.length - 3 })}`
-              : warningSummary,
-        });
-      }
-
-      handleOpenChange(false);
+      const finished = await runImportJob(target, {
+        submit: importMutation.mutateAsync,
+        signal: controller.signal,
+        onProgress: (updated) => setJob({ ...updated }),
+        duplicateMessage: getDuplicateMessage,
+      });
+      const progress = getImportJobProgress(finished);
+      toast.success(t("importSuccess", { success: progress.created, total: progress.total }));
+      setStep("done");
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : tCommon("tryAgain");
-      toast.error(t("importFailed"), { description: message });
-      setStep("preview");
+      // Cancelled or dialog closed; the job is saved and can be resumed
+      if (controller.signal.aborted) return;
+      setRunError(getErrorMessage(error, tCommon("tryAgain")));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
     }
-  }, [importMutation, handleOpenChange, getWarningText, t, tCommon]);
+  }, [importMutation.mutateAsync, getDuplicateMessage, t, tCommon]);
+
+  const startJob = useCallback(
+    async (
+      entries: PayloadEntry[],
+      options: {
+        decision: ImportDuplicateDecision;
+        warnings?: ImportOrderWarning[];
+        /** Rows left out for validation errors, recorded as failed without being sent */
+        rejected?: ImportJobOrder[];
+      }
+    ) => {
+      setDuplicateConfirmData(null);
+      const orders: ImportJobOrder[] = entries.map((entry) => ({ ...entry, outcome: "pending" }));
+      const warnings = options.warnings ?? [];
+      for (const warning of options.decision === "skipped" ? warnings : []) {
+        const order = orders[warning.index];
+        if (!order) continue;
+        order.outcome = "skipped_duplicate";
+        order.orderNumber = warning.matched_order_number;
+        order.message = getDuplicateMessage(warning);
+      }
+      // Warning indexes point into `entries`, so the rejected rows are merged in afterwards
+      orders.push(...(options.rejected ?? []));
+      orders.sort((a, b) => a.sourceRows[0] - b.sourceRows[0]);
+
+      const created = createImportJob({
+        fileName: parsedFile?.fileName ?? t("title"),
+        duplicateDecision: options.decision,
+        duplicateWarningCount: warnings.length,
+        orders,
+      });
+      await runJob(created);
+    },
+    [parsedFile, getDuplicateMessage, runJob, t]
+  );
 
-  const precheckAndSubmit = useCallback(async (validRows: ImportedOrderRow[]) => {
+  const precheckAndSubmit = useCallback(async (
+    validRows: ImportedOrderRow[],
+    invalidRows: ImportedOrderRow[] = []
+  ) => {
     setConfirmData(null);
     setDuplicateConfirmData(null);
     setStep("submitting");
 
-    const payload = buildPayload(validRows);
+    const entries = buildPayload(validRows);
+    // Kept on the job so the results file lists them with their validation errors
+    const rejected: ImportJobOrder[] = invalidRows.map((row) => ({
+      ...buildPayload([row])[0],
+      outcome: "failed",
+      message: Object.values(row._errors)
+        .filter(Boolean)
+        .map((errKey) => t(`errors.${errKey}`))
+        .join("; "),
+    }));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPrecheck({ checked: 0, total: entries.length });
 
     try {
-      const precheckResult = await importMutation.mutateAsync({
-        orders: payload,
-        checkOnly: true,
-      });
+      const warnings = await precheckImportDuplicates(
+        entries.map((entry) => entry.payload),
+        importMutation.mutateAsync,
+        {
+          signal: controller.signal,
+          onProgress: (checked) => setPrecheck({ checked, total: entries.length }),
+        }
+      );
+      setPrecheck(null);
 
-      const warnings = precheckResult.warnings ?? [];
       if (warnings.length > 0) {
-        setDuplicateConfirmData({ payload, warnings });
+        abortRef.current = null;
+        setDuplicateConfirmData({ entries, rejected, warnings });
         setStep("preview");
         return;
       }
 
-      await submitOrders(payload, false);
+      await startJob(entries, { decision: "none", rejected });
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : tCommon("tryAgain");
-      toast.error(t("importFailed"), { description: message });
+      if (controller.signal.aborted) return;
+      abortRef.current = null;
+      setPrecheck(null);
+      toast.error(t("importFailed"), { description: getErrorMessage(error, tCommon("tryAgain")) });
       setStep("preview");
     }
-  }, [buildPayload, importMutation, submitOrders, t, tCommon]);
+  }, [buildPayload, importMutation.mutateAsync, startJob, t, tCommon]);
+
+  const handleResume = useCallback(() => {
+    if (!resumableJob) return;
+    setResumableJob(null);
+    void runJob(resumableJob);
+  }, [resumableJob, runJob]);
+
+  const handleDiscard = useCallback(async () => {
+    if (!resumableJob) return;
+    setResumableJob(null);
+    try {
+      await cancelImportJob(resumableJob);
+    } catch {
+      // Nothing to clean up; the job will be offered again next time
+    }
+  }, [resumableJob]);
+
+  const handleCancelImport = useCallback(async () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsRunning(false);
+    setRunError(null);
+    const current = jobRef.current;
+    if (!current) {
+      // Still pre-checking; nothing has been created yet
+      setPrecheck(null);
+      setStep("preview");
+      return;
+    }
+    await cancelImportJob(current);
+    setJob({ ...current });
+    setStep("done");
+  }, []);
+
+  const handleRetry = useCallback(() => {
+    if (jobRef.current) void runJob(jobRef.current);
+  }, [runJob]);
 
   const handleSubmit = useCallback(() => {
-    // Validate all rows and separate valid from invalid.
-    validateAllRows(rows);
-    const validRows = rows.filter((r) => Object.keys(r._errors).length === 0);
-    const invalidRows = rows.filter((r) => Object.keys(r._errors).length > 0);
+    // Validate the rows left in the import and separate valid from invalid.
+    const includedRows = rows.filter((r) => !r._excluded);
+    validateAllRows(includedRows);
+    const validRows = includedRows.filter((r) => Object.keys(r._errors).length === 0);
+    const invalidRows = includedRows.filter((r) => Object.keys(r._errors).length > 0);
 
-    if (rows.length === 0) {
+    if (includedRows.length === 0) {
       toast.error(t("noOrdersToImport"));
       return;
     }
@@ -280,6 +473,7 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
       }
       setConfirmData({
         validRows,
+        invalidRows,
         skippedCount: invalidRows.length,
         reasons: [...reasons],
       });
@@ -290,7 +484,8 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
     void precheckAndSubmit(validRows);
   }, [precheckAndSubmit, rows, t]);
 
-  const stepNumber = step === "upload" ? 1 : step === "preview" ? 2 : 3;
+  const stepNumber = { upload: 1, mapping: 2, preview: 3, submitting: 4, done: 4 }[step];
+  const resumableProgress = resumableJob ? getImportJobProgress(resumableJob) : null;
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
@@ -301,8 +496,9 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
           <div className="flex items-center gap-3 pt-2">
             {[
               { num: 1, label: t("stepUpload") },
-              { num: 2, label: t("stepPreview") },
-              { num: 3, label: t("stepSubmit") },
+              { num: 2, label: t("stepMapping") },
+              { num: 3, label: t("stepPreview") },
+              { num: 4, label: t("stepSubmit") },
             ].map(({ num, label }, idx) => (
               <div key={num} className="flex items-center gap-2">
                 {idx > 0 && (
@@ -337,31 +533,111 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto py-4">
+          {step === "upload" && resumableJob && resumableProgress && (
+            <div className="mb-4 flex flex-col gap-3 rounded-lg border border-primary/30 bg-primary/5 p-4 sm:flex-row sm:items-center">
+              <History className="h-5 w-5 shrink-0 text-primary" />
+              <div className="flex-1 text-sm">
+                <p className="font-medium">{t("resumeImportTitle")}</p>
+                <p className="text-muted-foreground">
+                  {t("resumeImportDescription", {
+                    fileName: resumableJob.fileName,
+                    done: resumableProgress.processed,
+                    total: resumableProgress.total,
+                  })}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => void handleDiscard()}>
+                  {t("discardImport")}
+                </Button>
+                <Button size="sm" onClick={handleResume}>
+                  {t("resumeImport")}
+                </Button>
+              </div>
+            </div>
+          )}
           {step === "upload" && (
-            <ImportOrdersUploadStep onFilesParsed={handleFilesParsed} />
+            <ImportOrdersUploadStep onFileParsed={handleFileParsed} />
           )}
-          {(step === "preview" || step === "submitting") && (
-            <ImportOrdersPreviewStep rows={rows} onRowsChange={setRows} />
+          {step === "mapping" && parsedFile && (
+            <ImportOrdersMappingStep
+              file={parsedFile}
+              mapping={mapping}
+              onMappingChange={setMapping}
+              activeProfileId={activeProfileId}
+              onActiveProfileChange={setActiveProfileId}
+            />
+          )}
+          {step === "preview" && (
+            <ImportOrdersPreviewStep
+              rows={rows}
+              onRowsChange={setRows}
+              governorates={governorates}
+              cities={allCities}
+            />
+          )}
+          {(step === "submitting" || step === "done") && (
+            <ImportOrdersProgressStep
+              job={job}
+              precheck={precheck}
+              error={runError}
+              isRunning={isRunning}
+            />
           )}
         </div>
 
         {/* Footer */}
         <DialogFooter className="gap-2 sm:gap-0">
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={handleBack}>
+                {tCommon("back")}
+              </Button>
+              <Button onClick={handleMappingConfirm} disabled={Object.keys(mapping).length === 0}>
+                {tCommon("next")}
+              </Button>
+            </>
+          )}
           {step === "preview" && (
             <>
               <Button variant="outline" onClick={handleBack}>
                 {tCommon("back")}
               </Button>
-              <Button onClick={handleSubmit} disabled={rows.length === 0}>
+              <Button onClick={handleSubmit} disabled={rows.every((r) => r._excluded)}>
                 {t("submitOrders")}
               </Button>
             </>
           )}
           {step === "submitting" && (
-            <Button disabled>
-              <Loader2 className="h-4 w-4 animate-spin me-2" />
-              {t("submitting")}
-            </Button>
+            <>
+              <Button variant="outline" onClick={() => void handleCancelImport()}>
+                {t("cancelImport")}
+              </Button>
+              {runError ? (
+                <Button onClick={handleRetry}>
+                  <RotateCcw className="h-4 w-4 me-2" />
+                  {t("retryImport")}
+                </Button>
+              ) : (
+                <Button disabled>
+                  <Loader2 className="h-4 w-4 animate-spin me-2" />
+                  {t("submitting")}
+                </Button>
+              )}
+            </>
+          )}
+          {step === "done" && (
+            <>
+              {job && (
+                <Button variant="outline" onClick={() => downloadImportResults(job, t)}>
+                  <Download className="h-4 w-4 me-2" />
+                  {t("downloadResults")}
+                </Button>
+              )}
+              <Button onClick={() => handleOpenChange(false)}>
+                {tCommon("close")}
+              </Button>
+            </>
           )}
         </DialogFooter>
       </DialogContent>
@@ -392,7 +668,7 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
             <AlertDialogAction
               onClick={() => {
                 if (confirmData) {
-                  void precheckAndSubmit(confirmData.validRows);
+                  void precheckAndSubmit(confirmData.validRows, confirmData.invalidRows);
                 }
               }}
             >
@@ -420,7 +696,7 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
                 <ul className="list-disc ps-5 space-y-1 text-sm">
                   {duplicateConfirmData?.warnings.slice(0, 5).map((warning, idx) => (
                     <li key={`${warning.type}-${warning.index}-${idx}`}>
-                      {getWarningText(warning)}
+                      {getWarningText(warning, duplicateConfirmData.entries)}
                     </li>
                   ))}
                 </ul>
@@ -436,10 +712,28 @@ export function ImportOrdersDialog({ open, onOpenChange }: ImportOrdersDialogPro
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>{t("cancelImport")}</AlertDialogCancel>
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (duplicateConfirmData) {
+                  void startJob(duplicateConfirmData.entries, {
+                    decision: "skipped",
+                    warnings: duplicateConfirmData.warnings,
+                    rejected: duplicateConfirmData.rejected,
+                  });
+                }
+              }}
+            >
+              {t("skipDuplicates")}
+            </Button>
             <AlertDialogAction
               onClick={() => {
                 if (duplicateConfirmData) {
-                  void submitOrders(duplicateConfirmData.payload, true);
+                  void startJob(duplicateConfirmData.entries, {
+                    decision: "approved",
+                    warnings: duplicateConfirmData.warnings,
+                    rejected: duplicateConfirmData.rejected,
+                  });
                 }
               }}
             >
@@ -0,0 +1,408 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { BookmarkCheck, Plus, Save, Scissors, Store, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { applyMappingRule, getMappedHeaders } from "@/lib/parsers/order-import-parser";
+import { detectImportPreset } from "@/lib/parsers/import-presets";
+import {
+  applyMappingProfile,
+  deleteMappingProfile,
+  getMappingProfiles,
+  saveMappingProfile,
+} from "@/lib/parsers/import-mapping-profiles";
+import {
+  EXPECTED_COLUMNS,
+  type ColumnMapping,
+  type ColumnMappingRule,
+  type ColumnSource,
+  type ExpectedColumn,
+  type ParsedImportFile,
+} from "@/lib/types/import-orders";
+
+/** Translation keys (importOrders namespace) for each expected column */
+const COLUMN_LABEL_KEYS: Record<ExpectedColumn, string> = {
+  customerName: "customerName",
+  customerMobile: "mobile",
+  customerAddress: "address",
+  governorate: "governorate",
+  city: "city",
+  productName: "product",
+  quantity: "qty",
+  unitPrice: "price",
+  paymentMethod: "payment",
+  vendorNotes: "notes",
+};
+
+/** Columns that fail row validation when left empty */
+const REQUIRED_COLUMNS: ExpectedColumn[] = [
+  "customerName",
+  "customerMobile",
+  "customerAddress",
+  "productName",
+];
+
+/** Select value for "not mapped" (Radix Select doesn't allow an empty value) */
+const NONE = "__none__";
+
+const EMPTY_RULE: ColumnMappingRule = { sources: [], combine: "first", separator: " " };
+
+interface ImportOrdersMappingStepProps {
+  file: ParsedImportFile;
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  activeProfileId: string | null;
+  onActiveProfileChange: (id: string | null) => void;
+}
+
+export function ImportOrdersMappingStep({
+  file,
+  mapping,
+  onMappingChange,
+  activeProfileId,
+  onActiveProfileChange,
+}: ImportOrdersMappingStepProps) {
+  const t = useTranslations("importOrders");
+  const tCommon = useTranslations("common");
+
+  const [profiles, setProfiles] = useState(getMappingProfiles);
+  const [profileName, setProfileName] = useState(
+    () => profiles.find((profile) => profile.id === activeProfileId)?.name ?? ""
+  );
+
+  // First row with any content, used to preview each mapped value
+  const sampleRow = useMemo(
+    () => file.rows.find((row) => Object.values(row).some((value) => String(value).trim())) ?? {},
+    [file.rows]
+  );
+
+  const preset = useMemo(() => detectImportPreset(file.headers), [file.headers]);
+
+  const unmappedHeaders = useMemo(() => {
+    const mapped = getMappedHeaders(mapping);
+    return file.headers.filter((header) => !mapped.has(header));
+  }, [file.headers, mapping]);
+
+  const updateRule = useCallback(
+    (column: ExpectedColumn, rule: ColumnMappingRule | null) => {
+      const next = { ...mapping };
+      if (rule && rule.sources.length > 0) {
+        next[column] = rule;
+      } else {
+        delete next[column];
+      }
+      onMappingChange(next);
+    },
+    [mapping, onMappingChange]
+  );
+
+  const updateSource = (column: ExpectedColumn, index: number, source: ColumnSource | null) => {
+    const rule = mapping[column] ?? EMPTY_RULE;
+    const sources = [...rule.sources];
+    if (source) {
+      sources[index] = source;
+    } else {
+      sources.splice(index, 1);
+    }
+    updateRule(column, { ...rule, sources });
+  };
+
+  const assignHeader = (header: string, column: ExpectedColumn) => {
+    const rule = mapping[column] ?? EMPTY_RULE;
+    updateRule(column, { ...rule, sources: [...rule.sources, { header }] });
+  };
+
+  const handleProfileSelect = (id: string) => {
+    if (id === NONE) {
+      onActiveProfileChange(null);
+      setProfileName("");
+      return;
+    }
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    onMappingChange(applyMappingProfile(profile, file.headers));
+    onActiveProfileChange(profile.id);
+    setProfileName(profile.name);
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim()) return;
+    const profile = saveMappingProfile(profileName, file.headers, mapping);
+    setProfiles(getMappingProfiles());
+    onActiveProfileChange(profile.id);
+    toast.success(t("profileSaved", { name: profile.name }));
+  };
+
+  const handleDeleteProfile = () => {
+    if (!activeProfileId) return;
+    deleteMappingProfile(activeProfileId);
+    setProfiles(getMappingProfiles());
+    onActiveProfileChange(null);
+    setProfileName("");
+    toast.success(t("profileDeleted"));
+  };
+
+  return (
+    <div className="space-y-6">
+      {preset && (
+        <div className="flex items-center gap-2 rounded-lg border border-primary/20 bg-primary/5 px-4 py-3 text-sm">
+          <Store className="h-4 w-4 shrink-0 text-primary" />
+          <span>{t("presetDetected", { platform: preset.label })}</span>
+        </div>
+      )}
+
+      {/* Saved profiles */}
+      <div className="rounded-lg border bg-muted/30 p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <BookmarkCheck className="h-4 w-4 text-primary" />
+          <p className="text-sm font-medium">{t("mappingProfile")}</p>
+        </div>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Select value={activeProfileId ?? NONE} onValueChange={handleProfileSelect}>
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>{t("noProfile")}</SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder={t("profileNamePlaceholder")}
+            className="sm:flex-1"
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={handleSaveProfile}
+              disabled={!profileName.trim() || Object.keys(mapping).length === 0}
+            >
+              <Save className="h-4 w-4" />
+              {t("saveProfile")}
+            </Button>
+            {activeProfileId && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleDeleteProfile}
+                aria-label={tCommon("delete")}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{t("mappingProfileDesc")}</p>
+      </div>
+
+      {/* Column rules */}
+      <div className="divide-y rounded-lg border">
+        {EXPECTED_COLUMNS.map((column) => {
+          const rule = mapping[column];
+          const sources = rule?.sources.length ? rule.sources : [null];
+          const sample = rule ? applyMappingRule(sampleRow, rule) : "";
+          const isRequired = REQUIRED_COLUMNS.includes(column);
+
+          return (
+            <div key={column} className="grid gap-3 p-4 md:grid-cols-[180px_1fr_200px]">
+              <div className="flex items-start gap-2">
+                <span className="text-sm font-medium">{t(COLUMN_LABEL_KEYS[column])}</span>
+                {isRequired && (
+                  <Badge variant={rule ? "secondary" : "destructive"} className="text-[10px]">
+                    {t("requiredColumn")}
+                  </Badge>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {sources.map((source, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2">
+                    <Select
+                      value={source?.header ?? NONE}
+                      onValueChange={(header) =>
+                        updateSource(column, index, header === NONE ? null : { ...source, header })
+                      }
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>{t("notMapped")}</SelectItem>
+                        {file.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {source && (
+                      <>
+                        {source.split ? (
+                          <div className="flex items-center gap-1">
+                            <Input
+                              value={source.split.delimiter}
+                              onChange={(e) =>
+                                updateSource(column, index, {
+                                  ...source,
+                                  split: { ...source.split!, delimiter: e.target.value },
+                                })
+                              }
+                              placeholder={t("splitDelimiter")}
+                              aria-label={t("splitDelimiter")}
+                              className="h-9 w-16 font-mono"
+                              dir="ltr"
+                            />
+                            <Input
+                              type="number"
+                              min={1}
+                              value={source.split.index + 1}
+                              onChange={(e) =>
+                                updateSource(column, index, {
+                                  ...source,
+                                  split: {
+                                    ...source.split!,
+                                    index: Math.max(0, (parseInt(e.target.value, 10) || 1) - 1),
+                                  },
+                                })
+                              }
+                              aria-label={t("splitPart")}
+                              title={t("splitPart")}
+                              className="h-9 w-16"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-9 w-9"
+                              onClick={() => updateSource(column, index, { header: source.header })}
+                              aria-label={t("removeSplit")}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1 text-muted-foreground"
+                            onClick={() =>
+                              updateSource(column, index, { ...source, split: { delimiter: " ", index: 0 } })
+                            }
+                          >
+                            <Scissors className="h-3.5 w-3.5" />
+                            {t("splitValue")}
+                          </Button>
+                        )}
+                        {index > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-9 w-9"
+                            onClick={() => updateSource(column, index, null)}
+                            aria-label={t("removeSourceColumn")}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                ))}
+
+                {rule && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => updateRule(column, { ...rule, sources: [...rule.sources, { header: file.headers[0] }] })}
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                      {t("addSourceColumn")}
+                    </Button>
+                    {rule.sources.length > 1 && (
+                      <>
+                        <Select
+                          value={rule.combine}
+                          onValueChange={(combine) =>
+                            updateRule(column, { ...rule, combine: combine as ColumnMappingRule["combine"] })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-44 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="first">{t("combineFirst")}</SelectItem>
+                            <SelectItem value="join">{t("combineJoin")}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {rule.combine === "join" && (
+                          <Input
+                            value={rule.separator}
+                            onChange={(e) => updateRule(column, { ...rule, separator: e.target.value })}
+                            aria-label={t("separator")}
+                            title={t("separator")}
+                            className="h-8 w-16 font-mono"
+                            dir="ltr"
+                          />
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="min-w-0">
+                <p className="text-xs text-muted-foreground">{t("sampleValue")}</p>
+                <p className="truncate text-sm" title={sample}>
+                  {sample || "—"}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Source columns not used by any rule */}
+      {unmappedHeaders.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            {t("unmappedColumns", { count: unmappedHeaders.length })}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {unmappedHeaders.map((header) => (
+              <Select key={header} value={NONE} onValueChange={(column) => assignHeader(header, column as ExpectedColumn)}>
+                <SelectTrigger className="h-8 w-auto gap-2 text-xs">
+                  <span className="font-medium">{header}</span>
+                  <span className="text-muted-foreground">→ {t("assignTo")}</span>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE} disabled>
+                    {t("assignTo")}
+                  </SelectItem>
+                  {EXPECTED_COLUMNS.map((column) => (
+                    <SelectItem key={column} value={column}>
+                      {t(COLUMN_LABEL_KEYS[column])}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 "use client";
 
-import { useCallback, useMemo } from "react";
-import { useTranslations } from "next-intl";
-import { Trash2 } from "lucide-react";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { AlertTriangle, Filter, Sparkles, Trash2, Wand2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import {
   Table,
@@ -15,29 +25,174 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { resolveLocationIds, validateOrderRow } from "@/lib/parsers/order-import-parser";
+import { rankLocations } from "@/lib/parsers/location-matcher";
+import {
+  getLocationAliases,
+  learnLocationAlias,
+  type LocationKind,
+} from "@/lib/parsers/location-aliases";
 import type { ImportedOrderRow, ExpectedColumn } from "@/lib/types/import-orders";
+import type { City, Governorate } from "@/lib/services/vendors";
+
+type TextField = "customerName" | "customerMobile" | "customerAddress" | "productName" | "vendorNotes";
+
+/**
+ * A just-made edit that other rows share the original value of,
+ * offered to the user as "apply to all rows with this value"
+ */
+interface PendingBulkEdit {
+  sourceId: string;
+  field: "governorate" | "city" | TextField;
+  from: string;
+  count: number;
+  apply: (row: ImportedOrderRow) => ImportedOrderRow;
+}
+
+const normalizeValue = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+interface LocationSelectOptions<T extends Governorate | City> {
+  kind: LocationKind;
+  /** Current cell text (the DB name once resolved) */
+  value: string;
+  selectedId: number | null | undefined;
+  /** Text as imported, and how confidently it was matched */
+  rawValue?: string;
+  confidence?: number;
+  options: T[];
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+}
 
 interface ImportOrdersPreviewStepProps {
   rows: ImportedOrderRow[];
   onRowsChange: (rows: ImportedOrderRow[]) => void;
+  /** Location lists used to resolve governorate/city picks; free text is shown while empty */
+  governorates: Governorate[];
+  cities: City[];
 }
 
 export function ImportOrdersPreviewStep({
   rows,
   onRowsChange,
+  governorates,
+  cities,
 }: ImportOrdersPreviewStepProps) {
   const t = useTranslations("importOrders");
+  const locale = useLocale();
+
+  // Rows that had errors when the filter was switched on; fixed rows stay visible until it's off
+  const [errorFilterIds, setErrorFilterIds] = useState<Set<string> | null>(null);
+  const [pendingBulk, setPendingBulk] = useState<PendingBulkEdit | null>(null);
+  const [aliases, setAliases] = useState(getLocationAliases);
+  // Cell values at focus time, so a finished text edit knows what it replaced
+  const editStartValues = useRef<Record<string, string>>({});
 
   const hasOrderRefs = useMemo(
     () => rows.some((r) => r._orderRef),
     [rows]
   );
 
+  const locationName = (location: Governorate | City) =>
+    locale === "ar" ? location.name_ar : location.name_en;
+
+  /** Apply a change to one row and re-validate it */
+  const revise = useCallback(
+    (row: ImportedOrderRow, change: (row: ImportedOrderRow) => ImportedOrderRow) => {
+      const next = change({ ...row });
+      validateOrderRow(next);
+      return next;
+    },
+    []
+  );
+
+  const updateRow = useCallback(
+    (id: string, change: (row: ImportedOrderRow) => ImportedOrderRow) => {
+      onRowsChange(rows.map((r) => (r._id === id ? revise(r, change) : r)));
+    },
+    [rows, onRowsChange, revise]
+  );
+
   const updateField = useCallback(
-    (id: string, field: string, value: string | number) => {
-      onRowsChange(
-        rows.map((r) => (r._id === id ? { ...r, [field]: value, _errors: { ...r._errors, [field]: undefined } } : r))
-      );
+    (id: string, field: ExpectedColumn, value: string | number) => {
+      updateRow(id, (row) => ({ ...row, [field]: value }));
+    },
+    [updateRow]
+  );
+
+  const offerBulkEdit = useCallback(
+    (
+      sourceId: string,
+      field: PendingBulkEdit["field"],
+      from: string,
+      apply: PendingBulkEdit["apply"]
+    ) => {
+      const count = from.trim()
+        ? rows.filter((r) => r._id !== sourceId && normalizeValue(r[field]) === normalizeValue(from)).length
+        : 0;
+      setPendingBulk(count > 0 ? { sourceId, field, from, count, apply } : null);
+    },
+    [rows]
+  );
+
+  const applyBulkEdit = useCallback(() => {
+    if (!pendingBulk) return;
+    const { sourceId, field, from, apply } = pendingBulk;
+    onRowsChange(
+      rows.map((r) =>
+        r._id !== sourceId && normalizeValue(r[field]) === normalizeValue(from) ? revise(r, apply) : r
+      )
+    );
+    setPendingBulk(null);
+  }, [pendingBulk, rows, onRowsChange, revise]);
+
+  /** Remember the imported spelling the user just matched by hand */
+  const learnAlias = useCallback((kind: LocationKind, raw: string | undefined, id: number) => {
+    if (!raw?.trim()) return;
+    learnLocationAlias(kind, raw, id);
+    setAliases(getLocationAliases());
+  }, []);
+
+  const selectGovernorate = useCallback(
+    (row: ImportedOrderRow, governorateId: string) => {
+      const governorate = governorates.find((g) => String(g.id) === governorateId);
+      if (!governorate) return;
+      // Re-run resolution so the row's city text is matched within the new governorate
+      const apply = (r: ImportedOrderRow) => {
+        const next = { ...r, governorate: governorate.name_en, _governorateId: null, _cityId: null };
+        resolveLocationIds([next], governorates, cities);
+        return next;
+      };
+      updateRow(row._id, apply);
+      learnAlias("governorates", row._rawGovernorate ?? row.governorate, governorate.id);
+      offerBulkEdit(row._id, "governorate", row.governorate, apply);
+    },
+    [governorates, cities, updateRow, learnAlias, offerBulkEdit]
+  );
+
+  const selectCity = useCallback(
+    (row: ImportedOrderRow, cityId: string) => {
+      const city = cities.find((c) => String(c.id) === cityId);
+      if (!city) return;
+      const apply = (r: ImportedOrderRow) => ({
+        ...r,
+        governorate: city.governorate.name_en,
+        _governorateId: city.governorate.id,
+        _governorateConfidence: 1,
+        city: city.name_en,
+        _cityId: city.id,
+        _cityConfidence: 1,
+      });
+      updateRow(row._id, apply);
+      learnAlias("cities", row._rawCity ?? row.city, city.id);
+      offerBulkEdit(row._id, "city", row.city, apply);
+    },
+    [cities, updateRow, learnAlias, offerBulkEdit]
+  );
+
+  const setExcluded = useCallback(
+    (ids: Set<string>, excluded: boolean) => {
+      onRowsChange(rows.map((r) => (ids.has(r._id) ? { ...r, _excluded: excluded } : r)));
     },
     [rows, onRowsChange]
   );
@@ -45,37 +200,186 @@ export function ImportOrdersPreviewStep({
   const deleteRow = useCallback(
     (id: string) => {
       onRowsChange(rows.filter((r) => r._id !== id));
+      if (pendingBulk?.sourceId === id) setPendingBulk(null);
     },
-    [rows, onRowsChange]
+    [rows, onRowsChange, pendingBulk]
   );
 
-  const errorCount = rows.filter((r) => Object.values(r._errors).some(Boolean)).length;
+  const hasErrors = (row: ImportedOrderRow) => Object.values(row._errors).some(Boolean);
+
+  const includedRows = rows.filter((r) => !r._excluded);
+  const errorCount = includedRows.filter(hasErrors).length;
+  const excludedCount = rows.length - includedRows.length;
+  const visibleRows = errorFilterIds ? rows.filter((r) => errorFilterIds.has(r._id)) : rows;
 
   // Count unique orders (grouped by _orderRef, or each row if no ref)
   const orderCount = useMemo(() => {
-    if (!hasOrderRefs) return rows.length;
-    const refs = new Set(rows.map((r) => r._orderRef || r._id));
+    const included = rows.filter((r) => !r._excluded);
+    if (!hasOrderRefs) return included.length;
+    const refs = new Set(included.map((r) => r._orderRef || r._id));
     return refs.size;
   }, [rows, hasOrderRefs]);
 
   const cellClass = (row: ImportedOrderRow, field: ExpectedColumn) =>
     row._errors[field] ? "border-destructive border-2" : "";
 
+  const renderTextCell = (row: ImportedOrderRow, field: TextField) => (
+    <TableCell className="p-1">
+      <Input
+        value={row[field]}
+        onFocus={() => {
+          editStartValues.current[`${row._id}:${field}`] = row[field];
+        }}
+        onChange={(e) => updateField(row._id, field, e.target.value)}
+        onBlur={(e) => {
+          const key = `${row._id}:${field}`;
+          const from = editStartValues.current[key] ?? "";
+          const to = e.target.value;
+          delete editStartValues.current[key];
+          if (normalizeValue(from) !== normalizeValue(to)) {
+            offerBulkEdit(row._id, field, from, (r) => ({ ...r, [field]: to }));
+          }
+        }}
+        className={`h-8 text-sm ${cellClass(row, field)}`}
+      />
+      {row._errors[field] && (
+        <span className="text-[10px] text-destructive">{t(`errors.${row._errors[field]}`)}</span>
+      )}
+    </TableCell>
+  );
+
+  const renderLocationSelect = <T extends Governorate | City>({
+    kind,
+    value,
+    selectedId,
+    rawValue,
+    confidence,
+    options,
+    onSelect,
+    disabled = false,
+  }: LocationSelectOptions<T>) => {
+    const suggestions = selectedId ? [] : rankLocations(value, options, aliases[kind]).slice(0, 5);
+    const suggestedIds = new Set(suggestions.map(({ location }) => location.id));
+    const unmatched = !selectedId && !!value.trim();
+    const fuzzy = !!selectedId && confidence !== undefined && confidence < 1;
+
+    return (
+      <>
+        <Select value={selectedId ? String(selectedId) : ""} onValueChange={onSelect} disabled={disabled}>
+          <SelectTrigger
+            className={`h-8 text-sm w-[140px] ${unmatched ? "border-amber-500 border-2" : ""}`}
+          >
+            <SelectValue placeholder={value || "—"} />
+          </SelectTrigger>
+          <SelectContent>
+            {suggestions.length > 0 && (
+              <>
+                <SelectGroup>
+                  <SelectLabel>{t("suggestions")}</SelectLabel>
+                  {suggestions.map(({ location, confidence: score }) => (
+                    <SelectItem key={`suggested-${location.id}`} value={String(location.id)}>
+                      {locationName(location)}
+                      <span className="ms-2 text-xs text-muted-foreground">
+                        {Math.round(score * 100)}%
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectSeparator />
+              </>
+            )}
+            {options
+              .filter((option) => !suggestedIds.has(option.id))
+              .map((option) => (
+                <SelectItem key={option.id} value={String(option.id)}>
+                  {locationName(option)}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        {unmatched && (
+          <span className="flex items-center gap-1 text-[10px] text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-3 w-3" />
+            {t("unmatchedLocation")}
+          </span>
+        )}
+        {fuzzy && (
+          <span
+            className="flex items-center gap-1 text-[10px] text-muted-foreground"
+            title={rawValue}
+          >
+            <Sparkles className="h-3 w-3" />
+            {t("fuzzyMatched", { value: rawValue ?? "", confidence: Math.round(confidence * 100) })}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  const allIncluded = excludedCount === 0;
+
   return (
     <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button
+          variant={errorFilterIds ? "secondary" : "outline"}
+          size="sm"
+          className="gap-2"
+          onClick={() =>
+            setErrorFilterIds(errorFilterIds ? null : new Set(rows.filter(hasErrors).map((r) => r._id)))
+          }
+          disabled={!errorFilterIds && rows.every((r) => !hasErrors(r))}
+        >
+          <Filter className="h-3.5 w-3.5" />
+          {t("showErrorsOnly")}
+        </Button>
+      </div>
+
+      {/* Apply-to-all offer for repeated values */}
+      {pendingBulk && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border border-primary/20 bg-primary/5 px-4 py-2 text-sm">
+          <Wand2 className="h-4 w-4 shrink-0 text-primary" />
+          <span className="flex-1">
+            {t("bulkEditOffer", { count: pendingBulk.count, value: pendingBulk.from })}
+          </span>
+          <Button size="sm" onClick={applyBulkEdit}>
+            {t("applyToAll")}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setPendingBulk(null)}
+            aria-label={t("dismiss")}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       <ScrollArea className="w-full whitespace-nowrap">
-        <div className={hasOrderRefs ? "min-w-[1200px]" : "min-w-[1100px]"}>
+        <div className={hasOrderRefs ? "min-w-[1300px]" : "min-w-[1200px]"}>
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allIncluded ? true : excludedCount === rows.length ? false : "indeterminate"}
+                    onCheckedChange={() =>
+                      setExcluded(new Set(rows.map((r) => r._id)), allIncluded)
+                    }
+                    aria-label={t("includeAll")}
+                  />
+                </TableHead>
                 {hasOrderRefs && (
                   <TableHead className="min-w-[80px]">{t("orderRef")}</TableHead>
                 )}
                 <TableHead className="min-w-[140px]">{t("customerName")}</TableHead>
                 <TableHead className="min-w-[130px]">{t("mobile")}</TableHead>
                 <TableHead className="min-w-[160px]">{t("address")}</TableHead>
-                <TableHead className="min-w-[110px]">{t("governorate")}</TableHead>
-                <TableHead className="min-w-[110px]">{t("city")}</TableHead>
+                <TableHead className="min-w-[140px]">{t("governorate")}</TableHead>
+                <TableHead className="min-w-[140px]">{t("city")}</TableHead>
                 <TableHead className="min-w-[140px]">{t("product")}</TableHead>
                 <TableHead className="min-w-[70px]">{t("qty")}</TableHead>
                 <TableHead className="min-w-[90px]">{t("price")}</TableHead>
@@ -85,8 +389,15 @@ export function ImportOrdersPreviewStep({
               </TableRow>
             </TableHeader>
             <TableBody>
-              {rows.map((row) => (
-                <TableRow key={row._id}>
+              {visibleRows.map((row) => (
+                <TableRow key={row._id} className={row._excluded ? "opacity-50" : undefined}>
+                  <TableCell className="p-1">
+                    <Checkbox
+                      checked={!row._excluded}
+                      onCheckedChange={(checked) => setExcluded(new Set([row._id]), !checked)}
+                      aria-label={t("includeRow")}
+                    />
+                  </TableCell>
                   {hasOrderRefs && (
                     <TableCell className="p-1">
                       <span className="text-xs text-muted-foreground font-mono">
@@ -94,60 +405,49 @@ export function ImportOrdersPreviewStep({
                       </span>
                     </TableCell>
                   )}
+                  {renderTextCell(row, "customerName")}
+                  {renderTextCell(row, "customerMobile")}
+                  {renderTextCell(row, "customerAddress")}
                   <TableCell className="p-1">
-                    <Input
-                      value={row.customerName}
-                      onChange={(e) => updateField(row._id, "customerName", e.target.value)}
-                      className={`h-8 text-sm ${cellClass(row, "customerName")}`}
-                    />
-                    {row._errors.customerName && (
-                      <span className="text-[10px] text-destructive">{t(`errors.${row._errors.customerName}`)}</span>
+                    {governorates.length > 0 ? (
+                      renderLocationSelect({
+                        kind: "governorates",
+                        value: row.governorate,
+                        selectedId: row._governorateId,
+                        rawValue: row._rawGovernorate,
+                        confidence: row._governorateConfidence,
+                        options: governorates,
+                        onSelect: (id) => selectGovernorate(row, id),
+                      })
+                    ) : (
+                      <Input
+                        value={row.governorate}
+                        onChange={(e) => updateField(row._id, "governorate", e.target.value)}
+                        className="h-8 text-sm"
+                      />
                     )}
                   </TableCell>
                   <TableCell className="p-1">
-                    <Input
-                      value={row.customerMobile}
-                      onChange={(e) => updateField(row._id, "customerMobile", e.target.value)}
-                      className={`h-8 text-sm ${cellClass(row, "customerMobile")}`}
-                    />
-                    {row._errors.customerMobile && (
-                      <span className="text-[10px] text-destructive">{t(`errors.${row._errors.customerMobile}`)}</span>
-                    )}
-                  </TableCell>
-                  <TableCell className="p-1">
-                    <Input
-                      value={row.customerAddress}
-                      onChange={(e) => updateField(row._id, "customerAddress", e.target.value)}
-                      className={`h-8 text-sm ${cellClass(row, "customerAddress")}`}
-                    />
-                    {row._errors.customerAddress && (
-                      <span className="text-[10px] text-destructive">{t(`errors.${row._errors.customerAddress}`)}</span>
-                    )}
-                  </TableCell>
-                  <TableCell className="p-1">
-                    <Input
-                      value={row.governorate}
-                      onChange={(e) => updateField(row._id, "governorate", e.target.value)}
-                      className="h-8 text-sm"
-                    />
-                  </TableCell>
-                  <TableCell className="p-1">
-                    <Input
-                      value={row.city}
-                      onChange={(e) => updateField(row._id, "city", e.target.value)}
-                      className="h-8 text-sm"
-                    />
-                  </TableCell>
-                  <TableCell className="p-1">
-                    <Input
-                      value={row.productName}
-                      onChange={(e) => updateField(row._id, "productName", e.target.value)}
-                      className={`h-8 text-sm ${cellClass(row, "productName")}`}
-                    />
-                    {row._errors.productName && (
-                      <span className="text-[10px] text-destructive">{t(`errors.${row._errors.productName}`)}</span>
+                    {governorates.length > 0 ? (
+                      renderLocationSelect({
+                        kind: "cities",
+                        value: row.city,
+                        selectedId: row._cityId,
+                        rawValue: row._rawCity,
+                        confidence: row._cityConfidence,
+                        options: cities.filter((c) => c.governorate.id === row._governorateId),
+                        onSelect: (id) => selectCity(row, id),
+                        disabled: !row._governorateId,
+                      })
+                    ) : (
+                      <Input
+                        value={row.city}
+                        onChange={(e) => updateField(row._id, "city", e.target.value)}
+                        className="h-8 text-sm"
+                      />
                     )}
                   </TableCell>
+                  {renderTextCell(row, "productName")}
                   <TableCell className="p-1">
                     <Input
                       type="number"
@@ -187,13 +487,7 @@ export function ImportOrdersPreviewStep({
                       </SelectContent>
                     </Select>
                   </TableCell>
-                  <TableCell className="p-1">
-                    <Input
-                      value={row.vendorNotes}
-                      onChange={(e) => updateField(row._id, "vendorNotes", e.target.value)}
-                      className="h-8 text-sm"
-                    />
-                  </TableCell>
+                  {renderTextCell(row, "vendorNotes")}
                   <TableCell className="p-1">
                     <Button
                       variant="ghost"
@@ -216,8 +510,9 @@ export function ImportOrdersPreviewStep({
       <div className="flex items-center justify-between text-sm text-muted-foreground px-1">
         <span>
           {hasOrderRefs
-            ? t("itemsAndOrders", { items: rows.length, orders: orderCount })
-            : `${rows.length} ${t("ordersCount")}`}
+            ? t("itemsAndOrders", { items: includedRows.length, orders: orderCount })
+            : `${includedRows.length} ${t("ordersCount")}`}
+          {excludedCount > 0 && ` · ${t("excludedCount", { count: excludedCount })}`}
         </span>
         {errorCount > 0 && (
           <span className="text-destructive font-medium">
@@ -0,0 +1,113 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { AlertCircle, CheckCircle2, CloudOff, Copy, Loader2, XCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { getImportJobProgress } from "@/lib/import/chunked-import";
+import type { ImportJob } from "@/lib/types/import-orders";
+
+interface ImportOrdersProgressStepProps {
+  job: ImportJob | null;
+  /** Duplicate pre-check progress, shown before the job starts */
+  precheck: { checked: number; total: number } | null;
+  error: string | null;
+  isRunning: boolean;
+}
+
+export function ImportOrdersProgressStep({
+  job,
+  precheck,
+  error,
+  isRunning,
+}: ImportOrdersProgressStepProps) {
+  const t = useTranslations("importOrders");
+
+  if (!job) {
+    const percent = precheck && precheck.total > 0 ? (precheck.checked / precheck.total) * 100 : 0;
+    return (
+      <div className="mx-auto max-w-md space-y-4 py-10 text-center">
+        <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />
+        <p className="font-medium">{t("checkingDuplicates")}</p>
+        {precheck && (
+          <>
+            <Progress value={percent} />
+            <p className="text-sm text-muted-foreground">
+              {t("progressCount", { done: precheck.checked, total: precheck.total })}
+            </p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const progress = getImportJobProgress(job);
+  const percent = progress.total > 0 ? (progress.processed / progress.total) * 100 : 0;
+  const finished = job.status === "completed" || job.status === "cancelled";
+
+  return (
+    <div className="mx-auto max-w-lg space-y-6 py-6">
+      <div className="space-y-2 text-center">
+        {isRunning && <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />}
+        {job.status === "completed" && <CheckCircle2 className="mx-auto h-8 w-8 text-emerald-500" />}
+        {job.status === "cancelled" && <XCircle className="mx-auto h-8 w-8 text-muted-foreground" />}
+        {!isRunning && !finished && <AlertCircle className="mx-auto h-8 w-8 text-amber-500" />}
+        <p className="font-medium">
+          {isRunning
+            ? t("importInProgress")
+            : job.status === "completed"
+            ? t("importCompleted")
+            : job.status === "cancelled"
+            ? t("importCancelled")
+            : t("importPaused")}
+        </p>
+        <p className="text-xs text-muted-foreground">{job.fileName}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Progress value={percent} />
+        <p className="text-center text-sm text-muted-foreground">
+          {t("progressCount", { done: progress.processed, total: progress.total })}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-lg border bg-emerald-500/5 p-3">
+          <p className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{progress.created}</p>
+          <p className="text-xs text-muted-foreground">{t("outcomeCreated")}</p>
+        </div>
+        <div className="rounded-lg border bg-amber-500/5 p-3">
+          <p className="flex items-center justify-center gap-1 text-2xl font-bold text-amber-600 dark:text-amber-400">
+            <Copy className="h-4 w-4" />
+            {progress.skipped}
+          </p>
+          <p className="text-xs text-muted-foreground">{t("outcomeSkippedDuplicate")}</p>
+        </div>
+        <div className="rounded-lg border bg-destructive/5 p-3">
+          <p className="text-2xl font-bold text-destructive">{progress.failed}</p>
+          <p className="text-xs text-muted-foreground">{t("outcomeFailed")}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+          <div>
+            <p className="font-medium text-destructive">{t("chunkFailed")}</p>
+            <p className="text-muted-foreground">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {job.syncFailed && (
+        <p className="flex items-start justify-center gap-1.5 text-center text-xs text-amber-600 dark:text-amber-400">
+          <CloudOff className="mt-0.5 h-3 w-3 shrink-0" />
+          {t("notSyncedHint")}
+        </p>
+      )}
+
+      {isRunning && (
+        <p className="text-center text-xs text-muted-foreground">{t("resumeHint")}</p>
+      )}
+    </div>
+  );
+}
@@ -4,16 +4,16 @@ import { useCallback, useRef, useState } from "react";
 import { useTranslations } from "next-intl";
 import { Upload, FileSpreadsheet, Download, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { parseImportFile, autoMapColumns, mapRowsToOrders, generateTemplate } from "@/lib/parsers/order-import-parser";
-import type { ImportedOrderRow } from "@/lib/types/import-orders";
+import { parseImportFile, generateTemplate } from "@/lib/parsers/order-import-parser";
+import type { ParsedImportFile } from "@/lib/types/import-orders";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
 
 interface ImportOrdersUploadStepProps {
-  onFilesParsed: (rows: ImportedOrderRow[]) => void;
+  onFileParsed: (file: ParsedImportFile) => void;
 }
 
-export function ImportOrdersUploadStep({ onFilesParsed }: ImportOrdersUploadStepProps) {
+export function ImportOrdersUploadStep({ onFileParsed }: ImportOrdersUploadStepProps) {
   const t = useTranslations("importOrders");
   const [isDragging, setIsDragging] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
@@ -42,16 +42,14 @@ export function ImportOrdersUploadStep({ onFilesParsed }: ImportOrdersUploadStep
           setError(t("emptyFile"));
           return;
         }
-        const mapping = autoMapColumns(headers);
-        const orders = mapRowsToOrders(rows, mapping, headers);
-        onFilesParsed(orders);
+        onFileParsed({ fileName: file.name, headers, rows });
       } catch {
         setError(t("parseError"));
       } finally {
         setIsParsing(false);
       }
     },
-    [onFilesParsed, t]
+    [onFileParsed, t]
   );
 
   const handleDrop = useCallback(
@@ -4,5 +4,17 @@ export { OrdersTable } from "./orders-table";
 export { OrdersCardGrid } from "./orders-card-grid";
 export { OrderCard } from "./order-card";
 export { OrderActionDialogs } from "./order-action-dialogs";
+export { BulkOrderActionsDialog, canApplyBulkAction, type BulkOrderAction } from "./bulk-order-actions-dialog";
 export { getOrdersFilterConfigs, DEFAULT_ORDER_FILTERS } from "./orders-filter-config";
 export { ImportOrdersDialog } from "./import-orders-dialog";
+export { ImportHistoryCard } from "./import-history-card";
+export { ExportOrdersDialog } from "./export-orders-dialog";
+export { OrderForm } from "./order-form";
+export {
+  ReturnActionDialog,
+  getAvailableReturnActions,
+  RETURN_ACTION_CONFIG,
+  type ReturnAction,
+} from "./return-action-dialog";
+export { ReturnsTable } from "./returns-table";
+export { OrderJourneyMap } from "./order-journey-map";
@@ -0,0 +1,157 @@
+"use client";
+
+import { useMemo } from "react";
+import { useLocale } from "next-intl";
+import { Map as MapIcon } from "lucide-react";
+import { RouteMap, type RoutePoint } from "@/components/ui/route-map";
+import { toLatLng } from "@/lib/geo";
+import type { Order, Scan } from "@/lib/services/orders";
+
+interface OrderJourneyMapProps {
+  order: Order;
+  t: (key: string) => string;
+}
+
+function localizedName(
+  value: { name?: string; name_en?: string; name_ar?: string } | null | undefined,
+  locale: string
+): string {
+  return (locale === "ar" ? value?.name_ar : value?.name_en) || value?.name || "";
+}
+
+/**
+ * Map of where a parcel actually went: vendor, scan points in chronological
+ * order and the customer drop-off joined by a line, with the inventory shown alongside.
+ */
+export function OrderJourneyMap({ order, t }: OrderJourneyMapProps) {
+  const locale = useLocale();
+
+  const { points, unlocatedScans } = useMemo(() => {
+    const result: RoutePoint[] = [];
+    const scans = [...(order.scans || [])].sort(
+      (a, b) => new Date(a.scanned_at).getTime() - new Date(b.scanned_at).getTime()
+    );
+
+    const vendorPosition = toLatLng(order.vendor?.latitude, order.vendor?.longitude);
+    if (vendorPosition) {
+      result.push({
+        id: "vendor",
+        ...vendorPosition,
+        badge: t("mapBadgeVendor"),
+        tone: "origin",
+        popup: (
+          <div className="space-y-0.5">
+            <p className="font-medium">{t("mapVendor")}</p>
+            <p>{localizedName(order.vendor, locale)}</p>
+            {order.vendor?.address && <p className="text-xs">{order.vendor.address}</p>}
+          </div>
+        ),
+      });
+    }
+
+    const inventoryPosition = toLatLng(order.inventory?.latitude, order.inventory?.longitude);
+    if (inventoryPosition) {
+      result.push({
+        id: "inventory",
+        ...inventoryPosition,
+        badge: t("mapBadgeInventory"),
+        tone: "muted",
+        onRoute: false,
+        popup: (
+          <div className="space-y-0.5">
+            <p className="font-medium">{t("mapInventory")}</p>
+            <p>{localizedName(order.inventory, locale)}</p>
+            {order.inventory?.full_address && <p className="text-xs">{order.inventory.full_address}</p>}
+          </div>
+        ),
+      });
+    }
+
+    let unlocated = 0;
+    scans.forEach((scan: Scan, index) => {
+      const position = scan.has_coordinates === false ? null : toLatLng(scan.latitude, scan.longitude);
+      if (!position) {
+        unlocated++;
+        return;
+      }
+      result.push({
+        id: `scan-${scan.id}`,
+        ...position,
+        badge: String(index + 1),
+        tone: "stop",
+        popup: (
+          <div className="space-y-0.5">
+            <p className="font-medium">{scan.scan_type_label || scan.scan_type}</p>
+            {scan.scanned_by && (
+              <p>
+                {t("scannedBy")}: {localizedName(scan.scanned_by, locale)}
+              </p>
+            )}
+            <p className="text-xs">{new Date(scan.scanned_at).toLocaleString(locale)}</p>
+          </div>
+        ),
+      });
+    });
+
+    const customerPosition = toLatLng(order.customer?.latitude, order.customer?.longitude);
+    if (customerPosition) {
+      result.push({
+        id: "customer",
+        ...customerPosition,
+        badge: t("mapBadgeCustomer"),
+        tone: order.status === "delivered" ? "success" : "destination",
+        popup: (
+          <div className="space-y-0.5">
+            <p className="font-medium">{t("mapCustomer")}</p>
+            <p>{order.customer?.name}</p>
+            <p className="text-xs">{order.customer?.full_address || order.customer?.address}</p>
+          </div>
+        ),
+      });
+    }
+
+    return { points: result, unlocatedScans: unlocated };
+  }, [order, locale, t]);
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="md:col-span-2 lg:col-span-3 group relative overflow-hidden rounded-2xl bg-card border p-5 hover:shadow-lg transition-all duration-300">
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-sky-500/10 flex items-center justify-center">
+            <MapIcon className="h-5 w-5 text-sky-500" />
+          </div>
+          <div>
+            <h3 className="font-semibold">{t("journeyMap")}</h3>
+            <p className="text-xs text-muted-foreground">{t("journeyMapDesc")}</p>
+          </div>
+        </div>
+
+        <RouteMap points={points} height="360px" />
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span>
+            <strong>{t("mapBadgeVendor")}</strong> {t("mapVendor")}
+          </span>
+          <span>
+            <strong>{t("mapBadgeInventory")}</strong> {t("mapInventory")}
+          </span>
+          <span>
+            <strong>1, 2…</strong> {t("mapScans")}
+          </span>
+          <span>
+            <strong>{t("mapBadgeCustomer")}</strong> {t("mapCustomer")}
+          </span>
+          {unlocatedScans > 0 && (
+            <span className="text-amber-600 dark:text-amber-400">
+              {unlocatedScans} {t("mapScansWithoutLocation")}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
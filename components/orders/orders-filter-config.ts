@@ -77,6 +77,9 @@ export const getOrdersFilterConfigs = (t: TranslationFunction): FilterConfig[] =
       { label: t("outForDelivery"), value: "out_for_delivery" },
       { label: t("delivered"), value: "delivered" },
       { label: t("failedDelivery"), value: "failed_delivery" },
+      { label: t("returnPending"), value: "return_to_vendor" },
+      { label: t("returning"), value: "returning" },
+      { label: t("returned"), value: "returned" },
       { label: t("rejected"), value: "rejected" },
     ],
     placeholder: t("selectStatus"),
@@ -0,0 +1,288 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { useLocale } from "next-intl";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, RotateCcw, Undo2, Truck, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { queryKeys } from "@/components/providers/query-provider";
+import { fetchPickupAgents, fetchDeliveryAgents, type Agent } from "@/lib/services/agents";
+import {
+  reattemptDelivery,
+  returnToVendor,
+  assignReturnAgent,
+  type Order,
+} from "@/lib/services/orders";
+import { getErrorMessage } from "@/lib/errors";
+
+export type ReturnAction = "reattempt" | "return_to_vendor" | "assign_return_agent";
+
+/**
+ * Return actions the current user may perform on an order, in workflow order
+ */
+export function getAvailableReturnActions(order: Order): ReturnAction[] {
+  const actions: ReturnAction[] = [];
+  if (order.can_reattempt_delivery) actions.push("reattempt");
+  if (order.can_return_to_vendor) actions.push("return_to_vendor");
+  if (order.can_assign_return_agent) actions.push("assign_return_agent");
+  return actions;
+}
+
+export const RETURN_ACTION_CONFIG: Record<
+  ReturnAction,
+  { icon: typeof Truck; titleKey: string; descKey: string; feeKey?: string; successKey: string }
+> = {
+  reattempt: {
+    icon: RotateCcw,
+    titleKey: "reattemptDelivery",
+    descKey: "reattemptDeliveryDesc",
+    feeKey: "reattemptFeeNotice",
+    successKey: "reattemptScheduled",
+  },
+  return_to_vendor: {
+    icon: Undo2,
+    titleKey: "returnToVendor",
+    descKey: "returnToVendorDesc",
+    feeKey: "returnFeeNotice",
+    successKey: "returnInitiated",
+  },
+  assign_return_agent: {
+    icon: Truck,
+    titleKey: "assignReturnAgent",
+    descKey: "assignReturnAgentDesc",
+    successKey: "returnAgentAssigned",
+  },
+};
+
+interface ReturnActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: ReturnAction;
+  order: Order;
+  /** Called after the action succeeded so the caller can refresh the order */
+  onSuccess?: () => void;
+  t: (key: string) => string;
+  tCommon: (key: string) => string;
+}
+
+export function ReturnActionDialog({
+  open,
+  onOpenChange,
+  action,
+  order,
+  onSuccess,
+  t,
+  tCommon,
+}: ReturnActionDialogProps) {
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [isLoadingAgents, setIsLoadingAgents] = useState(false);
+  const [selectedAgentId, setSelectedAgentId] = useState<number | null>(null);
+  const [scheduledDate, setScheduledDate] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const config = RETURN_ACTION_CONFIG[action];
+  const needsAgent = action !== "return_to_vendor";
+  const inventoryId = order.inventory_id || order.inventory?.id;
+
+  // Re-attempts go out with delivery agents; returns travel the vendor route, like pickups
+  const loadAgents = useCallback(async () => {
+    if (!inventoryId) {
+      setAgents([]);
+      return;
+    }
+    setIsLoadingAgents(true);
+    try {
+      const fetchAgents = action === "reattempt" ? fetchDeliveryAgents : fetchPickupAgents;
+      setAgents(await fetchAgents(inventoryId));
+    } catch {
+      toast.error(t("errorLoadingAgents"));
+    } finally {
+      setIsLoadingAgents(false);
+    }
+  }, [action, inventoryId, t]);
+
+  // Reset and load data whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setSelectedAgentId(null);
+    setScheduledDate("");
+    setNotes("");
+    if (needsAgent) {
+      loadAgents();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, action]);
+
+  const handleSubmit = async () => {
+    if (needsAgent && !selectedAgentId) {
+      toast.error(t("agentRequired"));
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      switch (action) {
+        case "reattempt":
+          await reattemptDelivery(order.id, {
+            agent_id: selectedAgentId!,
+            ...(scheduledDate && { scheduled_date: scheduledDate }),
+            ...(notes.trim() && { notes: notes.trim() }),
+          });
+          break;
+        case "return_to_vendor":
+          await returnToVendor(order.id, notes);
+          break;
+        case "assign_return_agent":
+          await assignReturnAgent(order.id, selectedAgentId!, notes);
+          break;
+      }
+
+      toast.success(t(config.successKey), {
+        description: `${t("orderNumber")}: ${order.order_number}`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast.error(t("returnActionFailed"), {
+        description: getErrorMessage(error, tCommon("tryAgain")),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const Icon = config.icon;
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isSubmitting && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t(config.titleKey)}</DialogTitle>
+          <DialogDescription>{t(config.descKey)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {order.failure_reason && (
+            <div className="rounded-lg bg-muted p-3 text-sm">
+              <p className="text-xs text-muted-foreground">{t("failureReason")}</p>
+              <p className="mt-0.5">{order.failure_reason}</p>
+            </div>
+          )}
+
+          {needsAgent && (
+            <div className="space-y-2">
+              <Label htmlFor="return_agent_id">{t("selectAgent")} *</Label>
+              {isLoadingAgents ? (
+                <div className="flex items-center justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                </div>
+              ) : (
+                <Select
+                  value={selectedAgentId?.toString() || ""}
+                  onValueChange={(value) => setSelectedAgentId(parseInt(value))}
+                >
+                  <SelectTrigger id="return_agent_id">
+                    <SelectValue placeholder={t("selectAgentPlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id} value={agent.id.toString()}>
+                        {locale === "ar" && agent.name_ar
+                          ? agent.name_ar
+                          : agent.name_en || agent.name}
+                        {agent.mobile && ` - ${agent.mobile}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {agents.length === 0 && !isLoadingAgents && (
+                <p className="text-xs text-destructive">{t("noAgentsAvailable")}</p>
+              )}
+            </div>
+          )}
+
+          {action === "reattempt" && (
+            <div className="space-y-2">
+              <Label htmlFor="reattempt_date">
+                {t("reattemptDate")} ({t("optional")})
+              </Label>
+              <Input
+                id="reattempt_date"
+                type="date"
+                value={scheduledDate}
+                min={new Date().toISOString().slice(0, 10)}
+                onChange={(e) => setScheduledDate(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="return_notes">
+              {t("assignmentNotes")} ({t("optional")})
+            </Label>
+            <Textarea
+              id="return_notes"
+              placeholder={t("returnNotesPlaceholder")}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          {config.feeKey && (
+            <div className="flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/5 p-3 text-xs text-amber-700 dark:text-amber-400">
+              <Wallet className="h-4 w-4 shrink-0" />
+              <span>{t(config.feeKey)}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            {tCommon("cancel")}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || (needsAgent && !selectedAgentId)}
+            className="gap-2"
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Icon className="h-4 w-4" />
+            )}
+            {t(config.titleKey)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useLocale } from "next-intl";
+import { useRouter } from "@/i18n/routing";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { OrderStatusBadge } from "@/components/ui/status-badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Eye } from "lucide-react";
+import type { Order } from "@/lib/services/orders";
+import {
+  getAvailableReturnActions,
+  RETURN_ACTION_CONFIG,
+  type ReturnAction,
+} from "./return-action-dialog";
+
+interface ReturnsTableProps {
+  orders: Order[];
+  onAction: (order: Order, action: ReturnAction) => void;
+  t: (key: string) => string;
+}
+
+export function ReturnsTable({ orders, onAction, t }: ReturnsTableProps) {
+  const locale = useLocale();
+  const router = useRouter();
+
+  return (
+    <div className="rounded-lg border bg-card w-full overflow-hidden">
+      <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[160px]">{t("orderNumber")}</TableHead>
+            <TableHead className="min-w-[160px]">{t("customer")}</TableHead>
+            <TableHead className="min-w-[140px]">{t("vendor")}</TableHead>
+            <TableHead className="min-w-[120px]">{t("status")}</TableHead>
+            <TableHead className="min-w-[220px]">{t("failureReason")}</TableHead>
+            <TableHead className="min-w-[80px] text-center">{t("deliveryAttempts")}</TableHead>
+            <TableHead className="min-w-[140px]">{t("failedAt")}</TableHead>
+            <TableHead className="w-[140px]">{t("actions")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {orders.map((order) => {
+            const returnActions = getAvailableReturnActions(order);
+            return (
+              <TableRow
+                key={order.id}
+                className="cursor-pointer hover:bg-muted/50"
+                onClick={() => router.push(`/dashboard/orders/${order.id}`)}
+              >
+                <TableCell>
+                  <p className="font-mono font-medium">{order.order_number}</p>
+                  <p className="font-mono text-xs text-muted-foreground">{order.track_number}</p>
+                </TableCell>
+                <TableCell>
+                  <p className="font-medium">{order.customer?.name || "-"}</p>
+                  {order.customer?.city && (
+                    <p className="text-xs text-muted-foreground">{order.customer.city}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {(locale === "ar" ? order.vendor?.name_ar : order.vendor?.name_en) || order.vendor?.name || "-"}
+                </TableCell>
+                <TableCell>
+                  <OrderStatusBadge status={order.status} statusLabel={order.status_label} />
+                </TableCell>
+                <TableCell>
+                  {order.failure_reason_code && (
+                    <p className="text-sm font-medium">{t(`failureReason_${order.failure_reason_code}`)}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {order.failure_reason || "-"}
+                  </p>
+                </TableCell>
+                <TableCell className="text-center">{order.delivery_attempts ?? "-"}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {order.failed_delivery_at
+                    ? new Date(order.failed_delivery_at).toLocaleString(locale, {
+                        month: "short",
+                        day: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })
+                    : "-"}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    {returnActions.map((action) => {
+                      const { icon: Icon, titleKey } = RETURN_ACTION_CONFIG[action];
+                      return (
+                        <Tooltip key={action}>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              aria-label={t(titleKey)}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onAction(order, action);
+                              }}
+                            >
+                              <Icon className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>{t(titleKey)}</TooltipContent>
+                        </Tooltip>
+                      );
+                    })}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      aria-label={t("viewDetails")}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        router.push(`/dashboard/orders/${order.id}`);
+                      }}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useLocale } from "next-intl";
+import type { DeliveryRun } from "@/lib/dispatch/delivery-runs";
+
+export interface DeliveryManifestProps {
+  run: DeliveryRun;
+  inventoryName: string;
+  t: (key: string) => string;
+  tCommon: (key: string) => string;
+}
+
+// Helper to extract name from a value that could be a string or an object with name properties
+function extractName(value: unknown, locale: string): string {
+  if (!value) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    if (locale === "ar" && obj.name_ar) return String(obj.name_ar);
+    if (obj.name_en) return String(obj.name_en);
+    if (obj.name) return String(obj.name);
+  }
+  return "";
+}
+
+/**
+ * One A4 manifest sheet for an agent's delivery run: stops in visiting order
+ * and the cash on delivery the agent has to collect and hand over.
+ */
+export function DeliveryManifest({ run, inventoryName, t, tCommon }: DeliveryManifestProps) {
+  const locale = useLocale();
+  const isRTL = locale === "ar";
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat(isRTL ? "ar-EG" : "en-EG", {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+
+  const agentName = run.agent ? extractName(run.agent, locale) : t("unassigned");
+  const printedAt = new Date().toLocaleString(locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="manifest-sheet" dir={isRTL ? "rtl" : "ltr"}>
+      <div className="manifest-header">
+        <div>
+          <p className="manifest-title">{t("manifestTitle")}</p>
+          <p>{inventoryName}</p>
+        </div>
+        <div className="manifest-meta">
+          <p>
+            <strong>{t("agent")}:</strong> {agentName}
+            {run.agent?.mobile && ` (${run.agent.mobile})`}
+          </p>
+          <p>
+            <strong>{t("printedAt")}:</strong> {printedAt}
+          </p>
+        </div>
+      </div>
+
+      <table className="manifest-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>{t("orderNumber")}</th>
+            <th>{t("customer")}</th>
+            <th>{t("address")}</th>
+            <th>{t("codToCollect")}</th>
+            <th>{t("signature")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {run.stops.map((stop, index) => {
+            const customer = stop.order.customer;
+            const region = [extractName(customer?.governorate, locale), extractName(customer?.city, locale)]
+              .filter(Boolean)
+              .join(" - ");
+            return (
+              <tr key={stop.order.id}>
+                <td>{index + 1}</td>
+                <td>
+                  <span className="font-mono">{stop.order.order_number}</span>
+                  <br />
+                  <span className="font-mono manifest-muted">{stop.order.track_number}</span>
+                </td>
+                <td>
+                  {customer?.name}
+                  <br />
+                  <span className="font-mono">{customer?.mobile}</span>
+                </td>
+                <td>
+                  {customer?.full_address || customer?.address}
+                  {region && (
+                    <>
+                      <br />
+                      <span className="manifest-muted">{region}</span>
+                    </>
+                  )}
+                  {!stop.position && (
+                    <>
+                      <br />
+                      <span className="manifest-muted">{t("noCoordinates")}</span>
+                    </>
+                  )}
+                </td>
+                <td className="manifest-amount">
+                  {stop.codAmount > 0 ? `${formatAmount(stop.codAmount)} ${tCommon("egp")}` : t("prepaid")}
+                </td>
+                <td />
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={4}>
+              {t("totalStops")}: {run.stops.length} · {t("codOrders")}: {run.codCount}
+            </td>
+            <td className="manifest-amount">
+              {formatAmount(run.codTotal)} {tCommon("egp")}
+            </td>
+            <td />
+          </tr>
+        </tfoot>
+      </table>
+
+      <div className="manifest-signatures">
+        <div>
+          <p>{t("agentSignature")}</p>
+          <div className="manifest-signature-line" />
+        </div>
+        <div>
+          <p>{t("dispatcherSignature")}</p>
+          <div className="manifest-signature-line" />
+        </div>
+      </div>
+    </div>
+  );
+}
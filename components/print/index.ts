@@ -1,2 +1,6 @@
 export { ShippingLabel, type ShippingLabelProps } from "./shipping-label";
 export { PrintLabelsDialog, type PrintLabelsDialogProps } from "./print-labels-dialog";
+export { DeliveryManifest, type DeliveryManifestProps } from "./delivery-manifest";
+export { PrintManifestDialog, type PrintManifestDialogProps } from "./print-manifest-dialog";
+export { SettlementStatement, type SettlementStatementProps } from "./settlement-statement";
+export { PrintSettlementDialog, type PrintSettlementDialogProps } from "./print-settlement-dialog";
@@ -0,0 +1,126 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Printer, X, ClipboardList } from "lucide-react";
+import { DeliveryManifest } from "./delivery-manifest";
+import type { DeliveryRun } from "@/lib/dispatch/delivery-runs";
+
+export interface PrintManifestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  runs: DeliveryRun[];
+  inventoryName: string;
+  t: (key: string) => string;
+  tCommon: (key: string) => string;
+}
+
+export function PrintManifestDialog({
+  open,
+  onOpenChange,
+  runs,
+  inventoryName,
+  t,
+  tCommon,
+}: PrintManifestDialogProps) {
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [mounted, setMounted] = useState(false);
+
+  // Wait for client-side mount for portal
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handlePrint = useCallback(() => {
+    setIsPrinting(true);
+    setTimeout(() => {
+      window.print();
+      setIsPrinting(false);
+      onOpenChange(false);
+    }, 200);
+  }, [onOpenChange]);
+
+  useEffect(() => {
+    const handleAfterPrint = () => {
+      setIsPrinting(false);
+    };
+    window.addEventListener("afterprint", handleAfterPrint);
+    return () => window.removeEventListener("afterprint", handleAfterPrint);
+  }, []);
+
+  const stopCount = runs.reduce((sum, run) => sum + run.stops.length, 0);
+
+  // Print content to be rendered in portal
+  const printContent = mounted && open && runs.length > 0 ? createPortal(
+    <div className="print-container">
+      {runs.map((run) => (
+        <DeliveryManifest
+          key={run.agentId ?? "unassigned"}
+          run={run}
+          inventoryName={inventoryName}
+          t={t}
+          tCommon={tCommon}
+        />
+      ))}
+    </div>,
+    document.body
+  ) : null;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Printer className="h-5 w-5" />
+              {t("printManifest")}
+            </DialogTitle>
+            <DialogDescription>
+              {t("printManifestDesc")}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <div className="flex items-center gap-3 p-4 bg-muted rounded-lg">
+              <ClipboardList className="h-8 w-8 text-primary" />
+              <div>
+                <p className="font-semibold text-lg">
+                  {runs.length} {t("manifestSheets")}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {stopCount} {t("stops")}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPrinting}
+            >
+              <X className="h-4 w-4 me-2" />
+              {tCommon("cancel")}
+            </Button>
+            <Button onClick={handlePrint} disabled={isPrinting || runs.length === 0}>
+              <Printer className="h-4 w-4 me-2" />
+              {isPrinting ? t("printing") : t("print")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {printContent}
+    </>
+  );
+}
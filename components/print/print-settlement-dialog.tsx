@@ -0,0 +1,114 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Printer, X, Receipt } from "lucide-react";
+import { SettlementStatement } from "./settlement-statement";
+import type { Settlement } from "@/lib/services/wallet";
+
+export interface PrintSettlementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settlement: Settlement;
+  t: (key: string) => string;
+  tCommon: (key: string) => string;
+}
+
+export function PrintSettlementDialog({
+  open,
+  onOpenChange,
+  settlement,
+  t,
+  tCommon,
+}: PrintSettlementDialogProps) {
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [mounted, setMounted] = useState(false);
+
+  // Wait for client-side mount for portal
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handlePrint = useCallback(() => {
+    setIsPrinting(true);
+    setTimeout(() => {
+      window.print();
+      setIsPrinting(false);
+      onOpenChange(false);
+    }, 200);
+  }, [onOpenChange]);
+
+  useEffect(() => {
+    const handleAfterPrint = () => {
+      setIsPrinting(false);
+    };
+    window.addEventListener("afterprint", handleAfterPrint);
+    return () => window.removeEventListener("afterprint", handleAfterPrint);
+  }, []);
+
+  // Print content to be rendered in portal
+  const printContent = mounted && open ? createPortal(
+    <div className="print-container">
+      <SettlementStatement settlement={settlement} t={t} tCommon={tCommon} />
+    </div>,
+    document.body
+  ) : null;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Printer className="h-5 w-5" />
+              {t("printStatement")}
+            </DialogTitle>
+            <DialogDescription>
+              {t("printStatementDesc")}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <div className="flex items-center gap-3 p-4 bg-muted rounded-lg">
+              <Receipt className="h-8 w-8 text-primary" />
+              <div>
+                <p className="font-semibold text-lg font-mono">
+                  {settlement.settlement_number}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {settlement.items?.length ?? 0} {t("transactionsIncluded")}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPrinting}
+            >
+              <X className="h-4 w-4 me-2" />
+              {tCommon("cancel")}
+            </Button>
+            <Button onClick={handlePrint} disabled={isPrinting}>
+              <Printer className="h-4 w-4 me-2" />
+              {isPrinting ? t("printing") : t("print")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {printContent}
+    </>
+  );
+}
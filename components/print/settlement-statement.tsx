@@ -0,0 +1,217 @@
+"use client";
+
+import { QRCodeSVG } from "qrcode.react";
+import Image from "next/image";
+import { useLocale } from "next-intl";
+import {
+  getSettlementBalances,
+  getSettlementSettlebleName,
+  getSettlementSettlebleRole,
+  getSettlementSettlebleType,
+  getSettlementStatementUrl,
+  getSortedSettlementItems,
+  type Settlement,
+  type SettlementUser,
+} from "@/lib/services/wallet";
+
+export interface SettlementStatementProps {
+  settlement: Settlement;
+  t: (key: string) => string;
+  tCommon: (key: string) => string;
+}
+
+function getUserName(user: SettlementUser | null, locale: string): string {
+  if (!user) return "";
+  return (locale === "ar" ? user.name_ar : user.name_en) || user.name_en || user.email;
+}
+
+/**
+ * A4 statement for a settlement: the wallet owner, every transaction it
+ * covers with the running balance, and a QR code linking back to the
+ * settlement so staff can compare the printed figures with the system.
+ */
+export function SettlementStatement({ settlement, t, tCommon }: SettlementStatementProps) {
+  const locale = useLocale();
+  const isRTL = locale === "ar";
+  const numberLocale = isRTL ? "ar-EG" : "en-EG";
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat(numberLocale, {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+
+  const formatDate = (value: string) =>
+    new Intl.DateTimeFormat(numberLocale, {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    }).format(new Date(value));
+
+  const items = getSortedSettlementItems(settlement);
+  const balances = getSettlementBalances(settlement);
+  const ownerName = getSettlementSettlebleName(settlement, locale);
+  const ownerRole =
+    getSettlementSettlebleType(settlement.settleble_type) === "vendor"
+      ? t("vendor")
+      : getSettlementSettlebleRole(settlement, locale);
+  const statementUrl = getSettlementStatementUrl(window.location.origin, locale, settlement);
+  const printedAt = new Date().toLocaleString(locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="statement-sheet" dir={isRTL ? "rtl" : "ltr"}>
+      <div className="statement-header">
+        <Image
+          src="/rahwan-logo-light.png"
+          alt="Rahwan"
+          width={150}
+          height={57}
+          style={{ objectFit: "contain" }}
+          priority
+        />
+        <div className="statement-title">
+          <p>{t("statementTitle")}</p>
+          <p className="statement-title-alt" dir={isRTL ? "ltr" : "rtl"}>
+            {t("statementTitleAlt")}
+          </p>
+        </div>
+        <div className="statement-qr">
+          <QRCodeSVG value={statementUrl} size={80} level="M" style={{ width: "80px", height: "80px" }} />
+          <p>{t("scanToCheck")}</p>
+        </div>
+      </div>
+
+      <div className="statement-meta">
+        <div>
+          <p>
+            <strong>{t("owner")}:</strong> {ownerName}
+            {ownerRole && ` (${ownerRole})`}
+          </p>
+          {settlement.settleble?.mobile && (
+            <p>
+              <strong>{t("mobile")}:</strong> <span className="font-mono">{settlement.settleble.mobile}</span>
+            </p>
+          )}
+          <p>
+            <strong>{t("period")}:</strong> {formatDate(settlement.period_from)} - {formatDate(settlement.period_to)}
+          </p>
+        </div>
+        <div>
+          <p>
+            <strong>{t("settlementNumber")}:</strong>{" "}
+            <span className="font-mono">{settlement.settlement_number}</span>
+          </p>
+          <p>
+            <strong>{t("type")}:</strong> {t(settlement.type)} · <strong>{t("status")}:</strong>{" "}
+            {t(settlement.status)}
+          </p>
+          <p>
+            <strong>{t("printedAt")}:</strong> {printedAt}
+          </p>
+        </div>
+      </div>
+
+      <table className="statement-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>{t("date")}</th>
+            <th>{t("reference")}</th>
+            <th>{t("order")}</th>
+            <th>{t("description")}</th>
+            <th>{t("amount")}</th>
+            <th>{t("balanceAfter")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {balances && (
+            <tr className="statement-balance-row">
+              <td colSpan={6}>{t("openingBalance")}</td>
+              <td className="statement-amount">
+                {formatAmount(balances.opening)} {tCommon("egp")}
+              </td>
+            </tr>
+          )}
+          {items.length === 0 ? (
+            <tr>
+              <td colSpan={7}>{t("noTransactionsInSettlement")}</td>
+            </tr>
+          ) : (
+            items.map((item, index) => (
+              <tr key={item.id}>
+                <td>{index + 1}</td>
+                <td>{formatDate(item.transaction?.created_at ?? item.created_at)}</td>
+                <td className="font-mono">{item.transaction?.reference_number ?? "-"}</td>
+                <td className="font-mono">{item.order?.order_number ?? "-"}</td>
+                <td>
+                  {item.transaction?.category_label || t("transaction")}
+                  {item.transaction?.description && (
+                    <>
+                      <br />
+                      <span className="statement-muted">{item.transaction.description}</span>
+                    </>
+                  )}
+                </td>
+                <td className="statement-amount" dir="ltr">
+                  {item.amount >= 0 ? "+" : ""}
+                  {formatAmount(item.amount)}
+                </td>
+                <td className="statement-amount">
+                  {item.transaction ? formatAmount(item.transaction.balance_after) : "-"}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+        <tfoot>
+          {balances && (
+            <tr className="statement-balance-row">
+              <td colSpan={6}>{t("closingBalance")}</td>
+              <td className="statement-amount">
+                {formatAmount(balances.closing)} {tCommon("egp")}
+              </td>
+            </tr>
+          )}
+          <tr>
+            <td colSpan={6}>
+              {t("settlementAmount")} ({t(settlement.type)}) · {t("transactionsCount")}: {items.length}
+            </td>
+            <td className="statement-amount">
+              {formatAmount(settlement.amount)} {tCommon("egp")}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {settlement.notes && (
+        <p className="statement-notes">
+          <strong>{t("notes")}:</strong> {settlement.notes}
+        </p>
+      )}
+
+      <div className="statement-signatures">
+        <div>
+          <p>{t("preparedBy")}</p>
+          <p className="statement-muted">{getUserName(settlement.created_by, locale)}</p>
+          <div className="statement-signature-line" />
+        </div>
+        <div>
+          <p>{t("approvedBy")}</p>
+          <p className="statement-muted">{getUserName(settlement.confirmed_by, locale)}</p>
+          <div className="statement-signature-line" />
+        </div>
+        <div>
+          <p>{t("ownerSignature")}</p>
+          <p className="statement-muted">{ownerName}</p>
+          <div className="statement-signature-line" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { queryKeys } from "@/components/providers/query-provider";
+import { useMyAssignedOrders } from "@/hooks/queries/use-orders";
+import { useHasAnyPermission, PERMISSION_MODULES } from "@/hooks/use-permissions";
+import { clearCachedOrders, clearOfflineData, listOutboxEntries } from "@/lib/offline/offline-store";
+import { dismissOutboxEntry, replayOutbox, subscribeToOutbox } from "@/lib/offline/outbox";
+import { registerServiceWorker } from "@/lib/offline/service-worker";
+import type { OutboxEntry } from "@/lib/types/offline";
+
+interface OfflineContextValue {
+  isOnline: boolean;
+  /** Actions waiting to be sent */
+  pendingCount: number;
+  /** Actions the server refused on replay */
+  conflicts: OutboxEntry[];
+  isReplaying: boolean;
+  replayNow: () => void;
+  dismissConflict: (entry: OutboxEntry) => void;
+}
+
+const OfflineContext = createContext<OfflineContextValue>({
+  isOnline: true,
+  pendingCount: 0,
+  conflicts: [],
+  isReplaying: false,
+  replayNow: () => {},
+  dismissConflict: () => {},
+});
+
+interface OfflineProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Tracks connectivity, registers the service worker and replays the outbox
+ * whenever the connection comes back (and once on load, for actions queued
+ * in an earlier session).
+ */
+export function OfflineProvider({ children }: OfflineProviderProps) {
+  const t = useTranslations("offline");
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(true);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const { hasAnyPermission: isFieldAgent } = useHasAnyPermission([...PERMISSION_MODULES.FIELD_WORK]);
+
+  // Fetching assigned orders also saves them, so the copy is ready when the connection drops
+  useMyAssignedOrders({ enabled: isFieldAgent });
+
+  const refreshEntries = useCallback(() => {
+    listOutboxEntries()
+      .then(setEntries)
+      .catch(() => setEntries([]));
+  }, []);
+
+  const replayNow = useCallback(() => {
+    setIsReplaying(true);
+    replayOutbox()
+      .then((result) => {
+        if (result.sent > 0) {
+          toast.success(t("replaySent", { count: result.sent }));
+          queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+        }
+        if (result.conflicts > 0) {
+          toast.error(t("replayConflicts", { count: result.conflicts }));
+        }
+      })
+      .catch(() => {
+        // IndexedDB unavailable; nothing was queued either
+      })
+      .finally(() => setIsReplaying(false));
+  }, [queryClient, t]);
+
+  useEffect(() => {
+    registerServiceWorker();
+    setIsOnline(navigator.onLine);
+    refreshEntries();
+    if (navigator.onLine) replayNow();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      replayNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const unsubscribe = subscribeToOutbox(refreshEntries);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      unsubscribe();
+    };
+  }, [refreshEntries, replayNow]);
+
+  // Customer details must not outlive the session on a shared device. A normal
+  // logout clears that user's orders; a forced one (401) clears everything.
+  useEffect(() => {
+    const handleLogout = (event: Event) => {
+      const { reason, ownerKey } = (event as CustomEvent<{ reason?: string; ownerKey?: string | null }>).detail ?? {};
+      const clear = reason === "logout" && ownerKey ? clearCachedOrders(ownerKey) : clearOfflineData();
+      clear.catch((error) => console.error("Offline data clear error:", error));
+    };
+
+    window.addEventListener("auth:logout", handleLogout);
+    return () => window.removeEventListener("auth:logout", handleLogout);
+  }, []);
+
+  const dismissConflict = useCallback((entry: OutboxEntry) => {
+    void dismissOutboxEntry(entry);
+  }, []);
+
+  return (
+    <OfflineContext.Provider
+      value={{
+        isOnline,
+        pendingCount: entries.filter((entry) => entry.status === "pending").length,
+        conflicts: entries.filter((entry) => entry.status === "conflict"),
+        isReplaying,
+        replayNow,
+        dismissConflict,
+      }}
+    >
+      {children}
+    </OfflineContext.Provider>
+  );
+}
+
+/**
+ * Current connectivity and outbox state
+ */
+export function useOffline() {
+  return useContext(OfflineContext);
+}
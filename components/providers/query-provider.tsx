@@ -57,6 +57,7 @@ export const queryKeys = {
     details: () => [...queryKeys.orders.all, "detail"] as const,
     detail: (id: number) => [...queryKeys.orders.details(), id] as const,
     stats: () => [...queryKeys.orders.all, "stats"] as const,
+    imports: () => [...queryKeys.orders.all, "imports"] as const,
   },
   // Inventory
   inventory: {
@@ -81,6 +82,13 @@ export const queryKeys = {
     governorates: () => [...queryKeys.locations.all, "governorates"] as const,
     cities: (governorateId?: number) => [...queryKeys.locations.all, "cities", governorateId] as const,
   },
+  // Notifications (real-time data)
+  notifications: {
+    all: ["notifications"] as const,
+    list: (locale: string, filters: Record<string, unknown>) => [...queryKeys.notifications.all, locale, filters] as const,
+    unreadCount: () => ["notifications-unread-count"] as const,
+    preferences: () => ["notification-preferences"] as const,
+  },
   // Analytics
   analytics: {
     all: ["analytics"] as const,
@@ -0,0 +1,128 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { queryKeys } from "@/components/providers/query-provider";
+import { getToken } from "@/lib/api";
+import {
+  createRealtimeClient,
+  getRealtimeUrl,
+  type RealtimeEvent,
+  type RealtimeStatus,
+} from "@/lib/realtime/realtime-client";
+import type { Notification } from "@/lib/services/notifications";
+
+/**
+ * Polling interval used while the realtime stream is down (or not configured)
+ */
+export const REALTIME_FALLBACK_POLL_INTERVAL = 30 * 1000;
+
+/**
+ * Event types pushed by the backend stream
+ */
+export const REALTIME_EVENTS = {
+  ORDER_CREATED: "order.created",
+  ORDER_UPDATED: "order.updated",
+  ORDER_STATUS_CHANGED: "order.status_changed",
+  ORDER_ASSIGNED: "order.assigned",
+  NOTIFICATION_CREATED: "notification.created",
+} as const;
+
+const ORDER_EVENTS: string[] = [
+  REALTIME_EVENTS.ORDER_CREATED,
+  REALTIME_EVENTS.ORDER_UPDATED,
+  REALTIME_EVENTS.ORDER_STATUS_CHANGED,
+  REALTIME_EVENTS.ORDER_ASSIGNED,
+];
+
+interface RealtimeContextValue {
+  /** Whether a stream URL is configured at all */
+  enabled: boolean;
+  status: RealtimeStatus;
+}
+
+const RealtimeContext = createContext<RealtimeContextValue>({ enabled: false, status: "idle" });
+
+/**
+ * Invalidate the cached queries affected by a pushed event
+ */
+function applyRealtimeEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  if (ORDER_EVENTS.includes(event.type)) {
+    const orderId = Number(event.data.order_id);
+    if (orderId) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.detail(orderId) });
+    }
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.stats() });
+    queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+    return;
+  }
+
+  if (event.type === REALTIME_EVENTS.NOTIFICATION_CREATED) {
+    const notification = event.data as unknown as Partial<Notification>;
+    queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount() });
+    if (notification.title) {
+      toast(notification.title, { description: notification.body });
+    }
+  }
+}
+
+interface RealtimeProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Keeps a realtime stream open for the signed-in dashboard and turns pushed events
+ * into query invalidations. While the stream is down, order lists are polled instead.
+ */
+export function RealtimeProvider({ children }: RealtimeProviderProps) {
+  const queryClient = useQueryClient();
+  const [url] = useState(getRealtimeUrl);
+  const [status, setStatus] = useState<RealtimeStatus>("idle");
+
+  useEffect(() => {
+    if (!url) return;
+    const client = createRealtimeClient({
+      url,
+      getToken,
+      onEvent: (event) => applyRealtimeEvent(queryClient, event),
+      onStatusChange: setStatus,
+    });
+    client.connect();
+    return () => client.disconnect();
+  }, [url, queryClient]);
+
+  // Fallback polling while a configured stream is unavailable
+  const isDown = !!url && status !== "connected";
+  useEffect(() => {
+    if (!isDown) return;
+    const interval = setInterval(() => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.stats() });
+    }, REALTIME_FALLBACK_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isDown, queryClient]);
+
+  return (
+    <RealtimeContext.Provider value={{ enabled: !!url, status }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+/**
+ * Current realtime connection state
+ */
+export function useRealtimeStatus() {
+  return useContext(RealtimeContext);
+}
+
+/**
+ * Refetch interval for queries the stream keeps fresh: off while connected, polling otherwise
+ */
+export function useRealtimeRefetchInterval(): number | false {
+  const { status } = useRealtimeStatus();
+  return status === "connected" ? false : REALTIME_FALLBACK_POLL_INTERVAL;
+}
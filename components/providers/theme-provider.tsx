@@ -3,9 +3,33 @@
 import * as React from "react";
 import { ThemeProvider as NextThemesProvider } from "next-themes";
 
+const ForcedThemeContext = React.createContext<(theme: string | undefined) => void>(() => {});
+
 export function ThemeProvider({
   children,
+  forcedTheme,
   ...props
 }: React.ComponentProps<typeof NextThemesProvider>) {
-  return <NextThemesProvider {...props}>{children}</NextThemesProvider>;
+  const [pageTheme, setPageTheme] = React.useState<string | undefined>();
+
+  return (
+    <ForcedThemeContext.Provider value={setPageTheme}>
+      <NextThemesProvider {...props} forcedTheme={pageTheme ?? forcedTheme}>
+        {children}
+      </NextThemesProvider>
+    </ForcedThemeContext.Provider>
+  );
+}
+
+/**
+ * Force a theme while the calling page is mounted, without touching the user's saved theme.
+ * Pass undefined to follow the user's theme.
+ */
+export function useForcedTheme(theme: string | undefined) {
+  const setPageTheme = React.useContext(ForcedThemeContext);
+
+  React.useEffect(() => {
+    setPageTheme(theme);
+    return () => setPageTheme(undefined);
+  }, [theme, setPageTheme]);
 }
@@ -0,0 +1,2 @@
+export { RunStopCard, type RunStopAction } from "./run-stop-card";
+export { RunActionDialog } from "./run-action-dialog";
@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2, ScanLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CameraScanner, getScanActionLabelKey } from "@/components/scan";
+import { getErrorMessage } from "@/lib/errors";
+import { runOrQueueOrderAction, type OrderActionResult } from "@/lib/offline/outbox";
+import {
+  DELIVERY_FAILURE_REASONS,
+  extractTrackNumber,
+  type DeliveryFailureReason,
+  type Order,
+} from "@/lib/services/orders";
+import type { RunStopAction } from "./run-stop-card";
+
+interface RunActionDialogProps {
+  order: Order | null;
+  action: RunStopAction | null;
+  onOpenChange: (open: boolean) => void;
+  onDone: (order: Order, result: OrderActionResult) => void;
+}
+
+/**
+ * Whether a scanned label belongs to the order
+ */
+function matchesOrder(code: string, order: Order): boolean {
+  const trackNumber = extractTrackNumber(code);
+  return trackNumber === order.track_number || trackNumber === order.order_number;
+}
+
+/**
+ * Confirms a stop action: scan actions ask for the parcel label so the agent
+ * can't confirm the wrong parcel, failed deliveries ask for a reason. Both go
+ * through the offline outbox when there is no connection.
+ */
+export function RunActionDialog({ order, action, onOpenChange, onDone }: RunActionDialogProps) {
+  const t = useTranslations("myRuns");
+  const tOrders = useTranslations("orders");
+  const tScan = useTranslations("scanStation");
+  const tCommon = useTranslations("common");
+  const [manualCode, setManualCode] = useState("");
+  const [reason, setReason] = useState("");
+  const [reasonCode, setReasonCode] = useState<DeliveryFailureReason | "">("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const positionRef = useRef<{ latitude: number; longitude: number } | null>(null);
+  const open = !!order && !!action;
+
+  useEffect(() => {
+    if (!open) return;
+    setManualCode("");
+    setReason("");
+    setReasonCode("");
+    positionRef.current = null;
+    if (action?.type === "scan" && navigator.geolocation) {
+      navigator.geolocation.getCurrentPosition(
+        (pos) => {
+          positionRef.current = { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
+        },
+        () => {},
+        { enableHighAccuracy: true, timeout: 10000 }
+      );
+    }
+  }, [open, action]);
+
+  if (!order || !action) return null;
+
+  const submit = async (run: () => Promise<OrderActionResult>) => {
+    setIsSubmitting(true);
+    try {
+      onDone(order, await run());
+    } catch (error) {
+      toast.error(t("actionFailed"), { description: getErrorMessage(error, tCommon("tryAgain")) });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCode = (code: string, source: "camera" | "keyboard") => {
+    if (action.type !== "scan" || isSubmitting || !code.trim()) return;
+    if (!matchesOrder(code.trim(), order)) {
+      toast.error(t("wrongParcel"), { description: order.order_number });
+      return;
+    }
+    void submit(() =>
+      runOrQueueOrderAction(order, {
+        type: "scan",
+        action: action.action,
+        payload: {
+          code: code.trim(),
+          latitude: positionRef.current?.latitude,
+          longitude: positionRef.current?.longitude,
+          device_info: source === "camera" ? tScan("deviceCamera") : tScan("deviceScanner"),
+        },
+      })
+    );
+  };
+
+  const handleFailDelivery = () => {
+    if (!reason.trim()) return;
+    void submit(() =>
+      runOrQueueOrderAction(order, {
+        type: "fail_delivery",
+        reason: reason.trim(),
+        reasonCode: reasonCode || undefined,
+      })
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSubmitting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        {action.type === "scan" ? (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <ScanLine className="h-5 w-5" />
+                {tScan(getScanActionLabelKey(action.action))}
+              </DialogTitle>
+              <DialogDescription>{t("scanLabelDesc", { order: order.order_number })}</DialogDescription>
+            </DialogHeader>
+            <CameraScanner onDetected={(code) => handleCode(code, "camera")} paused={isSubmitting} />
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCode(manualCode, "keyboard");
+              }}
+            >
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder={tScan("manualPlaceholder")}
+                className="h-11"
+              />
+              <Button type="submit" className="h-11" disabled={isSubmitting || !manualCode.trim()}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : t("confirm")}
+              </Button>
+            </form>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+                {tOrders("failDelivery")}
+              </DialogTitle>
+              <DialogDescription>{tOrders("failDeliveryDesc")}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="run_failure_reason_code">{tOrders("failureReasonCategory")}</Label>
+                <Select
+                  value={reasonCode}
+                  onValueChange={(value) => setReasonCode(value as DeliveryFailureReason)}
+                >
+                  <SelectTrigger id="run_failure_reason_code" className="h-11">
+                    <SelectValue placeholder={tOrders("selectFailureReason")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIVERY_FAILURE_REASONS.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {tOrders(`failureReason_${code}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="run_failure_reason">{tOrders("failDeliveryReason")} *</Label>
+                <Textarea
+                  id="run_failure_reason"
+                  placeholder={tOrders("failDeliveryReasonPlaceholder")}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                {tCommon("cancel")}
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleFailDelivery}
+                disabled={isSubmitting || !reason.trim()}
+                className="gap-2"
+              >
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <AlertTriangle className="h-4 w-4" />}
+                {tOrders("confirmFailDelivery")}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
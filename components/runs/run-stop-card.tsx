@@ -0,0 +1,169 @@
+"use client";
+
+import { useLocale, useTranslations } from "next-intl";
+import {
+  AlertTriangle,
+  Banknote,
+  ExternalLink,
+  MapPin,
+  MessageCircle,
+  Navigation,
+  Phone,
+  ScanLine,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { OrderStatusBadge } from "@/components/ui/status-badge";
+import { Link } from "@/i18n/routing";
+import { getAvailableScanActions, getScanActionLabelKey } from "@/components/scan";
+import {
+  getDirectionsUrl,
+  getStopContact,
+  getWhatsAppUrl,
+  type MyRunStop,
+} from "@/lib/dispatch/my-runs";
+import type { OrderScanAction } from "@/lib/services/orders";
+
+/**
+ * An action started from a stop card
+ */
+export type RunStopAction = { type: "scan"; action: OrderScanAction } | { type: "fail_delivery" };
+
+interface ContactButtonProps {
+  /** Disabled when there is nothing to link to */
+  href: string | null;
+  icon: LucideIcon;
+  label: string;
+  external?: boolean;
+}
+
+function ContactButton({ href, icon: Icon, label, external = false }: ContactButtonProps) {
+  if (!href) {
+    return (
+      <Button variant="outline" className="h-11 gap-2" disabled>
+        <Icon className="h-4 w-4" />
+        {label}
+      </Button>
+    );
+  }
+
+  return (
+    <Button variant="outline" className="h-11 gap-2" asChild>
+      <a href={href} {...(external && { target: "_blank", rel: "noopener noreferrer" })}>
+        <Icon className="h-4 w-4" />
+        {label}
+      </a>
+    </Button>
+  );
+}
+
+interface RunStopCardProps {
+  stop: MyRunStop;
+  onAction: (stop: MyRunStop, action: RunStopAction) => void;
+  formatAmount: (amount: number) => string;
+}
+
+export function RunStopCard({ stop, onAction, formatAmount }: RunStopCardProps) {
+  const t = useTranslations("myRuns");
+  const tScan = useTranslations("scanStation");
+  const tCommon = useTranslations("common");
+  const locale = useLocale();
+  const { order } = stop;
+  const contact = getStopContact(stop, locale);
+  const scanActions = getAvailableScanActions(order);
+  const canFailDelivery = order.can_fail_delivery === true;
+  const isReturn = stop.assignment.assignment_type === "inventory_to_vendor";
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 p-4">
+        {/* Order */}
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <Link
+              href={`/dashboard/orders/${order.id}`}
+              className="inline-flex items-center gap-1 font-mono text-sm font-semibold hover:underline"
+            >
+              {order.order_number}
+              <ExternalLink className="h-3 w-3" />
+            </Link>
+            <p className="truncate text-base font-medium">{contact.name || "-"}</p>
+          </div>
+          <div className="flex shrink-0 flex-col items-end gap-1">
+            <OrderStatusBadge status={order.status} statusLabel={order.status_label} />
+            {isReturn && <Badge variant="outline">{t("returnLeg")}</Badge>}
+          </div>
+        </div>
+
+        {contact.address && (
+          <p className="flex items-start gap-2 text-sm text-muted-foreground">
+            <MapPin className="mt-0.5 h-4 w-4 shrink-0" />
+            <span>{contact.address}</span>
+          </p>
+        )}
+        {order.customer?.address_notes && stop.leg === "delivery" && !isReturn && (
+          <p className="text-xs text-muted-foreground">{order.customer.address_notes}</p>
+        )}
+
+        {stop.codAmount > 0 && (
+          <div className="flex items-center justify-between rounded-lg bg-amber-500/10 px-3 py-2 text-amber-700 dark:text-amber-400">
+            <span className="flex items-center gap-2 text-sm font-medium">
+              <Banknote className="h-4 w-4" />
+              {t("codToCollect")}
+            </span>
+            <span className="text-lg font-bold">
+              {formatAmount(stop.codAmount)} <span className="text-xs font-normal">{tCommon("egp")}</span>
+            </span>
+          </div>
+        )}
+
+        {/* Contact */}
+        <div className="grid grid-cols-3 gap-2">
+          <ContactButton href={contact.mobile ? `tel:${contact.mobile}` : null} icon={Phone} label={t("call")} />
+          <ContactButton
+            href={contact.mobile ? getWhatsAppUrl(contact.mobile) : null}
+            icon={MessageCircle}
+            label={t("whatsapp")}
+            external
+          />
+          <ContactButton
+            href={contact.position ? getDirectionsUrl(contact.position.lat, contact.position.lng) : null}
+            icon={Navigation}
+            label={t("directions")}
+            external
+          />
+        </div>
+
+        {/* Actions allowed by the order's flags */}
+        {(scanActions.length > 0 || canFailDelivery) && (
+          <div className="grid gap-2">
+            {scanActions.map((action) => (
+              <Button
+                key={action}
+                size="lg"
+                className="h-12 gap-2 text-base"
+                onClick={() => onAction(stop, { type: "scan", action })}
+              >
+                <ScanLine className="h-5 w-5" />
+                {tScan(getScanActionLabelKey(action))}
+              </Button>
+            ))}
+            {canFailDelivery && (
+              <Button
+                size="lg"
+                variant="outline"
+                className="h-12 gap-2 text-base text-destructive hover:text-destructive"
+                onClick={() => onAction(stop, { type: "fail_delivery" })}
+              >
+                <AlertTriangle className="h-5 w-5" />
+                {t("failDelivery")}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Camera, CameraOff, Loader2, AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Minimal typings for the Barcode Detection API (not yet in lib.dom)
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats?: () => Promise<string[]>;
+}
+
+/** Formats printed on shipping labels: QR code and CODE128 barcode */
+const LABEL_FORMATS = ["qr_code", "code_128"];
+
+/** How often a video frame is sent to the detector */
+const DETECT_INTERVAL_MS = 250;
+
+/** Ignore the same code re-detected within this window */
+const REPEAT_COOLDOWN_MS = 3000;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === "undefined") return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+type CameraState = "idle" | "starting" | "active" | "unsupported" | "denied";
+
+interface CameraScannerProps {
+  onDetected: (code: string) => void;
+  paused?: boolean;
+}
+
+export function CameraScanner({ onDetected, paused = false }: CameraScannerProps) {
+  const t = useTranslations("scanStation");
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastCodeRef = useRef<{ code: string; at: number } | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  const pausedRef = useRef(paused);
+  const [state, setState] = useState<CameraState>("idle");
+
+  // Feature detection has to wait for the client
+  useEffect(() => {
+    if (!getBarcodeDetector()) {
+      setState("unsupported");
+    }
+  }, []);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  useEffect(() => {
+    pausedRef.current = paused;
+  }, [paused]);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+  };
+
+  const startCamera = async () => {
+    if (!getBarcodeDetector() || !navigator.mediaDevices?.getUserMedia) {
+      setState("unsupported");
+      return;
+    }
+    setState("starting");
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" },
+        audio: false,
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setState("active");
+    } catch {
+      stopCamera();
+      setState("denied");
+    }
+  };
+
+  // Poll video frames while the camera is active
+  useEffect(() => {
+    if (state !== "active") return;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+    const detector = new Detector({ formats: LABEL_FORMATS });
+    let isDetecting = false;
+
+    const interval = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (!video || isDetecting || pausedRef.current || video.readyState < 2) return;
+      isDetecting = true;
+      try {
+        const results = await detector.detect(video);
+        const code = results[0]?.rawValue?.trim();
+        if (code) {
+          const last = lastCodeRef.current;
+          const now = Date.now();
+          if (!last || last.code !== code || now - last.at > REPEAT_COOLDOWN_MS) {
+            lastCodeRef.current = { code, at: now };
+            onDetectedRef.current(code);
+          }
+        }
+      } catch {
+        // Frame could not be decoded - try the next one
+      } finally {
+        isDetecting = false;
+      }
+    }, DETECT_INTERVAL_MS);
+
+    return () => window.clearInterval(interval);
+  }, [state]);
+
+  // Release the camera when unmounting
+  useEffect(() => stopCamera, []);
+
+  const handleStop = () => {
+    stopCamera();
+    setState("idle");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative aspect-video w-full overflow-hidden rounded-xl bg-muted">
+        <video
+          ref={videoRef}
+          className={cn("h-full w-full object-cover", state !== "active" && "hidden")}
+          muted
+          playsInline
+        />
+        {state === "active" && (
+          <div className="pointer-events-none absolute inset-8 rounded-lg border-2 border-dashed border-primary/70" />
+        )}
+        {state !== "active" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-sm text-muted-foreground">
+            {state === "starting" && <Loader2 className="h-8 w-8 animate-spin text-primary" />}
+            {state === "idle" && <Camera className="h-8 w-8" />}
+            {(state === "unsupported" || state === "denied") && (
+              <AlertCircle className="h-8 w-8 text-amber-500" />
+            )}
+            <p>
+              {state === "unsupported"
+                ? t("cameraUnsupported")
+                : state === "denied"
+                  ? t("cameraDenied")
+                  : state === "starting"
+                    ? t("cameraStarting")
+                    : t("cameraIdle")}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {state !== "unsupported" && (
+        state === "active" ? (
+          <Button variant="outline" onClick={handleStop} className="w-full gap-2">
+            <CameraOff className="h-4 w-4" />
+            {t("stopCamera")}
+          </Button>
+        ) : (
+          <Button onClick={startCamera} disabled={state === "starting"} className="w-full gap-2">
+            <Camera className="h-4 w-4" />
+            {t("startCamera")}
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
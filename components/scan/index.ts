@@ -0,0 +1,9 @@
+export { CameraScanner } from "./camera-scanner";
+export { ScanSessionLog, type ScanLogEntry, type ScanLogStatus } from "./scan-session-log";
+export {
+  SCAN_ACTIONS,
+  getAvailableScanActions,
+  resolveScanAction,
+  getScanActionLabelKey,
+  type ScanStationMode,
+} from "./scan-actions";
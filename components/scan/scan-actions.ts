@@ -0,0 +1,47 @@
+import type { Order, OrderScanAction } from "@/lib/services/orders";
+
+/**
+ * Scan actions in workflow order, each paired with the order flag that allows it
+ */
+export const SCAN_ACTIONS: { action: OrderScanAction; flag: keyof Order; labelKey: string }[] = [
+  { action: "pickup_from_vendor", flag: "can_pickup_from_vendor", labelKey: "actionPickupFromVendor" },
+  { action: "scan_inventory", flag: "can_scan_inventory", labelKey: "actionScanInventory" },
+  { action: "pickup_from_inventory", flag: "can_pickup_from_inventory", labelKey: "actionPickupFromInventory" },
+  { action: "scan_delivery", flag: "can_scan_delivery", labelKey: "actionScanDelivery" },
+  { action: "pickup_return", flag: "can_pickup_return", labelKey: "actionPickupReturn" },
+  { action: "deliver_return", flag: "can_deliver_return", labelKey: "actionDeliverReturn" },
+];
+
+/**
+ * Station mode: either pick the action automatically from the order's flags,
+ * or lock the station to a single action (e.g. a receiving bench)
+ */
+export type ScanStationMode = "auto" | OrderScanAction;
+
+/**
+ * Get the scan actions the current user may perform on an order
+ */
+export function getAvailableScanActions(order: Order): OrderScanAction[] {
+  return SCAN_ACTIONS
+    .filter(({ flag }) => order[flag] === true)
+    .map(({ action }) => action);
+}
+
+/**
+ * Pick the scan action to run for an order in the given station mode.
+ * Returns null when the order doesn't allow the requested action.
+ */
+export function resolveScanAction(order: Order, mode: ScanStationMode): OrderScanAction | null {
+  const available = getAvailableScanActions(order);
+  if (mode === "auto") {
+    return available[0] ?? null;
+  }
+  return available.includes(mode) ? mode : null;
+}
+
+/**
+ * Translation key for a scan action label
+ */
+export function getScanActionLabelKey(action: OrderScanAction): string {
+  return SCAN_ACTIONS.find((a) => a.action === action)?.labelKey ?? action;
+}
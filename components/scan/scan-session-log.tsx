@@ -0,0 +1,134 @@
+"use client";
+
+import { useTranslations, useLocale } from "next-intl";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, CloudOff, XCircle, HelpCircle, Ban, Trash2, ExternalLink } from "lucide-react";
+import type { OrderScanAction } from "@/lib/services/orders";
+import { getScanActionLabelKey } from "./scan-actions";
+import { cn } from "@/lib/utils";
+
+export type ScanLogStatus = "success" | "queued" | "failed" | "not_found" | "no_action";
+
+/**
+ * One scanned parcel in the current station session
+ */
+export interface ScanLogEntry {
+  id: string;
+  code: string;
+  scannedAt: string;
+  status: ScanLogStatus;
+  orderId?: number;
+  orderNumber?: string;
+  action?: OrderScanAction;
+  statusLabel?: string;
+  message?: string;
+}
+
+const STATUS_STYLES: Record<ScanLogStatus, { icon: typeof CheckCircle2; className: string }> = {
+  success: { icon: CheckCircle2, className: "text-emerald-600 dark:text-emerald-400" },
+  queued: { icon: CloudOff, className: "text-blue-600 dark:text-blue-400" },
+  failed: { icon: XCircle, className: "text-destructive" },
+  not_found: { icon: HelpCircle, className: "text-amber-600 dark:text-amber-400" },
+  no_action: { icon: Ban, className: "text-muted-foreground" },
+};
+
+interface ScanSessionLogProps {
+  entries: ScanLogEntry[];
+  onClear: () => void;
+  onOpenOrder: (orderId: number) => void;
+}
+
+export function ScanSessionLog({ entries, onClear, onOpenOrder }: ScanSessionLogProps) {
+  const t = useTranslations("scanStation");
+  const locale = useLocale();
+
+  const successCount = entries.filter((e) => e.status === "success").length;
+  const queuedCount = entries.filter((e) => e.status === "queued").length;
+  const issueCount = entries.length - successCount - queuedCount;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{entries.length} {t("scannedCount")}</Badge>
+          <Badge variant="outline" className="text-emerald-600 dark:text-emerald-400">
+            {successCount} {t("successCount")}
+          </Badge>
+          {queuedCount > 0 && (
+            <Badge variant="outline" className="text-blue-600 dark:text-blue-400">
+              {queuedCount} {t("queuedCount")}
+            </Badge>
+          )}
+          {issueCount > 0 && (
+            <Badge variant="outline" className="text-destructive">
+              {issueCount} {t("issueCount")}
+            </Badge>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClear}
+          disabled={entries.length === 0}
+          className="gap-2"
+        >
+          <Trash2 className="h-4 w-4" />
+          {t("clearLog")}
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">{t("emptyLog")}</p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => {
+            const { icon: Icon, className } = STATUS_STYLES[entry.status];
+            return (
+              <div key={entry.id} className="flex items-start gap-3 rounded-xl bg-muted/50 p-3">
+                <Icon className={cn("mt-0.5 h-5 w-5 shrink-0", className)} />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-mono text-sm font-medium">
+                      {entry.orderNumber || entry.code}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.scannedAt).toLocaleTimeString(locale, {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                        second: "2-digit",
+                      })}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>{t(`status_${entry.status}`)}</span>
+                    {entry.action && (
+                      <Badge variant="outline" className="rounded-full">
+                        {t(getScanActionLabelKey(entry.action))}
+                      </Badge>
+                    )}
+                    {entry.statusLabel && <span>→ {entry.statusLabel}</span>}
+                  </div>
+                  {entry.message && (
+                    <p className="text-xs text-muted-foreground">{entry.message}</p>
+                  )}
+                </div>
+                {entry.orderId && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => onOpenOrder(entry.orderId!)}
+                    aria-label={t("openOrder")}
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
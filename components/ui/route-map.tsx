@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { MapContainer, TileLayer, Marker, Polyline, Popup, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { cn } from '@/lib/utils';
+
+export type RoutePointTone = 'origin' | 'stop' | 'muted' | 'success' | 'destination';
+
+export interface RoutePoint {
+  id: string | number;
+  lat: number;
+  lng: number;
+  /** Short text drawn inside the marker, e.g. the stop number */
+  badge: string;
+  tone?: RoutePointTone;
+  /** Popup content shown when the marker is clicked */
+  popup?: ReactNode;
+  /** Whether the route line passes through this point (defaults to true) */
+  onRoute?: boolean;
+}
+
+interface RouteMapProps {
+  /** Points in route order; consecutive points are joined by the route line */
+  points: RoutePoint[];
+  height?: string;
+  /** Draw the line between points (defaults to true) */
+  showRoute?: boolean;
+  className?: string;
+}
+
+const TONE_CLASSES: Record<RoutePointTone, string> = {
+  origin: 'bg-slate-900 text-white',
+  stop: 'bg-primary text-primary-foreground',
+  muted: 'bg-muted-foreground text-white',
+  success: 'bg-green-600 text-white',
+  destination: 'bg-red-600 text-white',
+};
+
+// Default to Cairo, Egypt
+const DEFAULT_CENTER: [number, number] = [30.0444, 31.2357];
+
+function createBadgeIcon(badge: string, tone: RoutePointTone): L.DivIcon {
+  return L.divIcon({
+    className: '',
+    html: `<div class="${TONE_CLASSES[tone]} flex h-7 min-w-7 items-center justify-center rounded-full border-2 border-white px-1 text-xs font-bold shadow-md">${badge}</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+    popupAnchor: [0, -14],
+  });
+}
+
+function FitBounds({ points }: { points: RoutePoint[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    if (points.length === 1) {
+      map.setView([points[0].lat, points[0].lng], 14);
+      return;
+    }
+    map.fitBounds(L.latLngBounds(points.map((p) => [p.lat, p.lng])), { padding: [32, 32] });
+  }, [points, map]);
+
+  return null;
+}
+
+/**
+ * Read-only map of numbered points joined by a route line
+ */
+export function RouteMap({ points, height = "400px", showRoute = true, className }: RouteMapProps) {
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const line = useMemo(
+    () => points.filter((p) => p.onRoute !== false).map((p) => [p.lat, p.lng] as [number, number]),
+    [points]
+  );
+
+  if (!mounted) {
+    return (
+      <div className={cn("w-full bg-muted rounded-lg flex items-center justify-center", className)} style={{ height }}>
+        <p className="text-muted-foreground">Loading map...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("w-full rounded-lg overflow-hidden border", className)} style={{ height }}>
+      <MapContainer
+        center={points[0] ? [points[0].lat, points[0].lng] : DEFAULT_CENTER}
+        zoom={12}
+        style={{ height: '100%', width: '100%' }}
+        scrollWheelZoom={true}
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        {showRoute && line.length > 1 && (
+          <Polyline positions={line} pathOptions={{ color: '#2563eb', weight: 4, opacity: 0.7 }} />
+        )}
+        {points.map((point) => (
+          <Marker
+            key={point.id}
+            position={[point.lat, point.lng]}
+            icon={createBadgeIcon(point.badge, point.tone || 'stop')}
+          >
+            {point.popup && <Popup>{point.popup}</Popup>}
+          </Marker>
+        ))}
+        <FitBounds points={points} />
+      </MapContainer>
+    </div>
+  );
+}
@@ -41,6 +41,18 @@ const statusConfig: Record<string, { className: string }> = {
   failed: {
     className: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/30"
   },
+  failed_delivery: {
+    className: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/30"
+  },
+  return_to_vendor: {
+    className: "bg-orange-500/10 text-orange-700 dark:text-orange-400 border-orange-500/30"
+  },
+  returning: {
+    className: "bg-orange-500/10 text-orange-700 dark:text-orange-400 border-orange-500/30"
+  },
+  returned: {
+    className: "bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/30"
+  },
 
   // User/Entity statuses
   active: {
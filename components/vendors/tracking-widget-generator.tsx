@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Code2, Copy, Download, ExternalLink, Link2 } from "lucide-react";
+import { toast } from "sonner";
+import { routing } from "@/i18n/routing";
+import { downloadBlob } from "@/lib/utils";
+import {
+  EMBED_DEFAULT_HEIGHT,
+  EMBED_THEMES,
+  getEmbedSnippet,
+  getEmbedUrl,
+  getTrackingUrl,
+  type EmbedTheme,
+} from "@/lib/tracking-links";
+
+/**
+ * Vendor profile cards for embedding the tracking widget on a storefront
+ * and sharing per-order tracking links with customers.
+ */
+export function TrackingWidgetGenerator() {
+  const t = useTranslations('trackingWidget');
+  const locale = useLocale();
+
+  const [origin, setOrigin] = useState("");
+  const [embedLocale, setEmbedLocale] = useState(locale);
+  const [embedTheme, setEmbedTheme] = useState<EmbedTheme>("auto");
+  const [shareTrackNumber, setShareTrackNumber] = useState("");
+  const qrRef = useRef<HTMLDivElement>(null);
+
+  // Links must point at this deployment, which is only known in the browser
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const embedOptions = { locale: embedLocale, theme: embedTheme };
+  const snippet = origin ? getEmbedSnippet(origin, embedOptions, t("iframeTitle")) : "";
+  const shareUrl = origin && shareTrackNumber.trim()
+    ? getTrackingUrl(origin, locale, shareTrackNumber)
+    : "";
+
+  const copy = (value: string, successKey: string) => {
+    navigator.clipboard.writeText(value);
+    toast.success(t(successKey));
+  };
+
+  const downloadQrCode = () => {
+    const svg = qrRef.current?.querySelector("svg");
+    if (!svg) return;
+    const blob = new Blob([new XMLSerializer().serializeToString(svg)], { type: "image/svg+xml" });
+    downloadBlob(blob, `tracking-${shareTrackNumber.trim()}.svg`);
+  };
+
+  return (
+    <>
+      {/* Embed Widget Card */}
+      <div className="rounded-2xl border border-border/50 bg-card p-5 space-y-4 hover:border-border transition-colors md:col-span-2">
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-sky-500/10 flex items-center justify-center">
+            <Code2 className="h-4 w-4 text-sky-500" />
+          </div>
+          <div>
+            <h3 className="font-semibold">{t('embedTitle')}</h3>
+            <p className="text-xs text-muted-foreground">{t('embedDesc')}</p>
+          </div>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('language')}</Label>
+            <Select value={embedLocale} onValueChange={setEmbedLocale}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {routing.locales.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {t(`language_${value}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('theme')}</Label>
+            <Select value={embedTheme} onValueChange={(value) => setEmbedTheme(value as EmbedTheme)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EMBED_THEMES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {t(`theme_${value}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">{t('snippet')}</Label>
+          <Textarea value={snippet} readOnly rows={3} className="font-mono text-xs" dir="ltr" />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" className="gap-2" onClick={() => copy(snippet, 'snippetCopied')} disabled={!snippet}>
+            <Copy className="h-3.5 w-3.5" />
+            {t('copySnippet')}
+          </Button>
+          {origin && (
+            <Button size="sm" variant="outline" className="gap-2" asChild>
+              <a href={getEmbedUrl(origin, embedOptions)} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-3.5 w-3.5" />
+                {t('preview')}
+              </a>
+            </Button>
+          )}
+        </div>
+
+        {origin && (
+          <iframe
+            key={`${embedLocale}-${embedTheme}`}
+            src={getEmbedUrl(origin, embedOptions)}
+            title={t('embedTitle')}
+            className="w-full max-w-[480px] rounded-xl border"
+            style={{ height: EMBED_DEFAULT_HEIGHT }}
+          />
+        )}
+      </div>
+
+      {/* Share Link Card */}
+      <div className="rounded-2xl border border-border/50 bg-card p-5 space-y-4 hover:border-border transition-colors">
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-pink-500/10 flex items-center justify-center">
+            <Link2 className="h-4 w-4 text-pink-500" />
+          </div>
+          <div>
+            <h3 className="font-semibold">{t('shareTitle')}</h3>
+            <p className="text-xs text-muted-foreground">{t('shareDesc')}</p>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="share_track_number" className="text-xs">{t('trackNumber')}</Label>
+          <Input
+            id="share_track_number"
+            value={shareTrackNumber}
+            onChange={(e) => setShareTrackNumber(e.target.value)}
+            placeholder={t('trackNumberPlaceholder')}
+            className="font-mono"
+            dir="ltr"
+          />
+        </div>
+
+        {shareUrl && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate bg-muted/50 px-3 py-2 rounded-lg text-xs font-mono" dir="ltr">
+                {shareUrl}
+              </code>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                aria-label={t('copyLink')}
+                onClick={() => copy(shareUrl, 'linkCopied')}
+              >
+                <Copy className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <div className="flex flex-col items-center gap-2">
+              <div ref={qrRef} className="rounded-xl bg-white p-3">
+                <QRCodeSVG value={shareUrl} size={140} level="M" includeMargin={false} />
+              </div>
+              <Button size="sm" variant="ghost" className="gap-2" onClick={downloadQrCode}>
+                <Download className="h-3.5 w-3.5" />
+                {t('downloadQr')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
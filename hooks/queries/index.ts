@@ -60,6 +60,7 @@ export {
   useOrders,
   useOrder,
   useMyAssignedOrders,
+  useAgentDeliveredToday,
   useOrderAssignments,
   useCreateOrder,
   useAcceptOrder,
@@ -101,3 +102,13 @@ export {
 export {
   usePermissions,
 } from './use-permissions';
+
+// Notifications
+export {
+  useInfiniteNotifications,
+  useUnreadNotificationCount,
+  useMarkNotificationsRead,
+  useDeleteNotifications,
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from './use-notifications';
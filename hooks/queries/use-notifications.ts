@@ -0,0 +1,126 @@
+"use client";
+
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocale } from "next-intl";
+import { queryKeys, CACHE_TIMES, STALE_TIMES } from "@/components/providers/query-provider";
+import { useRealtimeRefetchInterval } from "@/components/providers/realtime-provider";
+import {
+  fetchNotifications,
+  fetchUnreadCount,
+  markNotificationsAsRead,
+  deleteNotifications,
+  fetchNotificationPreferences,
+  updateNotificationPreferences,
+  NotificationFilters,
+  NotificationPreferences,
+} from "@/lib/services/notifications";
+
+const NOTIFICATIONS_PAGE_SIZE = 30;
+
+/**
+ * Hook to page through notifications for infinite scroll
+ * Notifications are localized by the backend, so the locale is part of the key
+ */
+export function useInfiniteNotifications(filters: Omit<NotificationFilters, "page" | "per_page">) {
+  const locale = useLocale();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.notifications.list(locale, { ...filters, infinite: true }),
+    queryFn: ({ pageParam }) =>
+      fetchNotifications({ ...filters, page: pageParam, per_page: NOTIFICATIONS_PAGE_SIZE }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.current_page < lastPage.meta.last_page ? lastPage.meta.current_page + 1 : undefined,
+    staleTime: STALE_TIMES.REALTIME,
+  });
+}
+
+/**
+ * Hook to fetch the unread count behind the bell badge
+ * Pushed over the realtime stream when connected, polled otherwise
+ */
+export function useUnreadNotificationCount() {
+  const locale = useLocale();
+  const refetchInterval = useRealtimeRefetchInterval();
+
+  return useQuery<number, Error>({
+    queryKey: [...queryKeys.notifications.unreadCount(), locale],
+    queryFn: fetchUnreadCount,
+    refetchInterval,
+  });
+}
+
+/**
+ * Hook to mark several notifications as read
+ */
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string[]>({
+    mutationFn: markNotificationsAsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount() });
+    },
+  });
+}
+
+/**
+ * Hook to delete several notifications
+ */
+export function useDeleteNotifications() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string[]>({
+    mutationFn: deleteNotifications,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount() });
+    },
+  });
+}
+
+/**
+ * Hook to fetch the current user's notification preferences
+ */
+export function useNotificationPreferences() {
+  return useQuery<NotificationPreferences, Error>({
+    queryKey: queryKeys.notifications.preferences(),
+    queryFn: fetchNotificationPreferences,
+    staleTime: STALE_TIMES.STATIC,
+    gcTime: CACHE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Hook to save notification preferences
+ * Applied to the cache immediately and rolled back if the save fails
+ */
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    NotificationPreferences,
+    Error,
+    NotificationPreferences,
+    { previous?: NotificationPreferences }
+  >({
+    mutationFn: updateNotificationPreferences,
+    onMutate: async (preferences) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.notifications.preferences() });
+      const previous = queryClient.getQueryData<NotificationPreferences>(
+        queryKeys.notifications.preferences()
+      );
+      queryClient.setQueryData(queryKeys.notifications.preferences(), preferences);
+      return { previous };
+    },
+    onError: (_error, _preferences, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.notifications.preferences(), context.previous);
+      }
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(queryKeys.notifications.preferences(), saved);
+    },
+  });
+}
@@ -7,7 +7,10 @@ import {
   fetchOrders,
   fetchOrder,
   fetchMyAssignedOrders,
+  fetchReturnOrders,
+  fetchDispatchOrders,
   createOrder,
+  updateOrder,
   acceptOrder,
   rejectOrder,
   cancelOrder,
@@ -19,10 +22,16 @@ import {
   OrdersResponse,
   OrderFilters,
   CreateOrderRequest,
+  UpdateOrderRequest,
   Assignment,
   ImportOrdersRequest,
   ImportOrdersResponse,
 } from "@/lib/services/orders";
+import { getImportReport, listImportJobs } from "@/lib/import/import-job-store";
+import type { ImportHistoryEntry } from "@/lib/types/import-orders";
+import { getAssignedOrdersSnapshot, saveAssignedOrdersSnapshot } from "@/lib/offline/offline-store";
+import { isNetworkError } from "@/lib/errors";
+import { fetchAllPages } from "@/lib/api";
 
 // Re-export types for convenience
 export type { Order, OrdersResponse, OrderFilters };
@@ -46,19 +55,98 @@ export function useOrders(
   });
 }
 
+/**
+ * Hook to fetch orders in the returns workflow (failed deliveries and returns to vendor)
+ */
+export function useReturnOrders(
+  page: number = 1,
+  perPage: number = PAGINATION.ORDERS,
+  filters: OrderFilters = {}
+) {
+  return useQuery<OrdersResponse, Error>({
+    queryKey: queryKeys.orders.list({ page, perPage, returns: true, ...filters }),
+    queryFn: () => fetchReturnOrders(page, perPage, filters),
+    staleTime: STALE_TIMES.DYNAMIC,
+    gcTime: CACHE_TIMES.DYNAMIC,
+    placeholderData: (previousData) => previousData,
+    refetchOnWindowFocus: true,
+  });
+}
+
+/**
+ * Hook to fetch an inventory's dispatch board (orders assigned to or out with delivery agents)
+ */
+export function useDispatchOrders(inventoryId: number | null) {
+  return useQuery<Order[], Error>({
+    queryKey: queryKeys.orders.list({ dispatch: true, inventoryId }),
+    queryFn: () => fetchDispatchOrders(inventoryId!),
+    staleTime: STALE_TIMES.DYNAMIC,
+    gcTime: CACHE_TIMES.DYNAMIC,
+    enabled: !!inventoryId,
+    refetchOnWindowFocus: true,
+  });
+}
+
+/**
+ * Orders assigned to the current agent. Each successful fetch is saved for
+ * offline use, and the saved copy is served when the network is unreachable.
+ */
+async function fetchMyAssignedOrdersWithOfflineCopy(): Promise<Order[]> {
+  try {
+    const orders = await fetchMyAssignedOrders();
+    saveAssignedOrdersSnapshot(orders).catch(() => {
+      // Offline copy is best effort
+    });
+    return orders;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const snapshot = await getAssignedOrdersSnapshot().catch(() => null);
+    if (!snapshot) throw error;
+    return snapshot.orders;
+  }
+}
+
 /**
  * Hook to fetch orders assigned to current shipping agent
  */
-export function useMyAssignedOrders() {
+export function useMyAssignedOrders(options?: { enabled?: boolean }) {
   return useQuery<Order[], Error>({
     queryKey: [...queryKeys.orders.all, "my-assigned"],
-    queryFn: fetchMyAssignedOrders,
+    queryFn: fetchMyAssignedOrdersWithOfflineCopy,
+    enabled: options?.enabled ?? true,
     staleTime: STALE_TIMES.DYNAMIC,
     gcTime: CACHE_TIMES.DYNAMIC,
     refetchOnWindowFocus: true,
   });
 }
 
+/** Page size when walking an agent's delivered orders */
+const AGENT_DELIVERED_PAGE_SIZE = 100;
+
+/**
+ * Hook to fetch every order an agent delivered today (local date)
+ */
+export function useAgentDeliveredToday(agentId: number | null) {
+  // en-CA formats as YYYY-MM-DD
+  const today = new Date().toLocaleDateString("en-CA");
+
+  return useQuery<Order[], Error>({
+    queryKey: queryKeys.orders.list({ delivered: today, agentId }),
+    queryFn: () =>
+      fetchAllPages((page) =>
+        fetchOrders(page, AGENT_DELIVERED_PAGE_SIZE, {
+          status: "delivered",
+          agent_id: String(agentId),
+          delivered_between: `${today},${today}`,
+        })
+      ),
+    staleTime: STALE_TIMES.DYNAMIC,
+    gcTime: CACHE_TIMES.DYNAMIC,
+    enabled: !!agentId,
+    refetchOnWindowFocus: true,
+  });
+}
+
 /**
  * Hook to fetch a single order by ID
  */
@@ -104,6 +192,26 @@ export function useCreateOrder() {
   });
 }
 
+/**
+ * Hook to update a pending order
+ */
+export function useUpdateOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateOrderRequest }) =>
+      updateOrder(id, data),
+    onSuccess: (_updatedOrder, variables) => {
+      // Refetch the detail so the status log picks up the edit entry
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.detail(variables.id) });
+      // Invalidate all order lists
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
+      // Invalidate stats
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.stats() });
+    },
+  });
+}
+
 /**
  * Hook to accept an order
  */
@@ -351,11 +459,44 @@ export function useImportOrders() {
 
       queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
       queryClient.invalidateQueries({ queryKey: queryKeys.orders.stats() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.imports() });
       queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
     },
   });
 }
 
+/**
+ * Hook to fetch a page of the import history
+ * Records are kept on the server for audit and cannot be deleted
+ */
+export function useImportJobs(page: number = 1) {
+  return useQuery({
+    queryKey: [...queryKeys.orders.imports(), page],
+    queryFn: () => listImportJobs(page),
+    staleTime: 0,
+    placeholderData: (previousData) => previousData,
+  });
+}
+
+/**
+ * Hook to load what happened to every order of an import
+ * The history list doesn't include the rows, so they are fetched only while
+ * `enabled` (e.g. a list is expanded) or on demand with `load` (downloads)
+ */
+export function useImportReport(entry: ImportHistoryEntry, enabled: boolean) {
+  const queryClient = useQueryClient();
+  const options = {
+    queryKey: [...queryKeys.orders.imports(), "report", entry.localId ?? entry.id],
+    queryFn: () => getImportReport(entry),
+    staleTime: 0,
+  };
+
+  return {
+    ...useQuery({ ...options, enabled }),
+    load: () => queryClient.fetchQuery(options),
+  };
+}
+
 /**
  * Hook to invalidate order caches (useful after external updates)
  */
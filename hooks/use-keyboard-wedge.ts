@@ -0,0 +1,72 @@
+/**
+ * Keyboard Wedge Scanner Hook
+ * Detects input from USB/Bluetooth barcode scanners that emulate a keyboard
+ */
+
+import { useEffect, useRef } from 'react';
+
+/** Max delay between keystrokes from a scanner (humans type much slower) */
+const MAX_KEY_INTERVAL_MS = 50;
+
+/** Max delay before the Enter suffix; some scanners send it noticeably later */
+const MAX_SUFFIX_DELAY_MS = 500;
+
+/** Shortest code accepted as a scan */
+const MIN_CODE_LENGTH = 4;
+
+interface KeyboardWedgeOptions {
+  onScan: (code: string) => void;
+  enabled?: boolean;
+}
+
+/**
+ * Listen for scanner bursts on the window and report each decoded code.
+ * Keystrokes aimed at inputs and textareas are ignored so manual typing
+ * still works; scanners focused on an input submit through that input.
+ */
+export function useKeyboardWedge({ onScan, enabled = true }: KeyboardWedgeOptions) {
+  const bufferRef = useRef('');
+  const lastKeyAtRef = useRef(0);
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const now = Date.now();
+
+      // Checked before the keystroke gap reset: the Enter suffix may trail the code
+      if (event.key === 'Enter') {
+        const code = now - lastKeyAtRef.current > MAX_SUFFIX_DELAY_MS ? '' : bufferRef.current;
+        bufferRef.current = '';
+        lastKeyAtRef.current = now;
+        if (code.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(code);
+        }
+        return;
+      }
+
+      if (now - lastKeyAtRef.current > MAX_KEY_INTERVAL_MS) {
+        bufferRef.current = '';
+      }
+      lastKeyAtRef.current = now;
+
+      if (event.key.length === 1) {
+        bufferRef.current += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -42,6 +42,7 @@ export const PERMISSIONS = {
   // Orders
   LIST_ORDERS: 'list-orders',
   CREATE_ORDER: 'create-order',
+  UPDATE_ORDER: 'update-order',
   ACCEPT_ORDER: 'accept-order',
   ASSIGN_PICKUP_AGENT: 'assign-pickup-agent',
   SCAN_ORDER_INVENTORY: 'scan-order-inventory',
@@ -52,6 +53,7 @@ export const PERMISSIONS = {
   VERIFY_ORDER_OTP: 'verify-order-otp',
   VIEW_PRINT_LABEL: 'view-print-label',
   IMPORT_ORDERS: 'import-orders',
+  MANAGE_RETURNS: 'manage-returns',
 
   // Inventories
   LIST_INVENTORIES: 'list-inventories',
@@ -72,6 +74,12 @@ export const PERMISSIONS = {
 
   // Adjustments
   CREATE_ADJUSTMENT: 'create-adjustment',
+  APPROVE_ADJUSTMENT: 'approve-adjustment',
+  MANAGE_ADJUSTMENT_POLICY: 'manage-adjustment-policy',
+
+  // COD custody
+  LIST_COD_CUSTODY: 'list-cod-custody',
+  RECORD_COD_HANDOVER: 'record-cod-handover',
 
   // Settlements
   LIST_SETTLEMENTS: 'list-settlements',
@@ -119,6 +127,7 @@ export const PERMISSION_MODULES = {
   ORDERS: [
     PERMISSIONS.LIST_ORDERS,
     PERMISSIONS.CREATE_ORDER,
+    PERMISSIONS.UPDATE_ORDER,
     PERMISSIONS.ACCEPT_ORDER,
     PERMISSIONS.ASSIGN_PICKUP_AGENT,
     PERMISSIONS.SCAN_ORDER_INVENTORY,
@@ -129,6 +138,7 @@ export const PERMISSION_MODULES = {
     PERMISSIONS.VERIFY_ORDER_OTP,
     PERMISSIONS.VIEW_PRINT_LABEL,
     PERMISSIONS.IMPORT_ORDERS,
+    PERMISSIONS.MANAGE_RETURNS,
   ],
   INVENTORIES: [
     PERMISSIONS.LIST_INVENTORIES,
@@ -154,6 +164,20 @@ export const PERMISSION_MODULES = {
     PERMISSIONS.CONFIRM_SETTLEMENT,
     PERMISSIONS.CANCEL_SETTLEMENT,
   ],
+  ADJUSTMENT_APPROVALS: [
+    PERMISSIONS.APPROVE_ADJUSTMENT,
+    PERMISSIONS.MANAGE_ADJUSTMENT_POLICY,
+  ],
+  COD_CUSTODY: [
+    PERMISSIONS.LIST_COD_CUSTODY,
+    PERMISSIONS.RECORD_COD_HANDOVER,
+  ],
+  // Agents who pick up and deliver parcels in the field
+  FIELD_WORK: [
+    PERMISSIONS.PICKUP_ORDER_FROM_VENDOR,
+    PERMISSIONS.PICKUP_ORDER_FROM_INVENTORY,
+    PERMISSIONS.SCAN_ORDER_DELIVERY,
+  ],
   REPORTS: [
     PERMISSIONS.VIEW_VENDOR_PROFITS,
     PERMISSIONS.VIEW_TOP_VENDORS,
@@ -19,12 +19,15 @@ export interface ApiResponse<T> {
   };
   status_code?: number;
   requires_password_change?: boolean;
+  /** Machine-readable reason, on some error responses */
+  code?: string;
 }
 
 export interface ApiError {
   message: string;
   errors?: Record<string, string[]>;
   status?: number;
+  code?: string;
 }
 
 /**
@@ -149,6 +152,7 @@ export async function apiRequest<T>(
         message: data.message || 'An error occurred',
         errors: data.errors,
         status: response.status,
+        code: data.code,
       } as ApiError;
     }
 
@@ -165,6 +169,45 @@ export async function apiRequest<T>(
   }
 }
 
+/**
+ * A page of a paginated list endpoint
+ */
+export interface PaginatedPage<T> {
+  data: T[];
+  meta: { last_page: number; total: number };
+}
+
+/**
+ * Walk a paginated endpoint from the first page to the last and return every item
+ * @param fetchPage - Loads one page (1-based)
+ * @param options.onPage - Called after each page with the items fetched so far and the total
+ * @param options.signal - Stops before the next page with an AbortError
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<PaginatedPage<T>>,
+  options: {
+    onPage?: (fetched: number, total: number) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<T[]> {
+  const items: T[] = [];
+  let page = 1;
+  let lastPage = 1;
+
+  do {
+    if (options.signal?.aborted) {
+      throw new DOMException('Request cancelled', 'AbortError');
+    }
+    const response = await fetchPage(page);
+    items.push(...response.data);
+    lastPage = response.meta.last_page;
+    options.onPage?.(items.length, response.meta.total);
+    page++;
+  } while (page <= lastPage);
+
+  return items;
+}
+
 /**
  * Handle unauthorized access (401)
  * This happens when token is invalid or user logged in elsewhere
@@ -147,6 +147,12 @@ export async function logout(): Promise<void> {
   } catch (error) {
     console.error('Logout error:', error);
   } finally {
+    // Let listeners clear data kept for this user while it is still known who they are
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('auth:logout', {
+        detail: { reason: 'logout', ownerKey: getCurrentOwnerKey() }
+      }));
+    }
     // Always clear auth data even if API call fails
     clearAuthData();
   }
@@ -168,6 +174,16 @@ export function getCurrentUser(): User | null {
   }
 }
 
+/**
+ * Key for data kept per vendor in the browser: the vendor for vendor users,
+ * the user themself for staff accounts
+ */
+export function getCurrentOwnerKey(): string | null {
+  const user = getCurrentUser();
+  if (!user) return null;
+  return user.vendor_id ? `vendor-${user.vendor_id}` : `user-${user.id}`;
+}
+
 /**
  * Store user data in localStorage
  */
@@ -18,5 +18,7 @@ export const PAGINATION = {
   SETTLEMENTS: DEFAULT_ITEMS_PER_PAGE,
   WALLETS: DEFAULT_ITEMS_PER_PAGE,
   WALLET_TRANSACTIONS: DEFAULT_ITEMS_PER_PAGE,
+  ADJUSTMENT_REQUESTS: DEFAULT_ITEMS_PER_PAGE,
+  ORDER_IMPORTS: DEFAULT_ITEMS_PER_PAGE,
 } as const;
 
@@ -0,0 +1,124 @@
+import { haversineKm, toLatLng, type LatLng } from '@/lib/geo';
+import type { AssignedUser, Order } from '@/lib/services/orders';
+
+export interface RunStop {
+  order: Order;
+  /** Customer location, null when the order has no coordinates */
+  position: LatLng | null;
+  /** Distance from the previous stop (or the inventory for the first stop) in km */
+  legKm: number | null;
+  /** Cash the agent must collect at this stop */
+  codAmount: number;
+}
+
+export interface DeliveryRun {
+  /** Agent ID, null for orders whose delivery assignment has no agent */
+  agentId: number | null;
+  agent: AssignedUser | null;
+  /** Stops in visiting order; stops without coordinates are appended last */
+  stops: RunStop[];
+  distanceKm: number;
+  codTotal: number;
+  codCount: number;
+  outForDeliveryCount: number;
+}
+
+/**
+ * Active delivery (inventory → customer) assignment agent of an order
+ */
+export function getDeliveryAgent(order: Order): AssignedUser | null {
+  const assignment = order.assignments?.find(
+    (a) => a.assignment_type === 'inventory_to_customer' && a.is_active
+  );
+  return assignment?.assigned_to || null;
+}
+
+/**
+ * Amount the agent collects on delivery: the order total for unpaid COD orders, otherwise 0
+ */
+export function getCodAmount(order: Order): number {
+  if (order.payment_method !== 'cod' || order.payment_status === 'paid') return 0;
+  return Number(order.total_amount) || 0;
+}
+
+/**
+ * Order stops with the nearest-neighbour heuristic, starting from the origin
+ * (the inventory) or from the first located order when the origin is unknown.
+ */
+export function planStops(orders: Order[], origin: LatLng | null): RunStop[] {
+  const remaining: Array<{ order: Order; position: LatLng }> = [];
+  const unlocated: RunStop[] = [];
+
+  for (const order of orders) {
+    const position = toLatLng(order.customer?.latitude, order.customer?.longitude);
+    if (position) {
+      remaining.push({ order, position });
+    } else {
+      unlocated.push({ order, position: null, legKm: null, codAmount: getCodAmount(order) });
+    }
+  }
+
+  const stops: RunStop[] = [];
+  let current = origin;
+
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    let nearestKm = current ? haversineKm(current, remaining[0].position) : 0;
+    if (current) {
+      for (let i = 1; i < remaining.length; i++) {
+        const km = haversineKm(current, remaining[i].position);
+        if (km < nearestKm) {
+          nearestIndex = i;
+          nearestKm = km;
+        }
+      }
+    }
+
+    const [next] = remaining.splice(nearestIndex, 1);
+    stops.push({
+      order: next.order,
+      position: next.position,
+      legKm: current ? nearestKm : null,
+      codAmount: getCodAmount(next.order),
+    });
+    current = next.position;
+  }
+
+  return [...stops, ...unlocated];
+}
+
+/**
+ * Group dispatch orders by delivery agent and plan each agent's route.
+ * Runs are sorted by stop count, the unassigned group last.
+ */
+export function buildDeliveryRuns(orders: Order[], origin: LatLng | null): DeliveryRun[] {
+  const groups = new Map<number | null, { agent: AssignedUser | null; orders: Order[] }>();
+
+  for (const order of orders) {
+    const agent = getDeliveryAgent(order);
+    const key = agent?.id ?? null;
+    const group = groups.get(key) || { agent, orders: [] };
+    group.orders.push(order);
+    groups.set(key, group);
+  }
+
+  const runs = Array.from(groups.entries()).map(([agentId, { agent, orders: agentOrders }]) => {
+    const stops = planStops(agentOrders, origin);
+    const codStops = stops.filter((stop) => stop.codAmount > 0);
+    return {
+      agentId,
+      agent,
+      stops,
+      distanceKm: stops.reduce((sum, stop) => sum + (stop.legKm ?? 0), 0),
+      codTotal: codStops.reduce((sum, stop) => sum + stop.codAmount, 0),
+      codCount: codStops.length,
+      outForDeliveryCount: agentOrders.filter((o) => o.status === 'out_for_delivery').length,
+    };
+  });
+
+  return runs.sort((a, b) => {
+    if (a.agentId === null) return 1;
+    if (b.agentId === null) return -1;
+    return b.stops.length - a.stops.length;
+  });
+}
@@ -0,0 +1,151 @@
+import { getCodAmount } from '@/lib/dispatch/delivery-runs';
+import { toLatLng, type LatLng } from '@/lib/geo';
+import type { Assignment, Order } from '@/lib/services/orders';
+
+/**
+ * pickup: collecting a parcel from a vendor
+ * delivery: taking a parcel out of the inventory to the customer (or back to the vendor for returns)
+ */
+export type RunLeg = 'pickup' | 'delivery';
+
+export interface MyRunStop {
+  order: Order;
+  /** The current agent's active assignment on the order */
+  assignment: Assignment;
+  leg: RunLeg;
+  /** Cash to collect on delivery; 0 for pickups */
+  codAmount: number;
+}
+
+export interface MyRuns {
+  pickups: MyRunStop[];
+  deliveries: MyRunStop[];
+  /** Cash still to collect across open deliveries */
+  codToCollect: number;
+}
+
+/**
+ * Assignment types where the agent collects a parcel from the vendor
+ */
+const PICKUP_ASSIGNMENT_TYPES = ['vendor_to_inventory'];
+
+function isSameDay(value: string | null | undefined, now: Date): boolean {
+  return !!value && new Date(value).toDateString() === now.toDateString();
+}
+
+/**
+ * Active assignment of the given agent on an order
+ */
+export function getAgentAssignment(order: Order, agentId: number): Assignment | null {
+  return (
+    order.assignments?.find((a) => a.is_active && a.assigned_to?.id === agentId) ?? null
+  );
+}
+
+/**
+ * Split the agent's assigned orders into pickups and deliveries, oldest assignment first
+ */
+export function buildMyRuns(orders: Order[], agentId: number): MyRuns {
+  const stops: MyRunStop[] = [];
+
+  for (const order of orders) {
+    const assignment = getAgentAssignment(order, agentId);
+    if (!assignment) continue;
+    const leg: RunLeg = PICKUP_ASSIGNMENT_TYPES.includes(assignment.assignment_type) ? 'pickup' : 'delivery';
+    stops.push({
+      order,
+      assignment,
+      leg,
+      // Return legs hand the parcel back to the vendor, nothing is collected
+      codAmount: assignment.assignment_type === 'inventory_to_customer' ? getCodAmount(order) : 0,
+    });
+  }
+
+  stops.sort((a, b) => a.assignment.assigned_at.localeCompare(b.assignment.assigned_at));
+  const deliveries = stops.filter((stop) => stop.leg === 'delivery');
+
+  return {
+    pickups: stops.filter((stop) => stop.leg === 'pickup'),
+    deliveries,
+    codToCollect: deliveries.reduce((sum, stop) => sum + stop.codAmount, 0),
+  };
+}
+
+/**
+ * Cash the agent collected today: COD totals of orders they delivered since midnight
+ */
+export function getCashCollectedToday(
+  deliveredOrders: Order[],
+  agentId: number,
+  now = new Date()
+): { amount: number; count: number } {
+  let amount = 0;
+  let count = 0;
+
+  for (const order of deliveredOrders) {
+    const assignment = order.assignments?.find(
+      (a) => a.assignment_type === 'inventory_to_customer' && a.assigned_to?.id === agentId
+    );
+    if (!assignment || !isSameDay(assignment.completed_at ?? order.updated_at, now)) continue;
+    if (order.payment_method !== 'cod') continue;
+    amount += Number(order.total_amount) || 0;
+    count++;
+  }
+
+  return { amount, count };
+}
+
+/**
+ * Who the agent meets at a stop
+ */
+export interface StopContact {
+  name: string;
+  mobile: string | null;
+  address: string | null;
+  position: LatLng | null;
+}
+
+/**
+ * The vendor for pickups and returns, the customer for deliveries
+ */
+export function getStopContact(stop: MyRunStop, locale: string): StopContact {
+  if (stop.assignment.assignment_type === 'inventory_to_customer') {
+    const customer = stop.order.customer;
+    return {
+      name: customer?.name || '',
+      mobile: customer?.mobile || null,
+      address: customer?.full_address || customer?.address || null,
+      position: toLatLng(customer?.latitude, customer?.longitude),
+    };
+  }
+
+  const vendor = stop.order.vendor;
+  return {
+    name: (locale === 'ar' ? vendor?.name_ar : vendor?.name_en) || vendor?.name || '',
+    mobile: vendor?.mobile || vendor?.phone || null,
+    address: vendor?.address || null,
+    position: toLatLng(vendor?.latitude, vendor?.longitude),
+  };
+}
+
+/**
+ * Digits-only international number for wa.me links. Local Egyptian numbers
+ * (leading 0) get the 20 country code.
+ */
+export function toWhatsAppNumber(mobile: string): string {
+  const digits = mobile.replace(/\D/g, '');
+  if (digits.startsWith('00')) return digits.slice(2);
+  if (digits.startsWith('0')) return `20${digits.slice(1)}`;
+  return digits;
+}
+
+export function getWhatsAppUrl(mobile: string): string {
+  return `https://wa.me/${toWhatsAppNumber(mobile)}`;
+}
+
+/**
+ * Directions to a point in the device's maps app (Google Maps on the web)
+ */
+export function getDirectionsUrl(latitude: number, longitude: number): string {
+  return `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}`;
+}
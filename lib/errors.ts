@@ -93,6 +93,25 @@ export function isNotImplementedError(error: unknown): boolean {
   return isHttpError(error, 501);
 }
 
+/**
+ * Checks if a request never got an HTTP response (offline, DNS, connection reset).
+ * apiRequest reports these without a status.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) {
+    return true;
+  }
+
+  // Errors thrown by services themselves are Error instances; apiRequest throws plain objects
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    !(error instanceof Error) &&
+    'message' in error &&
+    !('status' in error && error.status)
+  );
+}
+
 /**
  * Formats all validation error messages into a single string
  * @param error - The error object from API
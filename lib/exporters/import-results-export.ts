@@ -0,0 +1,70 @@
+import Papa from 'papaparse';
+import { downloadBlob } from '@/lib/utils';
+import type { ImportReport, ImportResultRow } from '@/lib/types/import-orders';
+
+type TranslationFunction = (key: string) => string;
+
+/**
+ * Result file columns in output order, keyed by translation key in the "importOrders" namespace
+ */
+const RESULT_COLUMNS = [
+  'resultColSourceRows',
+  'resultColCustomerName',
+  'resultColCustomerMobile',
+  'resultColItems',
+  'resultColOutcome',
+  'resultColOrderNumber',
+  'resultColMessage',
+] as const;
+
+type ResultColumn = (typeof RESULT_COLUMNS)[number];
+
+/** Translation key for each outcome */
+const OUTCOME_KEYS: Record<ImportResultRow['outcome'], string> = {
+  pending: 'outcomePending',
+  created: 'outcomeCreated',
+  skipped_duplicate: 'outcomeSkippedDuplicate',
+  failed: 'outcomeFailed',
+};
+
+function buildRow(order: ImportReport['orders'][number], t: TranslationFunction): Record<ResultColumn, string> {
+  // Records loaded from the server have no customer data
+  const payload = order.payload;
+  return {
+    resultColSourceRows: order.sourceRows.join(', '),
+    resultColCustomerName: payload?.customer.name ?? '',
+    resultColCustomerMobile: payload?.customer.mobile ?? '',
+    resultColItems: (payload?.items ?? [])
+      .map((item) => `${item.product_name} × ${item.quantity}`)
+      .join(' | '),
+    resultColOutcome: t(OUTCOME_KEYS[order.outcome]),
+    resultColOrderNumber: order.orderNumber ?? '',
+    resultColMessage: order.message ?? '',
+  };
+}
+
+/**
+ * Download a CSV listing what happened to every order of an import,
+ * one line per order with the source file rows it came from.
+ * With `issuesOnly`, only orders that failed or were skipped as duplicates are listed.
+ */
+export function downloadImportResults(
+  report: ImportReport,
+  t: TranslationFunction,
+  options: { issuesOnly?: boolean } = {}
+): void {
+  const headers = RESULT_COLUMNS.map((column) => t(column));
+  const orders = options.issuesOnly
+    ? report.orders.filter((order) => order.outcome === 'failed' || order.outcome === 'skipped_duplicate')
+    : report.orders;
+  const rows = orders.map((order) => {
+    const row = buildRow(order, t);
+    return RESULT_COLUMNS.map((column) => row[column]);
+  });
+
+  const csv = Papa.unparse({ fields: headers, data: rows });
+  const baseName = report.fileName.replace(/\.[^.]+$/, '');
+  // BOM so Excel opens Arabic text as UTF-8
+  const blob = new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(blob, `${baseName}-import-${options.issuesOnly ? 'issues' : 'results'}.csv`);
+}
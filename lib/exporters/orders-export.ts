@@ -0,0 +1,160 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { fetchAllPages } from '@/lib/api';
+import { fetchOrders, type Order, type OrderFilters, type Assignment } from '@/lib/services/orders';
+import { downloadBlob } from '@/lib/utils';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+/** Page size used while paging through the orders API for an export */
+const EXPORT_PAGE_SIZE = 100;
+
+type TranslationFunction = (key: string) => string;
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+export interface ExportProgress {
+  fetched: number;
+  total: number;
+}
+
+/**
+ * Page through fetchOrders with the given filters and collect every order.
+ * Filters the API ignores (governorate, city, customer name) are applied
+ * client-side so the export matches what the user filtered for.
+ */
+export async function fetchOrdersForExport(
+  filters: OrderFilters,
+  options: {
+    onProgress?: (progress: ExportProgress) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<Order[]> {
+  const orders = await fetchAllPages((page) => fetchOrders(page, EXPORT_PAGE_SIZE, filters), {
+    signal: options.signal,
+    onPage: (fetched, total) => options.onProgress?.({ fetched, total }),
+  });
+
+  return applyClientSideFilters(orders, filters);
+}
+
+function applyClientSideFilters(orders: Order[], filters: OrderFilters): Order[] {
+  const governorateId = filters.governorate_id ? Number(filters.governorate_id) : null;
+  const cityId = filters.city_id ? Number(filters.city_id) : null;
+  const customerName = filters.customer_name?.trim().toLowerCase();
+
+  return orders.filter((order) => {
+    if (governorateId && order.customer?.governorate_id !== governorateId) return false;
+    if (cityId && order.customer?.city_id !== cityId) return false;
+    if (customerName && !order.customer?.name?.toLowerCase().includes(customerName)) return false;
+    return true;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Row building
+// ---------------------------------------------------------------------------
+
+/**
+ * Export columns in output order, keyed by translation key in the "orders" namespace
+ */
+const EXPORT_COLUMNS = [
+  'exportColOrderNumber',
+  'exportColTrackNumber',
+  'exportColCreatedAt',
+  'exportColVendor',
+  'exportColCustomerName',
+  'exportColCustomerMobile',
+  'exportColGovernorate',
+  'exportColCity',
+  'exportColAddress',
+  'exportColStatus',
+  'exportColPaymentMethod',
+  'exportColPaymentStatus',
+  'exportColSubtotal',
+  'exportColShippingCost',
+  'exportColTotal',
+  'exportColPickupAgent',
+  'exportColDeliveryAgent',
+] as const;
+
+type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+
+function localizedName(
+  entity: { name?: string; name_en?: string; name_ar?: string } | undefined | null,
+  locale: string
+): string {
+  if (!entity) return '';
+  return (locale === 'ar' ? entity.name_ar : entity.name_en) || entity.name || entity.name_en || '';
+}
+
+/**
+ * Latest assignment of a type, preferring the active one
+ */
+function getAgentName(assignments: Assignment[] | undefined, type: string, locale: string): string {
+  const ofType = (assignments || []).filter((a) => a.assignment_type === type);
+  const assignment = ofType.find((a) => a.is_active) || ofType[ofType.length - 1];
+  return localizedName(assignment?.assigned_to, locale);
+}
+
+function buildRow(order: Order, locale: string): Record<ExportColumn, string | number> {
+  const customer = order.customer;
+  return {
+    exportColOrderNumber: order.order_number,
+    exportColTrackNumber: order.track_number,
+    exportColCreatedAt: order.created_at ? new Date(order.created_at).toLocaleString(locale) : '',
+    exportColVendor: localizedName(order.vendor, locale),
+    exportColCustomerName: customer?.name || '',
+    exportColCustomerMobile: customer?.mobile || '',
+    exportColGovernorate: customer?.governorate || '',
+    exportColCity: customer?.city || '',
+    exportColAddress: customer?.full_address || customer?.address || '',
+    exportColStatus: order.status_label || order.status,
+    exportColPaymentMethod: order.payment_method,
+    exportColPaymentStatus: order.payment_status_label || order.payment_status,
+    exportColSubtotal: order.subtotal,
+    exportColShippingCost: order.shipping_cost,
+    exportColTotal: order.total_amount,
+    exportColPickupAgent: getAgentName(order.assignments, 'vendor_to_inventory', locale),
+    exportColDeliveryAgent: getAgentName(order.assignments, 'inventory_to_customer', locale),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// File generation
+// ---------------------------------------------------------------------------
+
+/**
+ * Write orders to a CSV or XLSX file and download it.
+ * Headers come from the current locale's translations.
+ */
+export function downloadOrdersExport(
+  orders: Order[],
+  format: ExportFormat,
+  t: TranslationFunction,
+  locale: string
+): void {
+  const headers = EXPORT_COLUMNS.map((column) => t(column));
+  const rows = orders.map((order) => {
+    const row = buildRow(order, locale);
+    return EXPORT_COLUMNS.map((column) => row[column]);
+  });
+  const filename = `orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'csv') {
+    const csv = Papa.unparse({ fields: headers, data: rows });
+    // BOM so Excel opens Arabic text as UTF-8
+    const blob = new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(blob, filename);
+  } else {
+    const ws = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+    const wb = XLSX.utils.book_new();
+    if (locale === 'ar') {
+      wb.Workbook = { Views: [{ RTL: true }] };
+    }
+    XLSX.utils.book_append_sheet(wb, ws, 'Orders');
+    XLSX.writeFile(wb, filename);
+  }
+}
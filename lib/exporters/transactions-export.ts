@@ -0,0 +1,137 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { fetchAllPages } from '@/lib/api';
+import {
+  fetchTransactions,
+  fetchWalletTransactions,
+  getWalletOwnerName,
+  type Transaction,
+  type TransactionFilters,
+} from '@/lib/services/wallet';
+import type { ExportFormat, ExportProgress } from '@/lib/exporters/orders-export';
+import { downloadBlob } from '@/lib/utils';
+
+/** Page size used while paging through the transactions API for an export */
+const EXPORT_PAGE_SIZE = 100;
+
+type TranslationFunction = (key: string) => string;
+
+/**
+ * Filters for a ledger export; pagination is handled by the export itself
+ */
+export type LedgerExportFilters = Omit<TransactionFilters, 'page' | 'per_page'>;
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+/**
+ * Page through a wallet's ledger (when walletId is given) or the global
+ * transaction list and collect every transaction, oldest first so the
+ * balance column reads as a running balance.
+ */
+export async function fetchTransactionsForExport(
+  filters: LedgerExportFilters,
+  options: {
+    walletId?: number;
+    onProgress?: (progress: ExportProgress) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<Transaction[]> {
+  const transactions = await fetchAllPages(
+    (page) => {
+      const pageFilters = { ...filters, page, per_page: EXPORT_PAGE_SIZE };
+      return options.walletId
+        ? fetchWalletTransactions(options.walletId, pageFilters)
+        : fetchTransactions(pageFilters);
+    },
+    {
+      signal: options.signal,
+      onPage: (fetched, total) => options.onProgress?.({ fetched, total }),
+    }
+  );
+
+  return transactions.sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id);
+}
+
+// ---------------------------------------------------------------------------
+// Row building
+// ---------------------------------------------------------------------------
+
+/**
+ * Export columns in output order, keyed by translation key in the "ledgerExport" namespace
+ */
+const EXPORT_COLUMNS = [
+  'colDate',
+  'colReference',
+  'colWalletOwner',
+  'colType',
+  'colCategory',
+  'colDescription',
+  'colOrderNumber',
+  'colCredit',
+  'colDebit',
+  'colBalanceAfter',
+  'colCreatedBy',
+] as const;
+
+type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+
+function buildRow(transaction: Transaction, locale: string): Record<ExportColumn, string | number> {
+  const createdBy = transaction.created_by;
+  return {
+    colDate: new Date(transaction.created_at).toLocaleString(locale),
+    colReference: transaction.reference_number,
+    colWalletOwner: transaction.wallet
+      ? getWalletOwnerName(transaction.wallet, locale)
+      : transaction.wallet_id
+        ? `#${transaction.wallet_id}`
+        : '',
+    colType: transaction.type_label || transaction.type,
+    colCategory: transaction.category_label || transaction.category,
+    colDescription: transaction.description || '',
+    colOrderNumber: transaction.order?.order_number || transaction.metadata?.order_number || '',
+    colCredit: transaction.type === 'credit' ? Number(transaction.amount) : '',
+    colDebit: transaction.type === 'debit' ? Number(transaction.amount) : '',
+    colBalanceAfter: Number(transaction.balance_after),
+    colCreatedBy: createdBy ? (locale === 'ar' ? createdBy.name_ar : createdBy.name_en) || createdBy.name_en : '',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// File generation
+// ---------------------------------------------------------------------------
+
+/**
+ * Write transactions to a CSV or XLSX file and download it.
+ * Headers come from the current locale's translations.
+ */
+export function downloadTransactionsExport(
+  transactions: Transaction[],
+  format: ExportFormat,
+  t: TranslationFunction,
+  locale: string,
+  filenamePrefix = 'transactions'
+): void {
+  const headers = EXPORT_COLUMNS.map((column) => t(column));
+  const rows = transactions.map((transaction) => {
+    const row = buildRow(transaction, locale);
+    return EXPORT_COLUMNS.map((column) => row[column]);
+  });
+  const filename = `${filenamePrefix}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'csv') {
+    const csv = Papa.unparse({ fields: headers, data: rows });
+    // BOM so Excel opens Arabic text as UTF-8
+    const blob = new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(blob, filename);
+  } else {
+    const ws = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+    const wb = XLSX.utils.book_new();
+    if (locale === 'ar') {
+      wb.Workbook = { Views: [{ RTL: true }] };
+    }
+    XLSX.utils.book_append_sheet(wb, ws, 'Ledger');
+    XLSX.writeFile(wb, filename);
+  }
+}
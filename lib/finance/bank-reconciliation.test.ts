@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { reconcileBankStatement, type ReconciliationRecord } from '@/lib/finance/bank-reconciliation';
+import type { BankStatementLine } from '@/lib/parsers/bank-statement-parser';
+
+function line(row: number, overrides: Partial<BankStatementLine> = {}): BankStatementLine {
+  return { row, date: '2026-03-10', amount: -500, reference: '', description: '', ...overrides };
+}
+
+function record(id: number, overrides: Partial<ReconciliationRecord> = {}): ReconciliationRecord {
+  return {
+    kind: 'settlement',
+    id,
+    reference: `SET-${id}`,
+    date: '2026-03-10',
+    amount: -500,
+    label: `Vendor ${id}`,
+    ...overrides,
+  };
+}
+
+/** Matched pairs as [line row, record id, matchedBy] */
+function pairs(lines: BankStatementLine[], records: ReconciliationRecord[]) {
+  return reconcileBankStatement(lines, records).matches.map((m) => [m.line.row, m.record.id, m.matchedBy]);
+}
+
+describe('reconcileBankStatement', () => {
+  it.each([
+    ['SET-1', 'reference'],
+    ['SET 1', 'description'],
+    ['SET1', 'reference'],
+    ['Payout set-1 vendor', 'description'],
+  ] as const)('matches a line quoting %s in its %s', (text, field) => {
+    const records = [record(1), record(2)];
+    // Same amount and date for both, so only the reference can pick record 1
+    expect(pairs([line(1, { [field]: text })], records)).toEqual([[1, 1, 'reference']]);
+  });
+
+  it('does not take SET1 for a mention of SET12', () => {
+    const records = [record(1, { date: '2026-01-01' }), record(12, { date: '2026-01-01' })];
+
+    expect(pairs([line(1, { reference: 'SET12' })], records)).toEqual([[1, 12, 'reference']]);
+  });
+
+  it('needs the amount to agree even when the reference is quoted', () => {
+    const result = reconcileBankStatement(
+      [line(1, { reference: 'SET-1', amount: -450 })],
+      [record(1)]
+    );
+
+    expect(result.matches).toEqual([]);
+    expect(result.unmatchedLines).toHaveLength(1);
+    expect(result.unmatchedRecords).toHaveLength(1);
+  });
+
+  it.each([
+    ['2026-03-10', true],
+    ['2026-03-13', true],
+    ['2026-03-07', true],
+    ['2026-03-14', false],
+    [null, false],
+  ])('pairs by amount a line booked on %s', (date, matched) => {
+    const result = reconcileBankStatement([line(1, { date })], [record(1)]);
+
+    expect(result.matches.map((m) => m.matchedBy)).toEqual(matched ? ['amount_date'] : []);
+  });
+
+  it('pairs equal amounts by the closest dates', () => {
+    const lines = [line(1, { date: '2026-03-11' }), line(2, { date: '2026-03-14' })];
+    const records = [record(1, { date: '2026-03-13' }), record(2, { date: '2026-03-10' })];
+
+    expect(pairs(lines, records)).toEqual([
+      [1, 2, 'amount_date'],
+      [2, 1, 'amount_date'],
+    ]);
+  });
+
+  it('uses each line and record once and reports what is left', () => {
+    const lines = [line(1, { reference: 'SET-1' }), line(2), line(3, { amount: 250 })];
+    const records = [record(1), record(2), record(3, { kind: 'transaction', amount: 100, date: '2026-03-01' })];
+
+    const result = reconcileBankStatement(lines, records);
+
+    expect(result.matches.map((m) => [m.line.row, m.record.id, m.matchedBy])).toEqual([
+      [1, 1, 'reference'],
+      [2, 2, 'amount_date'],
+    ]);
+    expect(result.unmatchedLines.map((l) => l.row)).toEqual([3]);
+    expect(result.unmatchedRecords.map((r) => r.id)).toEqual([3]);
+  });
+
+  it('treats amounts within a cent as equal', () => {
+    expect(pairs([line(1, { amount: -500.004 })], [record(1)])).toEqual([[1, 1, 'amount_date']]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Bank reconciliation
+ * Matches bank statement lines to settlements and manual wallet adjustments
+ * by amount, date and reference, and reports what is left unmatched on
+ * either side.
+ *
+ * Sign convention: money into the platform's bank account is positive.
+ * A payout settlement is money out, a collection settlement is money in;
+ * a wallet debit is money paid out to the owner, a credit is money received.
+ */
+
+import { fetchAllPages } from '@/lib/api';
+import type { BankStatementLine } from '@/lib/parsers/bank-statement-parser';
+import {
+  fetchSettlements,
+  fetchTransactions,
+  getSettlementSettlebleName,
+  TRANSACTION_CATEGORIES,
+  type Settlement,
+  type Transaction,
+} from '@/lib/services/wallet';
+
+/** Days a bank line may be booked before or after the record it pays */
+export const RECONCILIATION_DATE_TOLERANCE_DAYS = 3;
+
+/** Amounts closer than this are treated as equal */
+const AMOUNT_TOLERANCE = 0.01;
+
+/** Page size when walking settlements and transactions */
+const RECONCILIATION_PAGE_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A settlement or transaction the bank statement should contain
+ */
+export interface ReconciliationRecord {
+  kind: 'settlement' | 'transaction';
+  id: number;
+  /** Settlement number or transaction reference, looked for in the bank line */
+  reference: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Signed from the bank's side, see the sign convention above */
+  amount: number;
+  /** Wallet owner or transaction description */
+  label: string;
+}
+
+export interface ReconciliationMatch {
+  line: BankStatementLine;
+  record: ReconciliationRecord;
+  /** reference: the line quotes the record's number; amount_date: same amount within the date tolerance */
+  matchedBy: 'reference' | 'amount_date';
+}
+
+export interface ReconciliationResult {
+  matches: ReconciliationMatch[];
+  unmatchedLines: BankStatementLine[];
+  unmatchedRecords: ReconciliationRecord[];
+}
+
+export interface ReconciliationRange {
+  /** YYYY-MM-DD */
+  from: string;
+  /** YYYY-MM-DD */
+  to: string;
+}
+
+function toDay(value: string): string {
+  return value.slice(0, 10);
+}
+
+function shiftDay(day: string, days: number): string {
+  return new Date(Date.parse(day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function dayDistance(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+function normalizeReference(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function referenceTokens(value: string): string[] {
+  return value.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Whether the tokens quote the reference as whole words, so "SET1" is not
+ * found in "SET12". Separators inside the reference may differ or be missing
+ * ("SET-0001", "SET 0001" and "SET0001" all quote SET-0001).
+ */
+function quotesReference(tokens: string[], reference: string): boolean {
+  const target = normalizeReference(reference);
+  if (!target) return false;
+  for (let start = 0; start < tokens.length; start++) {
+    let joined = '';
+    for (let end = start; end < tokens.length && joined.length < target.length; end++) {
+      joined += tokens[end];
+      if (joined === target) return true;
+    }
+  }
+  return false;
+}
+
+function isSameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < AMOUNT_TOLERANCE;
+}
+
+// ---------------------------------------------------------------------------
+// Records
+// ---------------------------------------------------------------------------
+
+export function settlementToRecord(settlement: Settlement, locale: string): ReconciliationRecord {
+  const amount = Math.abs(Number(settlement.amount));
+  return {
+    kind: 'settlement',
+    id: settlement.id,
+    reference: settlement.settlement_number,
+    date: toDay(settlement.confirmed_at ?? settlement.created_at),
+    amount: settlement.type === 'payout' ? -amount : amount,
+    label: getSettlementSettlebleName(settlement, locale),
+  };
+}
+
+export function transactionToRecord(transaction: Transaction): ReconciliationRecord {
+  return {
+    kind: 'transaction',
+    id: transaction.id,
+    reference: transaction.reference_number,
+    date: toDay(transaction.created_at),
+    amount: Number(transaction.signed_amount),
+    label: transaction.description || transaction.category_label,
+  };
+}
+
+/**
+ * Dates covered by the statement, null when no line has a readable date
+ */
+export function getStatementRange(lines: BankStatementLine[]): ReconciliationRange | null {
+  const days = lines.map((line) => line.date).filter((day): day is string => !!day).sort();
+  if (days.length === 0) return null;
+  return { from: days[0], to: days[days.length - 1] };
+}
+
+/**
+ * Settlements and manual adjustments the statement period should account for.
+ * Settlement-category transactions are the ledger side of settlements and
+ * would only duplicate them, so they are left out.
+ */
+export async function fetchReconciliationRecords(
+  range: ReconciliationRange,
+  locale: string
+): Promise<ReconciliationRecord[]> {
+  const from = shiftDay(range.from, -RECONCILIATION_DATE_TOLERANCE_DAYS);
+  const to = shiftDay(range.to, RECONCILIATION_DATE_TOLERANCE_DAYS);
+  const inRange = (record: ReconciliationRecord) => record.date >= from && record.date <= to;
+
+  const [settlements, adjustments] = await Promise.all([
+    fetchAllPages((page) =>
+      fetchSettlements({ page, per_page: RECONCILIATION_PAGE_SIZE, status: 'confirmed' }, ['settleble'])
+    ),
+    fetchAllPages((page) =>
+      fetchTransactions({
+        page,
+        per_page: RECONCILIATION_PAGE_SIZE,
+        category: TRANSACTION_CATEGORIES.ADJUSTMENT,
+        from_date: from,
+        to_date: to,
+      })
+    ),
+  ]);
+
+  return [
+    ...settlements
+      .map((settlement) => settlementToRecord(settlement, locale))
+      .filter(inRange),
+    ...adjustments.map(transactionToRecord).filter(inRange),
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Pair bank lines with records. Lines quoting a record's number are matched
+ * first; the rest are paired by equal amount, closest date first, within
+ * RECONCILIATION_DATE_TOLERANCE_DAYS. Each line and record is used once.
+ */
+export function reconcileBankStatement(
+  lines: BankStatementLine[],
+  records: ReconciliationRecord[]
+): ReconciliationResult {
+  const matches: ReconciliationMatch[] = [];
+  const matchedLines = new Set<BankStatementLine>();
+  const matchedRecords = new Set<ReconciliationRecord>();
+
+  const match = (line: BankStatementLine, record: ReconciliationRecord, matchedBy: ReconciliationMatch['matchedBy']) => {
+    matches.push({ line, record, matchedBy });
+    matchedLines.add(line);
+    matchedRecords.add(record);
+  };
+
+  // Pass 1: the bank line quotes the settlement number or transaction reference
+  for (const line of lines) {
+    const tokens = referenceTokens(`${line.reference} ${line.description}`);
+    if (tokens.length === 0) continue;
+    const record = records.find(
+      (r) => !matchedRecords.has(r) && isSameAmount(r.amount, line.amount) && quotesReference(tokens, r.reference)
+    );
+    if (record) match(line, record, 'reference');
+  }
+
+  // Pass 2: same amount, closest dates first
+  const candidates: Array<{ line: BankStatementLine; record: ReconciliationRecord; distance: number }> = [];
+  for (const line of lines) {
+    if (matchedLines.has(line) || !line.date) continue;
+    for (const record of records) {
+      if (matchedRecords.has(record) || !isSameAmount(record.amount, line.amount)) continue;
+      const distance = dayDistance(line.date, record.date);
+      if (distance <= RECONCILIATION_DATE_TOLERANCE_DAYS) {
+        candidates.push({ line, record, distance });
+      }
+    }
+  }
+  candidates.sort((a, b) => a.distance - b.distance);
+  for (const { line, record } of candidates) {
+    if (matchedLines.has(line) || matchedRecords.has(record)) continue;
+    match(line, record, 'amount_date');
+  }
+
+  return {
+    matches: matches.sort((a, b) => a.line.row - b.line.row),
+    unmatchedLines: lines.filter((line) => !matchedLines.has(line)),
+    unmatchedRecords: records
+      .filter((record) => !matchedRecords.has(record))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
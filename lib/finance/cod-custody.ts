@@ -0,0 +1,163 @@
+/**
+ * COD custody
+ * Tracks the cash agents collect on delivery until they hand it in at a hub.
+ * Every cod_collection transaction on an agent's wallet is cash the agent
+ * holds; it stays outstanding until a COD handover covers it.
+ */
+
+import {
+  fetchCodHandovers,
+  fetchTransactions,
+  fetchWallets,
+  getWalletOwnerType,
+  TRANSACTION_CATEGORIES,
+  type CodHandover,
+  type Transaction,
+  type Wallet,
+} from '@/lib/services/wallet';
+import { fetchAllPages } from '@/lib/api';
+
+/** Cash held longer than this many hours is reported as aged by default */
+export const DEFAULT_CUSTODY_AGEING_HOURS = 24;
+
+/** How far back the handover history is read */
+export const HANDOVER_LOOKBACK_DAYS = 60;
+
+/** Handovers off by less than this are treated as exact */
+const AMOUNT_TOLERANCE = 0.01;
+
+/** Page size when walking wallets, transactions and handovers */
+const CUSTODY_PAGE_SIZE = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A delivered COD order whose cash is still with the agent
+ */
+export interface CustodyItem {
+  transaction: Transaction;
+  /** Cash collected for the order */
+  amount: number;
+  /** Hours since the cash was collected */
+  heldHours: number;
+}
+
+/**
+ * Cash one agent is holding
+ */
+export interface AgentCustody {
+  wallet: Wallet;
+  /** Oldest first */
+  items: CustodyItem[];
+  outstanding: number;
+  /** Hours the oldest item has been held */
+  oldestHeldHours: number;
+}
+
+export interface CodCustodyData {
+  agents: AgentCustody[];
+  handovers: CodHandover[];
+}
+
+function shiftDay(days: number): string {
+  return new Date(Date.now() + days * 24 * HOUR_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Hours between the transaction and now
+ */
+export function getHeldHours(createdAt: string, now = Date.now()): number {
+  return Math.max(0, (now - new Date(createdAt).getTime()) / HOUR_MS);
+}
+
+/**
+ * Whether the cash counted at the hub differs from what the orders add up to
+ */
+export function hasHandoverDiscrepancy(handover: Pick<CodHandover, 'difference'>): boolean {
+  return Math.abs(Number(handover.difference)) >= AMOUNT_TOLERANCE;
+}
+
+/**
+ * Items held longer than the ageing threshold, oldest first, across all agents
+ */
+export function getAgedCustody(
+  agents: AgentCustody[],
+  ageingHours: number
+): Array<CustodyItem & { wallet: Wallet }> {
+  return agents
+    .flatMap((agent) => agent.items.map((item) => ({ ...item, wallet: agent.wallet })))
+    .filter((item) => item.heldHours > ageingHours)
+    .sort((a, b) => b.heldHours - a.heldHours);
+}
+
+async function fetchAgentWallets(): Promise<Map<number, Wallet>> {
+  const wallets = await fetchAllPages((page) =>
+    fetchWallets({ page, per_page: CUSTODY_PAGE_SIZE, includes: ['walletable'] })
+  );
+  return new Map(
+    wallets
+      .filter((wallet) => getWalletOwnerType(wallet.walletable_type) === 'user')
+      .map((wallet) => [wallet.id, wallet])
+  );
+}
+
+/**
+ * Every COD collection no handover covers yet, however old
+ */
+function fetchOutstandingCollections(): Promise<Transaction[]> {
+  return fetchAllPages((page) =>
+    fetchTransactions({
+      page,
+      per_page: CUSTODY_PAGE_SIZE,
+      category: TRANSACTION_CATEGORIES.COD_COLLECTION,
+      handed_over: false,
+    })
+  );
+}
+
+function fetchRecentHandovers(fromDate: string): Promise<CodHandover[]> {
+  return fetchAllPages((page) => fetchCodHandovers({ page, per_page: CUSTODY_PAGE_SIZE, from_date: fromDate }));
+}
+
+/**
+ * Outstanding cash per agent and the handovers recorded in the lookback window.
+ * Agents are sorted by outstanding amount, highest first.
+ */
+export async function fetchCodCustody(): Promise<CodCustodyData> {
+  const [wallets, collections, handovers] = await Promise.all([
+    fetchAgentWallets(),
+    fetchOutstandingCollections(),
+    fetchRecentHandovers(shiftDay(-HANDOVER_LOOKBACK_DAYS)),
+  ]);
+
+  const now = Date.now();
+  const byWallet = new Map<number, AgentCustody>();
+
+  for (const transaction of collections) {
+    const walletId = transaction.wallet_id ?? transaction.wallet?.id;
+    const wallet = walletId !== undefined ? wallets.get(walletId) : undefined;
+    if (!wallet) continue;
+
+    const agent = byWallet.get(wallet.id) ?? { wallet, items: [], outstanding: 0, oldestHeldHours: 0 };
+    const item: CustodyItem = {
+      transaction,
+      amount: Math.abs(Number(transaction.amount)),
+      heldHours: getHeldHours(transaction.created_at, now),
+    };
+    agent.items.push(item);
+    agent.outstanding += item.amount;
+    agent.oldestHeldHours = Math.max(agent.oldestHeldHours, item.heldHours);
+    byWallet.set(wallet.id, agent);
+  }
+
+  const agents = [...byWallet.values()];
+  for (const agent of agents) {
+    agent.items.sort((a, b) => b.heldHours - a.heldHours);
+  }
+  agents.sort((a, b) => b.outstanding - a.outstanding);
+
+  return {
+    agents,
+    handovers: handovers.sort((a, b) => b.created_at.localeCompare(a.created_at)),
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Settlement run
+ * Month-end settlement of many wallets at once: finds the wallets with
+ * unsettled transactions, previews what each settlement would come to for
+ * a period, then creates and confirms the settlements one wallet at a time
+ * so a failure on one wallet doesn't stop the rest.
+ */
+
+import { fetchAllPages } from '@/lib/api';
+import { formatValidationErrors, getErrorMessage } from '@/lib/errors';
+import {
+  confirmSettlement,
+  createSettlement,
+  fetchWallets,
+  fetchWalletTransactions,
+  type Settlement,
+  type Transaction,
+  type Wallet,
+  type WalletSettlement,
+} from '@/lib/services/wallet';
+
+/** Page size when walking wallets and transactions */
+const RUN_PAGE_SIZE = 100;
+
+export interface SettlementRunPeriod {
+  /** YYYY-MM-DD */
+  period_from: string;
+  /** YYYY-MM-DD, not in the future */
+  period_to: string;
+}
+
+export interface SettlementRunPreview {
+  wallet: Wallet;
+  /** Net of the unsettled transactions in the period; positive is owed to the owner */
+  net: number;
+  /** payout when the platform owes the owner, collection when the owner owes the platform */
+  type: Settlement['type'];
+  transactionCount: number;
+}
+
+/**
+ * Where a wallet stands in the run
+ */
+export type SettlementRunResult =
+  | { status: 'created'; settlement: Settlement }
+  | { status: 'confirmed'; settlement: Settlement }
+  | { status: 'failed'; error: string }
+  | { status: 'confirm_failed'; settlement: Settlement; error: string };
+
+function getRunErrorMessage(error: unknown): string {
+  return formatValidationErrors(error) || getErrorMessage(error);
+}
+
+function toDay(value: string): string {
+  return value.slice(0, 10);
+}
+
+/**
+ * Transactions already taken by a pending or confirmed settlement of the wallet
+ */
+function isSettled(transaction: Transaction, settlements: WalletSettlement[]): boolean {
+  const day = toDay(transaction.created_at);
+  return settlements.some(
+    (settlement) =>
+      settlement.status !== 'cancelled' &&
+      day >= toDay(settlement.period_from) &&
+      day <= toDay(settlement.period_to)
+  );
+}
+
+/**
+ * Every wallet with unsettled transactions, with its owner and past settlements
+ */
+export async function fetchWalletsToSettle(): Promise<Wallet[]> {
+  const wallets = await fetchAllPages((page) =>
+    fetchWallets({ page, per_page: RUN_PAGE_SIZE, includes: ['walletable', 'settlements'] })
+  );
+  return wallets.filter((wallet) => wallet.has_unsettled_transactions);
+}
+
+function fetchPeriodTransactions(walletId: number, period: SettlementRunPeriod): Promise<Transaction[]> {
+  return fetchAllPages((page) =>
+    fetchWalletTransactions(walletId, {
+      page,
+      per_page: RUN_PAGE_SIZE,
+      from_date: period.period_from,
+      to_date: period.period_to,
+    })
+  );
+}
+
+/**
+ * What a settlement of the wallet for the period would come to. The server
+ * computes the real amount when the settlement is created; this is an estimate
+ * from the wallet's transactions in the period that no other settlement covers.
+ */
+export async function previewWalletSettlement(
+  wallet: Wallet,
+  period: SettlementRunPeriod
+): Promise<SettlementRunPreview> {
+  const transactions = (await fetchPeriodTransactions(wallet.id, period)).filter(
+    (transaction) => !isSettled(transaction, wallet.settlements ?? [])
+  );
+  const net = transactions.reduce((sum, transaction) => sum + Number(transaction.signed_amount), 0);
+
+  return {
+    wallet,
+    net,
+    type: net >= 0 ? 'payout' : 'collection',
+    transactionCount: transactions.length,
+  };
+}
+
+/**
+ * Preview every wallet in turn, reporting after each one
+ */
+export async function previewSettlementRun(
+  wallets: Wallet[],
+  period: SettlementRunPeriod,
+  onProgress: (done: number) => void
+): Promise<SettlementRunPreview[]> {
+  const previews: SettlementRunPreview[] = [];
+
+  for (const wallet of wallets) {
+    previews.push(await previewWalletSettlement(wallet, period));
+    onProgress(previews.length);
+  }
+
+  return previews;
+}
+
+/**
+ * Create a settlement for each wallet in turn. Failures are reported per
+ * wallet and the run carries on with the next one.
+ */
+export async function createRunSettlements(
+  walletIds: number[],
+  period: SettlementRunPeriod & { notes?: string },
+  onResult: (walletId: number, result: SettlementRunResult) => void
+): Promise<void> {
+  for (const walletId of walletIds) {
+    try {
+      const settlement = await createSettlement(walletId, period);
+      onResult(walletId, { status: 'created', settlement });
+    } catch (error) {
+      onResult(walletId, { status: 'failed', error: getRunErrorMessage(error) });
+    }
+  }
+}
+
+/**
+ * Confirm the run's created settlements in turn
+ */
+export async function confirmRunSettlements(
+  settlements: Array<{ walletId: number; settlement: Settlement }>,
+  onResult: (walletId: number, result: SettlementRunResult) => void
+): Promise<void> {
+  for (const { walletId, settlement } of settlements) {
+    try {
+      const confirmed = await confirmSettlement(settlement.id);
+      onResult(walletId, { status: 'confirmed', settlement: confirmed });
+    } catch (error) {
+      onResult(walletId, { status: 'confirm_failed', settlement, error: getRunErrorMessage(error) });
+    }
+  }
+}
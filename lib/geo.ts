@@ -0,0 +1,35 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Parse a latitude/longitude pair, returning null when either is missing or invalid.
+ * Coordinates arrive as numbers or numeric strings depending on the endpoint.
+ */
+export function toLatLng(
+  latitude: number | string | null | undefined,
+  longitude: number | string | null | undefined
+): LatLng | null {
+  if (latitude === null || latitude === undefined || latitude === '') return null;
+  if (longitude === null || longitude === undefined || longitude === '') return null;
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (lat === 0 && lng === 0) return null;
+  return { lat, lng };
+}
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const R = 6371;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IMPORT_CHUNK_SIZE, runImportJob, type RunImportJobOptions } from '@/lib/import/chunked-import';
+import { saveImportJob, syncImportJob } from '@/lib/import/import-job-store';
+import type { CreateOrderRequest, ImportOrdersRequest, ImportOrdersResponse } from '@/lib/services/orders';
+import type { ImportJob, ImportJobOrder } from '@/lib/types/import-orders';
+
+vi.mock('@/lib/import/import-job-store', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/import/import-job-store')>()),
+  saveImportJob: vi.fn(),
+  syncImportJob: vi.fn(async (job: ImportJob) => {
+    job.serverId ??= 1;
+  }),
+}));
+
+function order(row: number, overrides: Partial<ImportJobOrder> = {}): ImportJobOrder {
+  return {
+    payload: { customer: { name: `Customer ${row}` } } as CreateOrderRequest,
+    sourceRows: [row],
+    outcome: 'pending',
+    ...overrides,
+  };
+}
+
+function makeJob(orders: ImportJobOrder[], overrides: Partial<ImportJob> = {}): ImportJob {
+  return {
+    id: 'import-1',
+    serverId: null,
+    ownerKey: 'vendor-1',
+    fileName: 'orders.csv',
+    status: 'running',
+    duplicateDecision: 'none',
+    duplicateWarningCount: 0,
+    orders,
+    createdAt: '2026-03-01T08:00:00Z',
+    updatedAt: '2026-03-01T08:00:00Z',
+    ...overrides,
+  };
+}
+
+function rows(count: number): ImportJobOrder[] {
+  return Array.from({ length: count }, (_, i) => order(i + 2));
+}
+
+/** A response creating every submitted order */
+function createdAll(request: ImportOrdersRequest): ImportOrdersResponse {
+  return {
+    success_count: request.orders.length,
+    failure_count: 0,
+    errors: [],
+    warnings: [],
+    created: request.orders.map((_, index) => ({
+      index,
+      order_id: 1000 + index,
+      order_number: `ORD-${index}`,
+    })),
+  };
+}
+
+function httpError(status: number, message = `HTTP ${status}`) {
+  return { status, message };
+}
+
+function run(job: ImportJob, submit: RunImportJobOptions['submit'], options: Partial<RunImportJobOptions> = {}) {
+  return runImportJob(job, { submit, duplicateMessage: (warning) => warning.message, ...options });
+}
+
+describe('runImportJob', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('submits pending orders in chunks and syncs once per chunk', async () => {
+    const job = makeJob(rows(IMPORT_CHUNK_SIZE * 2 + 10));
+    const submit = vi.fn(async (request: ImportOrdersRequest) => createdAll(request));
+    const statuses: string[] = [];
+    vi.mocked(syncImportJob).mockImplementation(async (synced) => {
+      synced.serverId ??= 1;
+      statuses.push(synced.status);
+    });
+
+    await run(job, submit);
+
+    expect(submit.mock.calls.map(([request]) => request.orders.length)).toEqual([
+      IMPORT_CHUNK_SIZE,
+      IMPORT_CHUNK_SIZE,
+      10,
+    ]);
+    // The first sync creates the server record, then one per chunk
+    expect(statuses).toEqual(['running', 'running', 'running', 'completed']);
+    expect(job.status).toBe('completed');
+    expect(job.orders.every((o) => o.outcome === 'created' && o.attempted)).toBe(true);
+    expect(job.orders[IMPORT_CHUNK_SIZE]).toMatchObject({ orderId: 1000, orderNumber: 'ORD-0' });
+  });
+
+  it('does not send orders that already have an outcome', async () => {
+    const job = makeJob([
+      order(2, { outcome: 'failed', message: 'Mobile is required' }),
+      order(3),
+      order(4, { outcome: 'skipped_duplicate' }),
+    ]);
+    const submit = vi.fn(async (request: ImportOrdersRequest) => createdAll(request));
+
+    await run(job, submit);
+
+    expect(submit).toHaveBeenCalledTimes(1);
+    expect(submit.mock.calls[0][0].orders).toEqual([job.orders[1].payload]);
+    expect(job.orders.map((o) => o.outcome)).toEqual(['failed', 'created', 'skipped_duplicate']);
+    expect(job.orders[0].message).toBe('Mobile is required');
+  });
+
+  it('completes a job with nothing left to send', async () => {
+    const job = makeJob([order(2, { outcome: 'failed' })]);
+    const submit = vi.fn();
+
+    await run(job, submit);
+
+    expect(submit).not.toHaveBeenCalled();
+    expect(job.status).toBe('completed');
+  });
+
+  it('records per-order errors next to the created orders', async () => {
+    const job = makeJob(rows(3));
+    const submit = vi.fn(async (): Promise<ImportOrdersResponse> => ({
+      success_count: 2,
+      failure_count: 1,
+      errors: [{ index: 1, message: 'Invalid city' }],
+      warnings: [],
+      created: [
+        { index: 0, order_id: 1, order_number: 'ORD-1' },
+        { index: 2, order_id: 3, order_number: 'ORD-3' },
+      ],
+    }));
+
+    await run(job, submit);
+
+    expect(job.orders.map((o) => [o.outcome, o.orderNumber, o.message])).toEqual([
+      ['created', 'ORD-1', undefined],
+      ['failed', undefined, 'Invalid city'],
+      ['created', 'ORD-3', undefined],
+    ]);
+  });
+
+  it('records duplicates the server held back for confirmation as skipped', async () => {
+    const job = makeJob(rows(2));
+    const submit = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success_count: 0,
+        failure_count: 0,
+        errors: [],
+        warnings: [{ index: 1, type: 'existing_order_duplicate', message: 'Duplicate', matched_order_number: 'ORD-9' }],
+        requires_confirmation: true,
+      } satisfies ImportOrdersResponse)
+      .mockImplementation(async (request: ImportOrdersRequest) => createdAll(request));
+
+    await run(job, submit);
+
+    expect(job.orders[1]).toMatchObject({ outcome: 'skipped_duplicate', orderNumber: 'ORD-9', message: 'Duplicate' });
+    // The rest of the chunk goes again on its own
+    expect(submit.mock.calls[1][0].orders).toEqual([job.orders[0].payload]);
+    expect(job.orders[0].outcome).toBe('created');
+  });
+
+  it('fails the whole chunk on a client error and carries on', async () => {
+    const job = makeJob(rows(IMPORT_CHUNK_SIZE + 1));
+    const submit = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(422, 'The orders field is invalid'))
+      .mockImplementation(async (request: ImportOrdersRequest) => createdAll(request));
+
+    await run(job, submit);
+
+    expect(submit).toHaveBeenCalledTimes(2);
+    expect(job.orders.slice(0, IMPORT_CHUNK_SIZE).every((o) => o.outcome === 'failed')).toBe(true);
+    expect(job.orders[0].message).toBe('The orders field is invalid');
+    expect(job.orders[IMPORT_CHUNK_SIZE].outcome).toBe('created');
+    expect(job.status).toBe('completed');
+  });
+
+  it('retries a failing chunk without approving duplicates again', async () => {
+    const job = makeJob(rows(2), { duplicateDecision: 'approved' });
+    const submit = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockImplementation(async (request: ImportOrdersRequest) => createdAll(request));
+
+    const finished = run(job, submit);
+    await vi.runAllTimersAsync();
+    await finished;
+
+    expect(submit.mock.calls.map(([request]) => request.approveDuplicates)).toEqual([true, false]);
+    expect(job.status).toBe('completed');
+  });
+
+  it('pauses after repeated failures and resumes from the first pending order', async () => {
+    const job = makeJob(rows(IMPORT_CHUNK_SIZE + 1), { duplicateDecision: 'approved' });
+    const submit = vi
+      .fn()
+      .mockImplementationOnce(async (request: ImportOrdersRequest) => createdAll(request))
+      .mockRejectedValue(httpError(500, 'Server error'));
+
+    const failed = expect(run(job, submit)).rejects.toMatchObject({ status: 500 });
+    await vi.runAllTimersAsync();
+    await failed;
+
+    expect(submit).toHaveBeenCalledTimes(4);
+    expect(job.status).toBe('paused');
+    expect(vi.mocked(syncImportJob).mock.lastCall?.[0].status).toBe('paused');
+    expect(job.orders[IMPORT_CHUNK_SIZE]).toMatchObject({ outcome: 'pending', attempted: true });
+
+    submit.mockReset().mockImplementation(async (request: ImportOrdersRequest) => createdAll(request));
+    await run(job, submit);
+
+    // The paused chunk may have reached the server, so it isn't approved again
+    expect(submit.mock.calls).toEqual([[{ orders: [job.orders[IMPORT_CHUNK_SIZE].payload], approveDuplicates: false }]]);
+    expect(job.status).toBe('completed');
+    expect(saveImportJob).toHaveBeenCalled();
+  });
+
+  it('stops with an AbortError when cancelled', async () => {
+    const controller = new AbortController();
+    const job = makeJob(rows(IMPORT_CHUNK_SIZE + 1));
+    const submit = vi.fn(async (request: ImportOrdersRequest) => {
+      controller.abort();
+      return createdAll(request);
+    });
+
+    await expect(run(job, submit, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(submit).toHaveBeenCalledTimes(1);
+    expect(job.orders[IMPORT_CHUNK_SIZE].outcome).toBe('pending');
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Chunked order import
+ * Submits a large import in small requests so no single request times out,
+ * records the outcome of every order on the job, and saves and syncs the
+ * job after each chunk so it can be resumed.
+ */
+
+import { getErrorMessage } from '@/lib/errors';
+import { countImportOutcomes, saveImportJob, syncImportJob } from '@/lib/import/import-job-store';
+import type {
+  CreateOrderRequest,
+  ImportOrderWarning,
+  ImportOrdersRequest,
+  ImportOrdersResponse,
+} from '@/lib/services/orders';
+import type { ImportJob, ImportJobCounts, ImportJobOrder } from '@/lib/types/import-orders';
+
+/** Orders per import request */
+export const IMPORT_CHUNK_SIZE = 50;
+
+/** Orders per duplicate pre-check request (nothing is created, so these can be larger) */
+export const PRECHECK_CHUNK_SIZE = 200;
+
+/** Attempts per chunk before the job is paused */
+const MAX_CHUNK_ATTEMPTS = 3;
+
+/** Delay before the first retry; doubles on each attempt */
+const RETRY_BASE_DELAY = 1000;
+
+type SubmitImport = (request: ImportOrdersRequest) => Promise<ImportOrdersResponse>;
+
+export interface ImportJobProgress extends ImportJobCounts {
+  processed: number;
+}
+
+export function getImportProgress(counts: ImportJobCounts): ImportJobProgress {
+  return { ...counts, processed: counts.created + counts.skipped + counts.failed };
+}
+
+export function getImportJobProgress(job: ImportJob): ImportJobProgress {
+  return getImportProgress(countImportOutcomes(job.orders));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Import cancelled', 'AbortError');
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+}
+
+/**
+ * Client errors (validation, permissions) fail the same way on every attempt
+ */
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status;
+  return !status || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Run the duplicate pre-check in chunks. Warning indices are translated back
+ * to positions in `orders`.
+ */
+export async function precheckImportDuplicates(
+  orders: CreateOrderRequest[],
+  submit: SubmitImport,
+  options: { signal?: AbortSignal; onProgress?: (checked: number) => void } = {}
+): Promise<ImportOrderWarning[]> {
+  const warnings: ImportOrderWarning[] = [];
+  let offset = 0;
+
+  for (const part of chunk(orders, PRECHECK_CHUNK_SIZE)) {
+    if (options.signal?.aborted) throw abortError();
+    const result = await submit({ orders: part, checkOnly: true });
+    for (const warning of result.warnings ?? []) {
+      warnings.push({
+        ...warning,
+        index: warning.index + offset,
+        matched_index:
+          warning.matched_index !== undefined ? warning.matched_index + offset : undefined,
+      });
+    }
+    offset += part.length;
+    options.onProgress?.(offset);
+  }
+
+  return warnings;
+}
+
+/**
+ * Record the response for one chunk on its orders
+ */
+function applyChunkResult(
+  orders: ImportJobOrder[],
+  result: ImportOrdersResponse,
+  duplicateMessage: (warning: ImportOrderWarning) => string
+): void {
+  // Orders the server held back as possible duplicates (only when not approved)
+  if (result.requires_confirmation) {
+    for (const warning of result.warnings ?? []) {
+      const order = orders[warning.index];
+      if (order) {
+        order.outcome = 'skipped_duplicate';
+        order.orderNumber = warning.matched_order_number;
+        order.message = duplicateMessage(warning);
+      }
+    }
+    return;
+  }
+
+  const failedIndexes = new Set<number>();
+  for (const error of result.errors ?? []) {
+    const order = orders[error.index];
+    if (!order) continue;
+    order.outcome = 'failed';
+    order.message = error.message;
+    failedIndexes.add(error.index);
+  }
+
+  const created = new Map((result.created ?? []).map((entry) => [entry.index, entry]));
+  orders.forEach((order, index) => {
+    if (failedIndexes.has(index)) return;
+    order.outcome = 'created';
+    order.orderId = created.get(index)?.order_id;
+    order.orderNumber = created.get(index)?.order_number;
+  });
+}
+
+export interface RunImportJobOptions {
+  submit: SubmitImport;
+  signal?: AbortSignal;
+  /** Called with the job after every chunk */
+  onProgress?: (job: ImportJob) => void;
+  /** Text recorded for orders skipped as duplicates */
+  duplicateMessage: (warning: ImportOrderWarning) => string;
+}
+
+/**
+ * Submit the job's pending orders chunk by chunk.
+ *
+ * A chunk that fails is retried with backoff. Retries (and a chunk that was
+ * in flight when the page went away) are sent without duplicate approval: if
+ * the earlier attempt did create orders on the server, they come back as
+ * duplicates and are recorded as skipped instead of being created twice.
+ * When a chunk keeps failing the job is paused and the error rethrown;
+ * calling this again resumes from the first pending order.
+ */
+export async function runImportJob(job: ImportJob, options: RunImportJobOptions): Promise<ImportJob> {
+  job.status = 'running';
+  // A new job gets its server record before any order is sent
+  if (job.serverId) {
+    await saveImportJob(job);
+  } else {
+    await syncImportJob(job);
+  }
+
+  while (true) {
+    if (options.signal?.aborted) throw abortError();
+
+    const pending = job.orders.filter((order) => order.outcome === 'pending');
+    if (pending.length === 0) break;
+    const orders = pending.slice(0, IMPORT_CHUNK_SIZE);
+    const sentBefore = orders.some((order) => order.attempted);
+    orders.forEach((order) => (order.attempted = true));
+    await saveImportJob(job);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await options.submit({
+          orders: orders.map((order) => order.payload),
+          approveDuplicates: attempt === 1 && !sentBefore && job.duplicateDecision === 'approved',
+        });
+        applyChunkResult(orders, result, options.duplicateMessage);
+        // A confirmation response with no warnings would leave the chunk pending forever
+        if (result.requires_confirmation && !result.warnings?.length) {
+          throw new Error(result.errors?.[0]?.message || 'Import requires confirmation');
+        }
+        break;
+      } catch (error) {
+        if (options.signal?.aborted) throw abortError();
+
+        if (!isRetryable(error)) {
+          // The server rejected the whole chunk; record it and move on
+          for (const order of orders) {
+            order.outcome = 'failed';
+            order.message = getErrorMessage(error);
+          }
+          break;
+        }
+
+        if (attempt >= MAX_CHUNK_ATTEMPTS) {
+          job.status = 'paused';
+          await syncImportJob(job);
+          options.onProgress?.(job);
+          throw error;
+        }
+        await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1), options.signal);
+      }
+    }
+
+    // The last chunk's sync also records the job as completed
+    if (!job.orders.some((order) => order.outcome === 'pending')) job.status = 'completed';
+    await syncImportJob(job);
+    options.onProgress?.(job);
+  }
+
+  // Nothing was left to send (every order skipped, or resumed after the last chunk)
+  if (job.status !== 'completed') {
+    job.status = 'completed';
+    await syncImportJob(job);
+    options.onProgress?.(job);
+  }
+  return job;
+}
+
+/**
+ * Stop a job for good; its recorded results stay available
+ */
+export async function cancelImportJob(job: ImportJob): Promise<ImportJob> {
+  job.status = 'cancelled';
+  await syncImportJob(job);
+  return job;
+}
@@ -0,0 +1,231 @@
+/**
+ * Import Job Store
+ * Persists chunked order imports in IndexedDB so an interrupted import
+ * (reload, closed tab, repeated network failures) can be resumed, and syncs
+ * a summary of each job to the server, where the import history is read from
+ * so staff and other devices see the same record. Order payloads (customer
+ * names, phones, addresses) never leave the browser.
+ */
+
+import { getCurrentOwnerKey } from '@/lib/auth';
+import {
+  createOrderImport,
+  fetchOrderImport,
+  fetchOrderImports,
+  updateOrderImport,
+} from '@/lib/services/orders';
+import type { PaginatedResponse } from '@/lib/types';
+import type {
+  ImportHistoryEntry,
+  ImportJob,
+  ImportJobCounts,
+  ImportReport,
+  ImportResultRow,
+  ImportSummary,
+} from '@/lib/types/import-orders';
+
+const DB_NAME = 'order-imports';
+const DB_VERSION = 1;
+const STORE_NAME = 'jobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('ownerKey', 'ownerKey');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run one request against the jobs store and resolve with its result
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function putJob(job: ImportJob): Promise<IDBValidKey> {
+  return withStore('readwrite', (store) => store.put(job));
+}
+
+/**
+ * Start a new job for the current vendor. Its server record is created on
+ * the first sync.
+ */
+export function createImportJob(
+  fields: Pick<ImportJob, 'fileName' | 'duplicateDecision' | 'duplicateWarningCount' | 'orders'>
+): ImportJob {
+  const now = new Date().toISOString();
+  return {
+    id: `import-${Date.now()}`,
+    serverId: null,
+    ownerKey: getCurrentOwnerKey() ?? 'anonymous',
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  };
+}
+
+/**
+ * Save the job on this browser only
+ */
+export async function saveImportJob(job: ImportJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await putJob(job);
+}
+
+export function countImportOutcomes(rows: ImportResultRow[]): ImportJobCounts {
+  const count = (outcome: ImportResultRow['outcome']) =>
+    rows.filter((row) => row.outcome === outcome).length;
+  return {
+    total: rows.length,
+    created: count('created'),
+    skipped: count('skipped_duplicate'),
+    failed: count('failed'),
+  };
+}
+
+function toSummary(job: ImportJob): ImportSummary {
+  return {
+    fileName: job.fileName,
+    status: job.status,
+    duplicateDecision: job.duplicateDecision,
+    duplicateWarningCount: job.duplicateWarningCount,
+    counts: countImportOutcomes(job.orders),
+    rows: job.orders.map(({ sourceRows, outcome, orderId, orderNumber, message }) => ({
+      sourceRows,
+      outcome,
+      orderId,
+      orderNumber,
+      message,
+    })),
+  };
+}
+
+/**
+ * Save the job and send its summary to the server, creating the server
+ * record on the first sync. A failed sync doesn't stop the import; it is
+ * recorded on the job (`syncFailed`) so the history can show the record is
+ * behind, and the next sync sends the full summary.
+ */
+export async function syncImportJob(job: ImportJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  try {
+    if (!job.serverId) {
+      job.serverId = (await createOrderImport(toSummary(job))).id;
+    } else {
+      await updateOrderImport(job.serverId, toSummary(job));
+    }
+    job.syncFailed = false;
+  } catch {
+    job.syncFailed = true;
+  }
+  await putJob(job);
+}
+
+export function getImportJob(id: string): Promise<ImportJob | undefined> {
+  return withStore('readonly', (store) => store.get(id) as IDBRequest<ImportJob | undefined>);
+}
+
+/**
+ * The current vendor's jobs saved on this browser, newest first
+ */
+async function listLocalImportJobs(): Promise<ImportJob[]> {
+  const ownerKey = getCurrentOwnerKey();
+  if (!ownerKey) return [];
+  const jobs = await withStore('readonly', (store) =>
+    store.index('ownerKey').getAll(ownerKey) as IDBRequest<ImportJob[]>
+  );
+  return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function toHistoryEntry(job: ImportJob): ImportHistoryEntry {
+  return {
+    id: job.serverId ?? null,
+    localId: job.id,
+    fileName: job.fileName,
+    status: job.status,
+    // Known only from the server record
+    createdBy: null,
+    duplicateDecision: job.duplicateDecision,
+    duplicateWarningCount: job.duplicateWarningCount,
+    counts: countImportOutcomes(job.orders),
+    syncFailed: job.syncFailed ?? false,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * One page of the import history from the server, newest first. Local jobs
+ * whose latest summary hasn't reached the server are shown from this
+ * browser's copy: in place of their record, or at the top of the first page
+ * when the record was never created.
+ */
+export async function listImportJobs(page: number): Promise<PaginatedResponse<ImportHistoryEntry>> {
+  const localJobs = await listLocalImportJobs();
+  // Finished jobs aren't synced again by the runner, so catch them up here
+  await Promise.all(
+    localJobs
+      .filter((job) => job.syncFailed && (job.status === 'completed' || job.status === 'cancelled'))
+      .map(syncImportJob)
+  );
+
+  const response = await fetchOrderImports(page);
+  const unsynced = localJobs.filter((job) => job.syncFailed || !job.serverId);
+  const unsyncedByServerId = new Map(unsynced.map((job) => [job.serverId, job]));
+  const localIds = new Map(localJobs.map((job) => [job.serverId, job.id]));
+
+  const entries: ImportHistoryEntry[] = response.data.map((record) => {
+    const local = unsyncedByServerId.get(record.id);
+    if (local) return { ...toHistoryEntry(local), createdBy: record.createdBy };
+    return { ...record, localId: localIds.get(record.id) ?? null, syncFailed: false };
+  });
+  if (page === 1) {
+    entries.unshift(...unsynced.filter((job) => !job.serverId).map(toHistoryEntry));
+  }
+
+  return { data: entries, meta: response.meta };
+}
+
+/**
+ * Orders of a history entry for the results file. A job run on this browser
+ * has the customer data; otherwise the outcomes are loaded from the server.
+ */
+export async function getImportReport(entry: ImportHistoryEntry): Promise<ImportReport> {
+  const job = entry.localId ? await getImportJob(entry.localId).catch(() => undefined) : undefined;
+  if (job) return job;
+  if (entry.id === null) throw new Error('Import not found');
+  const record = await fetchOrderImport(entry.id);
+  return { fileName: record.fileName, orders: record.rows ?? [] };
+}
+
+/**
+ * Most recent job that stopped before finishing, if any
+ */
+export async function findResumableImportJob(): Promise<ImportJob | null> {
+  // Only jobs on this browser can be resumed here
+  const jobs = await listLocalImportJobs();
+  return jobs.find((job) => job.status === 'running' || job.status === 'paused') ?? null;
+}
@@ -0,0 +1,104 @@
+/**
+ * Notification Alerts
+ * Sound and browser (Web Notifications API) alerts for new notifications,
+ * plus the quiet-hours check that silences both.
+ */
+
+import type { NotificationQuietHours } from '@/lib/services/notifications';
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+/**
+ * Minutes since midnight for an "HH:mm" string
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Whether `now` falls inside the quiet hours window. Windows may wrap past
+ * midnight (e.g. 22:00 to 07:00).
+ */
+export function isWithinQuietHours(quietHours: NotificationQuietHours, now = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+export function getDesktopPermission(): DesktopPermission {
+  if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+  return Notification.permission;
+}
+
+/**
+ * Ask the browser for permission to show desktop notifications.
+ * Must be called from a user gesture (click) or browsers ignore it.
+ */
+export async function requestDesktopPermission(): Promise<DesktopPermission> {
+  if (getDesktopPermission() === 'unsupported') return 'unsupported';
+  return Notification.requestPermission();
+}
+
+interface DesktopNotificationOptions {
+  title: string;
+  body: string;
+  /** Notifications with the same tag replace each other instead of stacking */
+  tag: string;
+  onClick?: () => void;
+}
+
+export function showDesktopNotification(options: DesktopNotificationOptions): void {
+  if (getDesktopPermission() !== 'granted') return;
+
+  const notification = new Notification(options.title, {
+    body: options.body,
+    tag: options.tag,
+    icon: '/rahwan-favicon.png',
+  });
+  notification.onclick = () => {
+    window.focus();
+    options.onClick?.();
+    notification.close();
+  };
+}
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Play a short two-note chime. Synthesised with Web Audio so no sound file
+ * has to be shipped; silently does nothing if the browser blocks autoplay.
+ */
+export function playNotificationChime(): void {
+  if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return;
+
+  try {
+    audioContext ??= new AudioContext();
+    const context = audioContext;
+    if (context.state === 'suspended') void context.resume();
+
+    const notes = [880, 1318.5]; // A5, E6
+    notes.forEach((frequency, index) => {
+      const start = context.currentTime + index * 0.15;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.45);
+    });
+  } catch {
+    // Audio unavailable; the unread badge still updates
+  }
+}
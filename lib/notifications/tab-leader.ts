@@ -0,0 +1,146 @@
+/**
+ * Tab Leader Election
+ * Picks one tab among all open dashboard tabs, over a BroadcastChannel, so
+ * side effects like sounds and desktop notifications fire once rather than
+ * once per tab. The leader sends heartbeats; when they stop (tab closed,
+ * crashed or frozen) the remaining tabs elect a new one. Ties go to the
+ * lowest tab id.
+ */
+
+export interface TabLeaderOptions {
+  /** BroadcastChannel name; tabs on the same channel elect one leader */
+  channel: string;
+  onLeaderChange?: (isLeader: boolean) => void;
+}
+
+export interface TabLeaderElection {
+  start: () => void;
+  stop: () => void;
+  isLeader: () => boolean;
+}
+
+type LeaderMessage =
+  | { type: 'heartbeat'; id: string }
+  | { type: 'claim'; id: string }
+  | { type: 'resign'; id: string };
+
+/** How often the leader announces itself */
+const HEARTBEAT_INTERVAL = 2000;
+/** A leader not heard from for this long is considered gone */
+const LEADER_TIMEOUT = 5000;
+/** How long a candidate waits for objections before taking over */
+const CLAIM_WINDOW = 500;
+
+export function createTabLeaderElection(options: TabLeaderOptions): TabLeaderElection {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  let channel: BroadcastChannel | null = null;
+  let leader = false;
+  let lastLeaderSeen = 0;
+  let claiming = false;
+  let claimTimer: ReturnType<typeof setTimeout> | null = null;
+  let tickTimer: ReturnType<typeof setInterval> | null = null;
+
+  const setLeader = (next: boolean) => {
+    if (leader === next) return;
+    leader = next;
+    options.onLeaderChange?.(next);
+  };
+
+  const post = (message: LeaderMessage) => channel?.postMessage(message);
+
+  const cancelClaim = () => {
+    claiming = false;
+    if (claimTimer) {
+      clearTimeout(claimTimer);
+      claimTimer = null;
+    }
+  };
+
+  const claim = () => {
+    if (claiming || leader) return;
+    claiming = true;
+    post({ type: 'claim', id });
+    claimTimer = setTimeout(() => {
+      claimTimer = null;
+      if (!claiming) return;
+      claiming = false;
+      setLeader(true);
+      post({ type: 'heartbeat', id });
+    }, CLAIM_WINDOW);
+  };
+
+  const handleMessage = (event: MessageEvent<LeaderMessage>) => {
+    const message = event.data;
+    if (!message || message.id === id) return;
+
+    switch (message.type) {
+      case 'heartbeat':
+        if (leader && message.id > id) {
+          // Two leaders after a split; the other one will step down when it hears us
+          post({ type: 'heartbeat', id });
+          return;
+        }
+        setLeader(false);
+        cancelClaim();
+        lastLeaderSeen = Date.now();
+        break;
+      case 'claim':
+        if (leader) {
+          // Remind the candidate there is already a leader
+          post({ type: 'heartbeat', id });
+        } else if (claiming && message.id < id) {
+          cancelClaim();
+          lastLeaderSeen = Date.now();
+        }
+        break;
+      case 'resign':
+        lastLeaderSeen = 0;
+        claim();
+        break;
+    }
+  };
+
+  const tick = () => {
+    if (leader) {
+      post({ type: 'heartbeat', id });
+    } else if (Date.now() - lastLeaderSeen > LEADER_TIMEOUT) {
+      claim();
+    }
+  };
+
+  const stop = () => {
+    if (tickTimer) {
+      clearInterval(tickTimer);
+      tickTimer = null;
+    }
+    cancelClaim();
+    if (leader) post({ type: 'resign', id });
+    channel?.close();
+    channel = null;
+    if (typeof window !== 'undefined') window.removeEventListener('pagehide', stop);
+    setLeader(false);
+  };
+
+  const start = () => {
+    if (channel || tickTimer) return;
+
+    // Without BroadcastChannel there is no way to coordinate; every tab leads
+    if (typeof BroadcastChannel === 'undefined') {
+      setLeader(true);
+      return;
+    }
+
+    channel = new BroadcastChannel(options.channel);
+    channel.onmessage = handleMessage;
+    window.addEventListener('pagehide', stop);
+    tickTimer = setInterval(tick, HEARTBEAT_INTERVAL);
+    // A running leader answers the claim with a heartbeat, which cancels it
+    claim();
+  };
+
+  return {
+    start,
+    stop,
+    isLeader: () => leader,
+  };
+}
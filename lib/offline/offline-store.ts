@@ -0,0 +1,228 @@
+/**
+ * Offline Store
+ * Keeps the agent's assigned orders (and any order they opened) in IndexedDB
+ * so they can be viewed without a connection, and holds the outbox of order
+ * actions recorded while offline.
+ */
+
+import { getCurrentOwnerKey } from '@/lib/auth';
+import { extractTrackNumber, type Order } from '@/lib/services/orders';
+import type { AssignedOrdersSnapshot, OutboxAction, OutboxEntry } from '@/lib/types/offline';
+
+const DB_NAME = 'agent-offline';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'assigned-orders';
+const ORDER_STORE = 'orders';
+const OUTBOX_STORE = 'outbox';
+
+type StoreName = typeof SNAPSHOT_STORE | typeof ORDER_STORE | typeof OUTBOX_STORE;
+
+/**
+ * A single order as last seen by its owner
+ */
+interface CachedOrder {
+  id: number;
+  ownerKey: string;
+  order: Order;
+  savedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'ownerKey' });
+      db.createObjectStore(ORDER_STORE, { keyPath: 'id' }).createIndex('ownerKey', 'ownerKey');
+      db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true }).createIndex(
+        'ownerKey',
+        'ownerKey'
+      );
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run one request against a store and resolve with its result
+ */
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// ============================================
+// Assigned orders
+// ============================================
+
+/**
+ * Replace the current user's assigned orders and drop opened orders that are
+ * no longer assigned to them, so customer details don't outlive the assignment
+ */
+export async function saveAssignedOrdersSnapshot(orders: Order[]): Promise<void> {
+  const ownerKey = getCurrentOwnerKey();
+  if (!ownerKey || !isAvailable()) return;
+  const snapshot: AssignedOrdersSnapshot = { ownerKey, orders, savedAt: new Date().toISOString() };
+  await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.put(snapshot));
+
+  const assigned = new Set(orders.map((order) => order.id));
+  const cachedIds = await withStore(ORDER_STORE, 'readonly', (store) =>
+    store.index('ownerKey').getAllKeys(ownerKey)
+  );
+  await Promise.all(
+    cachedIds
+      .filter((id) => !assigned.has(id as number))
+      .map((id) => withStore(ORDER_STORE, 'readwrite', (store) => store.delete(id)))
+  );
+}
+
+export async function getAssignedOrdersSnapshot(): Promise<AssignedOrdersSnapshot | null> {
+  const ownerKey = getCurrentOwnerKey();
+  if (!ownerKey || !isAvailable()) return null;
+  const snapshot = await withStore(SNAPSHOT_STORE, 'readonly', (store) =>
+    store.get(ownerKey) as IDBRequest<AssignedOrdersSnapshot | undefined>
+  );
+  return snapshot ?? null;
+}
+
+/**
+ * Remember an order opened while online so its details are available offline
+ */
+export async function cacheOrder(order: Order): Promise<void> {
+  const ownerKey = getCurrentOwnerKey();
+  if (!ownerKey || !isAvailable()) return;
+  const record: CachedOrder = { id: order.id, ownerKey, order, savedAt: new Date().toISOString() };
+  await withStore(ORDER_STORE, 'readwrite', (store) => store.put(record));
+}
+
+/**
+ * Every order the current user has cached, opened orders first since they carry full details
+ */
+async function listCachedOrders(): Promise<Order[]> {
+  const ownerKey = getCurrentOwnerKey();
+  if (!ownerKey || !isAvailable()) return [];
+
+  const [records, snapshot] = await Promise.all([
+    withStore(ORDER_STORE, 'readonly', (store) =>
+      store.index('ownerKey').getAll(ownerKey) as IDBRequest<CachedOrder[]>
+    ),
+    getAssignedOrdersSnapshot(),
+  ]);
+
+  const orders = records.map((record) => record.order);
+  const seen = new Set(orders.map((order) => order.id));
+  return [...orders, ...(snapshot?.orders ?? []).filter((order) => !seen.has(order.id))];
+}
+
+export async function getCachedOrder(id: number): Promise<Order | null> {
+  const orders = await listCachedOrders();
+  return orders.find((order) => order.id === id) ?? null;
+}
+
+/**
+ * Offline counterpart of findOrderByScanCode
+ */
+export async function findCachedOrderByScanCode(code: string): Promise<Order | null> {
+  const trackNumber = extractTrackNumber(code);
+  if (!trackNumber) return null;
+
+  const orders = await listCachedOrders();
+  return (
+    orders.find((order) => order.track_number === trackNumber) ??
+    orders.find((order) => order.order_number === trackNumber) ??
+    null
+  );
+}
+
+/**
+ * Forget a user's cached orders when they log out. Their outbox is kept so
+ * actions recorded offline are still sent when they sign back in; it holds
+ * order numbers and actions, not customer details.
+ */
+export async function clearCachedOrders(ownerKey: string): Promise<void> {
+  if (!isAvailable()) return;
+
+  const cachedIds = await withStore(ORDER_STORE, 'readonly', (store) =>
+    store.index('ownerKey').getAllKeys(ownerKey)
+  );
+  await Promise.all([
+    withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.delete(ownerKey)),
+    ...cachedIds.map((id) => withStore(ORDER_STORE, 'readwrite', (store) => store.delete(id))),
+  ]);
+}
+
+/**
+ * Empty every store, outbox included, for every user. Used when the session
+ * ends without a logout (token expired or taken over), when there is no
+ * telling whose data is on the device.
+ */
+export async function clearOfflineData(): Promise<void> {
+  if (!isAvailable()) return;
+  await Promise.all(
+    ([SNAPSHOT_STORE, ORDER_STORE, OUTBOX_STORE] as const).map((storeName) =>
+      withStore(storeName, 'readwrite', (store) => store.clear())
+    )
+  );
+}
+
+// ============================================
+// Outbox
+// ============================================
+
+export async function addOutboxEntry(
+  order: Pick<Order, 'id' | 'order_number'>,
+  action: OutboxAction
+): Promise<void> {
+  const ownerKey = getCurrentOwnerKey() ?? 'anonymous';
+  const entry: Omit<OutboxEntry, 'id'> = {
+    ownerKey,
+    orderId: order.id,
+    orderNumber: order.order_number,
+    action,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.add(entry));
+}
+
+/**
+ * The current user's outbox in the order actions were recorded
+ */
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+  const ownerKey = getCurrentOwnerKey();
+  if (!ownerKey || !isAvailable()) return [];
+  const entries = await withStore(OUTBOX_STORE, 'readonly', (store) =>
+    store.index('ownerKey').getAll(ownerKey) as IDBRequest<OutboxEntry[]>
+  );
+  return entries.sort((a, b) => a.id - b.id);
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(entry));
+}
+
+export async function deleteOutboxEntry(id: number): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(id));
+}
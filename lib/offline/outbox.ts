@@ -0,0 +1,140 @@
+/**
+ * Outbox
+ * Order actions an agent performs without a connection are queued here and
+ * replayed in the order they were recorded once the connection is back.
+ * Actions the server refuses (order reassigned, status moved on, ...) are kept
+ * as conflicts so the agent can see what did not go through, along with any
+ * later actions for the same order, which are not sent.
+ */
+
+import { getErrorMessage, isNetworkError } from '@/lib/errors';
+import { failDelivery, scanOrder, type Order } from '@/lib/services/orders';
+import type { OutboxAction, OutboxEntry } from '@/lib/types/offline';
+import {
+  addOutboxEntry,
+  deleteOutboxEntry,
+  listOutboxEntries,
+  saveOutboxEntry,
+} from './offline-store';
+
+export type OrderActionResult = { queued: false; order: Order } | { queued: true };
+
+export interface OutboxReplayResult {
+  sent: number;
+  conflicts: number;
+  /** Whether replay stopped early because the connection dropped again */
+  interrupted: boolean;
+}
+
+type OutboxListener = () => void;
+
+const listeners = new Set<OutboxListener>();
+
+/**
+ * Get told whenever entries are queued, sent or dismissed
+ */
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyOutboxChanged() {
+  listeners.forEach((listener) => listener());
+}
+
+function performOutboxAction(orderId: number, action: OutboxAction): Promise<Order> {
+  switch (action.type) {
+    case 'fail_delivery':
+      return failDelivery(orderId, action.reason, action.reasonCode);
+    case 'scan':
+      return scanOrder(orderId, action.action, action.payload);
+  }
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Errors worth retrying later rather than reporting as a conflict:
+ * no response at all, timeouts, rate limits and server errors
+ */
+function isRetryableError(error: unknown): boolean {
+  if (isNetworkError(error)) return true;
+  const status = (error as { status?: number } | null)?.status;
+  return status === 408 || status === 429 || (!!status && status >= 500);
+}
+
+/**
+ * Send an order action now, or queue it when there is no connection.
+ * Errors from the server are thrown as usual.
+ */
+export async function runOrQueueOrderAction(
+  order: Pick<Order, 'id' | 'order_number'>,
+  action: OutboxAction
+): Promise<OrderActionResult> {
+  if (!isOffline()) {
+    try {
+      return { queued: false, order: await performOutboxAction(order.id, action) };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await addOutboxEntry(order, action);
+  notifyOutboxChanged();
+  return { queued: true };
+}
+
+let replaying: Promise<OutboxReplayResult> | null = null;
+
+/**
+ * Send pending entries oldest first. A dropped connection stops the replay
+ * so later actions never overtake earlier ones for the same order, and a
+ * conflict holds back the order's remaining entries.
+ */
+export function replayOutbox(): Promise<OutboxReplayResult> {
+  replaying ??= (async () => {
+    const result: OutboxReplayResult = { sent: 0, conflicts: 0, interrupted: false };
+    try {
+      const entries = await listOutboxEntries();
+      const conflicted = new Map<number, number>();
+      for (const entry of entries) {
+        if (entry.status !== 'pending') continue;
+        const blockedBy = conflicted.get(entry.orderId);
+        if (blockedBy !== undefined) {
+          await saveOutboxEntry({ ...entry, status: 'conflict', blockedBy });
+          result.conflicts++;
+          continue;
+        }
+        try {
+          await performOutboxAction(entry.orderId, entry.action);
+          await deleteOutboxEntry(entry.id);
+          result.sent++;
+        } catch (error) {
+          if (isRetryableError(error)) {
+            result.interrupted = true;
+            break;
+          }
+          await saveOutboxEntry({ ...entry, status: 'conflict', error: getErrorMessage(error) });
+          conflicted.set(entry.orderId, entry.id);
+          result.conflicts++;
+        }
+      }
+    } finally {
+      replaying = null;
+      notifyOutboxChanged();
+    }
+    return result;
+  })();
+
+  return replaying;
+}
+
+/**
+ * Forget a conflict once the agent has seen it
+ */
+export async function dismissOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await deleteOutboxEntry(entry.id);
+  notifyOutboxChanged();
+}
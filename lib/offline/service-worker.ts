@@ -0,0 +1,20 @@
+/**
+ * Service Worker registration
+ * The worker (public/sw.js) caches the app shell and visited pages so the
+ * dashboard opens without a connection. Only registered in production builds;
+ * in development it would serve stale bundles over hot reloads.
+ */
+
+export function registerServiceWorker(): void {
+  if (
+    process.env.NODE_ENV !== 'production' ||
+    typeof navigator === 'undefined' ||
+    !('serviceWorker' in navigator)
+  ) {
+    return;
+  }
+
+  navigator.serviceWorker.register('/sw.js').catch(() => {
+    // Offline support is an enhancement; the app works the same without it
+  });
+}
@@ -0,0 +1,181 @@
+import { parseCSV } from '@/lib/parsers/order-import-parser';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Fields read from a bank statement. A statement has either one signed
+ * amount column or separate debit (money out) and credit (money in) columns.
+ */
+export const BANK_STATEMENT_FIELDS = ['date', 'amount', 'debit', 'credit', 'reference', 'description'] as const;
+
+export type BankStatementField = (typeof BANK_STATEMENT_FIELDS)[number];
+
+/** Header of the statement column feeding each field */
+export type BankColumnMapping = Partial<Record<BankStatementField, string>>;
+
+export interface BankStatementLine {
+  /** 1-based row in the file, after the header */
+  row: number;
+  /** YYYY-MM-DD, null when the date couldn't be read */
+  date: string | null;
+  /** Money into the platform's account is positive, money out is negative */
+  amount: number;
+  reference: string;
+  description: string;
+}
+
+export interface ParsedBankStatement {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// ---------------------------------------------------------------------------
+// Column mapping
+// ---------------------------------------------------------------------------
+
+/**
+ * Header keywords for each field (EN and AR bank exports), most specific first
+ */
+const FIELD_KEYWORDS: Record<BankStatementField, string[]> = {
+  date: ['value date', 'transaction date', 'posting date', 'date', 'تاريخ'],
+  debit: ['debit', 'withdrawal', 'money out', 'مدين', 'سحب', 'خصم'],
+  credit: ['credit', 'deposit', 'money in', 'دائن', 'إيداع', 'ايداع'],
+  amount: ['amount', 'value', 'المبلغ', 'مبلغ', 'القيمة'],
+  reference: ['reference', 'ref', 'transaction id', 'cheque', 'المرجع', 'مرجع', 'رقم العملية'],
+  description: ['description', 'details', 'narrative', 'particulars', 'memo', 'البيان', 'بيان', 'الوصف', 'تفاصيل'],
+};
+
+/**
+ * Guess which header feeds each field. Each header is used at most once.
+ */
+export function guessBankColumnMapping(headers: string[]): BankColumnMapping {
+  const mapping: BankColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const field of ['date', 'debit', 'credit', 'amount', 'reference', 'description'] as const) {
+    for (const keyword of FIELD_KEYWORDS[field]) {
+      const header = headers.find((h) => !used.has(h) && h.trim().toLowerCase().includes(keyword));
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  // A single amount column wins over a lone debit or credit match
+  if (mapping.amount && !(mapping.debit && mapping.credit)) {
+    delete mapping.debit;
+    delete mapping.credit;
+  }
+
+  return mapping;
+}
+
+/**
+ * Whether the mapping has a date and a way to read the amount
+ */
+export function isBankColumnMappingComplete(mapping: BankColumnMapping): boolean {
+  return !!mapping.date && (!!mapping.amount || !!mapping.debit || !!mapping.credit);
+}
+
+// ---------------------------------------------------------------------------
+// Value parsing
+// ---------------------------------------------------------------------------
+
+const ARABIC_DIGITS = /[٠-٩]/g;
+
+function toWesternDigits(value: string): string {
+  return value
+    .replace(ARABIC_DIGITS, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/٫/g, '.')
+    .replace(/٬/g, ',');
+}
+
+/**
+ * Read an amount like "1,250.50", "(300.00)", "-300 EGP" or "300 DR"
+ */
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (!value?.trim()) return null;
+  const text = toWesternDigits(value.trim());
+  const negative = /^\(.*\)$/.test(text) || text.includes('-') || /\bDR\b/i.test(text);
+  const digits = text.replace(/[^\d.]/g, '');
+  if (!digits) return null;
+  const amount = Number(digits);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Read a statement date to YYYY-MM-DD. Slashed dates are read day first,
+ * as Egyptian banks print them.
+ */
+export function parseStatementDate(value: string | undefined): string | null {
+  if (!value?.trim()) return null;
+  const text = toWesternDigits(value.trim());
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${pad(Number(iso[2]))}-${pad(Number(iso[3]))}`;
+
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (dayFirst) {
+    const year = dayFirst[3].length === 2 ? 2000 + Number(dayFirst[3]) : Number(dayFirst[3]);
+    return `${year}-${pad(Number(dayFirst[2]))}-${pad(Number(dayFirst[1]))}`;
+  }
+
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+// ---------------------------------------------------------------------------
+// Statement
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a bank statement CSV
+ */
+export async function parseBankStatement(file: File): Promise<ParsedBankStatement> {
+  return parseCSV(file);
+}
+
+/**
+ * Turn statement rows into lines using the column mapping. Rows without an
+ * amount (opening balance rows, totals, blank spacers) are skipped.
+ */
+export function toBankStatementLines(
+  rows: Record<string, string>[],
+  mapping: BankColumnMapping
+): BankStatementLine[] {
+  const read = (row: Record<string, string>, field: BankStatementField) =>
+    mapping[field] ? row[mapping[field]]?.trim() ?? '' : '';
+  const lines: BankStatementLine[] = [];
+
+  rows.forEach((row, index) => {
+    let amount: number | null;
+    if (mapping.amount) {
+      amount = parseStatementAmount(read(row, 'amount'));
+    } else {
+      const credit = Math.abs(parseStatementAmount(read(row, 'credit')) ?? 0);
+      const debit = Math.abs(parseStatementAmount(read(row, 'debit')) ?? 0);
+      amount = credit || debit ? credit - debit : null;
+    }
+    if (amount === null || amount === 0) return;
+
+    lines.push({
+      row: index + 1,
+      date: parseStatementDate(read(row, 'date')),
+      amount,
+      reference: read(row, 'reference'),
+      description: read(row, 'description'),
+    });
+  });
+
+  return lines;
+}
@@ -0,0 +1,118 @@
+/**
+ * Saved column mapping profiles for order import.
+ * Profiles live in localStorage, scoped per vendor, so a vendor's usual
+ * export format is recognised and mapped automatically on the next import.
+ */
+
+import { getCurrentOwnerKey } from '@/lib/auth';
+import { getMappedHeaders, pruneColumnMapping } from '@/lib/parsers/order-import-parser';
+import type { ColumnMapping, ColumnMappingProfile } from '@/lib/types/import-orders';
+
+const STORAGE_KEY_PREFIX = 'order-import-profiles';
+
+/**
+ * Storage key for the signed-in user's vendor
+ */
+function getStorageKey(): string | null {
+  const owner = getCurrentOwnerKey();
+  return owner ? `${STORAGE_KEY_PREFIX}:${owner}` : null;
+}
+
+/**
+ * All saved profiles for the current vendor, most recently used first
+ */
+export function getMappingProfiles(): ColumnMappingProfile[] {
+  const key = getStorageKey();
+  if (!key) return [];
+
+  try {
+    const profiles = JSON.parse(localStorage.getItem(key) || '[]') as ColumnMappingProfile[];
+    return profiles.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch {
+    return [];
+  }
+}
+
+function writeMappingProfiles(profiles: ColumnMappingProfile[]): void {
+  const key = getStorageKey();
+  if (!key) return;
+  localStorage.setItem(key, JSON.stringify(profiles));
+}
+
+/**
+ * Save a mapping under a name. Saving with an existing name overwrites that profile.
+ */
+export function saveMappingProfile(
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping
+): ColumnMappingProfile {
+  const profiles = getMappingProfiles();
+  const existing = profiles.find(
+    (profile) => profile.name.trim().toLowerCase() === name.trim().toLowerCase()
+  );
+
+  const profile: ColumnMappingProfile = {
+    id: existing?.id ?? `profile-${Date.now()}`,
+    name: name.trim(),
+    headers,
+    mapping,
+    updatedAt: new Date().toISOString(),
+  };
+
+  writeMappingProfiles([profile, ...profiles.filter((p) => p.id !== profile.id)]);
+  return profile;
+}
+
+export function deleteMappingProfile(id: string): void {
+  writeMappingProfiles(getMappingProfiles().filter((profile) => profile.id !== id));
+}
+
+/**
+ * Mark a profile as just used so it sorts first next time
+ */
+export function touchMappingProfile(id: string): void {
+  const profiles = getMappingProfiles();
+  const profile = profiles.find((p) => p.id === id);
+  if (!profile) return;
+  profile.updatedAt = new Date().toISOString();
+  writeMappingProfiles(profiles);
+}
+
+/**
+ * Find the saved profile that fits a file's headers.
+ * A profile matches when every header it maps exists in the file; among
+ * matches, the one whose saved headers overlap the file's the most wins.
+ */
+export function findMatchingProfile(
+  profiles: ColumnMappingProfile[],
+  headers: string[]
+): ColumnMappingProfile | null {
+  const fileHeaders = new Set(headers);
+  let best: ColumnMappingProfile | null = null;
+  let bestOverlap = 0;
+
+  for (const profile of profiles) {
+    const mapped = getMappedHeaders(profile.mapping);
+    if (mapped.size === 0) continue;
+    if (![...mapped].every((header) => fileHeaders.has(header))) continue;
+
+    const overlap = profile.headers.filter((header) => fileHeaders.has(header)).length;
+    if (overlap > bestOverlap) {
+      best = profile;
+      bestOverlap = overlap;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Profile mapping restricted to the headers present in the file
+ */
+export function applyMappingProfile(
+  profile: ColumnMappingProfile,
+  headers: string[]
+): ColumnMapping {
+  return pruneColumnMapping(profile.mapping, headers);
+}
@@ -0,0 +1,134 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { detectImportPreset, normalizePaymentMethod } from '@/lib/parsers/import-presets';
+import { buildColumnMapping, mapRowsToOrders, parseCSV } from '@/lib/parsers/order-import-parser';
+
+async function loadFixture(name: string) {
+  const buffer = readFileSync(join(__dirname, '__fixtures__', name));
+  return parseCSV(new File([buffer], name, { type: 'text/csv' }));
+}
+
+async function importFixture(name: string) {
+  const { headers, rows } = await loadFixture(name);
+  return mapRowsToOrders(rows, buildColumnMapping(headers), headers);
+}
+
+describe('detectImportPreset', () => {
+  it.each([
+    ['shopify-orders.csv', 'shopify'],
+    ['woocommerce-orders.csv', 'woocommerce'],
+    ['salla-orders.csv', 'salla'],
+    ['zid-orders.csv', 'zid'],
+  ])('recognises %s', async (fixture, presetId) => {
+    const { headers } = await loadFixture(fixture);
+    expect(detectImportPreset(headers)?.id).toBe(presetId);
+  });
+
+  it('ignores a generic order sheet', () => {
+    expect(detectImportPreset(['Customer Name', 'Mobile', 'Address', 'Product', 'Quantity'])).toBeNull();
+  });
+});
+
+describe('normalizePaymentMethod', () => {
+  it.each([
+    ['cod', 'cod'],
+    ['Cash on Delivery (COD)', 'cod'],
+    ['الدفع عند الاستلام', 'cod'],
+    ['Shopify Payments', 'prepaid'],
+    ['مدى', 'prepaid'],
+    ['', ''],
+  ])('translates %j to %j', (raw, method) => {
+    expect(normalizePaymentMethod(raw)).toBe(method);
+  });
+});
+
+describe('Shopify preset', () => {
+  it('forward-fills order fields onto extra line items', async () => {
+    const rows = await importFixture('shopify-orders.csv');
+
+    expect(rows.map((row) => row._orderRef)).toEqual(['#1001', '#1001', '#1002']);
+    expect(rows[1]).toMatchObject({
+      customerName: 'Mona Adel',
+      customerMobile: '01012345678',
+      customerAddress: '12 Tahrir St, Apt 4',
+      city: 'Dokki',
+      governorate: 'Giza',
+      productName: 'Canvas Tote',
+      quantity: 1,
+      unitPrice: 120,
+    });
+  });
+
+  it('translates payment methods', async () => {
+    const rows = await importFixture('shopify-orders.csv');
+    expect(rows.map((row) => row.paymentMethod)).toEqual(['cod', 'cod', 'prepaid']);
+  });
+});
+
+describe('WooCommerce preset', () => {
+  it('forward-fills order fields and falls back to the billing address', async () => {
+    const rows = await importFixture('woocommerce-orders.csv');
+
+    expect(rows.map((row) => row._orderRef)).toEqual(['5001', '5001', '5002']);
+    expect(rows[1]).toMatchObject({
+      customerName: 'Sara Hassan',
+      customerMobile: '01055512345',
+      customerAddress: '7 Abbas El Akkad',
+      city: 'Nasr City',
+      governorate: 'Cairo',
+      productName: 'Coaster Set',
+      quantity: 1,
+      unitPrice: 60,
+    });
+    expect(rows[2]).toMatchObject({ customerAddress: '22 Sea Road', city: 'Stanley' });
+  });
+
+  it('translates payment methods', async () => {
+    const rows = await importFixture('woocommerce-orders.csv');
+    expect(rows.map((row) => row.paymentMethod)).toEqual(['cod', 'cod', 'prepaid']);
+  });
+});
+
+describe('Salla preset', () => {
+  it('fills blank order numbers and order fields on extra line items', async () => {
+    const rows = await importFixture('salla-orders.csv');
+
+    expect(rows.map((row) => row._orderRef)).toEqual(['2301', '2301', '2302']);
+    expect(rows[1]).toMatchObject({
+      customerName: 'أحمد علي',
+      customerMobile: '0501234567',
+      customerAddress: 'شارع الملك فهد، العليا',
+      city: 'الرياض',
+      productName: 'بخور',
+      quantity: 2,
+      unitPrice: 80,
+    });
+  });
+
+  it('translates payment methods', async () => {
+    const rows = await importFixture('salla-orders.csv');
+    expect(rows.map((row) => row.paymentMethod)).toEqual(['cod', 'cod', 'prepaid']);
+  });
+});
+
+describe('Zid preset', () => {
+  it('groups line items by order id', async () => {
+    const rows = await importFixture('zid-orders.csv');
+
+    expect(rows.map((row) => row._orderRef)).toEqual(['Z-9001', 'Z-9001', 'Z-9002']);
+    expect(rows[1]).toMatchObject({
+      customerName: 'Khaled Fathy',
+      customerAddress: '9 Mohandessin Blvd, Mohandessin',
+      city: 'Giza',
+      productName: 'Sports Socks',
+      quantity: 2,
+      unitPrice: 75,
+    });
+  });
+
+  it('translates payment methods', async () => {
+    const rows = await importFixture('zid-orders.csv');
+    expect(rows.map((row) => row.paymentMethod)).toEqual(['cod', 'cod', 'prepaid']);
+  });
+});
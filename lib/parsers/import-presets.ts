@@ -0,0 +1,389 @@
+import type { ColumnMapping } from '@/lib/types/import-orders';
+
+/**
+ * Store platform export presets for order import.
+ *
+ * Each preset recognises a platform's export by its headers, cleans up the
+ * rows (forward-filling order-level fields onto extra line-item rows,
+ * translating payment values) and names the column that identifies an order,
+ * so multi-item orders are grouped into a single order on submit.
+ */
+export interface ImportPreset {
+  id: 'shopify' | 'woocommerce' | 'salla' | 'zid';
+  /** Platform name shown to the user */
+  label: string;
+  /** Headers whose presence indicates this platform's export */
+  markers: string[];
+  /** How many markers must be present for a match */
+  minMarkers: number;
+  /** Column holding the platform's order number; rows sharing it are one order */
+  orderRefHeader: string;
+  /** Column rules that take precedence over the generic header synonyms */
+  mapping?: ColumnMapping;
+  /** Clean up raw rows in place before mapping */
+  preprocess: (rows: Record<string, string>[]) => Record<string, string>[];
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+/** Payment values that mean cash on delivery as a whole */
+const COD_VALUES = ['cod', 'cash_on_delivery'];
+
+/** Payment value fragments that mean cash on delivery */
+const COD_FRAGMENTS = ['cash', 'عند الاستلام', 'كاش', 'نقد'];
+
+/**
+ * Translate a platform payment value to our payment method: anything that
+ * reads as cash on delivery is `cod`, any other non-empty value is `prepaid`.
+ */
+export function normalizePaymentMethod(raw: string): string {
+  const value = raw.trim().toLowerCase();
+  if (!value) return '';
+  return COD_VALUES.includes(value) || COD_FRAGMENTS.some((fragment) => value.includes(fragment))
+    ? 'cod'
+    : 'prepaid';
+}
+
+/**
+ * Copy order-level fields from the first row of each order onto the order's
+ * other rows. Exports usually leave these blank on extra line-item rows, and
+ * some leave the order number itself blank too.
+ */
+function forwardFillOrderFields(
+  rows: Record<string, string>[],
+  orderRefHeader: string,
+  fields: string[]
+): void {
+  // ---- Normalize missing order refs (some exports leave grouped rows blank) ----
+  let lastOrderRef = '';
+  for (const row of rows) {
+    const orderRef = (row[orderRefHeader] ?? '').trim();
+    if (orderRef) {
+      lastOrderRef = orderRef;
+      continue;
+    }
+
+    if (lastOrderRef) {
+      row[orderRefHeader] = lastOrderRef;
+    }
+  }
+
+  // ---- Forward-fill order-level fields by order ref group ----
+  const rowsByOrderRef = new Map<string, Record<string, string>[]>();
+  for (const row of rows) {
+    const orderRef = (row[orderRefHeader] ?? '').trim();
+    if (!orderRef) continue;
+
+    const group = rowsByOrderRef.get(orderRef) || [];
+    group.push(row);
+    rowsByOrderRef.set(orderRef, group);
+  }
+
+  for (const orderRows of rowsByOrderRef.values()) {
+    const canonicalValues: Record<string, string> = {};
+
+    for (const field of fields) {
+      const firstNonEmpty = orderRows.find((r) => (r[field] ?? '').trim());
+      if (firstNonEmpty) {
+        canonicalValues[field] = (firstNonEmpty[field] ?? '').trim();
+      }
+    }
+
+    for (const row of orderRows) {
+      for (const field of fields) {
+        if (!(row[field] ?? '').trim() && canonicalValues[field]) {
+          row[field] = canonicalValues[field];
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Fill blank shipping fields from their billing counterparts
+ */
+function fillFromFallback(row: Record<string, string>, pairs: [string, string][]): void {
+  for (const [target, fallback] of pairs) {
+    if (!(row[target] ?? '').trim() && (row[fallback] ?? '').trim()) {
+      row[target] = row[fallback];
+    }
+  }
+}
+
+/**
+ * Overwrite the payment column with the normalised payment method
+ */
+function normalizePaymentColumn(
+  rows: Record<string, string>[],
+  target: string,
+  sources: string[]
+): void {
+  for (const row of rows) {
+    const raw = sources.map((source) => row[source] ?? '').find((value) => value.trim()) ?? '';
+    const method = normalizePaymentMethod(raw);
+    if (method) row[target] = method;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shopify
+// ---------------------------------------------------------------------------
+
+/**
+ * Shopify "Export orders" CSV: one row per line item, grouped by `Name` (#1001).
+ * Order-level fields are only filled on the first row of each order.
+ */
+const SHOPIFY_PRESET: ImportPreset = {
+  id: 'shopify',
+  label: 'Shopify',
+  markers: ['Lineitem name', 'Lineitem quantity', 'Shipping Name', 'Financial Status'],
+  minMarkers: 2,
+  orderRefHeader: 'Name',
+  preprocess(rows) {
+    forwardFillOrderFields(rows, 'Name', [
+      'Shipping Name',
+      'Shipping Phone',
+      'Shipping Address1',
+      'Shipping Address2',
+      'Shipping Street',
+      'Shipping City',
+      'Shipping Province',
+      'Shipping Province Name',
+      'Shipping Zip',
+      'Shipping Country',
+      'Billing Name',
+      'Billing Phone',
+      'Payment Method',
+      'Financial Status',
+      'Notes',
+      'Email',
+      'Phone',
+    ]);
+
+    // ---- Concatenate Address1 + Address2 ----
+    for (const row of rows) {
+      const addr1 = (row['Shipping Address1'] ?? '').trim();
+      const addr2 = (row['Shipping Address2'] ?? '').trim();
+      if (addr2 && addr1) {
+        row['Shipping Address1'] = `${addr1}, ${addr2}`;
+      }
+    }
+
+    // Everything that isn't cash (shopify payments, stripe, paid, card, etc.) → prepaid
+    normalizePaymentColumn(rows, 'Payment Method', ['Payment Method', 'Financial Status']);
+
+    return rows;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// WooCommerce
+// ---------------------------------------------------------------------------
+
+/**
+ * WooCommerce order export (the "Advanced Order Export" plugin's default
+ * layout): one row per product, billing and shipping columns suffixed with
+ * their section, e.g. "First Name (Shipping)".
+ */
+const WOOCOMMERCE_PRESET: ImportPreset = {
+  id: 'woocommerce',
+  label: 'WooCommerce',
+  markers: [
+    'Order Number',
+    'Order Status',
+    'First Name (Billing)',
+    'Phone (Billing)',
+    'Address 1&2 (Shipping)',
+    'Payment Method Title',
+    'Item Name',
+  ],
+  minMarkers: 3,
+  orderRefHeader: 'Order Number',
+  mapping: {
+    customerName: {
+      sources: [{ header: 'First Name (Shipping)' }, { header: 'Last Name (Shipping)' }],
+      combine: 'join',
+      separator: ' ',
+    },
+    customerMobile: {
+      sources: [{ header: 'Phone (Shipping)' }, { header: 'Phone (Billing)' }],
+      combine: 'first',
+      separator: ' ',
+    },
+    customerAddress: {
+      sources: [{ header: 'Address 1&2 (Shipping)' }],
+      combine: 'first',
+      separator: ' ',
+    },
+    governorate: {
+      sources: [{ header: 'State Name (Shipping)' }],
+      combine: 'first',
+      separator: ' ',
+    },
+    city: { sources: [{ header: 'City (Shipping)' }], combine: 'first', separator: ' ' },
+    productName: { sources: [{ header: 'Item Name' }], combine: 'first', separator: ' ' },
+    quantity: { sources: [{ header: 'Quantity' }], combine: 'first', separator: ' ' },
+    unitPrice: { sources: [{ header: 'Item Cost' }], combine: 'first', separator: ' ' },
+    paymentMethod: {
+      sources: [{ header: 'Payment Method' }, { header: 'Payment Method Title' }],
+      combine: 'first',
+      separator: ' ',
+    },
+    vendorNotes: { sources: [{ header: 'Customer Note' }], combine: 'first', separator: ' ' },
+  },
+  preprocess(rows) {
+    forwardFillOrderFields(rows, 'Order Number', [
+      'First Name (Billing)',
+      'Last Name (Billing)',
+      'Phone (Billing)',
+      'Address 1&2 (Billing)',
+      'City (Billing)',
+      'State Name (Billing)',
+      'First Name (Shipping)',
+      'Last Name (Shipping)',
+      'Phone (Shipping)',
+      'Address 1&2 (Shipping)',
+      'City (Shipping)',
+      'State Name (Shipping)',
+      'Payment Method',
+      'Payment Method Title',
+      'Customer Note',
+    ]);
+
+    // Orders without a separate shipping address only fill the billing section
+    for (const row of rows) {
+      fillFromFallback(row, [
+        ['First Name (Shipping)', 'First Name (Billing)'],
+        ['Last Name (Shipping)', 'Last Name (Billing)'],
+        ['Address 1&2 (Shipping)', 'Address 1&2 (Billing)'],
+        ['City (Shipping)', 'City (Billing)'],
+        ['State Name (Shipping)', 'State Name (Billing)'],
+      ]);
+    }
+
+    // `Payment Method` holds the gateway id (cod, paymob, bacs), the title is the display name
+    normalizePaymentColumn(rows, 'Payment Method', ['Payment Method', 'Payment Method Title']);
+    normalizePaymentColumn(rows, 'Payment Method Title', ['Payment Method Title']);
+
+    return rows;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Salla
+// ---------------------------------------------------------------------------
+
+/**
+ * Salla orders export (Arabic): one row per product, order fields left blank
+ * on the order's extra rows. The district is a separate column from the address.
+ */
+const SALLA_PRESET: ImportPreset = {
+  id: 'salla',
+  label: 'Salla',
+  markers: ['رقم الطلب', 'حالة الطلب', 'رقم الجوال', 'الحي', 'اسم المنتج', 'حالة الدفع'],
+  minMarkers: 3,
+  orderRefHeader: 'رقم الطلب',
+  mapping: {
+    customerName: { sources: [{ header: 'اسم العميل' }], combine: 'first', separator: ' ' },
+    customerMobile: { sources: [{ header: 'رقم الجوال' }], combine: 'first', separator: ' ' },
+    customerAddress: {
+      sources: [{ header: 'العنوان' }, { header: 'الحي' }],
+      combine: 'join',
+      separator: '، ',
+    },
+    city: { sources: [{ header: 'المدينة' }], combine: 'first', separator: ' ' },
+    productName: { sources: [{ header: 'اسم المنتج' }], combine: 'first', separator: ' ' },
+    quantity: { sources: [{ header: 'الكمية' }], combine: 'first', separator: ' ' },
+    unitPrice: { sources: [{ header: 'سعر المنتج' }, { header: 'السعر' }], combine: 'first', separator: ' ' },
+    paymentMethod: { sources: [{ header: 'طريقة الدفع' }], combine: 'first', separator: ' ' },
+    vendorNotes: { sources: [{ header: 'ملاحظات' }], combine: 'first', separator: ' ' },
+  },
+  preprocess(rows) {
+    forwardFillOrderFields(rows, 'رقم الطلب', [
+      'اسم العميل',
+      'رقم الجوال',
+      'العنوان',
+      'الحي',
+      'المدينة',
+      'طريقة الدفع',
+      'حالة الدفع',
+      'ملاحظات',
+    ]);
+
+    // Payment method values are labels such as "الدفع عند الاستلام", "مدى", "Apple Pay"
+    normalizePaymentColumn(rows, 'طريقة الدفع', ['طريقة الدفع']);
+
+    return rows;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Zid
+// ---------------------------------------------------------------------------
+
+/**
+ * Zid orders export: one row per product with the order fields repeated,
+ * payment method as a label ("Cash On Delivery") and a separate district column.
+ */
+const ZID_PRESET: ImportPreset = {
+  id: 'zid',
+  label: 'Zid',
+  markers: ['Order ID', 'Order Status', 'Payment Status', 'Customer Mobile', 'Product SKU', 'District'],
+  minMarkers: 4,
+  orderRefHeader: 'Order ID',
+  mapping: {
+    customerName: { sources: [{ header: 'Customer Name' }], combine: 'first', separator: ' ' },
+    customerMobile: { sources: [{ header: 'Customer Mobile' }], combine: 'first', separator: ' ' },
+    customerAddress: {
+      sources: [{ header: 'Address' }, { header: 'District' }],
+      combine: 'join',
+      separator: ', ',
+    },
+    city: { sources: [{ header: 'City' }], combine: 'first', separator: ' ' },
+    productName: { sources: [{ header: 'Product Name' }], combine: 'first', separator: ' ' },
+    quantity: { sources: [{ header: 'Quantity' }], combine: 'first', separator: ' ' },
+    unitPrice: { sources: [{ header: 'Price' }], combine: 'first', separator: ' ' },
+    paymentMethod: { sources: [{ header: 'Payment Method' }], combine: 'first', separator: ' ' },
+    vendorNotes: { sources: [{ header: 'Notes' }], combine: 'first', separator: ' ' },
+  },
+  preprocess(rows) {
+    forwardFillOrderFields(rows, 'Order ID', [
+      'Customer Name',
+      'Customer Mobile',
+      'Address',
+      'District',
+      'City',
+      'Payment Method',
+      'Payment Status',
+      'Notes',
+    ]);
+
+    normalizePaymentColumn(rows, 'Payment Method', ['Payment Method']);
+
+    return rows;
+  },
+};
+
+/**
+ * Registered presets, checked in order
+ */
+export const IMPORT_PRESETS: ImportPreset[] = [
+  SHOPIFY_PRESET,
+  WOOCOMMERCE_PRESET,
+  SALLA_PRESET,
+  ZID_PRESET,
+];
+
+/**
+ * Detect which platform produced an export from its headers
+ */
+export function detectImportPreset(headers: string[]): ImportPreset | null {
+  const headerSet = new Set(headers.map((h) => h.trim()));
+  return (
+    IMPORT_PRESETS.find(
+      (preset) => preset.markers.filter((m) => headerSet.has(m)).length >= preset.minMarkers
+    ) ?? null
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Learned location aliases for order import.
+ * When a user picks the governorate or city an unmatched spelling meant,
+ * the spelling is remembered here and resolved automatically next time.
+ * Aliases are geographic, not vendor-specific, so they are shared by every
+ * account on this browser.
+ */
+
+import { normalizeLocation } from '@/lib/parsers/location-matcher';
+
+const STORAGE_KEY = 'location-aliases';
+
+export interface LocationAliases {
+  /** Normalised spelling → governorate ID */
+  governorates: Record<string, number>;
+  /** Normalised spelling → city ID */
+  cities: Record<string, number>;
+}
+
+export type LocationKind = keyof LocationAliases;
+
+export function getLocationAliases(): LocationAliases {
+  const empty: LocationAliases = { governorates: {}, cities: {} };
+  if (typeof window === 'undefined') return empty;
+
+  try {
+    return { ...empty, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Remember that `raw` refers to the location with `id`
+ */
+export function learnLocationAlias(kind: LocationKind, raw: string, id: number): void {
+  const key = normalizeLocation(raw);
+  if (!key || typeof window === 'undefined') return;
+
+  const aliases = getLocationAliases();
+  if (aliases[kind][key] === id) return;
+  aliases[kind][key] = id;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(aliases));
+}
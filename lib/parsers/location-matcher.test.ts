@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AUTO_MATCH_CONFIDENCE,
+  locationSkeleton,
+  matchLocation,
+  normalizeLocation,
+  rankLocations,
+} from '@/lib/parsers/location-matcher';
+
+const GOVERNORATES = [
+  { id: 1, name_en: 'Cairo', name_ar: 'القاهرة' },
+  { id: 2, name_en: 'Giza', name_ar: 'الجيزة' },
+  { id: 3, name_en: 'Alexandria', name_ar: 'الإسكندرية' },
+  { id: 4, name_en: 'Qalyubia', name_ar: 'القليوبية' },
+  { id: 5, name_en: 'Dakahlia', name_ar: 'الدقهلية' },
+  { id: 6, name_en: 'Sharqia', name_ar: 'الشرقية' },
+  { id: 7, name_en: 'Menofia', name_ar: 'المنوفية' },
+];
+
+describe('normalizeLocation', () => {
+  it.each([
+    ['Cairo Gov.', 'cairo'],
+    ['Giza Governorate', 'giza'],
+    ['El-Giza', 'giza'],
+    ['محافظة القاهرة', 'قاهره'],
+    ['القاهره', 'قاهره'],
+    ['الإسكندرية', 'اسكندريه'],
+  ])('%s → %s', (raw, expected) => {
+    expect(normalizeLocation(raw)).toBe(expected);
+  });
+});
+
+describe('locationSkeleton', () => {
+  it('gives Arabic and Latin spellings the same consonants', () => {
+    expect(locationSkeleton(normalizeLocation('Al Qahira'))).toBe('khr');
+    expect(locationSkeleton(normalizeLocation('القاهرة'))).toBe('khr');
+  });
+});
+
+describe('matchLocation', () => {
+  it.each([
+    ['Cairo', 1],
+    ['cairo', 1],
+    ['Cairo Gov.', 1],
+    ['محافظة القاهرة', 1],
+    ['القاهره', 1],
+    ['Al Qahira', 1],
+    ['El Giza', 2],
+    ['الجيزه', 2],
+    ['Alexandria Governorate', 3],
+    ['الاسكندريه', 3],
+  ])('resolves %s', (raw, id) => {
+    expect(matchLocation(raw, GOVERNORATES)?.location.id).toBe(id);
+  });
+
+  it.each([
+    ['Caro', 1],
+    ['Alexandira', 3],
+    ['Qalubia', 4],
+    ['Daqahlia', 5],
+    ['Menoufia', 7],
+  ])('resolves the typo %s below full confidence', (raw, id) => {
+    const match = matchLocation(raw, GOVERNORATES);
+    expect(match?.location.id).toBe(id);
+    expect(match?.confidence).toBeGreaterThanOrEqual(AUTO_MATCH_CONFIDENCE);
+    expect(match?.confidence).toBeLessThan(1);
+  });
+
+  it.each(['Luxor', 'xyz', '', '   '])('leaves %j unresolved', (raw) => {
+    expect(matchLocation(raw, GOVERNORATES)).toBeNull();
+  });
+
+  it('leaves a tie between two fuzzy candidates for the user', () => {
+    const cities = [
+      { id: 10, name_en: 'Mit Ghamr', name_ar: 'ميت غمر' },
+      { id: 11, name_en: 'Mit Ghamra', name_ar: 'ميت غمرة' },
+    ];
+    const [best, runnerUp] = rankLocations('Mit Ghamrb', cities);
+
+    expect(best.confidence).toBeGreaterThanOrEqual(AUTO_MATCH_CONFIDENCE);
+    expect(runnerUp.confidence).toBe(best.confidence);
+    expect(matchLocation('Mit Ghamrb', cities)).toBeNull();
+  });
+
+  it('resolves an exact name even when another location matches it exactly too', () => {
+    const cities = [
+      { id: 20, name_en: 'Nasr City', name_ar: 'مدينة نصر' },
+      { id: 21, name_en: 'Nasr', name_ar: 'نصر' },
+    ];
+
+    expect(matchLocation('نصر', cities)).toEqual({ location: cities[0], confidence: 1 });
+  });
+
+  it('prefers a learned alias over every other candidate', () => {
+    const aliases = { [normalizeLocation('Masr')]: 1 };
+
+    expect(matchLocation('Masr', GOVERNORATES, aliases)).toEqual({
+      location: GOVERNORATES[0],
+      confidence: 1,
+    });
+    expect(matchLocation('Masr', GOVERNORATES)).toBeNull();
+  });
+});
+
+describe('rankLocations', () => {
+  it('lists suggestions best first and drops unlikely ones', () => {
+    const ranked = rankLocations('Giz', GOVERNORATES);
+
+    expect(ranked[0].location.id).toBe(2);
+    expect(ranked.every((match, i) => i === 0 || match.confidence <= ranked[i - 1].confidence)).toBe(true);
+    expect(ranked.map((match) => match.location.id)).not.toContain(3);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Fuzzy matching of free-text governorate/city names to known locations.
+ *
+ * Names are compared in three forms: script-normalised text (Arabic letter
+ * variants folded, "Governorate"/"محافظة" and the article stripped), a
+ * consonant skeleton shared by Arabic and Latin spellings ("Al Qahira" and
+ * "القاهرة" both become "khr"), and learned aliases the user confirmed earlier.
+ * Each candidate gets a confidence between 0 and 1.
+ */
+
+/** Anything with bilingual names (governorates, cities) */
+export interface NamedLocation {
+  id: number;
+  name_en: string;
+  name_ar: string;
+}
+
+export interface LocationMatch<T extends NamedLocation> {
+  location: T;
+  /** 0–1; 1 is an exact or learned match */
+  confidence: number;
+}
+
+/** Matches at or above this confidence are resolved without asking */
+export const AUTO_MATCH_CONFIDENCE = 0.8;
+
+/** Matches below this confidence are not worth suggesting */
+const MIN_SUGGESTION_CONFIDENCE = 0.45;
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Fold Arabic spelling variants: diacritics and tatweel removed, hamza forms
+ * of alef → ا, ة → ه, ى → ي, ؤ → و, ئ → ي.
+ */
+export function normalizeArabic(s: string): string {
+  return s
+    .replace(/[\u064B-\u0652\u0670]/g, '')
+    .replace(/\u0640/g, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/ء/g, '');
+}
+
+/**
+ * Normalise a location string for comparison: lowercase, Arabic variants
+ * folded, administrative words ("Governorate", "Gov.", "محافظة", "مدينة")
+ * and the definite article (al-/el-/ال) dropped, punctuation removed.
+ */
+export function normalizeLocation(s: string): string {
+  return normalizeArabic(s.trim().toLowerCase())
+    .replace(/[.,،_\-()'"`]/g, ' ')
+    .replace(/\b(governorate|gov|province|city)\b/g, ' ')
+    .replace(/(^|\s)(محافظه|مدينه|مركز)(?=\s|$)/g, ' ')
+    .replace(/(^|\s)(al|el)\s+/g, '$1')
+    .replace(/(^|\s)ال(?=\S{2,})/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Arabic letters → Latin consonants; long vowels, ع and ء carry no consonant */
+const ARABIC_TO_LATIN: Record<string, string> = {
+  'ا': '', 'ب': 'b', 'ت': 't', 'ث': 's', 'ج': 'g', 'ح': 'h', 'خ': 'kh', 'د': 'd',
+  'ذ': 'z', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't',
+  'ظ': 'z', 'ع': '', 'غ': 'gh', 'ف': 'f', 'ق': 'k', 'ك': 'k', 'ل': 'l', 'م': 'm',
+  'ن': 'n', 'ه': 'h', 'و': '', 'ي': '',
+};
+
+/**
+ * Script-independent consonant skeleton of a normalised name, so Arabic and
+ * Latin spellings of the same place compare equal or close.
+ * Egyptian usage is assumed: ج is "g", ق is often written "k" or "q".
+ */
+export function locationSkeleton(normalized: string): string {
+  const latin = [...normalized]
+    .map((ch) => (ch in ARABIC_TO_LATIN ? ARABIC_TO_LATIN[ch] : ch))
+    .join('')
+    .replace(/[^a-z]/g, '')
+    .replace(/ph/g, 'f')
+    .replace(/th/g, 't')
+    .replace(/dh/g, 'z')
+    .replace(/[qc]/g, 'k')
+    .replace(/j/g, 'g')
+    .replace(/x/g, 'ks')
+    .replace(/[aeiouyw]/g, '')
+    // A trailing h is usually ta marbuta (ة), not a consonant
+    .replace(/h$/, '')
+    .replace(/(.)\1+/g, '$1');
+  return latin;
+}
+
+/**
+ * Edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for identical strings, falling towards 0 as the edit distance grows */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Confidence that `raw` names `location`
+ */
+function scoreLocation(raw: string, location: NamedLocation): number {
+  const norm = normalizeLocation(raw);
+  if (!norm) return 0;
+  const skeleton = locationSkeleton(norm);
+  let best = 0;
+
+  for (const name of [location.name_en, location.name_ar]) {
+    const candidate = normalizeLocation(name);
+    if (!candidate) continue;
+    if (candidate === norm) return 1;
+
+    const candidateSkeleton = locationSkeleton(candidate);
+
+    // Same consonants in either script (e.g. "Al Qahira" ↔ "القاهرة")
+    if (skeleton.length >= 2 && skeleton === candidateSkeleton) {
+      best = Math.max(best, 0.9);
+    }
+
+    // One name contains the other ("Giza Governorate District" ↔ "Giza")
+    if (
+      Math.min(norm.length, candidate.length) >= 3 &&
+      (norm.includes(candidate) || candidate.includes(norm))
+    ) {
+      best = Math.max(best, 0.85);
+    }
+
+    // Typos: spelling distance, and sound distance for transliterations
+    best = Math.max(
+      best,
+      similarity(norm, candidate),
+      similarity(skeleton, candidateSkeleton) * 0.85
+    );
+  }
+
+  return best;
+}
+
+/**
+ * All plausible matches for `raw`, best first. A learned alias pointing at a
+ * location ranks it first with full confidence.
+ */
+export function rankLocations<T extends NamedLocation>(
+  raw: string,
+  locations: T[],
+  aliases: Record<string, number> = {}
+): LocationMatch<T>[] {
+  const norm = normalizeLocation(raw);
+  if (!norm) return [];
+  const aliasId = aliases[norm];
+
+  return locations
+    .map((location) => ({
+      location,
+      confidence: location.id === aliasId ? 1 : scoreLocation(raw, location),
+    }))
+    .filter((match) => match.confidence >= MIN_SUGGESTION_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Best match for `raw` when it is confident enough to resolve automatically
+ */
+export function matchLocation<T extends NamedLocation>(
+  raw: string,
+  locations: T[],
+  aliases: Record<string, number> = {}
+): LocationMatch<T> | null {
+  const [best, runnerUp] = rankLocations(raw, locations, aliases);
+  if (!best || best.confidence < AUTO_MATCH_CONFIDENCE) return null;
+  // Two equally good fuzzy candidates are ambiguous; let the user pick
+  if (best.confidence < 1 && runnerUp && runnerUp.confidence === best.confidence) return null;
+  return best;
+}
@@ -3,10 +3,16 @@ import * as XLSX from 'xlsx';
 import 'xlsx/dist/cpexcel.full.mjs';
 import {
   EXPECTED_COLUMNS,
+  type ColumnMapping,
+  type ColumnMappingRule,
   type ExpectedColumn,
   type ImportedOrderRow,
 } from '@/lib/types/import-orders';
 import type { Governorate, City } from '@/lib/services/vendors';
+import { detectImportPreset } from '@/lib/parsers/import-presets';
+import { matchLocation } from '@/lib/parsers/location-matcher';
+import { getLocationAliases, type LocationAliases } from '@/lib/parsers/location-aliases';
+import { downloadBlob } from '@/lib/utils';
 
 // ---------------------------------------------------------------------------
 // Header synonyms — maps common header variations (EN, AR, Shopify) to our
@@ -37,6 +43,8 @@ const HEADER_SYNONYMS: Record<string, ExpectedColumn> = {
   'الموبايل': 'customerMobile',
   'رقم الهاتف': 'customerMobile',
   'الهاتف': 'customerMobile',
+  'رقم الجوال': 'customerMobile',
+  'الجوال': 'customerMobile',
 
   // --- customerAddress ---
   'address': 'customerAddress',
@@ -100,16 +108,6 @@ const HEADER_SYNONYMS: Record<string, ExpectedColumn> = {
   'ملاحظات المورد': 'vendorNotes',
 };
 
-/**
- * Headers whose presence indicates a Shopify export.
- */
-const SHOPIFY_MARKERS = [
-  'Lineitem name',
-  'Lineitem quantity',
-  'Shipping Name',
-  'Financial Status',
-];
-
 // ---------------------------------------------------------------------------
 // Column mapping
 // ---------------------------------------------------------------------------
@@ -143,6 +141,86 @@ export function autoMapColumns(
   return mapping;
 }
 
+/**
+ * Build the editable column mapping for a file from the auto-detected
+ * header → column matches. Several headers may feed one column; the first
+ * non-empty one wins. Rules from a detected platform preset take precedence.
+ */
+export function buildColumnMapping(headers: string[]): ColumnMapping {
+  const autoMapping = autoMapColumns(headers);
+  const preset = detectImportPreset(headers);
+  const mapping: ColumnMapping = {};
+
+  // Exports list billing fields before shipping ones (Billing Phone, then
+  // Shipping Phone); walk backwards so the later, more specific header wins.
+  for (const header of [...headers].reverse()) {
+    const column = autoMapping[header];
+    if (!column) continue;
+
+    // The order reference column (e.g. Shopify's `Name`, #2116) is never
+    // customer data, even when its header looks like it.
+    if (preset && header.trim() === preset.orderRefHeader) continue;
+
+    const rule = mapping[column] ?? { sources: [], combine: 'first', separator: ' ' };
+    rule.sources.push({ header });
+    mapping[column] = rule;
+  }
+
+  if (preset?.mapping) {
+    Object.assign(mapping, pruneColumnMapping(preset.mapping, headers));
+  }
+
+  return mapping;
+}
+
+/**
+ * Headers referenced anywhere in a mapping
+ */
+export function getMappedHeaders(mapping: ColumnMapping): Set<string> {
+  const headers = new Set<string>();
+  for (const rule of Object.values(mapping)) {
+    for (const source of rule?.sources ?? []) headers.add(source.header);
+  }
+  return headers;
+}
+
+/**
+ * Drop sources whose header is missing from the file, and the rules left empty
+ */
+export function pruneColumnMapping(mapping: ColumnMapping, headers: string[]): ColumnMapping {
+  const available = new Set(headers);
+  const pruned: ColumnMapping = {};
+
+  for (const [column, rule] of Object.entries(mapping) as [ExpectedColumn, ColumnMappingRule][]) {
+    const sources = rule.sources.filter((source) => available.has(source.header));
+    if (sources.length > 0) pruned[column] = { ...rule, sources };
+  }
+
+  return pruned;
+}
+
+/**
+ * Compute the value of a mapped column for one raw row
+ */
+export function applyMappingRule(
+  raw: Record<string, string>,
+  rule: ColumnMappingRule
+): string {
+  const values: string[] = [];
+
+  for (const source of rule.sources) {
+    let value = (raw[source.header] ?? '').toString().trim();
+    if (value && source.split?.delimiter) {
+      value = (value.split(source.split.delimiter)[source.split.index] ?? '').trim();
+    }
+    if (!value) continue;
+    if (rule.combine === 'first') return value;
+    values.push(value);
+  }
+
+  return values.join(rule.separator);
+}
+
 // ---------------------------------------------------------------------------
 // File parsing
 // ---------------------------------------------------------------------------
@@ -230,6 +308,7 @@ export async function parseExcel(
         const isPhone =
           normKey.includes('phone') ||
           normKey.includes('mobile') ||
+          normKey.includes('جوال') ||
           normKey === 'الموبايل' ||
           normKey === 'رقم الموبايل' ||
           normKey === 'رقم الهاتف' ||
@@ -271,147 +350,37 @@ export async function parseImportFile(
   throw new Error(`Unsupported file type: .${extension}`);
 }
 
-// ---------------------------------------------------------------------------
-// Shopify-specific pre-processing
-// ---------------------------------------------------------------------------
-
-/**
- * Detect whether the parsed headers belong to a Shopify export.
- */
-export function isShopifyExport(headers: string[]): boolean {
-  const headerSet = new Set(headers.map((h) => h.trim()));
-  return SHOPIFY_MARKERS.filter((m) => headerSet.has(m)).length >= 2;
-}
-
-/**
- * Pre-process Shopify export rows:
- *  1. Forward-fill customer / order-level fields from the first row of each
- *     order group (Shopify uses the `Name` column as the order identifier and
- *     leaves order-level fields blank for extra line-item rows).
- *  2. Concatenate Shipping Address1 + Shipping Address2 into a single field.
- *  3. Normalise payment method values.
- */
-export function preprocessShopifyRows(
-  rows: Record<string, string>[]
-): Record<string, string>[] {
-  // Fields that should be forward-filled from the first row of the same order
-  const ORDER_LEVEL_FIELDS = [
-    'Shipping Name',
-    'Shipping Phone',
-    'Shipping Address1',
-    'Shipping Address2',
-    'Shipping Street',
-    'Shipping City',
-    'Shipping Province',
-    'Shipping Province Name',
-    'Shipping Zip',
-    'Shipping Country',
-    'Billing Name',
-    'Billing Phone',
-    'Payment Method',
-    'Financial Status',
-    'Notes',
-    'Email',
-    'Phone',
-  ];
-
-  // ---- Normalize missing order names (some exports leave grouped rows blank) ----
-  let lastOrderName = '';
-  for (const row of rows) {
-    const orderName = (row['Name'] ?? '').trim();
-    if (orderName) {
-      lastOrderName = orderName;
-      continue;
-    }
-
-    if (lastOrderName) {
-      row['Name'] = lastOrderName;
-    }
-  }
-
-  // ---- Forward-fill order-level fields by order name group ----
-  const rowsByOrderName = new Map<string, Record<string, string>[]>();
-  for (const row of rows) {
-    const orderName = (row['Name'] ?? '').trim();
-    if (!orderName) continue;
-
-    const group = rowsByOrderName.get(orderName) || [];
-    group.push(row);
-    rowsByOrderName.set(orderName, group);
-  }
-
-  for (const orderRows of rowsByOrderName.values()) {
-    const canonicalValues: Record<string, string> = {};
-
-    for (const field of ORDER_LEVEL_FIELDS) {
-      const firstNonEmpty = orderRows.find((r) => (r[field] ?? '').trim());
-      if (firstNonEmpty) {
-        canonicalValues[field] = (firstNonEmpty[field] ?? '').trim();
-      }
-    }
-
-    for (const row of orderRows) {
-      for (const field of ORDER_LEVEL_FIELDS) {
-        if (!(row[field] ?? '').trim() && canonicalValues[field]) {
-          row[field] = canonicalValues[field];
-        }
-      }
-    }
-  }
-
-  // ---- Concatenate Address1 + Address2 ----
-  for (const row of rows) {
-    const addr1 = (row['Shipping Address1'] ?? '').trim();
-    const addr2 = (row['Shipping Address2'] ?? '').trim();
-    if (addr2 && addr1) {
-      row['Shipping Address1'] = `${addr1}, ${addr2}`;
-    }
-  }
-
-  // ---- Normalise payment method ----
-  for (const row of rows) {
-    const raw = (
-      row['Payment Method'] ??
-      row['Financial Status'] ??
-      ''
-    )
-      .trim()
-      .toLowerCase();
-
-    if (raw.includes('cash') || raw === 'cod' || raw === 'cash_on_delivery') {
-      row['Payment Method'] = 'cod';
-    } else if (raw) {
-      // Everything else (shopify payments, stripe, paid, card, etc.) → prepaid
-      row['Payment Method'] = 'prepaid';
-    }
-  }
-
-  return rows;
-}
-
 // ---------------------------------------------------------------------------
 // Row mapping
 // ---------------------------------------------------------------------------
 
 /**
  * Convert raw parsed rows into ImportedOrderRow[] using the column mapping.
- * Automatically detects and pre-processes Shopify exports.
+ * Automatically detects and pre-processes store platform exports (Shopify,
+ * WooCommerce, Salla, Zid) so multi-item orders share an order reference.
  */
 export function mapRowsToOrders(
   rawRows: Record<string, string>[],
-  mapping: Record<string, ExpectedColumn | null>,
+  mapping: ColumnMapping,
   headers: string[]
 ): ImportedOrderRow[] {
-  // Shopify pre-processing
-  const shopify = isShopifyExport(headers);
-  if (shopify) {
-    preprocessShopifyRows(rawRows);
+  // Work on copies: the mapping step can re-run this on the same parsed file
+  let rows = rawRows.map((raw) => ({ ...raw }));
+
+  // Platform pre-processing
+  const preset = detectImportPreset(headers);
+  if (preset) {
+    rows = preset.preprocess(rows);
   }
 
-  return rawRows.map((raw, index) => {
+  const rules = Object.entries(mapping) as [ExpectedColumn, ColumnMappingRule][];
+
+  return rows.map((raw, index) => {
     const row: ImportedOrderRow = {
       _id: `import-${index}-${Date.now()}`,
-      _orderRef: shopify ? (raw['Name'] ?? '').trim() : '',
+      // Data starts on the row after the header
+      _sourceRow: index + 2,
+      _orderRef: preset ? (raw[preset.orderRefHeader] ?? '').trim() : '',
       customerName: '',
       customerMobile: '',
       customerAddress: '',
@@ -425,20 +394,9 @@ export function mapRowsToOrders(
       _errors: {},
     };
 
-    for (const [header, column] of Object.entries(mapping)) {
-      if (!column) continue;
-      const normalizedHeader = header.trim().toLowerCase();
-
-      // In Shopify exports, `Name` is the order reference (e.g. #2116),
-      // not the customer name. We already store it in _orderRef.
-      if (shopify && normalizedHeader === 'name') continue;
-
-      const value = (raw[header] ?? '').toString().trim();
-
-      // Skip empty values when the column already has a non-empty value
-      // (multiple headers can map to the same column, e.g. Shopify exports
-      // have Billing Phone, Shipping Phone, and Phone all → customerMobile)
-      if (!value && (row as unknown as Record<string, string>)[column]) continue;
+    for (const [column, rule] of rules) {
+      const value = applyMappingRule(raw, rule);
+      if (!value) continue;
 
       if (column === 'quantity') {
         const num = parseInt(value, 10);
@@ -459,115 +417,43 @@ export function mapRowsToOrders(
 // Location resolution — match imported governorate/city strings to DB IDs
 // ---------------------------------------------------------------------------
 
-/**
- * Normalize a location string for comparison: trim, lowercase, strip common
- * prefixes/suffixes like "Governorate", "محافظة", and normalise Arabic
- * ta-marbuta (ة → ه) so "الجيزه" matches "الجيزة".
- */
-function normalizeLocation(s: string): string {
-  return s
-    .trim()
-    .toLowerCase()
-    .replace(/\s+governorate$/i, '')
-    .replace(/\s+gov\.?$/i, '')
-    .replace(/^محافظة\s+/, '')
-    .replace(/\s+محافظة$/, '')
-    .replace(/ة/g, 'ه')
-    .replace(/\s+/g, ' ');
-}
-
-/**
- * Try to find a governorate matching the raw string.
- * Checks name_en, name_ar (and their normalised forms).
- */
-function findGovernorate(
-  raw: string,
-  governorates: Governorate[]
-): Governorate | undefined {
-  if (!raw.trim()) return undefined;
-  const norm = normalizeLocation(raw);
-
-  for (const gov of governorates) {
-    if (
-      normalizeLocation(gov.name_en) === norm ||
-      normalizeLocation(gov.name_ar) === norm
-    ) {
-      return gov;
-    }
-  }
-
-  // Partial / contains match as fallback (e.g. "Al Jizah" contains "jiz" ~ "giz")
-  for (const gov of governorates) {
-    const en = normalizeLocation(gov.name_en);
-    const ar = normalizeLocation(gov.name_ar);
-    if (norm.includes(en) || en.includes(norm) || norm.includes(ar) || ar.includes(norm)) {
-      return gov;
-    }
-  }
-
-  return undefined;
-}
-
-/**
- * Try to find a city matching the raw string within a given set of cities.
- */
-function findCity(
-  raw: string,
-  cities: City[]
-): City | undefined {
-  if (!raw.trim()) return undefined;
-  const norm = normalizeLocation(raw);
-
-  for (const city of cities) {
-    if (
-      normalizeLocation(city.name_en) === norm ||
-      normalizeLocation(city.name_ar) === norm
-    ) {
-      return city;
-    }
-  }
-
-  // Partial / contains match as fallback
-  for (const city of cities) {
-    const en = normalizeLocation(city.name_en);
-    const ar = normalizeLocation(city.name_ar);
-    if (norm.includes(en) || en.includes(norm) || norm.includes(ar) || ar.includes(norm)) {
-      return city;
-    }
-  }
-
-  return undefined;
-}
-
 /**
  * Resolve governorate/city strings in imported rows to database IDs.
  * Mutates rows in place — sets _governorateId and _cityId, and normalises
- * the display strings to match the canonical DB names.
+ * the display strings to match the canonical DB names. Matching is fuzzy
+ * (see location-matcher); the original text and match confidence are kept
+ * on the row so the preview can show what was auto-corrected.
  *
  * @param rows     Parsed import rows
  * @param govs     Governorates from the API
  * @param cities   All cities (for all governorates) from the API
+ * @param aliases  Spellings the user confirmed in earlier imports
  */
 export function resolveLocationIds(
   rows: ImportedOrderRow[],
   govs: Governorate[],
-  cities: City[]
+  cities: City[],
+  aliases: LocationAliases = getLocationAliases()
 ): void {
   for (const row of rows) {
     // --- Governorate ---
-    const gov = findGovernorate(row.governorate, govs);
-    if (gov) {
-      row._governorateId = gov.id;
-      row.governorate = gov.name_en;
+    const govMatch = matchLocation(row.governorate, govs, aliases.governorates);
+    if (govMatch) {
+      row._rawGovernorate ??= row.governorate;
+      row._governorateConfidence = govMatch.confidence;
+      row._governorateId = govMatch.location.id;
+      row.governorate = govMatch.location.name_en;
 
       // --- City (scoped to matched governorate) ---
       const govCities = cities.filter(
-        (c) => c.governorate.id === gov.id
+        (c) => c.governorate.id === govMatch.location.id
       );
-      const city = findCity(row.city, govCities);
-      if (city) {
-        row._cityId = city.id;
-        row.city = city.name_en;
+      const cityMatch = matchLocation(row.city, govCities, aliases.cities);
+      if (cityMatch) {
+        row._rawCity ??= row.city;
+        row._cityConfidence = cityMatch.confidence;
+        row._cityId = cityMatch.location.id;
+        row.city = cityMatch.location.name_en;
       }
     }
   }
@@ -664,14 +550,3 @@ export function generateTemplate(format: 'csv' | 'xlsx' = 'csv'): void {
     XLSX.writeFile(wb, 'orders-template.xlsx');
   }
 }
-
-function downloadBlob(blob: Blob, filename: string) {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-}
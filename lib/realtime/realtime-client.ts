@@ -0,0 +1,155 @@
+/**
+ * Realtime Client
+ * Small transport-agnostic wrapper around Server-Sent Events and WebSockets.
+ * The transport is chosen from the URL scheme: ws:// and wss:// use WebSocket,
+ * anything else uses EventSource. Reconnects with exponential backoff.
+ */
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'disconnected';
+
+export interface RealtimeEvent<T = Record<string, unknown>> {
+  type: string;
+  data: T;
+}
+
+export interface RealtimeClientOptions {
+  /** Stream URL (http(s) for SSE, ws(s) for WebSocket) */
+  url: string;
+  /** Returns the current auth token; sent as a query param since EventSource can't set headers */
+  getToken: () => string | null;
+  onEvent: (event: RealtimeEvent) => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+}
+
+export interface RealtimeClient {
+  connect: () => void;
+  disconnect: () => void;
+  getStatus: () => RealtimeStatus;
+}
+
+/** First reconnect delay; doubles on each failed attempt */
+const RECONNECT_BASE_DELAY = 1000;
+/** Upper bound for the reconnect delay */
+const RECONNECT_MAX_DELAY = 30 * 1000;
+
+/**
+ * Stream URL from the environment, or null when realtime updates are not configured
+ */
+export function getRealtimeUrl(): string | null {
+  return process.env.NEXT_PUBLIC_REALTIME_URL || null;
+}
+
+/**
+ * Parse a message frame. Both transports carry JSON of the form { type, data }.
+ */
+function parseEvent(raw: string): RealtimeEvent | null {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed.type === 'string') {
+      return { type: parsed.type, data: parsed.data ?? {} };
+    }
+  } catch {
+    // Ignore malformed frames (e.g. keep-alive comments)
+  }
+  return null;
+}
+
+export function createRealtimeClient(options: RealtimeClientOptions): RealtimeClient {
+  let status: RealtimeStatus = 'idle';
+  let source: EventSource | WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let stopped = true;
+
+  const setStatus = (next: RealtimeStatus) => {
+    if (status === next) return;
+    status = next;
+    options.onStatusChange?.(next);
+  };
+
+  const buildUrl = () => {
+    const url = new URL(options.url);
+    const token = options.getToken();
+    if (token) url.searchParams.set('token', token);
+    return url.toString();
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) return;
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempts, RECONNECT_MAX_DELAY);
+    attempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      open();
+    }, delay);
+  };
+
+  const handleOpen = () => {
+    attempts = 0;
+    setStatus('connected');
+  };
+
+  const handleDrop = () => {
+    close();
+    setStatus('disconnected');
+    scheduleReconnect();
+  };
+
+  const open = () => {
+    if (stopped) return;
+    setStatus('connecting');
+    const url = buildUrl();
+
+    if (/^wss?:\/\//.test(url)) {
+      const socket = new WebSocket(url);
+      socket.onopen = handleOpen;
+      socket.onmessage = (message) => {
+        const event = parseEvent(String(message.data));
+        if (event) options.onEvent(event);
+      };
+      socket.onclose = handleDrop;
+      source = socket;
+    } else {
+      const eventSource = new EventSource(url);
+      eventSource.onopen = handleOpen;
+      // Unnamed events carry { type, data } in the payload
+      eventSource.onmessage = (message) => {
+        const event = parseEvent(message.data);
+        if (event) options.onEvent(event);
+      };
+      // EventSource retries on its own, but with a fixed delay and no status signal
+      eventSource.onerror = handleDrop;
+      source = eventSource;
+    }
+  };
+
+  const close = () => {
+    if (!source) return;
+    if (source instanceof WebSocket) {
+      source.onclose = null;
+    } else {
+      source.onerror = null;
+    }
+    source.close();
+    source = null;
+  };
+
+  return {
+    connect: () => {
+      if (!stopped) return;
+      stopped = false;
+      attempts = 0;
+      open();
+    },
+    disconnect: () => {
+      stopped = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      close();
+      setStatus('idle');
+    },
+    getStatus: () => status,
+  };
+}
@@ -1,6 +1,10 @@
 import { apiRequest } from "../api";
 
 // Types
+export const NOTIFICATION_CATEGORIES = ["order", "wallet", "user", "alert"] as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
 export interface NotificationData {
   order_id?: number;
   order_number?: string;
@@ -15,6 +19,8 @@ export interface NotificationData {
 export interface Notification {
   id: string;
   type: string;
+  /** Category assigned by the backend; older notifications may not have one */
+  category?: NotificationCategory | null;
   title: string;
   body: string;
   data: NotificationData | null;
@@ -39,10 +45,39 @@ export interface UnreadCountResponse {
 
 export interface NotificationFilters {
   unread_only?: boolean;
+  read_only?: boolean;
+  category?: NotificationCategory;
+  /** Inclusive date range, YYYY-MM-DD */
+  from_date?: string;
+  to_date?: string;
   page?: number;
   per_page?: number;
 }
 
+/** How the user wants to hear about one category */
+export interface NotificationChannelPreference {
+  /** Receive notifications of this category at all */
+  enabled: boolean;
+  /** Play a sound when one arrives */
+  sound: boolean;
+  /** Show a browser (desktop) notification when one arrives */
+  browser: boolean;
+}
+
+/** Time window in which sound and browser alerts are held back */
+export interface NotificationQuietHours {
+  enabled: boolean;
+  /** Local time, HH:mm */
+  start: string;
+  /** Local time, HH:mm; may be earlier than start to wrap past midnight */
+  end: string;
+}
+
+export interface NotificationPreferences {
+  categories: Record<NotificationCategory, NotificationChannelPreference>;
+  quiet_hours: NotificationQuietHours;
+}
+
 // API Functions
 
 // GET /notifications
@@ -54,6 +89,18 @@ export async function fetchNotifications(
   if (filters?.unread_only) {
     params.append("unread_only", "true");
   }
+  if (filters?.read_only) {
+    params.append("read_only", "true");
+  }
+  if (filters?.category) {
+    params.append("category", filters.category);
+  }
+  if (filters?.from_date) {
+    params.append("from_date", filters.from_date);
+  }
+  if (filters?.to_date) {
+    params.append("to_date", filters.to_date);
+  }
   if (filters?.page) {
     params.append("page", filters.page.toString());
   }
@@ -111,6 +158,33 @@ export async function deleteAllNotifications(): Promise<void> {
   });
 }
 
+// POST /notifications/delete
+export async function deleteNotifications(notificationIds: string[]): Promise<void> {
+  await apiRequest("/notifications/delete", {
+    method: "POST",
+    body: JSON.stringify({ notification_ids: notificationIds }),
+  });
+}
+
+// GET /notifications/preferences
+export async function fetchNotificationPreferences(): Promise<NotificationPreferences> {
+  const response = await apiRequest<NotificationPreferences>("/notifications/preferences", {
+    method: "GET",
+  });
+  return withDefaultPreferences(response.data);
+}
+
+// PUT /notifications/preferences
+export async function updateNotificationPreferences(
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> {
+  const response = await apiRequest<NotificationPreferences>("/notifications/preferences", {
+    method: "PUT",
+    body: JSON.stringify(preferences),
+  });
+  return withDefaultPreferences(response.data);
+}
+
 // Utility Types & Functions
 
 export type NotificationIconType =
@@ -120,6 +194,45 @@ export type NotificationIconType =
   | "alert"
   | "info";
 
+export const DEFAULT_CHANNEL_PREFERENCE: NotificationChannelPreference = {
+  enabled: true,
+  sound: false,
+  browser: false,
+};
+
+export const DEFAULT_QUIET_HOURS: NotificationQuietHours = {
+  enabled: false,
+  start: "22:00",
+  end: "07:00",
+};
+
+/**
+ * Fill in categories (and quiet hours) the backend has no saved preference for
+ */
+export function withDefaultPreferences(
+  preferences?: Partial<NotificationPreferences> | null
+): NotificationPreferences {
+  const categories = {} as Record<NotificationCategory, NotificationChannelPreference>;
+  for (const category of NOTIFICATION_CATEGORIES) {
+    categories[category] = {
+      ...DEFAULT_CHANNEL_PREFERENCE,
+      ...preferences?.categories?.[category],
+    };
+  }
+  return {
+    categories,
+    quiet_hours: { ...DEFAULT_QUIET_HOURS, ...preferences?.quiet_hours },
+  };
+}
+
+/**
+ * Icon/category for a notification: the backend category when set,
+ * otherwise guessed from the notification type
+ */
+export function getNotificationCategory(notification: Notification): NotificationIconType {
+  return notification.category ?? getNotificationIconType(notification.type);
+}
+
 export function getNotificationIconType(type: string): NotificationIconType {
   const typeLower = type.toLowerCase();
   if (typeLower.includes("order")) return "order";
@@ -144,6 +257,19 @@ export function getNotificationIconType(type: string): NotificationIconType {
   return "info";
 }
 
+/**
+ * Dashboard page a notification points to, from the ids in its data
+ */
+export function getNotificationLink(notification: Notification): string | null {
+  if (notification.data?.order_id) {
+    return `/dashboard/orders/${notification.data.order_id}`;
+  }
+  if (notification.data?.vendor_id) {
+    return `/dashboard/vendors/${notification.data.vendor_id}`;
+  }
+  return null;
+}
+
 export function isRecentNotification(createdAt: string): boolean {
   const date = new Date(createdAt);
   const now = new Date();
@@ -5,8 +5,10 @@
  * status updates (accept/reject), and agent assignments.
  */
 
-import { apiRequest } from '../api';
+import { apiRequest, fetchAllPages } from '../api';
 import { PAGINATION } from '../constants/pagination';
+import type { PaginatedResponse } from '../types';
+import type { ImportRecord, ImportSummary } from '../types/import-orders';
 
 /**
  * Pagination links from API response
@@ -74,6 +76,8 @@ export interface OrderFilters {
   governorate_id?: string; // Not in API, but kept for UI
   city_id?: string; // Not in API, but kept for UI
   created_at_between?: string; // Maps to created_between
+  failure_reason_code?: string; // Delivery failure reason (returns queue)
+  delivered_between?: string; // Delivery date range: YYYY-MM-DD,YYYY-MM-DD
   [key: string]: string | undefined;
 }
 
@@ -174,6 +178,8 @@ export interface Vendor {
   address?: string;
   logo?: string;
   status?: string;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
 }
 
 /**
@@ -328,6 +334,8 @@ export interface Order {
   can_reject?: boolean;
   /** Whether current user (vendor) can cancel this order */
   can_cancel?: boolean;
+  /** Whether current user (vendor) can edit this order (phase 1 only) */
+  can_edit?: boolean;
   /** Whether current user can assign a pickup agent to this order */
   can_assign_pickup_agent?: boolean;
   /** Whether current user can assign a delivery agent to this order */
@@ -345,6 +353,18 @@ export interface Order {
   /** Whether current user can mark delivery as failed */
   can_fail_delivery?: boolean;
 
+  // Returns (RTO) flags
+  /** Whether current user can schedule another delivery attempt */
+  can_reattempt_delivery?: boolean;
+  /** Whether current user can send this order back to the vendor */
+  can_return_to_vendor?: boolean;
+  /** Whether current user can assign a return agent to this order */
+  can_assign_return_agent?: boolean;
+  /** Whether current user can pick up the returned parcel from inventory */
+  can_pickup_return?: boolean;
+  /** Whether current user can hand the returned parcel back to the vendor */
+  can_deliver_return?: boolean;
+
   // Admin skip action flags
   /** Whether current user can mark order as picked up from vendor (skip QR scan) */
   can_mark_picked_up_from_vendor?: boolean;
@@ -359,6 +379,18 @@ export interface Order {
   inventory_id?: number;
   /** Vendor ID */
   vendor_id?: number;
+
+  // Returns (RTO)
+  /** Reason given for the last failed delivery */
+  failure_reason?: string | null;
+  /** Reason code for the last failed delivery (see DELIVERY_FAILURE_REASONS) */
+  failure_reason_code?: string | null;
+  /** Timestamp of the last failed delivery */
+  failed_delivery_at?: string | null;
+  /** Number of delivery attempts made */
+  delivery_attempts?: number;
+  /** Timestamp the parcel was handed back to the vendor */
+  returned_at?: string | null;
 }
 
 /**
@@ -535,6 +567,120 @@ export async function createOrder(orderData: CreateOrderRequest): Promise<Order>
   return response.data;
 }
 
+/**
+ * Request payload for updating an order
+ * Only the fields that changed are sent; items are replaced as a whole when present
+ */
+export interface UpdateOrderRequest {
+  /** Changed customer fields */
+  customer?: Partial<CreateOrderCustomer>;
+  /** Full replacement list of order items */
+  items?: CreateOrderItem[];
+  /** Payment method */
+  payment_method?: string | null;
+  /** Notes visible to vendor */
+  vendor_notes?: string | null;
+  /** Summary of the edit, recorded in the order's status log */
+  change_notes?: string;
+}
+
+/**
+ * Whether an order can still be edited
+ * Falls back to the phase flag when the backend doesn't send can_edit
+ */
+export function isOrderEditable(order: Order): boolean {
+  return order.can_edit ?? order.is_in_phase1 === true;
+}
+
+type ComparableValue = string | number | null | undefined;
+
+/** Customer fields holding numbers, which the API may return as numeric strings ("30.0444") */
+const NUMERIC_CUSTOMER_FIELDS: ReadonlySet<keyof CreateOrderCustomer> = new Set([
+  'governorate_id',
+  'city_id',
+  'latitude',
+  'longitude',
+]);
+
+/**
+ * Text fields compare as trimmed strings, so leading zeros in phone numbers
+ * and postal codes are kept
+ */
+function normalizeText(value: ComparableValue): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+function normalizeNumber(value: ComparableValue): string {
+  if (value === null || value === undefined || value === '') return '';
+  return isNaN(Number(value)) ? String(value).trim() : String(Number(value));
+}
+
+function normalizeItem(item: Partial<CreateOrderItem>): string {
+  return [
+    normalizeText(item.product_name),
+    normalizeText(item.product_sku),
+    normalizeText(item.product_description),
+    normalizeNumber(item.quantity),
+    normalizeNumber(item.unit_price),
+    normalizeNumber(item.weight),
+    normalizeText(item.notes),
+  ].join('|');
+}
+
+/**
+ * Compare an order against edited form data and keep only the changed fields
+ * Returns an empty object when nothing changed
+ */
+export function getOrderChanges(order: Order, orderData: CreateOrderRequest): UpdateOrderRequest {
+  const changes: UpdateOrderRequest = {};
+
+  const original = (order.customer || {}) as Partial<Customer>;
+  const customerChanges: Partial<CreateOrderCustomer> = {};
+  (Object.keys(orderData.customer) as Array<keyof CreateOrderCustomer>).forEach((key) => {
+    const next = orderData.customer[key];
+    const normalize = NUMERIC_CUSTOMER_FIELDS.has(key) ? normalizeNumber : normalizeText;
+    if (normalize(next) !== normalize(original[key])) {
+      (customerChanges as Record<string, ComparableValue>)[key] = next;
+    }
+  });
+  if (Object.keys(customerChanges).length > 0) {
+    changes.customer = customerChanges;
+  }
+
+  const originalItems = (order.items || []).map(normalizeItem);
+  const nextItems = orderData.items.map(normalizeItem);
+  if (originalItems.join('\n') !== nextItems.join('\n')) {
+    changes.items = orderData.items;
+  }
+
+  if (normalizeText(orderData.payment_method) !== normalizeText(order.payment_method)) {
+    changes.payment_method = orderData.payment_method;
+  }
+  if (normalizeText(orderData.vendor_notes) !== normalizeText(order.vendor_notes)) {
+    changes.vendor_notes = orderData.vendor_notes;
+  }
+
+  return changes;
+}
+
+/**
+ * Update a pending (phase 1) order
+ */
+export async function updateOrder(id: number, orderData: UpdateOrderRequest): Promise<Order> {
+  const response = await apiRequest<Order>(`/orders/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(orderData),
+    skipRedirectOn403: true,
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to update order');
+  }
+
+  return response.data;
+}
+
 /**
  * Available includes for orders API
  * Note: assignments.assignedTo and assignments.assignedBy load nested relations
@@ -601,12 +747,13 @@ export async function fetchOrders(
 /**
  * Fetch orders assigned to current shipping agent
  * Backend should filter orders where the current user is assigned as the agent
- * Includes assignments in the response to verify filtering
+ * Includes assignments in the response to verify filtering, and customers and
+ * vendors so agents have contact details (also offline)
  */
 export async function fetchMyAssignedOrders(): Promise<Order[]> {
   // Fetch orders with assignments included
   // Backend should automatically filter by authenticated user's ID for shipping agents
-  const response = await apiRequest<Order[]>('/orders?include=assignments', {
+  const response = await apiRequest<Order[]>('/orders?include=assignments,customer,vendor', {
     method: 'GET',
   });
 
@@ -840,6 +987,130 @@ export async function skipVerifyOtp(orderId: number): Promise<Order> {
   return response.data;
 }
 
+/**
+ * Scan actions an operator can perform on a parcel label.
+ * Each action mirrors one of the order's can_* permission flags.
+ */
+export type OrderScanAction =
+  | 'pickup_from_vendor'
+  | 'scan_inventory'
+  | 'pickup_from_inventory'
+  | 'scan_delivery'
+  | 'pickup_return'
+  | 'deliver_return';
+
+/**
+ * Endpoint path segment for each scan action
+ */
+const SCAN_ACTION_ENDPOINTS: Record<OrderScanAction, string> = {
+  pickup_from_vendor: 'pickup-from-vendor',
+  scan_inventory: 'scan-inventory',
+  pickup_from_inventory: 'pickup-from-inventory',
+  scan_delivery: 'scan-delivery',
+  pickup_return: 'pickup-return',
+  deliver_return: 'deliver-return',
+};
+
+export interface ScanOrderRequest {
+  /** Raw value decoded from the label (QR code or barcode) */
+  code: string;
+  /** Scanner location latitude */
+  latitude?: number;
+  /** Scanner location longitude */
+  longitude?: number;
+  /** Short description of the scanning device */
+  device_info?: string;
+  notes?: string;
+}
+
+/**
+ * Record a scan for an order
+ * The backend validates the code against the order and advances its status
+ */
+export async function scanOrder(
+  id: number,
+  action: OrderScanAction,
+  payload: ScanOrderRequest
+): Promise<Order> {
+  const response = await apiRequest<Order>(`/orders/${id}/${SCAN_ACTION_ENDPOINTS[action]}`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+    skipRedirectOn403: true,
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to record scan');
+  }
+
+  return response.data;
+}
+
+/** Page size when looking through partial matches for a scanned code */
+const SCAN_LOOKUP_PAGE_SIZE = 50;
+
+/**
+ * First order in the filtered list that passes the exact check, paging until
+ * it is found or the list ends
+ */
+async function findExactOrder(filters: OrderFilters, isExact: (order: Order) => boolean): Promise<Order | null> {
+  let page = 1;
+  let lastPage = 1;
+
+  do {
+    const response = await fetchOrders(page, SCAN_LOOKUP_PAGE_SIZE, filters);
+    const match = response.data.find(isExact);
+    if (match) return match;
+    lastPage = response.meta.last_page;
+    page++;
+  } while (page <= lastPage);
+
+  return null;
+}
+
+/**
+ * Find an order from a scanned label value
+ * Labels carry the track number as a barcode and a QR code that may hold
+ * the track number or the public tracking URL, so both forms are accepted.
+ * The list filters may match partially, so only an exact track number or
+ * order number match is returned; a scan must never act on a lookalike.
+ * Returns null when no order matches.
+ */
+export async function findOrderByScanCode(code: string): Promise<Order | null> {
+  const trackNumber = extractTrackNumber(code);
+  if (!trackNumber) {
+    return null;
+  }
+
+  const isSameCode = (value: string | null | undefined) =>
+    !!value && value.trim().toUpperCase() === trackNumber.toUpperCase();
+
+  const trackMatch = await findExactOrder({ track_number: trackNumber }, (order) => isSameCode(order.track_number));
+  if (trackMatch) {
+    return fetchOrder(trackMatch.id);
+  }
+
+  // Fall back to order number for hand-typed codes
+  const orderMatch = await findExactOrder({ order_number: trackNumber }, (order) => isSameCode(order.order_number));
+  if (orderMatch) {
+    return fetchOrder(orderMatch.id);
+  }
+
+  return null;
+}
+
+/**
+ * Extract the track number from a scanned value
+ * Handles tracking URLs (e.g. https://host/en/track/TRK123) and plain codes
+ */
+export function extractTrackNumber(code: string): string {
+  const value = code.trim();
+  const match = value.match(/\/track\/([^/?#\s]+)/i);
+  if (match) {
+    return decodeURIComponent(match[1]);
+  }
+  return value;
+}
+
 /**
  * Cancel an order by vendor
  * Only available for vendors on their own orders before pickup
@@ -858,14 +1129,31 @@ export async function cancelOrder(id: number, reason: string): Promise<Order> {
   return response.data;
 }
 
+/**
+ * Delivery failure reason codes, used to route parcels in the returns queue
+ */
+export const DELIVERY_FAILURE_REASONS = [
+  'customer_unreachable',
+  'customer_refused',
+  'wrong_address',
+  'customer_rescheduled',
+  'damaged_parcel',
+  'other',
+] as const;
+
+export type DeliveryFailureReason = typeof DELIVERY_FAILURE_REASONS[number];
+
 /**
  * Mark delivery as failed
  * Available when order is out for delivery and user has permission
  */
-export async function failDelivery(id: number, reason: string): Promise<Order> {
+export async function failDelivery(id: number, reason: string, reasonCode?: DeliveryFailureReason): Promise<Order> {
   const response = await apiRequest<Order>(`/orders/${id}/fail-delivery`, {
     method: 'POST',
-    body: JSON.stringify({ reason: reason.trim() }),
+    body: JSON.stringify({
+      reason: reason.trim(),
+      ...(reasonCode && { reason_code: reasonCode }),
+    }),
     skipRedirectOn403: true,
   });
 
@@ -876,6 +1164,121 @@ export async function failDelivery(id: number, reason: string): Promise<Order> {
   return response.data;
 }
 
+// ============================================
+// Returns (RTO)
+// ============================================
+
+/**
+ * Order statuses that belong to the returns workflow, in workflow order
+ * failed_delivery -> return_to_vendor -> returning -> returned
+ */
+export const RETURN_STATUSES = ['failed_delivery', 'return_to_vendor', 'returning', 'returned'] as const;
+
+export type ReturnStatus = typeof RETURN_STATUSES[number];
+
+/**
+ * Assignment type for the inventory-to-vendor return leg
+ */
+export const RETURN_ASSIGNMENT_TYPE = 'inventory_to_vendor';
+
+export interface ReattemptDeliveryRequest {
+  agent_id: number;
+  /** Date of the next attempt (YYYY-MM-DD) */
+  scheduled_date?: string;
+  notes?: string;
+}
+
+/**
+ * Schedule another delivery attempt for a failed order with a (new) delivery agent
+ * The backend records a re-attempt fee on the vendor wallet
+ */
+export async function reattemptDelivery(id: number, data: ReattemptDeliveryRequest): Promise<Order> {
+  const response = await apiRequest<Order>(`/orders/${id}/reattempt-delivery`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+    skipRedirectOn403: true,
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to schedule delivery re-attempt');
+  }
+
+  return response.data;
+}
+
+/**
+ * Send a failed order back to its vendor
+ * The backend records the return fee (and reverses prepaid revenue) on the vendor wallet
+ */
+export async function returnToVendor(id: number, notes?: string): Promise<Order> {
+  const response = await apiRequest<Order>(`/orders/${id}/return-to-vendor`, {
+    method: 'POST',
+    body: JSON.stringify(notes?.trim() ? { notes: notes.trim() } : {}),
+    skipRedirectOn403: true,
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to return order to vendor');
+  }
+
+  return response.data;
+}
+
+/**
+ * Assign an agent to carry a returned parcel from inventory back to the vendor
+ */
+export async function assignReturnAgent(id: number, agentId: number, notes?: string): Promise<Assignment> {
+  const response = await apiRequest<Assignment>(`/orders/${id}/assign-return-agent`, {
+    method: 'POST',
+    body: JSON.stringify({
+      agent_id: agentId,
+      ...(notes?.trim() && { notes: notes.trim() }),
+    }),
+    skipRedirectOn403: true,
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to assign return agent');
+  }
+
+  return response.data;
+}
+
+/**
+ * Fetch orders in the returns workflow
+ * Defaults to every return status when no status filter is given
+ */
+export async function fetchReturnOrders(
+  page: number = 1,
+  perPage: number = PAGINATION.ORDERS,
+  filters: OrderFilters = {}
+): Promise<OrdersResponse> {
+  return fetchOrders(page, perPage, {
+    ...filters,
+    status: filters.status || RETURN_STATUSES.join(','),
+  });
+}
+
+/**
+ * Statuses of orders that are on (or about to go on) a delivery run
+ */
+export const DISPATCH_STATUSES = ['delivery_assigned', 'out_for_delivery'] as const;
+
+/** Page size used when loading a whole dispatch board */
+const DISPATCH_PAGE_SIZE = 100;
+
+/**
+ * Fetch every order of an inventory that is assigned to, or out with, a delivery agent.
+ * Pages through the orders API so the board covers the whole day's runs.
+ */
+export async function fetchDispatchOrders(inventoryId: number): Promise<Order[]> {
+  const filters: OrderFilters = {
+    inventory_id: inventoryId.toString(),
+    status: DISPATCH_STATUSES.join(','),
+  };
+  return fetchAllPages((page) => fetchOrders(page, DISPATCH_PAGE_SIZE, filters));
+}
+
 /**
  * Response from the bulk import orders endpoint
  */
@@ -894,6 +1297,8 @@ export interface ImportOrdersResponse {
   failure_count: number;
   errors: Array<{ index: number; message: string }>;
   warnings: ImportOrderWarning[];
+  /** Orders created by this request, by index in the submitted payload */
+  created?: Array<{ index: number; order_id: number; order_number: string }>;
   requires_confirmation?: boolean;
 }
 
@@ -928,3 +1333,71 @@ export async function importOrders(
   return response.data;
 }
 
+/**
+ * Import history kept on the server, so staff and the vendor's other devices
+ * can see what an import created. Records hold the outcome of each order but
+ * no customer data, and are audit data: there is no endpoint to delete them.
+ * Vendors get their own imports; staff get every vendor's. The list leaves
+ * out the per-order rows (see fetchOrderImport).
+ */
+export async function fetchOrderImports(
+  page: number = 1,
+  perPage: number = PAGINATION.ORDER_IMPORTS
+): Promise<PaginatedResponse<ImportRecord>> {
+  const response = await apiRequest<ImportRecord[]>(`/orders/imports?page=${page}&per_page=${perPage}`, {
+    method: 'GET',
+  });
+
+  return {
+    data: response.data || [],
+    meta: {
+      current_page: response.meta?.current_page ?? page,
+      last_page: response.meta?.last_page ?? 1,
+      per_page: response.meta?.per_page ?? perPage,
+      total: response.meta?.total ?? 0,
+    },
+  };
+}
+
+/**
+ * One import record with the outcome of every order
+ */
+export async function fetchOrderImport(id: number): Promise<ImportRecord> {
+  const response = await apiRequest<ImportRecord>(`/orders/imports/${id}`, {
+    method: 'GET',
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to fetch import');
+  }
+
+  return response.data;
+}
+
+/**
+ * Create the server record for a new import. The server assigns the id and
+ * records the signed-in user as the one who ran it.
+ */
+export async function createOrderImport(summary: ImportSummary): Promise<ImportRecord> {
+  const response = await apiRequest<ImportRecord>('/orders/imports', {
+    method: 'POST',
+    body: JSON.stringify(summary),
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to create import');
+  }
+
+  return response.data;
+}
+
+/**
+ * Replace the status, counts and order outcomes of an import record
+ */
+export async function updateOrderImport(id: number, summary: ImportSummary): Promise<void> {
+  await apiRequest<ImportRecord>(`/orders/imports/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(summary),
+  });
+}
+
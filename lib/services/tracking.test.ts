@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { estimateDeliveryWindow, type TrackingData, type TrackingStep } from '@/lib/services/tracking';
+
+const HOUR = 60 * 60 * 1000;
+const CREATED_AT = new Date('2026-03-01T08:00:00Z').getTime();
+
+function at(hours: number): Date {
+  return new Date(CREATED_AT + hours * HOUR);
+}
+
+function step(key: string, hours: number | null): TrackingStep {
+  return {
+    key,
+    label: key,
+    description: '',
+    completed: hours !== null,
+    current: false,
+    timestamp: hours === null ? null : at(hours).toISOString(),
+  };
+}
+
+function makeTracking(overrides: Partial<TrackingData> = {}): TrackingData {
+  return {
+    track_number: 'TRK-1',
+    order_number: 'ORD-1',
+    status: 'in_inventory',
+    status_label: 'In inventory',
+    tracking_steps: [step('created', 0)],
+    current_phase: { phase: 'inventory', label: 'Inventory', progress: 0 },
+    is_completed: false,
+    is_failed: false,
+    vendor: { name_en: 'Vendor', name_ar: 'Vendor' },
+    delivery_address: {
+      address: '',
+      address_notes: '',
+      city: { name_en: '', name_ar: '' },
+      governorate: { name_en: '', name_ar: '' },
+      full_address: '',
+    },
+    created_at: at(0).toISOString(),
+    updated_at: at(0).toISOString(),
+    status_history: [],
+    delivery_averages: { order_to_delivery_hours: 48, out_for_delivery_to_delivery_hours: 4 },
+    ...overrides,
+  } as TrackingData;
+}
+
+describe('estimateDeliveryWindow', () => {
+  it('counts the remaining share of the average from when the progress was reached', () => {
+    const tracking = makeTracking({
+      tracking_steps: [step('created', 0), step('picked_up', 10), step('out_for_delivery', null)],
+      current_phase: { phase: 'inventory', label: 'Inventory', progress: 50 },
+    });
+
+    // 24h left after the pickup at +10h, ±6h
+    expect(estimateDeliveryWindow(tracking, at(12))).toEqual({
+      from: at(28),
+      to: at(40),
+      isLastMile: false,
+      isLate: false,
+    });
+  });
+
+  it('falls back to the order creation time when no step has a timestamp', () => {
+    const tracking = makeTracking({
+      tracking_steps: [step('created', null)],
+      current_phase: { phase: 'pending', label: 'Pending', progress: 25 },
+    });
+
+    const window = estimateDeliveryWindow(tracking, at(1));
+    expect(window?.from).toEqual(at(27));
+    expect(window?.to).toEqual(at(45));
+  });
+
+  it('keeps the same window as time passes', () => {
+    const tracking = makeTracking({ current_phase: { phase: 'inventory', label: 'Inventory', progress: 50 } });
+
+    expect(estimateDeliveryWindow(tracking, at(2))).toEqual(estimateDeliveryWindow(tracking, at(20)));
+  });
+
+  it('flags the estimate late once its window has passed', () => {
+    const tracking = makeTracking({ current_phase: { phase: 'inventory', label: 'Inventory', progress: 50 } });
+
+    expect(estimateDeliveryWindow(tracking, at(30))?.isLate).toBe(false);
+    expect(estimateDeliveryWindow(tracking, at(31))).toEqual({
+      from: at(18),
+      to: at(30),
+      isLastMile: false,
+      isLate: true,
+    });
+  });
+
+  it('uses the last-mile average once the parcel is out for delivery', () => {
+    const tracking = makeTracking({
+      status: 'out_for_delivery',
+      tracking_steps: [step('created', 0), step('out_for_delivery', 30)],
+      current_phase: { phase: 'delivery', label: 'Delivery', progress: 90 },
+    });
+
+    // 4h after going out, ±1h
+    expect(estimateDeliveryWindow(tracking, at(31))).toEqual({
+      from: at(33),
+      to: at(35),
+      isLastMile: true,
+      isLate: false,
+    });
+    expect(estimateDeliveryWindow(tracking, at(36))?.isLate).toBe(true);
+  });
+
+  it('falls back to default averages when the route has no history', () => {
+    const tracking = makeTracking({ delivery_averages: null });
+
+    const window = estimateDeliveryWindow(tracking, at(1));
+    expect(window?.from).toEqual(at(36));
+    expect(window?.to).toEqual(at(60));
+  });
+
+  it('has no estimate for completed or failed orders', () => {
+    expect(estimateDeliveryWindow(makeTracking({ is_completed: true }), at(1))).toBeNull();
+    expect(estimateDeliveryWindow(makeTracking({ is_failed: true }), at(1))).toBeNull();
+  });
+});
@@ -56,10 +56,21 @@ export interface TrackingData {
       name_ar: string;
     };
     full_address: string;
+    latitude?: number | string | null;
+    longitude?: number | string | null;
   };
   created_at: string;
   updated_at: string;
   status_history: StatusHistoryItem[];
+  /** Historical delivery durations for similar orders (same vendor and destination city) */
+  delivery_averages?: DeliveryAverages | null;
+}
+
+export interface DeliveryAverages {
+  /** Average hours from order placement to delivery */
+  order_to_delivery_hours: number | null;
+  /** Average hours from leaving the inventory to delivery */
+  out_for_delivery_to_delivery_hours: number | null;
 }
 
 export interface TrackingResponse {
@@ -95,3 +106,100 @@ export async function fetchTracking(trackingNumber: string): Promise<TrackingDat
   const result: TrackingResponse = await response.json();
   return result.data;
 }
+
+/** Fallback averages used when the API has no history for the route yet */
+const DEFAULT_AVERAGES = {
+  order_to_delivery_hours: 48,
+  out_for_delivery_to_delivery_hours: 4,
+};
+
+/** Share of the expected duration added on either side of the estimate */
+const WINDOW_SPREAD = 0.25;
+
+/** Smallest window shown, so short estimates don't read as exact times */
+const MIN_WINDOW_HOURS = 1;
+
+export interface DeliveryWindow {
+  from: Date;
+  to: Date;
+  /** True when the estimate is based on the out-for-delivery leg only */
+  isLastMile: boolean;
+  /** True once the window has passed without a delivery; from/to are the original estimate */
+  isLate: boolean;
+}
+
+/**
+ * When the order reached its current progress: the latest completed step, or
+ * order creation when no step carries a timestamp
+ */
+function getProgressReachedAt(tracking: TrackingData): number {
+  const reachedAt = tracking.tracking_steps
+    .filter((step) => step.completed && step.timestamp)
+    .map((step) => new Date(step.timestamp as string).getTime());
+  return reachedAt.length > 0 ? Math.max(...reachedAt) : new Date(tracking.created_at).getTime();
+}
+
+/**
+ * Estimate when an order will arrive.
+ * Once the parcel is out for delivery the window is the average last-mile duration
+ * after the out-for-delivery step. Before that, the share of the average end-to-end
+ * duration left at current_phase.progress is counted from when the order reached
+ * that progress. The window stays put as time passes; once it is over the estimate
+ * is flagged late rather than moved. Returns null for completed or failed orders.
+ */
+export function estimateDeliveryWindow(
+  tracking: TrackingData,
+  now: Date = new Date()
+): DeliveryWindow | null {
+  if (tracking.is_completed || tracking.is_failed) return null;
+
+  const averages = tracking.delivery_averages;
+  const hour = 60 * 60 * 1000;
+  let startedAt: number;
+  let durationHours: number;
+  const isLastMile = tracking.status === 'out_for_delivery';
+
+  if (isLastMile) {
+    durationHours =
+      averages?.out_for_delivery_to_delivery_hours ?? DEFAULT_AVERAGES.out_for_delivery_to_delivery_hours;
+    const outStep = tracking.tracking_steps.find((step) => step.key === 'out_for_delivery');
+    startedAt = outStep?.timestamp ? new Date(outStep.timestamp).getTime() : getProgressReachedAt(tracking);
+  } else {
+    const totalHours = averages?.order_to_delivery_hours ?? DEFAULT_AVERAGES.order_to_delivery_hours;
+    const progress = Math.min(Math.max(tracking.current_phase.progress, 0), 100);
+    durationHours = totalHours * (1 - progress / 100);
+    startedAt = getProgressReachedAt(tracking);
+  }
+
+  const expectedAt = startedAt + durationHours * hour;
+  const spread = Math.max(durationHours * WINDOW_SPREAD, MIN_WINDOW_HOURS / 2) * hour;
+  const to = expectedAt + spread;
+  return {
+    from: new Date(expectedAt - spread),
+    to: new Date(to),
+    isLastMile,
+    isLate: now.getTime() > to,
+  };
+}
+
+/**
+ * Human-readable delivery window, e.g. "Today, 2:00 PM – 4:00 PM" or "Sun, Oct 5 – Mon, Oct 6"
+ */
+export function formatDeliveryWindow(
+  window: DeliveryWindow,
+  locale: string,
+  labels: { today: string; tomorrow: string }
+): string {
+  const time = (date: Date) =>
+    date.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+  const day = (date: Date) => {
+    if (date.toDateString() === new Date().toDateString()) return labels.today;
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    if (date.toDateString() === tomorrow.toDateString()) return labels.tomorrow;
+    return date.toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+  return window.from.toDateString() === window.to.toDateString()
+    ? `${day(window.from)}, ${time(window.from)} – ${time(window.to)}`
+    : `${day(window.from)} – ${day(window.to)}`;
+}
@@ -233,6 +233,8 @@ export interface TransactionFilters {
   from_date?: string;
   to_date?: string;
   wallet_id?: number;
+  /** Only transactions a COD handover does (true) or does not (false) cover */
+  handed_over?: boolean;
 }
 
 /**
@@ -491,6 +493,7 @@ export async function fetchTransactions(filters?: TransactionFilters): Promise<T
   if (filters?.from_date) params.append('from_date', filters.from_date);
   if (filters?.to_date) params.append('to_date', filters.to_date);
   if (filters?.wallet_id) params.append('wallet_id', filters.wallet_id.toString());
+  if (filters?.handed_over !== undefined) params.append('handed_over', filters.handed_over ? '1' : '0');
 
   const queryString = params.toString();
   const endpoint = `/transactions${queryString ? `?${queryString}` : ''}`;
@@ -537,7 +540,8 @@ export interface CreateAdjustmentRequest {
 /**
  * Create a wallet adjustment (credit or debit)
  * Requires: create-adjustment permission
- * Note: Users cannot create adjustments on their own wallets
+ * Note: Users cannot create adjustments on their own wallets. Amounts above
+ * the approval threshold are refused; use submitAdjustmentRequest instead.
  * @param walletId - The wallet to adjust
  * @param data - Adjustment details (type, amount, description)
  */
@@ -554,6 +558,212 @@ export async function createAdjustment(walletId: number, data: CreateAdjustmentR
   return response.data;
 }
 
+// ============================================
+// Adjustment Approvals (maker-checker)
+// ============================================
+
+/**
+ * Amount above which an adjustment needs a second user's approval.
+ * Adjustments at or below the threshold are applied immediately.
+ */
+export interface AdjustmentApprovalPolicy {
+  /** null when every adjustment is applied immediately */
+  threshold: number | null;
+  updated_at: string | null;
+  updated_by: SettlementUser | null;
+}
+
+/**
+ * Adjustment waiting for, or decided by, an approver
+ */
+export interface AdjustmentRequest {
+  id: number;
+  request_number: string;
+  wallet_id: number;
+  /** Wallet with owner information (when included) */
+  wallet?: Wallet;
+  type: 'credit' | 'debit';
+  amount: number;
+  /** Reason for the adjustment, written to the ledger when approved */
+  description: string;
+  attachment_url: string | null;
+  attachment_name: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  status_label: string;
+  /** Notes the approver left when approving or rejecting */
+  review_notes: string | null;
+  /** Transaction created on approval */
+  transaction_id: number | null;
+  requested_by: SettlementUser | null;
+  reviewed_by: SettlementUser | null;
+  created_at: string;
+  reviewed_at: string | null;
+  /** False for the requester and for decided requests */
+  can_review: boolean;
+}
+
+/**
+ * Adjustment request filter parameters
+ */
+export interface AdjustmentRequestFilters {
+  page?: number;
+  per_page?: number;
+  status?: AdjustmentRequest['status'];
+  wallet_id?: number;
+}
+
+export interface AdjustmentRequestsResponse {
+  data: AdjustmentRequest[];
+  meta: PaginationMeta;
+}
+
+/**
+ * Adjustment submitted for approval
+ */
+export interface SubmitAdjustmentRequest extends CreateAdjustmentRequest {
+  /** Supporting document (receipt, email, screenshot) */
+  attachment?: File | null;
+}
+
+/**
+ * Whether an adjustment of this amount has to go through approval
+ */
+export function requiresAdjustmentApproval(amount: number, policy: AdjustmentApprovalPolicy | null): boolean {
+  return policy?.threshold != null && amount > policy.threshold;
+}
+
+/** Error code the adjustments endpoint returns for amounts that need approval */
+const ADJUSTMENT_APPROVAL_REQUIRED_CODE = 'adjustment_requires_approval';
+
+/**
+ * Whether createAdjustment was refused because the amount needs approval
+ */
+export function isAdjustmentApprovalRequiredError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === ADJUSTMENT_APPROVAL_REQUIRED_CODE;
+}
+
+/**
+ * Fetch the adjustment approval threshold
+ * Requires: create-adjustment or approve-adjustment permission
+ */
+export async function fetchAdjustmentApprovalPolicy(): Promise<AdjustmentApprovalPolicy> {
+  const response = await apiRequest<AdjustmentApprovalPolicy>('/adjustment-requests/policy', {
+    method: 'GET',
+  });
+
+  if (!response.data) {
+    throw new Error('No approval policy returned');
+  }
+
+  return response.data;
+}
+
+/**
+ * Change the adjustment approval threshold
+ * Requires: manage-adjustment-policy permission
+ * @param threshold - New threshold, or null to apply every adjustment immediately
+ */
+export async function updateAdjustmentApprovalPolicy(threshold: number | null): Promise<AdjustmentApprovalPolicy> {
+  const response = await apiRequest<AdjustmentApprovalPolicy>('/adjustment-requests/policy', {
+    method: 'PUT',
+    body: JSON.stringify({ threshold }),
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to update approval policy');
+  }
+
+  return response.data;
+}
+
+/**
+ * Fetch adjustment requests
+ * Requires: approve-adjustment permission
+ */
+export async function fetchAdjustmentRequests(filters?: AdjustmentRequestFilters): Promise<AdjustmentRequestsResponse> {
+  const params = new URLSearchParams();
+
+  if (filters?.page) params.append('page', filters.page.toString());
+  if (filters?.per_page) params.append('per_page', filters.per_page.toString());
+  if (filters?.status) params.append('status', filters.status);
+  if (filters?.wallet_id) params.append('wallet_id', filters.wallet_id.toString());
+  params.append('include', 'wallet.walletable');
+
+  const endpoint = `/adjustment-requests?${params.toString()}`;
+
+  const response = await apiRequest<AdjustmentRequest[]>(endpoint, {
+    method: 'GET',
+  });
+
+  return {
+    data: response.data || [],
+    meta: extractPaginationMeta(response.meta),
+  };
+}
+
+/**
+ * Submit an adjustment above the threshold for approval
+ * Requires: create-adjustment permission
+ * @param walletId - The wallet to adjust
+ * @param data - Adjustment details and optional attachment
+ */
+export async function submitAdjustmentRequest(walletId: number, data: SubmitAdjustmentRequest): Promise<AdjustmentRequest> {
+  const formData = new FormData();
+  formData.append('type', data.type);
+  formData.append('amount', data.amount.toString());
+  formData.append('description', data.description);
+  if (data.attachment) formData.append('attachment', data.attachment);
+
+  const response = await apiRequest<AdjustmentRequest>(`/wallets/${walletId}/adjustment-requests`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to submit adjustment for approval');
+  }
+
+  return response.data;
+}
+
+/**
+ * Approve a pending adjustment request, applying it to the wallet
+ * Requires: approve-adjustment permission; the requester cannot approve their own request
+ * @param id - Adjustment request ID
+ * @param notes - Optional approver notes
+ */
+export async function approveAdjustmentRequest(id: number, notes?: string): Promise<AdjustmentRequest> {
+  const response = await apiRequest<AdjustmentRequest>(`/adjustment-requests/${id}/approve`, {
+    method: 'POST',
+    body: JSON.stringify({ notes }),
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to approve adjustment');
+  }
+
+  return response.data;
+}
+
+/**
+ * Reject a pending adjustment request
+ * Requires: approve-adjustment permission
+ * @param id - Adjustment request ID
+ * @param notes - Why the request was rejected
+ */
+export async function rejectAdjustmentRequest(id: number, notes: string): Promise<AdjustmentRequest> {
+  const response = await apiRequest<AdjustmentRequest>(`/adjustment-requests/${id}/reject`, {
+    method: 'POST',
+    body: JSON.stringify({ notes }),
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to reject adjustment');
+  }
+
+  return response.data;
+}
+
 // ============================================
 // Settlements
 // ============================================
@@ -878,6 +1088,202 @@ export function getSettlementSettlebleRole(settlement: Settlement, locale: strin
   return locale === 'ar' ? role.slug_ar : role.slug_en;
 }
 
+/**
+ * Settlement items in the order their transactions hit the wallet
+ */
+export function getSortedSettlementItems(settlement: Settlement): SettlementItem[] {
+  return [...(settlement.items ?? [])].sort((a, b) => {
+    const aDate = a.transaction?.created_at ?? a.created_at;
+    const bDate = b.transaction?.created_at ?? b.created_at;
+    return aDate.localeCompare(bDate) || a.transaction_id - b.transaction_id;
+  });
+}
+
+/**
+ * Wallet balance before the first transaction of the settlement, and that
+ * balance plus every item. Other transactions may land on the wallet in
+ * between, so the closing figure is not the wallet's balance after the last item.
+ * Null when the items were loaded without their transactions.
+ */
+export function getSettlementBalances(
+  settlement: Settlement
+): { opening: number; closing: number } | null {
+  const items = getSortedSettlementItems(settlement);
+  const first = items.find((item) => !!item.transaction)?.transaction;
+  if (!first) return null;
+
+  const opening = Number(first.balance_after) - Number(first.signed_amount);
+  return {
+    opening,
+    closing: items.reduce((balance, item) => balance + Number(item.amount), opening),
+  };
+}
+
+/**
+ * Settlement details printed on a statement and carried in its QR link
+ */
+export interface PrintedSettlementDetails {
+  settlement_number: string;
+  amount: number;
+  period_from: string;
+  period_to: string;
+}
+
+/**
+ * Link printed as a QR code on settlement statements. It opens the settlement
+ * for finance staff with the printed number, amount and period so they can be
+ * compared with the record. It is not signed, so it only catches printouts
+ * that were altered by hand.
+ */
+export function getSettlementStatementUrl(
+  origin: string,
+  locale: string,
+  settlement: Pick<Settlement, 'id' | 'settlement_number' | 'amount' | 'period_from' | 'period_to'>
+): string {
+  const params = new URLSearchParams({
+    statement: settlement.settlement_number,
+    amount: String(Number(settlement.amount)),
+    from: settlement.period_from.slice(0, 10),
+    to: settlement.period_to.slice(0, 10),
+  });
+  return `${origin}/${locale}/dashboard/finance/settlements/${settlement.id}?${params.toString()}`;
+}
+
+/**
+ * Printed details from a statement link, or null when the page wasn't opened from one
+ */
+export function parsePrintedSettlementDetails(params: URLSearchParams): PrintedSettlementDetails | null {
+  const settlementNumber = params.get('statement');
+  if (!settlementNumber) return null;
+  return {
+    settlement_number: settlementNumber,
+    amount: Number(params.get('amount')),
+    period_from: params.get('from') ?? '',
+    period_to: params.get('to') ?? '',
+  };
+}
+
+/**
+ * Printed details that differ from the settlement on record
+ */
+export function getPrintedSettlementMismatches(
+  settlement: Settlement,
+  printed: PrintedSettlementDetails
+): Array<'number' | 'amount' | 'period'> {
+  const mismatches: Array<'number' | 'amount' | 'period'> = [];
+  if (printed.settlement_number !== settlement.settlement_number) mismatches.push('number');
+  if (!(Math.abs(printed.amount - Number(settlement.amount)) < 0.01)) mismatches.push('amount');
+  if (
+    printed.period_from !== settlement.period_from.slice(0, 10) ||
+    printed.period_to !== settlement.period_to.slice(0, 10)
+  ) {
+    mismatches.push('period');
+  }
+  return mismatches;
+}
+
+// ============================================
+// COD Custody
+// ============================================
+
+/**
+ * Cash an agent handed in at a hub against the COD they collected.
+ * Recording one credits the agent's wallet with the amount received.
+ */
+export interface CodHandover {
+  id: number;
+  handover_number: string;
+  /** The agent's wallet */
+  wallet_id: number;
+  /** The agent who handed the cash in */
+  agent: SettlementUser | null;
+  /** The hub user who received it */
+  received_by: SettlementUser | null;
+  /** Total of the covered cod_collection transactions */
+  expected_amount: number;
+  /** Cash actually counted at the hub */
+  received_amount: number;
+  /** received_amount - expected_amount; negative when the agent handed in less */
+  difference: number;
+  /** cod_collection transactions covered by this handover */
+  transaction_ids: number[];
+  orders: SettlementItemOrder[];
+  notes: string | null;
+  created_at: string;
+}
+
+/**
+ * COD handover filter parameters
+ */
+export interface CodHandoverFilters {
+  page?: number;
+  per_page?: number;
+  wallet_id?: number;
+  from_date?: string;
+  to_date?: string;
+}
+
+export interface CodHandoversResponse {
+  data: CodHandover[];
+  meta: PaginationMeta;
+}
+
+/**
+ * Handover creation request payload
+ */
+export interface CreateCodHandoverRequest {
+  /** cod_collection transactions the cash covers */
+  transaction_ids: number[];
+  received_amount: number;
+  /** Required by the server when the amount differs from the expected total */
+  notes?: string;
+}
+
+/**
+ * Fetch recorded COD handovers
+ * Requires: list-cod-custody permission
+ */
+export async function fetchCodHandovers(filters?: CodHandoverFilters): Promise<CodHandoversResponse> {
+  const params = new URLSearchParams();
+
+  if (filters?.page) params.append('page', filters.page.toString());
+  if (filters?.per_page) params.append('per_page', filters.per_page.toString());
+  if (filters?.wallet_id) params.append('wallet_id', filters.wallet_id.toString());
+  if (filters?.from_date) params.append('from_date', filters.from_date);
+  if (filters?.to_date) params.append('to_date', filters.to_date);
+
+  const queryString = params.toString();
+  const endpoint = `/cod-handovers${queryString ? `?${queryString}` : ''}`;
+
+  const response = await apiRequest<CodHandover[]>(endpoint, {
+    method: 'GET',
+  });
+
+  return {
+    data: response.data || [],
+    meta: extractPaginationMeta(response.meta),
+  };
+}
+
+/**
+ * Record cash an agent handed in at the hub
+ * Requires: record-cod-handover permission
+ * @param walletId - The agent's wallet
+ * @param data - Covered transactions, amount counted and notes
+ */
+export async function createCodHandover(walletId: number, data: CreateCodHandoverRequest): Promise<CodHandover> {
+  const response = await apiRequest<CodHandover>(`/wallets/${walletId}/cod-handovers`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+
+  if (!response.data) {
+    throw new Error(response.message || 'Failed to record handover');
+  }
+
+  return response.data;
+}
+
 // ============================================
 // Helper Functions
 // ============================================
@@ -1016,6 +1422,9 @@ export const TRANSACTION_CATEGORIES = {
   ADJUSTMENT: 'adjustment',
   SETTLEMENT: 'settlement',
   PREPAID_REVENUE: 'prepaid_revenue',
+  REATTEMPT_FEE: 'reattempt_fee',
+  RETURN_FEE: 'return_fee',
+  PREPAID_REVERSAL: 'prepaid_reversal',
 } as const;
 
 export type TransactionCategory = typeof TRANSACTION_CATEGORIES[keyof typeof TRANSACTION_CATEGORIES];
@@ -0,0 +1,45 @@
+export type EmbedTheme = 'auto' | 'light' | 'dark';
+
+export const EMBED_THEMES: EmbedTheme[] = ['auto', 'light', 'dark'];
+
+export interface EmbedOptions {
+  locale: string;
+  theme: EmbedTheme;
+  /** Pre-fill the widget with a tracking number */
+  trackNumber?: string;
+}
+
+/** Default iframe height for the embed snippet, in pixels */
+export const EMBED_DEFAULT_HEIGHT = 420;
+
+/**
+ * Public tracking page URL for a single order, suitable for sharing with customers
+ */
+export function getTrackingUrl(origin: string, locale: string, trackNumber: string): string {
+  return `${origin}/${locale}/track/${encodeURIComponent(trackNumber.trim())}`;
+}
+
+/**
+ * URL of the iframe-friendly tracking widget.
+ * The locale is passed as a query param so one snippet can be switched per storefront language.
+ */
+export function getEmbedUrl(origin: string, options: EmbedOptions): string {
+  const params = new URLSearchParams({ locale: options.locale });
+  if (options.theme !== 'auto') params.set('theme', options.theme);
+  if (options.trackNumber?.trim()) params.set('track', options.trackNumber.trim());
+  return `${origin}/embed/track?${params.toString()}`;
+}
+
+/**
+ * HTML snippet vendors paste into their storefront
+ * @param title - Accessible name of the iframe, already translated
+ */
+export function getEmbedSnippet(
+  origin: string,
+  options: EmbedOptions,
+  title: string,
+  height: number = EMBED_DEFAULT_HEIGHT
+): string {
+  const escapedTitle = title.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  return `<iframe src="${getEmbedUrl(origin, options)}" title="${escapedTitle}" width="100%" height="${height}" style="border:0;max-width:480px" loading="lazy"></iframe>`;
+}
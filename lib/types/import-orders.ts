@@ -2,7 +2,9 @@
  * Types for the Import Orders feature
  */
 
-export type ImportStep = 'upload' | 'preview' | 'submitting';
+import type { CreateOrderRequest } from '@/lib/services/orders';
+
+export type ImportStep = 'upload' | 'mapping' | 'preview' | 'submitting' | 'done';
 
 export const EXPECTED_COLUMNS = [
   'customerName',
@@ -21,6 +23,8 @@ export type ExpectedColumn = (typeof EXPECTED_COLUMNS)[number];
 
 export interface ImportedOrderRow {
   _id: string;
+  /** Spreadsheet row number in the source file (the header is row 1) */
+  _sourceRow: number;
   /** Optional external order reference (e.g. Shopify order name) used to group multi-item orders */
   _orderRef: string;
   customerName: string;
@@ -32,10 +36,179 @@ export interface ImportedOrderRow {
   _governorateId?: number | null;
   /** Resolved city ID from the database (set by resolveLocationIds) */
   _cityId?: number | null;
+  /** Governorate text as imported, before resolveLocationIds replaced it with the DB name */
+  _rawGovernorate?: string;
+  /** Confidence (0–1) of the governorate match; below 1 means it was fuzzy-matched */
+  _governorateConfidence?: number;
+  /** City text as imported, before resolveLocationIds replaced it with the DB name */
+  _rawCity?: string;
+  /** Confidence (0–1) of the city match */
+  _cityConfidence?: number;
   productName: string;
   quantity: number;
   unitPrice: number;
   paymentMethod: string;
   vendorNotes: string;
+  /** Left out of submission by the user in the preview step */
+  _excluded?: boolean;
   _errors: Partial<Record<ExpectedColumn, string>>;
 }
+
+/**
+ * Raw file contents as returned by the parsers, before column mapping
+ */
+export interface ParsedImportFile {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * One source column feeding an expected column
+ */
+export interface ColumnSource {
+  header: string;
+  /** Split the cell on `delimiter` and keep only the part at `index` */
+  split?: { delimiter: string; index: number };
+}
+
+/**
+ * How an expected column is filled from the source columns.
+ * `first` takes the first non-empty source (e.g. Shipping Phone, then Billing Phone),
+ * `join` concatenates every non-empty source with `separator` (e.g. first + last name).
+ */
+export interface ColumnMappingRule {
+  sources: ColumnSource[];
+  combine: 'first' | 'join';
+  separator: string;
+}
+
+export type ColumnMapping = Partial<Record<ExpectedColumn, ColumnMappingRule>>;
+
+/**
+ * A named, saved column mapping, scoped to a vendor
+ */
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  /** Headers of the file the profile was saved from, used to detect matching files */
+  headers: string[];
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Chunked submission
+// ---------------------------------------------------------------------------
+
+/**
+ * running: being submitted (or interrupted by a reload, so resumable)
+ * paused: stopped after a chunk kept failing, resumable
+ */
+export type ImportJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export type ImportOrderOutcome = 'pending' | 'created' | 'skipped_duplicate' | 'failed';
+
+/**
+ * What the user chose when the pre-check flagged possible duplicates
+ * ('none' when nothing was flagged)
+ */
+export type ImportDuplicateDecision = 'none' | 'approved' | 'skipped';
+
+/**
+ * What happened to one order of an import. This is all the server keeps per
+ * order; the customer data stays in the browser's IndexedDB.
+ */
+export interface ImportResultRow {
+  /** Source file rows the order was built from (several for multi-item orders) */
+  sourceRows: number[];
+  outcome: ImportOrderOutcome;
+  orderId?: number;
+  orderNumber?: string;
+  message?: string;
+}
+
+/**
+ * One order of an import job and what happened to it
+ */
+export interface ImportJobOrder extends ImportResultRow {
+  payload: CreateOrderRequest;
+  /** Set before the order is first sent, so a resumed job knows it may already exist */
+  attempted?: boolean;
+}
+
+export interface ImportJobCounts {
+  total: number;
+  created: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * An import submitted in chunks, persisted in IndexedDB so it survives a reload.
+ * A summary of it (see ImportSummary) is synced to the server as the audit record.
+ */
+export interface ImportJob {
+  /** Key on this browser */
+  id: string;
+  /** Id of the server record, once it has been created */
+  serverId: number | null;
+  /** Vendor/user the job belongs to */
+  ownerKey: string;
+  fileName: string;
+  status: ImportJobStatus;
+  duplicateDecision: ImportDuplicateDecision;
+  /** Orders the pre-check flagged as possible duplicates */
+  duplicateWarningCount: number;
+  orders: ImportJobOrder[];
+  /** The last sync to the server failed, so the server record is behind */
+  syncFailed?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What is sent to the server for a job: everything but the order payloads
+ */
+export interface ImportSummary {
+  fileName: string;
+  status: ImportJobStatus;
+  duplicateDecision: ImportDuplicateDecision;
+  duplicateWarningCount: number;
+  counts: ImportJobCounts;
+  rows: ImportResultRow[];
+}
+
+/**
+ * The server's record of an import. The user who ran it is taken from the
+ * session that created it. Lists leave out the rows; they are loaded per record.
+ */
+export interface ImportRecord extends Omit<ImportSummary, 'rows'> {
+  id: number;
+  /** User who ran the import */
+  createdBy: { id: number; name: string } | null;
+  rows?: ImportResultRow[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * An import in the history list
+ */
+export interface ImportHistoryEntry extends Omit<ImportRecord, 'id' | 'rows'> {
+  /** Server record id; null when it hasn't been created yet */
+  id: number | null;
+  /** Job key when the import was run on this browser */
+  localId: string | null;
+  /** Shown from this browser's copy because the server record is behind */
+  syncFailed: boolean;
+}
+
+/**
+ * What the results file is built from. A job run on this browser still has
+ * the customer data; a record from the server only has the outcomes.
+ */
+export interface ImportReport {
+  fileName: string;
+  orders: Array<ImportResultRow & { payload?: CreateOrderRequest }>;
+}
@@ -0,0 +1,47 @@
+/**
+ * Types for offline mode (cached assigned orders and the action outbox)
+ */
+
+import type {
+  DeliveryFailureReason,
+  Order,
+  OrderScanAction,
+  ScanOrderRequest,
+} from '@/lib/services/orders';
+
+/**
+ * An order action that can be recorded offline and sent later
+ */
+export type OutboxAction =
+  | { type: 'fail_delivery'; reason: string; reasonCode?: DeliveryFailureReason }
+  | { type: 'scan'; action: OrderScanAction; payload: ScanOrderRequest };
+
+/**
+ * pending: waiting to be sent
+ * conflict: the server rejected it (e.g. the order was reassigned); kept until dismissed
+ */
+export type OutboxEntryStatus = 'pending' | 'conflict';
+
+export interface OutboxEntry {
+  /** Auto-incremented by IndexedDB; replay follows this order */
+  id: number;
+  ownerKey: string;
+  orderId: number;
+  orderNumber: string;
+  action: OutboxAction;
+  createdAt: string;
+  status: OutboxEntryStatus;
+  /** Server message for a conflict */
+  error?: string;
+  /** Earlier entry for the same order whose conflict kept this one from being sent */
+  blockedBy?: number;
+}
+
+/**
+ * Last successful fetch of the agent's assigned orders
+ */
+export interface AssignedOrdersSnapshot {
+  ownerKey: string;
+  orders: Order[];
+  savedAt: string;
+}
@@ -29,3 +29,17 @@ export function getUserAvatarGradient(userId: number | string): { from: string;
   const id = typeof userId === 'string' ? parseInt(userId, 10) || 0 : userId;
   return AVATAR_GRADIENTS[id % AVATAR_GRADIENTS.length];
 }
+
+/**
+ * Trigger a browser download for a generated file
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -26,6 +26,11 @@ function isLoginRoute(pathname: string): boolean {
   return pathWithoutLocale === '/login' || pathWithoutLocale.startsWith('/login');
 }
 
+// Check if path is an embed route without a locale prefix (e.g., /embed/track?locale=ar)
+function isUnprefixedEmbedRoute(pathname: string): boolean {
+  return pathname === '/embed' || pathname.startsWith('/embed/');
+}
+
 // Check if path is a dashboard route
 function isDashboardRoute(pathname: string): boolean {
   return pathname.includes('/dashboard');
@@ -41,6 +46,16 @@ export default function middleware(request: NextRequest) {
   const localeMatch = pathname.match(/^\/(en|ar)/);
   const locale = localeMatch ? localeMatch[1] : 'en';
 
+  // Embed snippets pass the locale as a query param; move it into the path
+  if (isUnprefixedEmbedRoute(pathname)) {
+    const requestedLocale = request.nextUrl.searchParams.get('locale');
+    const embedLocale = routing.locales.find((l) => l === requestedLocale) || routing.defaultLocale;
+    const embedUrl = request.nextUrl.clone();
+    embedUrl.pathname = `/${embedLocale}${pathname}`;
+    embedUrl.searchParams.delete('locale');
+    return NextResponse.redirect(embedUrl);
+  }
+
   // If accessing dashboard without token, redirect to login
   if (isDashboardRoute(pathname) && !token) {
     const loginUrl = new URL(`/${locale}/login`, request.url);
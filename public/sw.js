@@ -0,0 +1,95 @@
+/**
+ * Service worker for the dashboard PWA.
+ *
+ * Keeps the app shell available offline: hashed build assets are served
+ * cache-first, pages (and their RSC payloads for client navigation) are
+ * network-first with the last good copy as fallback. API data is not cached
+ * here; assigned orders and queued actions live in IndexedDB (lib/offline).
+ */
+
+const VERSION = 'v1';
+const STATIC_CACHE = `static-${VERSION}`;
+const PAGES_CACHE = `pages-${VERSION}`;
+const OFFLINE_URL = '/offline.html';
+
+const PRECACHE_URLS = [
+  OFFLINE_URL,
+  '/manifest.webmanifest',
+  '/rahwan-favicon.png',
+  '/icons/icon-192.png',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(STATIC_CACHE).then((cache) => cache.addAll(PRECACHE_URLS)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== STATIC_CACHE && key !== PAGES_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(STATIC_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, isNavigation) {
+  try {
+    const response = await fetch(request);
+    // Redirects (e.g. to login) are not worth keeping as an offline copy
+    if (response.ok && !response.redirected) {
+      const cache = await caches.open(PAGES_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    // RSC payload URLs carry a cache-busting param; any copy of the route will do
+    const cached =
+      (await caches.match(request)) || (await caches.match(request, { ignoreSearch: true }));
+    if (cached) return cached;
+    if (isNavigation) {
+      const offline = await caches.match(OFFLINE_URL);
+      if (offline) return offline;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  // Backend API calls are cross-origin and handled by the app itself
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  const isNavigation = request.mode === 'navigate';
+  const isRscRequest = request.headers.get('RSC') === '1';
+  if (isNavigation || isRscRequest) {
+    event.respondWith(networkFirst(request, isNavigation));
+  }
+});
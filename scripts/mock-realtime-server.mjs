@@ -0,0 +1,94 @@
+/**
+ * Mock realtime stream for local development.
+ *
+ *   npm run mock:realtime            # SSE stream on http://localhost:4001/stream
+ *   npm run mock:realtime -- --demo  # also emit a fake order update every 10s
+ *
+ * Point the app at it with NEXT_PUBLIC_REALTIME_URL=http://localhost:4001/stream,
+ * then push events by hand:
+ *
+ *   curl -X POST localhost:4001/emit -H 'Content-Type: application/json' \
+ *     -d '{"type":"order.status_changed","data":{"order_id":1,"status":"delivered"}}'
+ *
+ * Stop the server (Ctrl+C) to exercise the app's polling fallback and reconnects.
+ */
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_REALTIME_PORT || 4001);
+const DEMO = process.argv.includes("--demo");
+const KEEP_ALIVE_INTERVAL = 15 * 1000;
+const DEMO_INTERVAL = 10 * 1000;
+
+const clients = new Set();
+
+function broadcast(event) {
+  const frame = `data: ${JSON.stringify(event)}\n\n`;
+  for (const res of clients) res.write(frame);
+  console.log(`→ ${event.type} to ${clients.size} client(s)`);
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  if (req.method === "GET" && url.pathname === "/stream") {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+    clients.add(res);
+    console.log(`+ client (token ${url.searchParams.has("token") ? "present" : "missing"})`);
+    req.on("close", () => {
+      clients.delete(res);
+      console.log("- client");
+    });
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/emit") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const event = JSON.parse(body);
+        if (typeof event.type !== "string") throw new Error("missing type");
+        broadcast({ type: event.type, data: event.data ?? {} });
+        res.writeHead(202).end();
+      } catch (error) {
+        res.writeHead(400, { "Content-Type": "text/plain" }).end(String(error));
+      }
+    });
+    return;
+  }
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Methods": "GET, POST",
+      "Access-Control-Allow-Headers": "Content-Type",
+    }).end();
+    return;
+  }
+
+  res.writeHead(404).end();
+});
+
+setInterval(() => {
+  for (const res of clients) res.write(": ping\n\n");
+}, KEEP_ALIVE_INTERVAL);
+
+if (DEMO) {
+  const statuses = ["accepted", "in_inventory", "out_for_delivery", "delivered"];
+  let tick = 0;
+  setInterval(() => {
+    broadcast({
+      type: "order.status_changed",
+      data: { order_id: 1, status: statuses[tick++ % statuses.length] },
+    });
+  }, DEMO_INTERVAL);
+}
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime stream on http://localhost:${PORT}/stream`);
+});